@@ -136,6 +136,8 @@ async function main() {
     "settings:access",
     "analytics:access",
     "attendees:read",
+    "attendees:create",
+    "attendees:update",
     "roles:read",
     "events:read",
     "events:edit",
@@ -0,0 +1,211 @@
+// Local stand-in for the Safaricom Daraja API so the M-Pesa checkout can be exercised offline.
+//
+//   npm run mpesa:stub
+//   MPESA_BASE_URL=http://localhost:4010 npm run dev
+//
+// The customer's answer to the STK prompt is decided by the last digits of the phone number:
+//   ...0000 cancels the request (1032), ...1111 has insufficient funds (1), ...2222 never answers (1037),
+//   anything else pays successfully. DARAJA_STUB_RESULT_CODE forces a result code for every request.
+// Reversals succeed unless DARAJA_STUB_REVERSAL_RESULT_CODE says otherwise.
+
+import { createServer, type IncomingMessage, type ServerResponse } from "http"
+import { randomBytes } from "crypto"
+
+const PORT = Number(process.env.DARAJA_STUB_PORT || 4010)
+const CALLBACK_DELAY = Number(process.env.DARAJA_STUB_CALLBACK_DELAY_MS || 3000)
+const ACCESS_TOKEN = "daraja-stub-token"
+
+interface StkRequest {
+  checkoutRequestId: string
+  merchantRequestId: string
+  amount: number
+  phone: string
+  callbackUrl: string
+  resultCode?: number
+}
+
+const RESULT_DESCRIPTIONS: Record<number, string> = {
+  0: "The service request is processed successfully.",
+  1: "The balance is insufficient for the transaction.",
+  1032: "Request cancelled by user",
+  1037: "DS timeout user cannot be reached",
+}
+
+const requests = new Map<string, StkRequest>()
+
+function id(prefix: string) {
+  return `${prefix}${Date.now()}${randomBytes(4).toString("hex")}`
+}
+
+function resultCodeFor(phone: string) {
+  if (process.env.DARAJA_STUB_RESULT_CODE) return Number(process.env.DARAJA_STUB_RESULT_CODE)
+  if (phone.endsWith("0000")) return 1032
+  if (phone.endsWith("1111")) return 1
+  if (phone.endsWith("2222")) return 1037
+  return 0
+}
+
+function send(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" })
+  res.end(JSON.stringify(body))
+}
+
+async function readJson(req: IncomingMessage) {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk as Buffer)
+  return JSON.parse(Buffer.concat(chunks).toString() || "{}")
+}
+
+async function sendCallback(request: StkRequest) {
+  const resultCode = resultCodeFor(request.phone)
+
+  // A customer that cannot be reached never produces a callback, only the query reports the timeout
+  if (resultCode === 1037) {
+    setTimeout(() => (request.resultCode = resultCode), CALLBACK_DELAY * 2)
+    return
+  }
+
+  request.resultCode = resultCode
+
+  const stkCallback = {
+    MerchantRequestID: request.merchantRequestId,
+    CheckoutRequestID: request.checkoutRequestId,
+    ResultCode: resultCode,
+    ResultDesc: RESULT_DESCRIPTIONS[resultCode] || "The transaction failed.",
+    ...(resultCode === 0
+      ? {
+          CallbackMetadata: {
+            Item: [
+              { Name: "Amount", Value: request.amount },
+              { Name: "MpesaReceiptNumber", Value: id("STB").slice(0, 10).toUpperCase() },
+              { Name: "TransactionDate", Value: Number(new Date().toISOString().replace(/\D/g, "").slice(0, 14)) },
+              { Name: "PhoneNumber", Value: Number(request.phone) },
+            ],
+          },
+        }
+      : {}),
+  }
+
+  try {
+    const response = await fetch(request.callbackUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ Body: { stkCallback } }),
+    })
+    console.log(`Callback for ${request.checkoutRequestId} (ResultCode ${resultCode}) -> ${response.status}`)
+  } catch (error) {
+    console.error(`Callback for ${request.checkoutRequestId} failed:`, error)
+  }
+}
+
+async function sendReversalResult(resultUrl: string, conversationId: string, transactionId: string) {
+  const resultCode = Number(process.env.DARAJA_STUB_REVERSAL_RESULT_CODE || 0)
+  const Result = {
+    ResultType: 0,
+    ResultCode: resultCode,
+    ResultDesc: resultCode === 0 ? "The service request is processed successfully." : "The transaction failed.",
+    OriginatorConversationID: id("stub-"),
+    ConversationID: conversationId,
+    TransactionID: transactionId,
+  }
+
+  try {
+    const response = await fetch(resultUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ Result }),
+    })
+    console.log(`Reversal result for ${conversationId} (ResultCode ${resultCode}) -> ${response.status}`)
+  } catch (error) {
+    console.error(`Reversal result for ${conversationId} failed:`, error)
+  }
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`)
+
+  if (req.method === "GET" && url.pathname === "/oauth/v1/generate") {
+    if (!req.headers.authorization?.startsWith("Basic ")) {
+      return send(res, 400, { errorCode: "400.008.01", errorMessage: "Invalid Authentication passed" })
+    }
+    return send(res, 200, { access_token: ACCESS_TOKEN, expires_in: "3599" })
+  }
+
+  if (req.headers.authorization !== `Bearer ${ACCESS_TOKEN}`) {
+    return send(res, 404, { errorCode: "404.001.03", errorMessage: "Invalid Access Token" })
+  }
+
+  if (req.method === "POST" && url.pathname === "/mpesa/stkpush/v1/processrequest") {
+    const body = await readJson(req)
+
+    if (!body.BusinessShortCode || !body.Password || !body.PhoneNumber || !body.CallBackURL || !(body.Amount >= 1)) {
+      return send(res, 400, { errorCode: "400.002.02", errorMessage: "Bad Request - Invalid request payload" })
+    }
+
+    const request: StkRequest = {
+      checkoutRequestId: id("ws_CO_"),
+      merchantRequestId: id("stub-"),
+      amount: body.Amount,
+      phone: String(body.PhoneNumber),
+      callbackUrl: body.CallBackURL,
+    }
+    requests.set(request.checkoutRequestId, request)
+    setTimeout(() => sendCallback(request), CALLBACK_DELAY)
+
+    console.log(`STK push ${request.checkoutRequestId}: KES ${request.amount} from ${request.phone}`)
+    return send(res, 200, {
+      MerchantRequestID: request.merchantRequestId,
+      CheckoutRequestID: request.checkoutRequestId,
+      ResponseCode: "0",
+      ResponseDescription: "Success. Request accepted for processing",
+      CustomerMessage: "Success. Request accepted for processing",
+    })
+  }
+
+  if (req.method === "POST" && url.pathname === "/mpesa/stkpushquery/v1/query") {
+    const body = await readJson(req)
+    const request = requests.get(body.CheckoutRequestID)
+
+    if (!request) {
+      return send(res, 400, { errorCode: "400.002.02", errorMessage: "Bad Request - Invalid CheckoutRequestID" })
+    }
+
+    if (request.resultCode === undefined) {
+      return send(res, 500, { errorCode: "500.001.1001", errorMessage: "The transaction is being processed" })
+    }
+
+    return send(res, 200, {
+      ResponseCode: "0",
+      ResponseDescription: "The service request has been accepted successsfully",
+      MerchantRequestID: request.merchantRequestId,
+      CheckoutRequestID: request.checkoutRequestId,
+      ResultCode: String(request.resultCode),
+      ResultDesc: RESULT_DESCRIPTIONS[request.resultCode] || "The transaction failed.",
+    })
+  }
+
+  if (req.method === "POST" && url.pathname === "/mpesa/reversal/v1/request") {
+    const body = await readJson(req)
+    const conversationId = id("AG_")
+    setTimeout(() => sendReversalResult(body.ResultURL, conversationId, body.TransactionID), CALLBACK_DELAY)
+
+    console.log(`Reversal of ${body.TransactionID}: KES ${body.Amount}`)
+    return send(res, 200, {
+      OriginatorConversationID: id("stub-"),
+      ConversationID: conversationId,
+      ResponseCode: "0",
+      ResponseDescription: "Accept the service request successfully.",
+    })
+  }
+
+  send(res, 404, { errorCode: "404.001.01", errorMessage: "Resource not found" })
+}
+
+createServer((req, res) => {
+  handle(req, res).catch((error) => {
+    console.error("Stub error:", error)
+    send(res, 500, { errorMessage: "Stub error" })
+  })
+}).listen(PORT, () => {
+  console.log(`Daraja stub listening on http://localhost:${PORT}`)
+})
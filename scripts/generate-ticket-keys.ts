@@ -0,0 +1,20 @@
+// Creates the key pair used to sign the QR codes on tickets.
+//
+//   npm run tickets:keys >> .env
+//
+// Replacing the keys invalidates every ticket already sent out, so only do it once per deployment
+// or when the private key has leaked.
+
+import { generateTicketSigningKeys } from "../src/lib/ticket-generator/ticket-token"
+
+async function main() {
+  const { privateKey, publicKey } = await generateTicketSigningKeys()
+
+  console.log(`TICKET_SIGNING_PRIVATE_KEY="${privateKey}"`)
+  console.log(`NEXT_PUBLIC_TICKET_SIGNING_PUBLIC_KEY="${publicKey}"`)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
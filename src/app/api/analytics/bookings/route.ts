@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { getAnalyticsScope, getBookingsOverTime, parseAnalyticsRange } from "@/lib/analytics/analytics-service"
+
+// Bookings, tickets and revenue for each of the last ?days= days
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const hasAnalyticsPermission = await checkPermission("analytics:access")
+
+    if (!hasAnalyticsPermission) {
+      return NextResponse.json({ message: "Forbidden" }, { status: 403 })
+    }
+
+    const { range, error } = parseAnalyticsRange(new URL(request.url).searchParams)
+
+    if (!range) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    const scope = await getAnalyticsScope(session.user.id)
+    const days = await getBookingsOverTime(scope, range)
+
+    return NextResponse.json({ days })
+  } catch (error) {
+    console.error("Error fetching bookings over time:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { getAnalyticsScope, getEventSellThrough } from "@/lib/analytics/analytics-service"
+
+// Tickets sold against capacity for the next events to happen
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const hasAnalyticsPermission = await checkPermission("analytics:access")
+
+    if (!hasAnalyticsPermission) {
+      return NextResponse.json({ message: "Forbidden" }, { status: 403 })
+    }
+
+    const scope = await getAnalyticsScope(session.user.id)
+    const events = await getEventSellThrough(scope)
+
+    return NextResponse.json({ events })
+  } catch (error) {
+    console.error("Error fetching sell-through:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
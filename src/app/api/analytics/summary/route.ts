@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { getAnalyticsScope, getAnalyticsSummary, parseAnalyticsRange } from "@/lib/analytics/analytics-service"
+
+// Revenue, bookings, tickets sold and counts for the last ?days= days, across the platform for admins
+// and across their own events for organizers
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const hasAnalyticsPermission = await checkPermission("analytics:access")
+
+    if (!hasAnalyticsPermission) {
+      return NextResponse.json({ message: "Forbidden" }, { status: 403 })
+    }
+
+    const { range, error } = parseAnalyticsRange(new URL(request.url).searchParams)
+
+    if (!range) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    const scope = await getAnalyticsScope(session.user.id)
+    const summary = await getAnalyticsSummary(scope, range)
+
+    return NextResponse.json({ summary, isPlatform: scope.isPlatform })
+  } catch (error) {
+    console.error("Error fetching analytics summary:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
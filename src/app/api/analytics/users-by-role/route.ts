@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { getAnalyticsScope, getUsersByRole } from "@/lib/analytics/analytics-service"
+
+// How many users hold each role. Only admins see platform-wide figures like this.
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const hasAnalyticsPermission = await checkPermission("analytics:access")
+    const scope = await getAnalyticsScope(session.user.id)
+
+    if (!hasAnalyticsPermission || !scope.isPlatform) {
+      return NextResponse.json({ message: "Forbidden" }, { status: 403 })
+    }
+
+    const roles = await getUsersByRole()
+
+    return NextResponse.json({ roles })
+  } catch (error) {
+    console.error("Error fetching users by role:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { getRefundableBooking, quoteRefund } from "@/lib/bookings/refund-service"
+import { DEFAULT_REFUND_POLICY } from "@/lib/bookings/refund-policy"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Get a booking's refund history and what can still be refunded
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(request.url).pathname.split("/")
+    const id = segments[segments.length - 2]
+
+    if (!isObjectId(id)) {
+      return NextResponse.json({ message: "Invalid booking ID" }, { status: 400 })
+    }
+
+    const booking = await getRefundableBooking(id)
+
+    if (!booking) {
+      return NextResponse.json({ message: "Booking not found" }, { status: 404 })
+    }
+
+    const event = await prisma.event.findUniqueOrThrow({
+      where: { id: booking.eventId },
+      select: { creatorId: true },
+    })
+
+    const isStaff = event.creatorId === session.user.id || (await checkPermission("admin:access"))
+
+    if (!isStaff && booking.userId !== session.user.id) {
+      return NextResponse.json({ message: "You don't have permission to view this booking" }, { status: 403 })
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: { bookingId: booking.id },
+      orderBy: { createdAt: "desc" },
+    })
+
+    const quote = quoteRefund(booking)
+
+    return NextResponse.json({
+      refunds,
+      policy: booking.event.refundPolicy ?? DEFAULT_REFUND_POLICY,
+      eventStartDate: booking.event.startDate,
+      percentage: quote.percentage,
+      refundable: quote.refundable,
+      amount: quote.amount,
+      refundableTicketIds: quote.tickets.map((ticket) => ticket.id),
+      isStaff,
+    })
+  } catch (error) {
+    console.error("Error fetching refunds:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -3,6 +3,9 @@ import { PrismaClient } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth/auth"
 import { checkPermission } from "@/lib/auth/permissions"
+import { refundBooking, RefundError } from "@/lib/bookings/refund-service"
+import { BookingError, cancelBooking } from "@/lib/bookings/booking-service"
+import { isObjectId } from "@/lib/object-id"
 
 const prisma = new PrismaClient()
 
@@ -18,7 +21,7 @@ export async function GET(request: Request) {
     const { pathname } = new URL(request.url);
     const id = pathname.split("/").pop();
 
-    if (!id) {
+    if (!isObjectId(id)) {
       return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
     }
 
@@ -82,7 +85,7 @@ export async function GET(request: Request) {
   }
 }
 
-// Cancel a booking
+// Cancel or refund a booking
 export async function PUT(request: Request) {
   try {
     const session = await getServerSession(authOptions)
@@ -94,25 +97,22 @@ export async function PUT(request: Request) {
     const { pathname } = new URL(request.url);
     const id = pathname.split("/").pop();
 
-    if (!id) {
+    if (!isObjectId(id)) {
       return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
     }
-    const { action } = await request.json()
+    const data = await request.json()
 
-    if (action !== "cancel") {
+    if (data.action === "refund") {
+      return handleRefund(id, session.user.id, data)
+    }
+
+    if (data.action !== "cancel") {
       return NextResponse.json({ message: "Invalid action" }, { status: 400 })
     }
 
-    // Check if booking exists
     const booking = await prisma.booking.findUnique({
       where: { id },
-      include: {
-        tickets: {
-          include: {
-            ticketType: true,
-          },
-        },
-      },
+      select: { userId: true },
     })
 
     if (!booking) {
@@ -132,49 +132,76 @@ export async function PUT(request: Request) {
       )
     }
 
-    // Check if booking is already cancelled
-    if (booking.status === "CANCELLED") {
-      return NextResponse.json({ message: "Booking is already cancelled" }, { status: 400 })
-    }
-
     // Cancel the booking and restore ticket availability
-    const updatedBooking = await prisma.$transaction(async (tx) => {
-      // Update booking status
-      const updated = await tx.booking.update({
-        where: { id },
-        data: {
-          status: "CANCELLED",
-        },
-      })
-
-      // Restore ticket availability for each ticket type
-      const ticketTypeCounts = booking.tickets.reduce((acc: Record<string, number>, ticket) => {
-        const typeId = ticket.ticketType.id
-        acc[typeId] = (acc[typeId] || 0) + 1
-        return acc
-      }, {})
-
-      for (const [typeId, count] of Object.entries(ticketTypeCounts)) {
-        await tx.ticketType.update({
-          where: { id: typeId },
-          data: {
-            remaining: {
-              increment: count,
-            },
-          },
-        })
-      }
-
-      return updated
-    })
+    const updatedBooking = await cancelBooking(id)
 
     return NextResponse.json({
       message: "Booking cancelled successfully",
       booking: updatedBooking,
     })
   } catch (error) {
+    if (error instanceof BookingError) {
+      return NextResponse.json({ message: error.message }, { status: error.status })
+    }
     console.error("Error cancelling booking:", error)
     return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
   }
 }
 
+async function handleRefund(
+  bookingId: string,
+  userId: string,
+  data: { scope?: string; ticketIds?: string[]; amount?: number | string; reason?: string },
+) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: {
+      userId: true,
+      event: {
+        select: {
+          creatorId: true,
+        },
+      },
+    },
+  })
+
+  if (!booking) {
+    return NextResponse.json({ message: "Booking not found" }, { status: 404 })
+  }
+
+  // Organisers and admins can refund anything; attendees are bound by the event's refund policy
+  const isStaff = booking.event.creatorId === userId || (await checkPermission("admin:access"))
+
+  if (!isStaff && booking.userId !== userId) {
+    return NextResponse.json({ message: "You don't have permission to refund this booking" }, { status: 403 })
+  }
+
+  const scope = data.scope || "booking"
+
+  if (scope !== "booking" && scope !== "tickets" && scope !== "amount") {
+    return NextResponse.json({ message: "Invalid refund scope" }, { status: 400 })
+  }
+
+  try {
+    const result = await refundBooking({
+      bookingId,
+      scope,
+      ticketIds: Array.isArray(data.ticketIds) ? data.ticketIds : undefined,
+      amount: data.amount === undefined || data.amount === "" ? undefined : Number(data.amount),
+      reason: data.reason,
+      requestedById: userId,
+      enforcePolicy: !isStaff,
+    })
+
+    return NextResponse.json({
+      message: result.refund.status === "PENDING" ? "Refund requested" : "Booking refunded successfully",
+      ...result,
+    })
+  } catch (error) {
+    if (error instanceof RefundError) {
+      return NextResponse.json({ message: error.message }, { status: error.status })
+    }
+    console.error("Error refunding booking:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,128 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import {
+  getBookingConsoleScope,
+  getBookingConsoleWhere,
+  parseBookingConsoleFilters,
+  parseBulkBookingAction,
+  runBulkBookingAction,
+} from "@/lib/bookings/booking-console"
+import { parsePagination, parseSort, toOrderBy } from "@/lib/pagination"
+
+const prisma = new PrismaClient()
+
+// Fields the console can be sorted by
+const BOOKING_SORT_FIELDS = ["createdAt", "totalAmount"] as const
+
+const BULK_ACTION_MESSAGES = {
+  resend: "Tickets resent",
+  cancel: "Bookings cancelled",
+  refund: "Bookings refunded",
+  markPaid: "Bookings marked as paid",
+}
+
+// Search every booking for the events the user manages, a page at a time, with the events to filter by
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const scope = await getBookingConsoleScope(session.user.id)
+
+    if (!scope) {
+      return NextResponse.json({ message: "You don't have permission to manage bookings" }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { pagination, error: paginationError } = parsePagination(searchParams)
+    const { sort, error: sortError } = parseSort(searchParams, BOOKING_SORT_FIELDS, { field: "createdAt", order: "desc" })
+    const { filters, error: filtersError } = parseBookingConsoleFilters(searchParams)
+
+    if (!pagination || !sort || !filters) {
+      return NextResponse.json({ message: paginationError ?? sortError ?? filtersError }, { status: 400 })
+    }
+
+    const where = getBookingConsoleWhere(scope, filters)
+
+    const [bookings, totalCount, events] = await Promise.all([
+      prisma.booking.findMany({
+        where,
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          phone: true,
+          totalAmount: true,
+          refundedAmount: true,
+          status: true,
+          paymentId: true,
+          paymentProvider: true,
+          paymentReference: true,
+          issuedById: true,
+          createdAt: true,
+          event: {
+            select: {
+              id: true,
+              name: true,
+              startDate: true,
+            },
+          },
+          _count: { select: { tickets: true } },
+        },
+        orderBy: toOrderBy(sort),
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      prisma.booking.count({ where }),
+      prisma.event.findMany({
+        where: scope,
+        select: { id: true, name: true },
+        orderBy: { startDate: "desc" },
+      }),
+    ])
+
+    return NextResponse.json({ bookings, totalCount, page: pagination.page, pageSize: pagination.pageSize, events })
+  } catch (error) {
+    console.error("Error fetching bookings:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
+
+// Resend tickets for, cancel, refund or mark as paid the selected bookings. Each booking's outcome is
+// returned, so the ones that couldn't be changed can be shown with the reason.
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const scope = await getBookingConsoleScope(session.user.id)
+
+    if (!scope) {
+      return NextResponse.json({ message: "You don't have permission to manage bookings" }, { status: 403 })
+    }
+
+    const { request: bulkRequest, error } = parseBulkBookingAction(await request.json())
+
+    if (!bulkRequest) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    const result = await runBulkBookingAction(scope, { ...bulkRequest, userId: session.user.id })
+
+    return NextResponse.json({
+      message: `${BULK_ACTION_MESSAGES[bulkRequest.action]}: ${result.succeeded} of ${bulkRequest.bookingIds.length}`,
+      ...result,
+    })
+  } catch (error) {
+    console.error("Error updating bookings:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
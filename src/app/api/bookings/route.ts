@@ -2,21 +2,26 @@ import { NextResponse } from "next/server"
 import { PrismaClient } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth/auth"
-import { nanoid } from "nanoid"
-import { format } from "date-fns"
-import { sendEmail, generateQRCode, getTicketConfirmationEmailTemplate,generateQRCodeBuffer } from "@/lib/email/email"
+import { getPaymentProvider, PAYMENT_CURRENCY } from "@/lib/payments/payments"
+import { confirmBooking, failBooking, settlePayment } from "@/lib/bookings/booking-service"
+import {
+  createBookingFromHold,
+  createHold,
+  HoldError,
+  releaseExpiredHolds,
+} from "@/lib/bookings/hold-service"
+import { PromoCodeError } from "@/lib/bookings/promo-codes"
+import { parsePagination, parseSort, toOrderBy } from "@/lib/pagination"
+import { isObjectId } from "@/lib/object-id"
 
 const prisma = new PrismaClient()
 
-interface TicketItem {
-  ticketTypeId: string;
-  quantity: number;
-  price: number;
-  name: string;
-}
+// Fields the bookings listing can be sorted by
+const BOOKING_SORT_FIELDS = ["createdAt", "totalAmount"] as const
 
-// Get all bookings for the current user
-export async function GET() {
+// Get the current user's bookings, a page at a time. ?scope=upcoming or ?scope=past narrows them by
+// when the event starts.
+export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions)
 
@@ -24,31 +29,49 @@ export async function GET() {
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
     }
 
-    const bookings = await prisma.booking.findMany({
-      where: { userId: session.user.id },
-      include: {
-        event: {
-          select: {
-            id: true,
-            name: true,
-            startDate: true,
-            endDate: true,
-            location: true,
-            imageUrl: true,
+    const { searchParams } = new URL(request.url)
+    const { pagination, error: paginationError } = parsePagination(searchParams)
+    const { sort, error: sortError } = parseSort(searchParams, BOOKING_SORT_FIELDS, { field: "createdAt", order: "desc" })
+
+    if (!pagination || !sort) {
+      return NextResponse.json({ message: paginationError ?? sortError }, { status: 400 })
+    }
+
+    const scope = searchParams.get("scope")
+    const where = {
+      userId: session.user.id,
+      ...(scope === "upcoming" && { event: { startDate: { gt: new Date() } } }),
+      ...(scope === "past" && { event: { startDate: { lte: new Date() } } }),
+    }
+
+    const [bookings, totalCount] = await Promise.all([
+      prisma.booking.findMany({
+        where,
+        include: {
+          event: {
+            select: {
+              id: true,
+              name: true,
+              startDate: true,
+              endDate: true,
+              location: true,
+              imageUrl: true,
+            },
           },
-        },
-        tickets: {
-          include: {
-            ticketType: true,
+          tickets: {
+            include: {
+              ticketType: true,
+            },
           },
         },
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
-    })
-
-    return NextResponse.json({ bookings })
+        orderBy: toOrderBy(sort),
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      prisma.booking.count({ where }),
+    ])
+
+    return NextResponse.json({ bookings, totalCount, page: pagination.page, pageSize: pagination.pageSize })
   } catch (error) {
     console.error("Error fetching bookings:", error)
     return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
@@ -60,14 +83,14 @@ export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions)
     const userId = session?.user?.id
-    if (!session?.user?.id) {
+    if (!userId) {
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
     }
 
     const data = await request.json()
 
     // Validate required fields
-    if (!data.eventId || !data.name || !data.email || !data.phone || !data.tickets || data.tickets.length === 0) {
+    if (!data.eventId || !data.name || !data.email || !data.phone || (!data.holdId && !data.tickets?.length)) {
       return NextResponse.json(
         {
           message: "Missing required fields",
@@ -76,6 +99,10 @@ export async function POST(request: Request) {
       )
     }
 
+    if (!isObjectId(data.eventId) || (data.holdId && !isObjectId(data.holdId))) {
+      return NextResponse.json({ message: "Invalid event or reservation ID" }, { status: 400 })
+    }
+
     // Check if event exists and is published
     const event = await prisma.event.findUnique({
       where: {
@@ -88,198 +115,82 @@ export async function POST(request: Request) {
       return NextResponse.json({ message: "Event not found or not published" }, { status: 404 })
     }
 
-    // Validate ticket types and check availability
-    let totalAmount = 0
-    
-    const ticketItems: TicketItem[] = []
-
-    for (const ticketItem of data.tickets) {
-      const { ticketTypeId, quantity } = ticketItem
-
-      if (!ticketTypeId || !quantity || quantity < 1) {
-        return NextResponse.json(
-          {
-            message: "Invalid ticket information",
-          },
-          { status: 400 },
-        )
-      }
-
-      const ticketType = await prisma.ticketType.findUnique({
-        where: { id: ticketTypeId },
-      })
-
-      if (!ticketType) {
-        return NextResponse.json(
-          {
-            message: `Ticket type not found: ${ticketTypeId}`,
-          },
-          { status: 404 },
-        )
-      }
-
-      if (ticketType.remaining < quantity) {
-        return NextResponse.json(
-          {
-            message: `Not enough tickets available for: ${ticketType.name}`,
-          },
-          { status: 400 },
-        )
-      }
-
-      totalAmount += ticketType.price * quantity
-      ticketItems.push({
-        ticketTypeId,
-        quantity,
-        price: ticketType.price,
-        name: ticketType.name,
-      })
+    let provider
+    try {
+      provider = getPaymentProvider(data.paymentProvider)
+    } catch {
+      provider = null
     }
 
-    if (!userId) {
-      throw new Error("User ID is required");
+    if (!provider?.isEnabled()) {
+      return NextResponse.json({ message: "Unsupported payment method" }, { status: 400 })
     }
-    
-    // Create the booking with a transaction to ensure consistency
-    const booking = await prisma.$transaction(async (tx) => {
-      // 1. Create the booking
-      const newBooking = await tx.booking.create({
-        data: {
-          name: data.name,
-          email: data.email,
-          phone: data.phone,
-          totalAmount,
-          status: "PENDING", // Will be updated after payment
-          userId,
-          eventId: data.eventId,
-        },
-      })
-
-      // 2. Create tickets for the booking
-      const createdTickets = []
-      for (const item of ticketItems) {
-        for (let i = 0; i < item.quantity; i++) {
-          const ticket = await tx.ticket.create({
-            data: {
-              ticketNumber: `TKT-${nanoid(8)}`,
-              bookingId: newBooking.id,
-              ticketTypeId: item.ticketTypeId,
-            },
-          })
-          createdTickets.push(ticket)
-        }
 
-        // 3. Update remaining tickets for each ticket type
-        await tx.ticketType.update({
-          where: { id: item.ticketTypeId },
-          data: {
-            remaining: {
-              decrement: item.quantity,
-            },
-          },
-        })
+    // Tickets are normally reserved on the booking page; reserve them now for clients that skip that step
+    let booking
+    try {
+      await releaseExpiredHolds(event.id)
+      const holdId = data.holdId || (await createHold(userId, event.id, data.tickets)).id
+      booking = await createBookingFromHold(holdId, userId, event.id, {
+        name: data.name,
+        email: data.email,
+        phone: data.phone,
+        paymentProvider: provider.name,
+        promoCode: data.promoCode || undefined,
+      })
+    } catch (holdError) {
+      if (holdError instanceof HoldError || holdError instanceof PromoCodeError) {
+        return NextResponse.json(holdError.toJSON(), { status: holdError.status })
       }
+      throw holdError
+    }
 
-      return { newBooking, createdTickets }
-    })
-
-    // In a real app, you would initiate payment here
-    // For demo purposes, we'll simulate a successful payment
-    const updatedBooking = await prisma.booking.update({
-      where: { id: booking.newBooking.id },
-      data: {
-        status: "CONFIRMED",
-        paymentId: `PAY-${nanoid(10)}`,
-      },
-      include: {
-        tickets: {
-          include: {
-            ticketType: true,
-          },
-        },
-        event: {
-          select: {
-            name: true,
-            startDate: true,
-            endDate: true,
-            location: true,
-          },
-        },
-        user: {
-          select: {
-            name: true,
-            email: true,
-          },
+    // Free tickets need no payment
+    if (booking.totalAmount === 0) {
+      const confirmedBooking = await confirmBooking(booking.id)
+      return NextResponse.json(
+        {
+          message: "Booking created successfully",
+          booking: confirmedBooking,
         },
-      },
-    })
+        { status: 201 },
+      )
+    }
 
-    // Send ticket confirmation email
+    let payment
     try {
-      // Group tickets by type for the email
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const ticketsByType = updatedBooking.tickets.reduce((acc: Map<string, any>, ticket) => {
-        const typeName = ticket.ticketType.name
-        if (!acc.has(typeName)) {
-          acc.set(typeName, { name: typeName, quantity: 0 })
-        }
-        acc.get(typeName).quantity += 1
-        return acc
-      }, new Map())
-
-      // Format event date
-      const eventDate = format(new Date(updatedBooking.event.startDate), "EEEE, MMMM d, yyyy 'at' h:mm a")
-
-      // Generate QR code for the booking
-      const qrCodeData = JSON.stringify({
-        bookingId: updatedBooking.id,
-        eventId: data.eventId,
-        userId: session.user.id,
+      payment = await provider.initiatePayment({
+        bookingId: booking.id,
+        amount: booking.totalAmount,
+        currency: PAYMENT_CURRENCY,
+        name: booking.name,
+        email: booking.email,
+        phone: booking.phone,
+        description: `Tickets for ${event.name}`,
       })
+    } catch (paymentError) {
+      console.error("Error initiating payment:", paymentError)
+      await failBooking(booking.id)
+      return NextResponse.json({ message: "Could not start the payment, please try again" }, { status: 502 })
+    }
 
-      const qrCodeDataUrl = await generateQRCode(qrCodeData)
-      const qrCodeBuffer = await generateQRCodeBuffer(qrCodeData)
-      // Create ticket download URL
-      const ticketUrl = `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/bookings/${updatedBooking.id}`
-
-      // Get email template
-      const { subject, html, text } = getTicketConfirmationEmailTemplate(
-        updatedBooking.user.name || updatedBooking.name,
-        updatedBooking.event.name,
-        eventDate,
-        updatedBooking.event.location,
-        Object.values(ticketsByType),
-        qrCodeDataUrl,
-        ticketUrl,
-      )
-
-      // Send the email
-      
-      // Send the email with QR code attachment
-      await sendEmail({
-        to: updatedBooking.email,
-        subject,
-        html,
-        text,
-        attachments: [
-          {
-            filename: "ticket-qrcode.png",
-            content: qrCodeBuffer,
-            contentType: "image/png",
-          },
-        ],
-      })
+    await prisma.booking.update({
+      where: { id: booking.id },
+      data: { paymentId: payment.paymentId },
+    })
 
-      console.log("Ticket confirmation email sent successfully")
-    } catch (emailError) {
-      console.error("Error sending ticket confirmation email:", emailError)
-      // Don't fail the booking if email fails
+    if (payment.status === "FAILED") {
+      await failBooking(booking.id)
+      return NextResponse.json({ message: payment.message || "Payment failed" }, { status: 402 })
     }
 
+    const updatedBooking = await settlePayment(booking.id, payment)
+
     return NextResponse.json(
       {
-        message: "Booking created successfully",
+        message: payment.status === "SUCCEEDED" ? "Booking created successfully" : "Booking awaiting payment",
         booking: updatedBooking,
+        payment,
       },
       { status: 201 },
     )
@@ -288,4 +199,3 @@ export async function POST(request: Request) {
     return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
   }
 }
-
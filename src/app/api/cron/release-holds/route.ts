@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { releaseExpiredReservations } from "@/lib/bookings/hold-service"
+
+// Scheduled sweep that puts tickets from expired holds and unpaid bookings back on sale
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const released = await releaseExpiredReservations()
+
+    return NextResponse.json({ released })
+  } catch (error) {
+    console.error("Error releasing expired reservations:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
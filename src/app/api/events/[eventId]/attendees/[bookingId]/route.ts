@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { canAccessAttendees } from "@/lib/auth/event-access"
+import { parseAttendeeContact } from "@/lib/bookings/attendee-list"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Correct the holder details on a booking, which every ticket in it shares
+export async function PATCH(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const bookingId = segments[segments.length - 1]
+    const eventId = segments[segments.length - 3]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    if (!isObjectId(bookingId)) {
+      return NextResponse.json({ message: "Invalid booking ID" }, { status: 400 })
+    }
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: { id: true, eventId: true },
+    })
+
+    if (!booking || booking.eventId !== eventId) {
+      return NextResponse.json({ message: "Attendee not found" }, { status: 404 })
+    }
+
+    const canUpdate = await canAccessAttendees(eventId, session.user.id, "attendees:update")
+
+    if (!canUpdate) {
+      return NextResponse.json({ message: "You don't have permission to update attendees for this event" }, { status: 403 })
+    }
+
+    const { data, error } = parseAttendeeContact(await req.json())
+
+    if (!data) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    const updatedBooking = await prisma.booking.update({
+      where: { id: booking.id },
+      data,
+      select: { id: true, name: true, email: true, phone: true },
+    })
+
+    return NextResponse.json({ message: "Attendee updated successfully", booking: updatedBooking })
+  } catch (error) {
+    console.error("Error updating attendee:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { format } from "date-fns"
+import { authOptions } from "@/lib/auth/auth"
+import { canAccessAttendees } from "@/lib/auth/event-access"
+import { getAttendees, getAttendeesWhere, parseAttendeeFilters } from "@/lib/bookings/attendee-list"
+import { ATTENDEE_STATUS_LABELS } from "@/lib/bookings/attendee-status"
+import { toCsv } from "@/lib/csv"
+import { generateDoorListPDF } from "@/lib/reports/door-list-pdf"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Download an event's attendees, with the list's filters, as CSV or with ?format=pdf as a printable door list
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const url = new URL(req.url)
+    const segments = url.pathname.split("/")
+    const eventId = segments[segments.length - 3]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+    const exportFormat = url.searchParams.get("format") ?? "csv"
+
+    if (exportFormat !== "csv" && exportFormat !== "pdf") {
+      return NextResponse.json({ message: "Format must be one of csv, pdf" }, { status: 400 })
+    }
+
+    const canView = await canAccessAttendees(eventId, session.user.id, "attendees:read")
+
+    if (canView === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canView) {
+      return NextResponse.json({ message: "You don't have permission to export attendees for this event" }, { status: 403 })
+    }
+
+    const { filters, error } = parseAttendeeFilters(url.searchParams)
+
+    if (!filters) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    const attendees = await getAttendees(getAttendeesWhere(eventId, filters))
+    const headers = new Headers()
+
+    if (exportFormat === "pdf") {
+      const event = await prisma.event.findUniqueOrThrow({
+        where: { id: eventId },
+        select: { name: true, startDate: true, location: true },
+      })
+
+      headers.set("Content-Type", "application/pdf")
+      headers.set("Content-Disposition", `attachment; filename="door-list-${eventId}-${format(new Date(), "yyyyMMdd-HHmm")}.pdf"`)
+
+      return new NextResponse(await generateDoorListPDF(event, attendees), {
+        status: 200,
+        headers,
+      })
+    }
+
+    const csv = toCsv(
+      ["Name", "Email", "Phone", "Ticket Number", "Ticket Type", "Booking Status", "Status", "Checked In At", "Booked At"],
+      attendees.map((attendee) => [
+        attendee.booking.name,
+        attendee.booking.email,
+        attendee.booking.phone,
+        attendee.ticketNumber,
+        attendee.ticketType.name,
+        attendee.booking.status,
+        ATTENDEE_STATUS_LABELS[attendee.status],
+        attendee.checkedInAt,
+        attendee.createdAt,
+      ]),
+    )
+
+    headers.set("Content-Type", "text/csv; charset=utf-8")
+    headers.set("Content-Disposition", `attachment; filename="attendees-${eventId}-${format(new Date(), "yyyyMMdd-HHmm")}.csv"`)
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers,
+    })
+  } catch (error) {
+    console.error("Error exporting attendees:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { canAccessAttendees } from "@/lib/auth/event-access"
+import { getAttendees, getAttendeesWhere, parseAttendeeFilters } from "@/lib/bookings/attendee-list"
+import { parsePagination } from "@/lib/pagination"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Get an event's tickets with their holders a page at a time, for its organiser and admins
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const url = new URL(req.url)
+    const segments = url.pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const canView = await canAccessAttendees(eventId, session.user.id, "attendees:read")
+
+    if (canView === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canView) {
+      return NextResponse.json({ message: "You don't have permission to view attendees for this event" }, { status: 403 })
+    }
+
+    const { pagination, error: paginationError } = parsePagination(url.searchParams)
+    const { filters, error: filtersError } = parseAttendeeFilters(url.searchParams)
+
+    if (!pagination || !filters) {
+      return NextResponse.json({ message: paginationError ?? filtersError }, { status: 400 })
+    }
+
+    const where = getAttendeesWhere(eventId, filters)
+    const [attendees, totalCount] = await Promise.all([
+      getAttendees(where, pagination),
+      prisma.ticket.count({ where }),
+    ])
+
+    return NextResponse.json({ attendees, totalCount, page: pagination.page, pageSize: pagination.pageSize })
+  } catch (error) {
+    console.error("Error fetching attendees:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
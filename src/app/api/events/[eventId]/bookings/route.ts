@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Get all bookings for an event, for its organiser and admins
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(request.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { creatorId: true },
+    })
+
+    if (!event) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    const isCreator = event.creatorId === session.user.id
+    const isAdmin = await checkPermission("admin:access")
+
+    if (!isCreator && !isAdmin) {
+      return NextResponse.json({ message: "You don't have permission to view these bookings" }, { status: 403 })
+    }
+
+    const bookings = await prisma.booking.findMany({
+      where: { eventId },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        totalAmount: true,
+        refundedAmount: true,
+        status: true,
+        createdAt: true,
+        _count: {
+          select: {
+            tickets: true,
+          },
+        },
+      },
+      orderBy: {
+        createdAt: "desc",
+      },
+    })
+
+    return NextResponse.json({ bookings })
+  } catch (error) {
+    console.error("Error fetching event bookings:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
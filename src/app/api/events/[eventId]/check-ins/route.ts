@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { canCheckInAttendees } from "@/lib/auth/event-access"
+import { syncOfflineCheckIns, parseDeviceId, type OfflineCheckIn } from "@/lib/bookings/check-in-service"
+import { isObjectId } from "@/lib/object-id"
+
+// Most check-ins a scanner sends in one request
+const MAX_SYNC_BATCH = 500
+
+function isOfflineCheckIn(value: unknown): value is OfflineCheckIn {
+  const checkIn = value as OfflineCheckIn
+  return (
+    isObjectId(checkIn?.ticketId) &&
+    typeof checkIn.scannedAt === "string" &&
+    !Number.isNaN(Date.parse(checkIn.scannedAt)) &&
+    (checkIn.result === undefined || checkIn.result === "ALREADY_USED")
+  )
+}
+
+// Upload check-ins a scanner queued while it was offline
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const canCheckIn = await canCheckInAttendees(eventId, session.user.id)
+
+    if (canCheckIn === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canCheckIn) {
+      return NextResponse.json({ message: "You don't have permission to scan tickets for this event" }, { status: 403 })
+    }
+
+    const { checkIns, deviceId } = await req.json()
+
+    if (!Array.isArray(checkIns) || checkIns.length > MAX_SYNC_BATCH || !checkIns.every(isOfflineCheckIn)) {
+      return NextResponse.json(
+        { message: `Send up to ${MAX_SYNC_BATCH} check-ins, each with a ticket ID and scan time` },
+        { status: 400 },
+      )
+    }
+
+    const results = await syncOfflineCheckIns(eventId, session.user.id, parseDeviceId(deviceId), checkIns)
+
+    return NextResponse.json({ results })
+  } catch (error) {
+    console.error("Error syncing check-ins:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,99 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { canCheckInAttendees } from "@/lib/auth/event-access"
+import { getCheckInStats, getCheckInVersion } from "@/lib/bookings/check-in-service"
+import { isObjectId } from "@/lib/object-id"
+
+export const dynamic = "force-dynamic"
+
+// How often the stream looks for new scans
+const POLL_INTERVAL_MS = 3000
+
+// Live check-in numbers for an event as Server-Sent Events. A fresh snapshot is sent whenever a
+// scan is recorded, with comments in between to keep proxies from closing an idle connection.
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 3]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const canCheckIn = await canCheckInAttendees(eventId, session.user.id)
+
+    if (canCheckIn === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canCheckIn) {
+      return NextResponse.json({ message: "You don't have permission to view check-ins for this event" }, { status: 403 })
+    }
+
+    const encoder = new TextEncoder()
+    let timer: ReturnType<typeof setInterval> | undefined
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        let lastVersion = ""
+        let isPolling = false
+
+        const poll = async () => {
+          if (isPolling) return
+          isPolling = true
+
+          try {
+            const version = await getCheckInVersion(eventId)
+
+            if (version === lastVersion) {
+              controller.enqueue(encoder.encode(": keep-alive\n\n"))
+            } else {
+              lastVersion = version
+              const stats = await getCheckInStats(eventId)
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify(stats)}\n\n`))
+            }
+          } catch (error) {
+            console.error("Error streaming check-ins:", error)
+          } finally {
+            isPolling = false
+          }
+        }
+
+        req.signal.addEventListener("abort", () => {
+          clearInterval(timer)
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client going away
+          }
+        })
+
+        await poll()
+        if (!req.signal.aborted) {
+          timer = setInterval(poll, POLL_INTERVAL_MS)
+        }
+      },
+      cancel() {
+        clearInterval(timer)
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    })
+  } catch (error) {
+    console.error("Error opening check-in stream:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
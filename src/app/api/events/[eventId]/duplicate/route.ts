@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { duplicateEvent } from "@/lib/events/duplicate-event"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Copy an event into a new draft, moving its dates by the number of days the organiser picked
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const hasCreatePermission = await checkPermission("events:create")
+
+    if (!hasCreatePermission) {
+      return NextResponse.json({ message: "Forbidden" }, { status: 403 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { creatorId: true },
+    })
+
+    if (!event) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    const isCreator = event.creatorId === session.user.id
+    const isAdmin = await checkPermission("admin:access")
+
+    if (!isCreator && !isAdmin) {
+      return NextResponse.json({ message: "You don't have permission to duplicate this event" }, { status: 403 })
+    }
+
+    const { offsetDays } = await req.json()
+
+    if (!Number.isInteger(offsetDays)) {
+      return NextResponse.json({ message: "Date offset must be a whole number of days" }, { status: 400 })
+    }
+
+    const copy = await duplicateEvent(eventId, session.user.id, offsetDays)
+
+    if (!copy) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ message: "Event duplicated successfully", event: copy }, { status: 201 })
+  } catch (error) {
+    console.error("Error duplicating event:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
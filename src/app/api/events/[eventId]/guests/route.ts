@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { canAccessAttendees } from "@/lib/auth/event-access"
+import { GuestImportError, importGuests, readGuestCsv } from "@/lib/bookings/guest-list"
+import { isObjectId } from "@/lib/object-id"
+
+// Issue complimentary tickets of one ticket type to guests sent as a list or an uploaded CSV.
+// With dryRun, only report what would happen to each guest.
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const canCreate = await canAccessAttendees(eventId, session.user.id, "attendees:create")
+
+    if (canCreate === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canCreate) {
+      return NextResponse.json({ message: "You don't have permission to add guests to this event" }, { status: 403 })
+    }
+
+    const data = await req.json()
+
+    if (!data.ticketTypeId || (typeof data.csv !== "string" && !Array.isArray(data.guests))) {
+      return NextResponse.json({ message: "Choose a ticket type and add guests or a CSV file" }, { status: 400 })
+    }
+
+    if (!isObjectId(data.ticketTypeId)) {
+      return NextResponse.json({ message: "Invalid ticket type ID" }, { status: 400 })
+    }
+
+    const result = await importGuests({
+      eventId,
+      ticketTypeId: data.ticketTypeId,
+      guests: typeof data.csv === "string" ? readGuestCsv(data.csv) : data.guests,
+      dryRun: Boolean(data.dryRun),
+      issuedById: session.user.id,
+    })
+
+    return NextResponse.json({
+      message: data.dryRun
+        ? `${result.summary.ready} guests ready, ${result.summary.failed} with problems`
+        : `Issued tickets to ${result.summary.issued} guests`,
+      ...result,
+    })
+  } catch (error) {
+    if (error instanceof GuestImportError) {
+      return NextResponse.json({ message: error.message }, { status: error.status })
+    }
+    console.error("Error importing guests:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server"
+import { Prisma, PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { parsePromoCodeInput } from "@/lib/bookings/promo-codes"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Find the promo code and check the user organises its event or is an admin
+async function getManagedPromoCode(req: Request, userId: string) {
+  const segments = new URL(req.url).pathname.split("/")
+  const promoCodeId = segments[segments.length - 1]
+  const eventId = segments[segments.length - 3]
+
+  if (!isObjectId(promoCodeId) || !isObjectId(eventId)) {
+    return { status: 400 as const }
+  }
+
+  const promoCode = await prisma.promoCode.findUnique({
+    where: { id: promoCodeId },
+    include: {
+      event: {
+        select: { creatorId: true },
+      },
+    },
+  })
+
+  if (!promoCode || promoCode.eventId !== eventId) {
+    return { status: 404 as const }
+  }
+
+  const canManage = promoCode.event.creatorId === userId || (await checkPermission("admin:access"))
+
+  return canManage ? { promoCode } : { status: 403 as const }
+}
+
+// Update a promo code
+export async function PUT(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const { promoCode, status } = await getManagedPromoCode(req, session.user.id)
+
+    if (!promoCode) {
+      return NextResponse.json(
+        {
+          message:
+            status === 400
+              ? "Invalid promo code ID"
+              : status === 404
+                ? "Promo code not found"
+                : "You don't have permission to update this promo code",
+        },
+        { status },
+      )
+    }
+
+    const { data, error } = parsePromoCodeInput(await req.json())
+
+    if (!data) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    const updatedPromoCode = await prisma.promoCode.update({
+      where: { id: promoCode.id },
+      data,
+    })
+
+    return NextResponse.json({ message: "Promo code updated successfully", promoCode: updatedPromoCode })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ message: "This event already has a promo code with that name" }, { status: 409 })
+    }
+    console.error("Error updating promo code:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
+
+// Delete a promo code; bookings keep the code they were made with
+export async function DELETE(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const { promoCode, status } = await getManagedPromoCode(req, session.user.id)
+
+    if (!promoCode) {
+      return NextResponse.json(
+        {
+          message:
+            status === 400
+              ? "Invalid promo code ID"
+              : status === 404
+                ? "Promo code not found"
+                : "You don't have permission to delete this promo code",
+        },
+        { status },
+      )
+    }
+
+    await prisma.promoCode.delete({
+      where: { id: promoCode.id },
+    })
+
+    return NextResponse.json({ message: "Promo code deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting promo code:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
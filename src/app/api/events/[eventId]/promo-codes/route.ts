@@ -0,0 +1,110 @@
+import { NextResponse } from "next/server"
+import { Prisma, PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { parsePromoCodeInput } from "@/lib/bookings/promo-codes"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Only the event's organiser and admins manage its promo codes
+async function canManagePromoCodes(eventId: string, userId: string) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { creatorId: true },
+  })
+
+  if (!event) {
+    return null
+  }
+
+  return event.creatorId === userId || (await checkPermission("admin:access"))
+}
+
+// Get all promo codes for an event
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const canManage = await canManagePromoCodes(eventId, session.user.id)
+
+    if (canManage === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canManage) {
+      return NextResponse.json({ message: "You don't have permission to view these promo codes" }, { status: 403 })
+    }
+
+    const promoCodes = await prisma.promoCode.findMany({
+      where: { eventId },
+      orderBy: { createdAt: "desc" },
+    })
+
+    return NextResponse.json({ promoCodes })
+  } catch (error) {
+    console.error("Error fetching promo codes:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
+
+// Create a promo code for an event
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const canManage = await canManagePromoCodes(eventId, session.user.id)
+
+    if (canManage === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canManage) {
+      return NextResponse.json({ message: "You don't have permission to add promo codes to this event" }, { status: 403 })
+    }
+
+    const { data, error } = parsePromoCodeInput(await req.json())
+
+    if (!data) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    const promoCode = await prisma.promoCode.create({
+      data: {
+        ...data,
+        eventId,
+      },
+    })
+
+    return NextResponse.json({ message: "Promo code created successfully", promoCode }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ message: "This event already has a promo code with that name" }, { status: 409 })
+    }
+    console.error("Error creating promo code:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { format } from "date-fns"
+import { authOptions } from "@/lib/auth/auth"
+import { canManageEvent } from "@/lib/auth/event-access"
+import { getSalesReport, salesReportToCsv, salesReportToXlsx } from "@/lib/reports/sales-report"
+import { generateSalesReportPDF } from "@/lib/reports/sales-report-pdf"
+import { isObjectId } from "@/lib/object-id"
+
+const CONTENT_TYPES = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+}
+
+type ReportFormat = keyof typeof CONTENT_TYPES
+
+// Download an event's sales report as ?format=csv, xlsx or pdf
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const url = new URL(req.url)
+    const segments = url.pathname.split("/")
+    const eventId = segments[segments.length - 3]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+    const reportFormat = url.searchParams.get("format") ?? "csv"
+
+    if (!(reportFormat in CONTENT_TYPES)) {
+      return NextResponse.json({ message: "Format must be one of csv, xlsx, pdf" }, { status: 400 })
+    }
+
+    const canManage = await canManageEvent(eventId, session.user.id)
+
+    if (canManage === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canManage) {
+      return NextResponse.json({ message: "You don't have permission to view sales for this event" }, { status: 403 })
+    }
+
+    const report = await getSalesReport(eventId)
+
+    if (!report) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    const body =
+      reportFormat === "pdf"
+        ? await generateSalesReportPDF(report)
+        : reportFormat === "xlsx"
+          ? salesReportToXlsx(report)
+          : salesReportToCsv(report)
+
+    const headers = new Headers()
+    headers.set("Content-Type", CONTENT_TYPES[reportFormat as ReportFormat])
+    headers.set(
+      "Content-Disposition",
+      `attachment; filename="sales-${eventId}-${format(new Date(), "yyyyMMdd-HHmm")}.${reportFormat}"`,
+    )
+
+    return new NextResponse(body, {
+      status: 200,
+      headers,
+    })
+  } catch (error) {
+    console.error("Error exporting sales report:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -3,6 +3,12 @@ import { PrismaClient } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth/auth"
 import { checkPermission } from "@/lib/auth/permissions"
+import { isEventStaff, canSuperviseCheckIns, canManageEvent } from "@/lib/auth/event-access"
+import { parseRefundPolicy } from "@/lib/bookings/refund-policy"
+import { updateFutureOccurrences } from "@/lib/events/event-series"
+import { isEventCategory, parseTags } from "@/lib/events/categories"
+import { parseTimezoneOffset } from "@/lib/events/timezone"
+import { isObjectId } from "@/lib/object-id"
 
 const prisma = new PrismaClient()
 
@@ -13,7 +19,7 @@ export async function GET(req: Request) {
     const { pathname } = new URL(req.url);
     const eventId = pathname.split("/").pop();
 
-    if (!eventId) {
+    if (!isObjectId(eventId)) {
       return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
     }
     const event = await prisma.event.findUnique({
@@ -28,6 +34,17 @@ export async function GET(req: Request) {
           },
         },
         ticketTypes: true,
+        sessions: {
+          orderBy: { startDate: "asc" },
+        },
+        series: {
+          include: {
+            events: {
+              select: { id: true, startDate: true, isPublished: true },
+              orderBy: { startDate: "asc" },
+            },
+          },
+        },
         _count: {
           select: {
             bookings: true,
@@ -40,7 +57,13 @@ export async function GET(req: Request) {
       return NextResponse.json({ message: "Event not found" }, { status: 404 })
     }
 
-    return NextResponse.json(event)
+    // Lets the event page offer the ticket scanner to the event's door staff, and the scanner offer undo to supervisors
+    const session = await getServerSession(authOptions)
+    const isStaff = session?.user?.id ? await isEventStaff(event.id, session.user.id) : false
+    const canUndoCheckIns = session?.user?.id ? Boolean(await canSuperviseCheckIns(event.id, session.user.id)) : false
+    const canViewReports = session?.user?.id ? Boolean(await canManageEvent(event.id, session.user.id)) : false
+
+    return NextResponse.json({ ...event, isStaff, canUndoCheckIns, canViewReports })
   } catch (error) {
     console.error("Error fetching event:", error)
     return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
@@ -65,7 +88,7 @@ export async function PUT(request: Request) {
     const { pathname } = new URL(request.url);
     const eventId = pathname.split("/").pop();
 
-    if (!eventId) {
+    if (!isObjectId(eventId)) {
       return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
     }
     const data = await request.json()
@@ -73,7 +96,7 @@ export async function PUT(request: Request) {
     // Check if event exists
     const event = await prisma.event.findUnique({
       where: { id: eventId },
-      select: { creatorId: true },
+      select: { creatorId: true, seriesId: true, startDate: true, endDate: true },
     })
 
     if (!event) {
@@ -88,18 +111,57 @@ export async function PUT(request: Request) {
       return NextResponse.json({ message: "You don't have permission to update this event" }, { status: 403 })
     }
 
-    // Update the event
-    const updatedEvent = await prisma.event.update({
+    // Organisers may set their own refund policy, the default one applies otherwise
+    const { policy: refundPolicy, error: refundPolicyError } =
+      data.refundPolicy === undefined || data.refundPolicy === null ? {} : parseRefundPolicy(data.refundPolicy)
+
+    if (refundPolicyError) {
+      return NextResponse.json({ message: refundPolicyError }, { status: 400 })
+    }
+
+    if (data.category !== undefined && data.category !== null && !isEventCategory(data.category)) {
+      return NextResponse.json({ message: "Unknown event category" }, { status: 400 })
+    }
+
+    // Tags are left alone when none are sent
+    const { tags, error: tagsError } = data.tags === undefined ? {} : parseTags(data.tags)
+
+    if (tagsError) {
+      return NextResponse.json({ message: tagsError }, { status: 400 })
+    }
+
+    const { offset: timezoneOffset, error: timezoneOffsetError } = parseTimezoneOffset(data.timezoneOffset)
+
+    if (timezoneOffsetError) {
+      return NextResponse.json({ message: timezoneOffsetError }, { status: 400 })
+    }
+
+    const changes = {
+      name: data.name,
+      description: data.description,
+      startDate: data.startDate ? new Date(data.startDate) : undefined,
+      endDate: data.endDate ? new Date(data.endDate) : undefined,
+      location: data.location,
+      imageUrl: data.imageUrl,
+      isPublished: data.isPublished,
+      refundPolicy,
+      category: data.category,
+      tags,
+      timezoneOffset,
+    }
+
+    // Occurrences of a series can be edited on their own or together with the rest of the series
+    if (data.scope === "future" && event.seriesId) {
+      await updateFutureOccurrences(event, changes)
+    } else {
+      await prisma.event.update({
+        where: { id: eventId },
+        data: changes,
+      })
+    }
+
+    const updatedEvent = await prisma.event.findUnique({
       where: { id: eventId },
-      data: {
-        name: data.name,
-        description: data.description,
-        startDate: data.startDate ? new Date(data.startDate) : undefined,
-        endDate: data.endDate ? new Date(data.endDate) : undefined,
-        location: data.location,
-        imageUrl: data.imageUrl,
-        isPublished: data.isPublished,
-      },
       include: {
         ticketTypes: true,
       },
@@ -133,7 +195,7 @@ export async function DELETE(request: Request) {
     const { pathname } = new URL(request.url);
     const eventId = pathname.split("/").pop();
 
-    if (!eventId) {
+    if (!isObjectId(eventId)) {
       return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
     }
 
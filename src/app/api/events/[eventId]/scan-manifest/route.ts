@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { canCheckInAttendees } from "@/lib/auth/event-access"
+import { getCheckInManifest } from "@/lib/bookings/check-in-service"
+import { signTicketManifest } from "@/lib/ticket-generator/ticket-token"
+import { isObjectId } from "@/lib/object-id"
+
+// Signed list of the event's valid tickets, so the scanner can keep checking people in offline
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const canCheckIn = await canCheckInAttendees(eventId, session.user.id)
+
+    if (canCheckIn === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canCheckIn) {
+      return NextResponse.json({ message: "You don't have permission to scan tickets for this event" }, { status: 403 })
+    }
+
+    // Sent as a string so the scanner checks the signature against exactly the bytes that were signed
+    const manifest = JSON.stringify(await getCheckInManifest(eventId))
+    const signature = await signTicketManifest(manifest)
+
+    return NextResponse.json({ manifest, signature })
+  } catch (error) {
+    console.error("Error building scan manifest:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
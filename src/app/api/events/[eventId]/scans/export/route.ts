@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { format } from "date-fns"
+import { authOptions } from "@/lib/auth/auth"
+import { canCheckInAttendees } from "@/lib/auth/event-access"
+import { SCAN_RESULT_LABELS } from "@/lib/bookings/scan-results"
+import { toCsv } from "@/lib/csv"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Download every scan recorded for an event as CSV
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 3]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const canCheckIn = await canCheckInAttendees(eventId, session.user.id)
+
+    if (canCheckIn === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canCheckIn) {
+      return NextResponse.json({ message: "You don't have permission to export scans for this event" }, { status: 403 })
+    }
+
+    const scans = await prisma.scanEvent.findMany({
+      where: { eventId },
+      orderBy: { createdAt: "asc" },
+      include: {
+        ticket: {
+          select: {
+            ticketNumber: true,
+            ticketType: { select: { name: true } },
+            booking: { select: { name: true, email: true } },
+          },
+        },
+        operator: { select: { name: true, email: true } },
+        session: { select: { name: true } },
+      },
+    })
+
+    const csv = toCsv(
+      ["Scanned At", "Result", "Session", "Ticket Number", "Ticket Type", "Attendee", "Attendee Email", "Operator", "Operator Email", "Device"],
+      scans.map((scan) => [
+        scan.createdAt,
+        SCAN_RESULT_LABELS[scan.result],
+        scan.session?.name,
+        scan.ticket?.ticketNumber,
+        scan.ticket?.ticketType.name,
+        scan.ticket?.booking.name,
+        scan.ticket?.booking.email,
+        scan.operator.name,
+        scan.operator.email,
+        scan.deviceId,
+      ]),
+    )
+
+    const headers = new Headers()
+    headers.set("Content-Type", "text/csv; charset=utf-8")
+    headers.set("Content-Disposition", `attachment; filename="scans-${eventId}-${format(new Date(), "yyyyMMdd-HHmm")}.csv"`)
+
+    return new NextResponse(csv, {
+      status: 200,
+      headers,
+    })
+  } catch (error) {
+    console.error("Error exporting scans:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,137 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { parseSessionInput } from "@/lib/bookings/event-sessions"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Find the session and check the user organises its event or is an admin
+async function getManagedSession(req: Request, userId: string) {
+  const segments = new URL(req.url).pathname.split("/")
+  const sessionId = segments[segments.length - 1]
+  const eventId = segments[segments.length - 3]
+
+  if (!isObjectId(sessionId) || !isObjectId(eventId)) {
+    return { status: 400 as const }
+  }
+
+  const eventSession = await prisma.eventSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      event: {
+        select: { creatorId: true, startDate: true, endDate: true },
+      },
+    },
+  })
+
+  if (!eventSession || eventSession.eventId !== eventId) {
+    return { status: 404 as const }
+  }
+
+  const canManage =
+    (await checkPermission("events:edit")) &&
+    (eventSession.event.creatorId === userId || (await checkPermission("admin:access")))
+
+  return canManage ? { eventSession } : { status: 403 as const }
+}
+
+// Update a session
+export async function PUT(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const { eventSession, status } = await getManagedSession(req, session.user.id)
+
+    if (!eventSession) {
+      return NextResponse.json(
+        {
+          message:
+            status === 400
+              ? "Invalid session ID"
+              : status === 404
+                ? "Session not found"
+                : "You don't have permission to update this session",
+        },
+        { status },
+      )
+    }
+
+    const { data, error } = parseSessionInput(await req.json(), eventSession.event)
+
+    if (!data) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    if (data.capacity !== null && data.capacity < eventSession.checkedInCount) {
+      return NextResponse.json(
+        { message: `Capacity can't be lower than the ${eventSession.checkedInCount} tickets already checked in` },
+        { status: 409 },
+      )
+    }
+
+    const updatedSession = await prisma.eventSession.update({
+      where: { id: eventSession.id },
+      data,
+    })
+
+    return NextResponse.json({ message: "Session updated successfully", session: updatedSession })
+  } catch (error) {
+    console.error("Error updating session:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
+
+// Remove a session from the agenda
+export async function DELETE(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const { eventSession, status } = await getManagedSession(req, session.user.id)
+
+    if (!eventSession) {
+      return NextResponse.json(
+        {
+          message:
+            status === 400
+              ? "Invalid session ID"
+              : status === 404
+                ? "Session not found"
+                : "You don't have permission to delete this session",
+        },
+        { status },
+      )
+    }
+
+    // A ticket type left with no sessions would get into all of them, so organisers choose again first
+    const ticketTypes = await prisma.ticketType.count({
+      where: { eventId: eventSession.eventId, sessionIds: { has: eventSession.id } },
+    })
+
+    if (ticketTypes > 0) {
+      return NextResponse.json(
+        { message: "Remove this session from the ticket types that include it before deleting it" },
+        { status: 409 },
+      )
+    }
+
+    await prisma.eventSession.delete({
+      where: { id: eventSession.id },
+    })
+
+    return NextResponse.json({ message: "Session deleted successfully" })
+  } catch (error) {
+    console.error("Error deleting session:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
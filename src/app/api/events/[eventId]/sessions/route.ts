@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { parseSessionInput } from "@/lib/bookings/event-sessions"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Get an event's agenda
+export async function GET(req: Request) {
+  try {
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ error: "Invalid event ID" }, { status: 400 })
+    }
+
+    const sessions = await prisma.eventSession.findMany({
+      where: { eventId },
+      orderBy: { startDate: "asc" },
+    })
+
+    return NextResponse.json({ sessions })
+  } catch (error) {
+    console.error("Error fetching sessions:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
+
+// Add a session to an event's agenda
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const hasEditPermission = await checkPermission("events:edit")
+
+    if (!hasEditPermission) {
+      return NextResponse.json({ message: "Forbidden" }, { status: 403 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: { creatorId: true, startDate: true, endDate: true },
+    })
+
+    if (!event) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    const isCreator = event.creatorId === session.user.id
+    const isAdmin = await checkPermission("admin:access")
+
+    if (!isCreator && !isAdmin) {
+      return NextResponse.json({ message: "You don't have permission to add sessions to this event" }, { status: 403 })
+    }
+
+    const { data, error } = parseSessionInput(await req.json(), event)
+
+    if (!data) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    const eventSession = await prisma.eventSession.create({
+      data: {
+        ...data,
+        eventId,
+      },
+    })
+
+    return NextResponse.json({ message: "Session created successfully", session: eventSession }, { status: 201 })
+  } catch (error) {
+    console.error("Error creating session:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,122 @@
+import { NextResponse } from "next/server"
+import { PrismaClient, StaffRole } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Change whether a staff member can supervise check-ins
+export async function PATCH(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const staffId = segments[segments.length - 1]
+    const eventId = segments[segments.length - 3]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    if (!isObjectId(staffId)) {
+      return NextResponse.json({ message: "Invalid staff member ID" }, { status: 400 })
+    }
+
+    const staffMember = await prisma.eventStaff.findUnique({
+      where: { id: staffId },
+      include: {
+        event: {
+          select: { creatorId: true },
+        },
+      },
+    })
+
+    if (!staffMember || staffMember.eventId !== eventId) {
+      return NextResponse.json({ message: "Staff member not found" }, { status: 404 })
+    }
+
+    const canManage = staffMember.event.creatorId === session.user.id || (await checkPermission("admin:access"))
+
+    if (!canManage) {
+      return NextResponse.json({ message: "You don't have permission to change this event's staff" }, { status: 403 })
+    }
+
+    const { role } = await req.json()
+
+    if (!Object.values(StaffRole).includes(role)) {
+      return NextResponse.json({ message: "Role must be SCANNER or SUPERVISOR" }, { status: 400 })
+    }
+
+    const updatedStaffMember = await prisma.eventStaff.update({
+      where: { id: staffMember.id },
+      data: { role },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+    })
+
+    return NextResponse.json({ message: "Staff member updated successfully", staff: updatedStaffMember })
+  } catch (error) {
+    console.error("Error updating event staff:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
+
+// Remove someone from an event's staff; tickets they already scanned stay checked in
+export async function DELETE(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const staffId = segments[segments.length - 1]
+    const eventId = segments[segments.length - 3]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    if (!isObjectId(staffId)) {
+      return NextResponse.json({ message: "Invalid staff member ID" }, { status: 400 })
+    }
+
+    const staffMember = await prisma.eventStaff.findUnique({
+      where: { id: staffId },
+      include: {
+        event: {
+          select: { creatorId: true },
+        },
+      },
+    })
+
+    if (!staffMember || staffMember.eventId !== eventId) {
+      return NextResponse.json({ message: "Staff member not found" }, { status: 404 })
+    }
+
+    const canManage = staffMember.event.creatorId === session.user.id || (await checkPermission("admin:access"))
+
+    if (!canManage) {
+      return NextResponse.json({ message: "You don't have permission to remove staff from this event" }, { status: 403 })
+    }
+
+    await prisma.eventStaff.delete({
+      where: { id: staffMember.id },
+    })
+
+    return NextResponse.json({ message: "Staff member removed successfully" })
+  } catch (error) {
+    console.error("Error removing event staff:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,133 @@
+import { NextResponse } from "next/server"
+import { Prisma, PrismaClient, StaffRole } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Only the event's organiser and admins choose who scans tickets for it
+async function canManageStaff(eventId: string, userId: string) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { creatorId: true },
+  })
+
+  if (!event) {
+    return null
+  }
+
+  return event.creatorId === userId || (await checkPermission("admin:access"))
+}
+
+// Get the staff assigned to an event
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const canManage = await canManageStaff(eventId, session.user.id)
+
+    if (canManage === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canManage) {
+      return NextResponse.json({ message: "You don't have permission to view this event's staff" }, { status: 403 })
+    }
+
+    const staff = await prisma.eventStaff.findMany({
+      where: { eventId },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+      orderBy: { createdAt: "asc" },
+    })
+
+    return NextResponse.json({ staff })
+  } catch (error) {
+    console.error("Error fetching event staff:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
+
+// Assign a registered user to scan tickets for an event
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const canManage = await canManageStaff(eventId, session.user.id)
+
+    if (canManage === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canManage) {
+      return NextResponse.json({ message: "You don't have permission to add staff to this event" }, { status: 403 })
+    }
+
+    const { email, role = "SCANNER" } = await req.json()
+
+    if (typeof email !== "string" || email.trim() === "") {
+      return NextResponse.json({ message: "Email is required" }, { status: 400 })
+    }
+
+    if (!Object.values(StaffRole).includes(role)) {
+      return NextResponse.json({ message: "Role must be SCANNER or SUPERVISOR" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim() },
+      select: { id: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ message: "No account uses that email address" }, { status: 404 })
+    }
+
+    const staffMember = await prisma.eventStaff.create({
+      data: {
+        eventId,
+        userId: user.id,
+        role,
+      },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true },
+        },
+      },
+    })
+
+    return NextResponse.json({ message: "Staff member added successfully", staff: staffMember }, { status: 201 })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return NextResponse.json({ message: "This person is already staff for the event" }, { status: 409 })
+    }
+    console.error("Error adding event staff:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
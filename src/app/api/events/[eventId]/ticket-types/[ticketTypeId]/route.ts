@@ -3,6 +3,11 @@ import { PrismaClient } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth/auth"
 import { checkPermission } from "@/lib/auth/permissions"
+import { getRolloverError, parseSalesWindow } from "@/lib/bookings/sales-window"
+import { parseTicketTypeSessionIds } from "@/lib/bookings/event-sessions"
+import { isEntryPolicy } from "@/lib/bookings/entry-policy"
+import { offerWaitlistSpots } from "@/lib/bookings/waitlist-service"
+import { isObjectId } from "@/lib/object-id"
 
 const prisma = new PrismaClient()
 
@@ -14,7 +19,7 @@ export async function GET(req: Request) {
     const ticketTypeId = segments.pop()
     const eventId = segments[segments.length - 2]
 
-    if (!ticketTypeId || !eventId) {
+    if (!isObjectId(ticketTypeId) || !isObjectId(eventId)) {
       return NextResponse.json({ error: "Invalid IDs" }, { status: 400 })
     }
 
@@ -50,7 +55,7 @@ export async function PUT(req: Request) {
     const ticketTypeId = segments.pop()
     const eventId = segments[segments.length - 2]
 
-    if (!ticketTypeId || !eventId) {
+    if (!isObjectId(ticketTypeId) || !isObjectId(eventId)) {
       return NextResponse.json({ error: "Invalid IDs" }, { status: 400 })
     }
 
@@ -97,12 +102,48 @@ export async function PUT(req: Request) {
       )
     }
 
+    const { window, error } = parseSalesWindow({
+      salesStartDate: data.salesStartDate === undefined ? ticketType.salesStartDate : data.salesStartDate,
+      availableUntil: data.availableUntil === undefined ? ticketType.availableUntil : data.availableUntil,
+    })
+
+    if (!window) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    if (data.entryPolicy != null && !isEntryPolicy(data.entryPolicy)) {
+      return NextResponse.json({ message: "Entry policy must be SINGLE, REENTRY or DAILY" }, { status: 400 })
+    }
+
+    const { sessionIds, error: sessionError } = await parseTicketTypeSessionIds(ticketType.eventId, data.sessionIds)
+
+    if (sessionError) {
+      return NextResponse.json({ message: sessionError }, { status: 400 })
+    }
+
+    const rolloverToId = data.rolloverToId === undefined ? ticketType.rolloverToId : data.rolloverToId || null
+
+    if (rolloverToId) {
+      const eventTicketTypes = await prisma.ticketType.findMany({
+        where: { eventId: ticketType.eventId },
+        select: { id: true, rolloverToId: true },
+      })
+      const rolloverError = getRolloverError(ticketTypeId, rolloverToId, eventTicketTypes)
+
+      if (rolloverError) {
+        return NextResponse.json({ message: rolloverError }, { status: 400 })
+      }
+    }
+
     // Calculate the difference in quantity to adjust remaining tickets
     const quantityDifference = data.quantity ? Number.parseInt(data.quantity) - ticketType.quantity : 0
 
-    // Update the ticket type
-    const updatedTicketType = await prisma.ticketType.update({
-      where: { id: ticketTypeId },
+    // Update the ticket type; lowering the quantity only succeeds while enough unsold tickets are left
+    const { count } = await prisma.ticketType.updateMany({
+      where: {
+        id: ticketTypeId,
+        ...(quantityDifference < 0 ? { remaining: { gte: -quantityDifference } } : {}),
+      },
       data: {
         name: data.name,
         description: data.description,
@@ -111,9 +152,31 @@ export async function PUT(req: Request) {
         remaining: {
           increment: quantityDifference,
         },
+        ...window,
+        rolloverToId,
+        entryPolicy: data.entryPolicy ?? undefined,
+        sessionIds,
       },
     })
 
+    if (count === 0) {
+      return NextResponse.json(
+        {
+          message: "Quantity cannot be lower than the number of tickets already sold or reserved",
+        },
+        { status: 409 },
+      )
+    }
+
+    // New tickets go to the waitlist first
+    if (quantityDifference > 0) {
+      await offerWaitlistSpots([ticketTypeId])
+    }
+
+    const updatedTicketType = await prisma.ticketType.findUnique({
+      where: { id: ticketTypeId },
+    })
+
     return NextResponse.json({
       message: "Ticket type updated successfully",
       ticketType: updatedTicketType,
@@ -132,7 +195,7 @@ export async function DELETE(req: Request) {
     const ticketTypeId = segments.pop()
     const eventId = segments[segments.length - 2]
 
-    if (!ticketTypeId || !eventId) {
+    if (!isObjectId(ticketTypeId) || !isObjectId(eventId)) {
       return NextResponse.json({ error: "Invalid IDs" }, { status: 400 })
     }
 
@@ -3,6 +3,10 @@ import { PrismaClient } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth/auth"
 import { checkPermission } from "@/lib/auth/permissions"
+import { getRolloverError, parseSalesWindow } from "@/lib/bookings/sales-window"
+import { parseTicketTypeSessionIds } from "@/lib/bookings/event-sessions"
+import { DEFAULT_ENTRY_POLICY, isEntryPolicy } from "@/lib/bookings/entry-policy"
+import { isObjectId } from "@/lib/object-id"
 
 const prisma = new PrismaClient()
 
@@ -13,7 +17,7 @@ export async function GET(req: Request) {
     const segments = pathname.split("/")
     const eventId = segments[segments.length - 2]
 
-    if (!eventId) {
+    if (!isObjectId(eventId)) {
       return NextResponse.json({ error: "Invalid event ID" }, { status: 400 })
     }
 
@@ -36,7 +40,7 @@ export async function POST(req: Request) {
     const segments = pathname.split("/")
     const eventId = segments[segments.length - 2]
 
-    if (!eventId) {
+    if (!isObjectId(eventId)) {
       return NextResponse.json({ error: "Invalid event ID" }, { status: 400 })
     }
 
@@ -87,6 +91,36 @@ export async function POST(req: Request) {
       )
     }
 
+    const { window, error } = parseSalesWindow(data)
+
+    if (!window) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    if (data.entryPolicy != null && !isEntryPolicy(data.entryPolicy)) {
+      return NextResponse.json({ message: "Entry policy must be SINGLE, REENTRY or DAILY" }, { status: 400 })
+    }
+
+    const { sessionIds, error: sessionError } = await parseTicketTypeSessionIds(eventId, data.sessionIds)
+
+    if (sessionError) {
+      return NextResponse.json({ message: sessionError }, { status: 400 })
+    }
+
+    const rolloverToId = data.rolloverToId || null
+
+    if (rolloverToId) {
+      const eventTicketTypes = await prisma.ticketType.findMany({
+        where: { eventId },
+        select: { id: true, rolloverToId: true },
+      })
+      const rolloverError = getRolloverError(null, rolloverToId, eventTicketTypes)
+
+      if (rolloverError) {
+        return NextResponse.json({ message: rolloverError }, { status: 400 })
+      }
+    }
+
     // Create the ticket type
     const ticketType = await prisma.ticketType.create({
       data: {
@@ -95,6 +129,10 @@ export async function POST(req: Request) {
         price: Number.parseFloat(data.price),
         quantity: Number.parseInt(data.quantity),
         remaining: Number.parseInt(data.quantity),
+        ...window,
+        rolloverToId,
+        entryPolicy: data.entryPolicy ?? DEFAULT_ENTRY_POLICY,
+        sessionIds: sessionIds ?? [],
         eventId,
       },
     })
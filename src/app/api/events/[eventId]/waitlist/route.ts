@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { checkPermission } from "@/lib/auth/permissions"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Get the waitlist size of each of an event's ticket types
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const eventId = segments[segments.length - 2]
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const event = await prisma.event.findUnique({
+      where: { id: eventId },
+      select: {
+        creatorId: true,
+        ticketTypes: {
+          select: { id: true, name: true, remaining: true },
+        },
+      },
+    })
+
+    if (!event) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    const canView = event.creatorId === session.user.id || (await checkPermission("admin:access"))
+
+    if (!canView) {
+      return NextResponse.json({ message: "You don't have permission to view this waitlist" }, { status: 403 })
+    }
+
+    const counts = await prisma.waitlistEntry.groupBy({
+      by: ["ticketTypeId", "status"],
+      where: { eventId },
+      _count: { _all: true },
+      _sum: { quantity: true },
+    })
+
+    const countFor = (ticketTypeId: string, status: string) =>
+      counts.find((count) => count.ticketTypeId === ticketTypeId && count.status === status)
+
+    const ticketTypes = event.ticketTypes.map((ticketType) => ({
+      ...ticketType,
+      waiting: countFor(ticketType.id, "WAITING")?._count._all ?? 0,
+      waitingTickets: countFor(ticketType.id, "WAITING")?._sum.quantity ?? 0,
+      offered: countFor(ticketType.id, "OFFERED")?._count._all ?? 0,
+      claimed: countFor(ticketType.id, "CLAIMED")?._count._all ?? 0,
+      expired: countFor(ticketType.id, "EXPIRED")?._count._all ?? 0,
+    }))
+
+    return NextResponse.json({ ticketTypes })
+  } catch (error) {
+    console.error("Error fetching waitlist:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -1,8 +1,24 @@
 import { NextResponse } from "next/server"
-import { PrismaClient } from "@prisma/client"
+import { PrismaClient, type Prisma } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib//auth/auth"
 import { checkPermission } from "@/lib/auth/permissions"
+import { getVisibleEventsWhere } from "@/lib/auth/event-access"
+import { parseRefundPolicy } from "@/lib/bookings/refund-policy"
+import { parseSalesWindow } from "@/lib/bookings/sales-window"
+import { getOccurrenceStarts, MAX_OCCURRENCES, parseRecurrenceRule } from "@/lib/events/recurrence"
+import { countEventsBySeries, createEventSeries, pageEventsBySeries } from "@/lib/events/event-series"
+import {
+  countEventFacets,
+  EVENT_LISTING_INCLUDE,
+  EVENT_SORT_FIELDS,
+  getEventFilterWhere,
+  getEventScopeWhere,
+  parseEventFilters,
+} from "@/lib/events/event-filters"
+import { isEventCategory, parseTags } from "@/lib/events/categories"
+import { parseTimezoneOffset } from "@/lib/events/timezone"
+import { parsePagination, parseSort, toOrderBy, type Sort } from "@/lib/pagination"
 
 const prisma = new PrismaClient()
 
@@ -11,6 +27,8 @@ interface TicketType {
   description: string;
   price: string;
   quantity: string;
+  salesStartDate?: string;
+  availableUntil?: string;
 }
 
 
@@ -18,75 +36,82 @@ export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url)
     const published = searchParams.get("published")
-    const session = await getServerSession(authOptions)
-    const isAdmin = session?.user?.id ? await checkPermission("admin:access") : false
-
-    // Build the where clause
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let where: any = {}
-
-    // If published parameter is provided, use it
-    if (published === "true") {
-      where.isPublished = true
-    } else if (published === "false") {
-      // Only allow filtering for unpublished events if user is admin or has edit permission
-      if (isAdmin || (session?.user?.id && (await checkPermission("events:edit")))) {
-        where.isPublished = false
-      } else {
-        // Non-admin users should only see published events
-        where.isPublished = true
-      }
-    } else {
-      // If no published parameter, non-admin users should only see published events
-      if (!isAdmin && (!session?.user?.id || !(await checkPermission("events:edit")))) {
-        where.isPublished = true
-      }
+    const { filters, error: filtersError } = parseEventFilters(searchParams)
+    const { pagination, error: paginationError } = parsePagination(searchParams)
+    const { sort, error: sortError } = parseSort(searchParams, EVENT_SORT_FIELDS, { field: "startDate", order: "asc" })
+
+    if (!filters || !pagination || !sort) {
+      return NextResponse.json({ message: filtersError ?? paginationError ?? sortError }, { status: 400 })
     }
 
-    // If user is logged in, allow them to see their own unpublished events
-    if (session?.user?.id && !isAdmin && !(await checkPermission("events:edit"))) {
-      where = {
-        OR: [{ isPublished: true }, { creatorId: session.user.id }],
-      }
+    const session = await getServerSession(authOptions)
+    const where = {
+      AND: [
+        await getVisibleEventsWhere(session?.user?.id, published),
+        getEventScopeWhere(searchParams.get("scope"), session?.user?.id),
+      ],
     }
 
-    const events = await prisma.event.findMany({
-      where,
-      include: {
-        creator: {
-          select: {
-            id: true,
-            name: true,
-            email: true,
-            image: true,
-          },
-        },
-        ticketTypes: {
-          select: {
-            id: true,
-            name: true,
-            price: true,
-            remaining: true,
-          },
-        },
-        _count: {
-          select: {
-            bookings: true,
-          },
-        },
-      },
-      orderBy: {
-        startDate: "asc",
-      },
+    const filteredWhere = { AND: [where, getEventFilterWhere(filters)] }
+
+    // ?groupSeries=true lists each series once, by its first occurrence, with the other dates alongside
+    const { events, totalCount } =
+      searchParams.get("groupSeries") === "true"
+        ? await getSeriesPage(filteredWhere, sort, pagination)
+        : await Promise.all([
+            prisma.event.findMany({
+              where: filteredWhere,
+              include: EVENT_LISTING_INCLUDE,
+              orderBy: toOrderBy(sort),
+              skip: pagination.skip,
+              take: pagination.take,
+            }),
+            prisma.event.count({ where: filteredWhere }),
+          ]).then(([events, totalCount]) => ({ events, totalCount }))
+
+    // Facets ignore the category and tags picked, so the other choices keep their counts. Events are
+    // grouped by category and tags in the database, so only the distinct combinations are read.
+    const facetGroups = await prisma.event.groupBy({
+      by: ["category", "tags"],
+      where: { AND: [where, getEventFilterWhere({ ...filters, category: undefined, tags: undefined })] },
+      _count: { _all: true },
     })
 
-    return NextResponse.json({ events })
+    return NextResponse.json({
+      events,
+      totalCount,
+      page: pagination.page,
+      pageSize: pagination.pageSize,
+      facets: countEventFacets(
+        facetGroups.map(({ _count, ...group }) => ({ ...group, count: _count._all })),
+      ),
+    })
   } catch (error) {
     console.error("Error fetching events:", error)
     return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
   }
 }
 
+async function getSeriesPage(
+  where: Prisma.EventWhereInput,
+  sort: Sort<(typeof EVENT_SORT_FIELDS)[number]>,
+  pagination: { skip: number; take: number },
+) {
+  const [{ eventIds, otherDates }, totalCount] = await Promise.all([
+    pageEventsBySeries(where, sort, pagination),
+    countEventsBySeries(where),
+  ])
+  const events = await prisma.event.findMany({
+    where: { id: { in: eventIds } },
+    include: EVENT_LISTING_INCLUDE,
+    orderBy: toOrderBy(sort),
+  })
+
+  return {
+    events: events.map((event) => ({ ...event, seriesDates: otherDates[event.id] })),
+    totalCount,
+  }
+}
 
 // Create a new event
 export async function POST(request: Request) {
@@ -115,26 +140,98 @@ export async function POST(request: Request) {
       )
     }
 
+    // Organisers may set their own refund policy, the default one applies otherwise
+    const { policy: refundPolicy, error: refundPolicyError } =
+      data.refundPolicy === undefined || data.refundPolicy === null ? {} : parseRefundPolicy(data.refundPolicy)
+
+    if (refundPolicyError) {
+      return NextResponse.json({ message: refundPolicyError }, { status: 400 })
+    }
+
+    if (data.category !== undefined && data.category !== null && !isEventCategory(data.category)) {
+      return NextResponse.json({ message: "Unknown event category" }, { status: 400 })
+    }
+
+    const { tags, error: tagsError } = parseTags(data.tags ?? [])
+
+    if (!tags) {
+      return NextResponse.json({ message: tagsError }, { status: 400 })
+    }
+
+    const { offset: timezoneOffset, error: timezoneOffsetError } = parseTimezoneOffset(data.timezoneOffset)
+
+    if (timezoneOffsetError) {
+      return NextResponse.json({ message: timezoneOffsetError }, { status: 400 })
+    }
+
+    const salesWindows = ((data.ticketTypes as TicketType[] | undefined) || []).map((ticketType) =>
+      parseSalesWindow({ salesStartDate: ticketType.salesStartDate, availableUntil: ticketType.availableUntil }),
+    )
+    const salesWindowError = salesWindows.find((result) => result.error)?.error
+
+    if (salesWindowError) {
+      return NextResponse.json({ message: salesWindowError }, { status: 400 })
+    }
+
+    const eventData = {
+      name: data.name,
+      description: data.description,
+      startDate: new Date(data.startDate),
+      endDate: new Date(data.endDate),
+      location: data.location,
+      imageUrl: data.imageUrl,
+      isPublished: data.isPublished || false,
+      refundPolicy,
+      category: data.category ?? null,
+      tags,
+      timezoneOffset,
+      creatorId: session.user.id,
+    }
+    const ticketTypes =
+      data.ticketTypes?.map((ticketType: TicketType, index: number) => ({
+        name: ticketType.name,
+        description: ticketType.description,
+        price: Number.parseFloat(ticketType.price),
+        quantity: Number.parseInt(ticketType.quantity),
+        remaining: Number.parseInt(ticketType.quantity),
+        ...salesWindows[index].window,
+      })) || []
+
+    // Repeating events become a series, with every occurrence created up front
+    if (data.recurrence) {
+      const { rule, error: recurrenceError } = parseRecurrenceRule(data.recurrence.rule)
+
+      if (!rule) {
+        return NextResponse.json({ message: recurrenceError }, { status: 400 })
+      }
+
+      const starts = getOccurrenceStarts(rule, eventData.startDate, timezoneOffset)
+
+      if (starts.length > MAX_OCCURRENCES) {
+        return NextResponse.json(
+          { message: `A series can have at most ${MAX_OCCURRENCES} occurrences` },
+          { status: 400 },
+        )
+      }
+
+      const { series, events } = await createEventSeries(rule, starts, eventData, ticketTypes)
+
+      return NextResponse.json(
+        {
+          message: `Event series created with ${events.length} occurrences`,
+          event: events[0],
+          series,
+        },
+        { status: 201 },
+      )
+    }
+
     // Create the event with ticket types
     const event = await prisma.event.create({
       data: {
-        name: data.name,
-        description: data.description,
-        startDate: new Date(data.startDate),
-        endDate: new Date(data.endDate),
-        location: data.location,
-        imageUrl: data.imageUrl,
-        isPublished: data.isPublished || false,
-        creatorId: session.user.id,
+        ...eventData,
         ticketTypes: {
-          create:
-            data.ticketTypes?.map((ticketType: TicketType) => ({
-              name: ticketType.name,
-              description: ticketType.description,
-              price: Number.parseFloat(ticketType.price),
-              quantity: Number.parseInt(ticketType.quantity),
-              remaining: Number.parseInt(ticketType.quantity),
-            })) || [],
+          create: ticketTypes,
         },
       },
       include: {
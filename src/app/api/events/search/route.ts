@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { getVisibleEventsWhere } from "@/lib/auth/event-access"
+import { countEventFacets, getEventFilterWhere, getEventScopeWhere, parseEventFilters } from "@/lib/events/event-filters"
+import { searchEvents } from "@/lib/events/search"
+import { parsePagination } from "@/lib/pagination"
+
+// Search events by relevance. Takes the same filters as the events list, with the text to look for in
+// ?search=. Results can only include events the list would show, and are paged but always sorted best
+// match first.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const { filters, error: filtersError } = parseEventFilters(searchParams)
+    const { pagination, error: paginationError } = parsePagination(searchParams)
+
+    if (!filters || !pagination) {
+      return NextResponse.json({ message: filtersError ?? paginationError }, { status: 400 })
+    }
+
+    if (!filters.searchTerm) {
+      return NextResponse.json({ message: "Search text is required" }, { status: 400 })
+    }
+
+    const session = await getServerSession(authOptions)
+    const visible = await getVisibleEventsWhere(session?.user?.id, searchParams.get("published"))
+    const scope = getEventScopeWhere(searchParams.get("scope"), session?.user?.id)
+
+    // Facets ignore the category and tags picked, so those are applied to the matches afterwards
+    const matches = await searchEvents(filters.searchTerm, {
+      AND: [
+        visible,
+        scope,
+        getEventFilterWhere({ ...filters, searchTerm: undefined, category: undefined, tags: undefined }),
+      ],
+    })
+
+    const filtered = matches.filter(
+      ({ event }) =>
+        (!filters.category || event.category === filters.category) &&
+        (filters.tags ?? []).every((tag) => event.tags.includes(tag)),
+    )
+
+    return NextResponse.json({
+      results: filtered.slice(pagination.skip, pagination.skip + pagination.take),
+      totalCount: filtered.length,
+      page: pagination.page,
+      pageSize: pagination.pageSize,
+      facets: countEventFacets(matches.map(({ event }) => event)),
+    })
+  } catch (error) {
+    console.error("Error searching events:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { releaseHold } from "@/lib/bookings/hold-service"
+import { offerWaitlistSpots } from "@/lib/bookings/waitlist-service"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Give up a reservation before it expires
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const { pathname } = new URL(request.url)
+    const id = pathname.split("/").pop()
+
+    if (!isObjectId(id)) {
+      return NextResponse.json({ message: "Invalid hold ID" }, { status: 400 })
+    }
+
+    const hold = await prisma.ticketHold.findUnique({
+      where: { id },
+    })
+
+    if (!hold) {
+      return NextResponse.json({ message: "Reservation not found" }, { status: 404 })
+    }
+
+    if (hold.userId !== session.user.id) {
+      return NextResponse.json({ message: "You don't have permission to release this reservation" }, { status: 403 })
+    }
+
+    await releaseHold(hold.id)
+    await offerWaitlistSpots(hold.items.map((item) => item.ticketTypeId))
+
+    return NextResponse.json({ message: "Reservation released" })
+  } catch (error) {
+    console.error("Error releasing ticket hold:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
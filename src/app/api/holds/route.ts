@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { createHold, HoldError, releaseExpiredHolds } from "@/lib/bookings/hold-service"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Get the current user's active reservation for an event
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const eventId = new URL(request.url).searchParams.get("eventId")
+
+    if (!eventId) {
+      return NextResponse.json({ message: "Event ID is required" }, { status: 400 })
+    }
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const hold = await prisma.ticketHold.findFirst({
+      where: {
+        userId: session.user.id,
+        eventId,
+        status: "ACTIVE",
+        expiresAt: { gt: new Date() },
+      },
+      orderBy: { createdAt: "desc" },
+    })
+
+    return NextResponse.json({ hold })
+  } catch (error) {
+    console.error("Error fetching ticket hold:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
+
+// Reserve the selected tickets while the user checks out
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const data = await request.json()
+
+    if (!data.eventId || !data.tickets || data.tickets.length === 0) {
+      return NextResponse.json({ message: "Missing required fields" }, { status: 400 })
+    }
+
+    if (!isObjectId(data.eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const event = await prisma.event.findUnique({
+      where: {
+        id: data.eventId,
+        isPublished: true,
+      },
+    })
+
+    if (!event) {
+      return NextResponse.json({ message: "Event not found or not published" }, { status: 404 })
+    }
+
+    // Tickets left behind by abandoned selections go back on sale before we check availability
+    await releaseExpiredHolds(event.id)
+
+    const hold = await createHold(session.user.id, event.id, data.tickets)
+
+    return NextResponse.json({ message: "Tickets reserved", hold }, { status: 201 })
+  } catch (error) {
+    if (error instanceof HoldError) {
+      return NextResponse.json(error.toJSON(), { status: error.status })
+    }
+    console.error("Error creating ticket hold:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { getPaymentProvider } from "@/lib/payments/payments"
+import { applyPaymentEvent } from "@/lib/bookings/booking-service"
+
+// Receive asynchronous payment notifications from a provider
+export async function POST(request: Request) {
+  try {
+    const { pathname } = new URL(request.url)
+    const segments = pathname.split("/")
+    const providerName = segments[segments.length - 2]
+
+    let provider
+    try {
+      provider = getPaymentProvider(providerName)
+    } catch {
+      return NextResponse.json({ message: "Unknown payment provider" }, { status: 404 })
+    }
+
+    // A provider that isn't switched on can't have taken a payment
+    if (!provider.isEnabled()) {
+      return NextResponse.json({ message: "Unknown payment provider" }, { status: 404 })
+    }
+
+    const event = await provider.verifyWebhook(request)
+
+    if (!event) {
+      return NextResponse.json({ message: "Invalid webhook signature" }, { status: 401 })
+    }
+
+    const booking = await applyPaymentEvent(provider.name, event)
+
+    if (!booking) {
+      return NextResponse.json({ message: "Booking not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ received: true })
+  } catch (error) {
+    console.error("Error handling payment webhook:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { getPaymentProvider } from "@/lib/payments/payments"
+import { failBooking, settlePayment } from "@/lib/bookings/booking-service"
+
+const prisma = new PrismaClient()
+
+// Ask the payment provider for the outcome of a pending booking's payment
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const { bookingId } = await request.json()
+
+    if (!bookingId) {
+      return NextResponse.json({ message: "Booking ID is required" }, { status: 400 })
+    }
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId },
+    })
+
+    if (!booking) {
+      return NextResponse.json({ message: "Booking not found" }, { status: 404 })
+    }
+
+    if (booking.userId !== session.user.id) {
+      return NextResponse.json({ message: "You don't have permission to pay for this booking" }, { status: 403 })
+    }
+
+    if (booking.status !== "PENDING") {
+      return NextResponse.json({ message: `Booking is already ${booking.status.toLowerCase()}`, booking })
+    }
+
+    if (!booking.paymentId) {
+      return NextResponse.json({ message: "No payment has been started for this booking" }, { status: 400 })
+    }
+
+    const payment = await getPaymentProvider(booking.paymentProvider).confirmPayment(booking.paymentId)
+
+    if (payment.status === "FAILED") {
+      await failBooking(booking.id)
+      return NextResponse.json({ message: payment.message || "Payment failed", payment }, { status: 402 })
+    }
+
+    if (payment.status === "SUCCEEDED") {
+      const settledBooking = await settlePayment(booking.id, payment)
+
+      if (settledBooking?.status !== "CONFIRMED") {
+        return NextResponse.json(
+          { message: "Your reservation expired before the payment completed, the payment will be refunded" },
+          { status: 409 },
+        )
+      }
+
+      return NextResponse.json({ message: "Payment confirmed", booking: settledBooking, payment })
+    }
+
+    return NextResponse.json({ message: "Payment is still pending", booking, payment }, { status: 202 })
+  } catch (error) {
+    console.error("Error confirming payment:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { mpesaPaymentProvider, toMpesaAmount } from "@/lib/payments/mpesa-provider"
+import { applyPaymentEvent } from "@/lib/bookings/booking-service"
+
+// Daraja STK Push callback. A result code of 0 confirms the booking, anything else cancels it.
+export async function POST(request: Request) {
+  try {
+    const event = await mpesaPaymentProvider.verifyWebhook(request)
+
+    if (!event) {
+      return NextResponse.json({ ResultCode: 1, ResultDesc: "Rejected" }, { status: 400 })
+    }
+
+    const booking = await applyPaymentEvent(mpesaPaymentProvider.name, event, toMpesaAmount)
+
+    if (!booking) {
+      console.error("M-Pesa callback for unknown checkout request:", event.paymentId)
+    }
+
+    // Daraja only needs an acknowledgement, it retries on anything else
+    return NextResponse.json({ ResultCode: 0, ResultDesc: "Accepted" })
+  } catch (error) {
+    console.error("Error handling M-Pesa callback:", error)
+    return NextResponse.json({ ResultCode: 1, ResultDesc: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server"
+import { verifyReversalCallback } from "@/lib/payments/mpesa-provider"
+import { applyRefundEvent } from "@/lib/bookings/refund-service"
+
+// Daraja reversal result. A result code of 0 completes the refund, anything else rolls it back.
+export async function POST(request: Request) {
+  try {
+    const event = await verifyReversalCallback(request)
+
+    if (!event) {
+      return NextResponse.json({ ResultCode: 1, ResultDesc: "Rejected" }, { status: 400 })
+    }
+
+    const refund = await applyRefundEvent(event)
+
+    if (!refund) {
+      console.error("M-Pesa reversal result for unknown conversation:", event.refundId)
+    }
+
+    // Daraja only needs an acknowledgement, it retries on anything else
+    return NextResponse.json({ ResultCode: 0, ResultDesc: "Accepted" })
+  } catch (error) {
+    console.error("Error handling M-Pesa reversal result:", error)
+    return NextResponse.json({ ResultCode: 1, ResultDesc: "Something went wrong" }, { status: 500 })
+  }
+}
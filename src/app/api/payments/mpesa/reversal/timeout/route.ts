@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server"
+import { verifyReversalCallback } from "@/lib/payments/mpesa-provider"
+import { applyRefundEvent } from "@/lib/bookings/refund-service"
+
+// Daraja gave up on a reversal that sat in its queue too long, so no money moved and the refund is rolled back
+export async function POST(request: Request) {
+  try {
+    const event = await verifyReversalCallback(request)
+
+    if (!event) {
+      return NextResponse.json({ ResultCode: 1, ResultDesc: "Rejected" }, { status: 400 })
+    }
+
+    const refund = await applyRefundEvent({ ...event, status: "FAILED", message: "The M-Pesa reversal timed out" })
+
+    if (!refund) {
+      console.error("M-Pesa reversal timeout for unknown conversation:", event.refundId)
+    }
+
+    return NextResponse.json({ ResultCode: 0, ResultDesc: "Accepted" })
+  } catch (error) {
+    console.error("Error handling M-Pesa reversal timeout:", error)
+    return NextResponse.json({ ResultCode: 1, ResultDesc: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server"
+import { getAvailablePaymentProviders } from "@/lib/payments/payments"
+
+// List the payment methods offered at checkout
+export async function GET() {
+  try {
+    return NextResponse.json({ providers: getAvailablePaymentProviders() })
+  } catch (error) {
+    console.error("Error fetching payment providers:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
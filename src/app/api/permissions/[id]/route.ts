@@ -3,6 +3,7 @@ import { PrismaClient } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth/auth"
 import { checkPermission } from "@/lib/auth/permissions"
+import { isObjectId } from "@/lib/object-id"
 
 const prisma = new PrismaClient()
 
@@ -24,7 +25,7 @@ export async function GET(req: Request) {
     const { pathname } = new URL(req.url);
     const permissionId = pathname.split("/").pop();
 
-    if (!permissionId) {
+    if (!isObjectId(permissionId)) {
       return NextResponse.json({ error: "Invalid permission ID" }, { status: 400 });
     }
 
@@ -67,7 +68,7 @@ export async function PUT(request: Request) {
     const { pathname } = new URL(request.url);
     const permissionId = pathname.split("/").pop();
 
-    if (!permissionId) {
+    if (!isObjectId(permissionId)) {
       return NextResponse.json({ message: "Invalid permission ID" }, { status: 400 });
     }
 
@@ -143,7 +144,7 @@ export async function DELETE(request: Request) {
     const { pathname } = new URL(request.url);
     const permissionId = pathname.split("/").pop();
 
-    if (!permissionId) {
+    if (!isObjectId(permissionId)) {
       return NextResponse.json({ message: "Invalid permission ID" }, { status: 400 });
     }
 
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server"
+import { PrismaClient, type BookingItem } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { getApplicablePromoCode, PromoCodeError } from "@/lib/bookings/promo-codes"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Preview the discount a code gives on the selected tickets; the booking itself recalculates it
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const data = await request.json()
+
+    if (!data.eventId || !data.code || !Array.isArray(data.tickets) || data.tickets.length === 0) {
+      return NextResponse.json({ message: "Missing required fields" }, { status: 400 })
+    }
+
+    if (!isObjectId(data.eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    if (!data.tickets.every((ticket: { ticketTypeId?: unknown }) => isObjectId(ticket?.ticketTypeId))) {
+      return NextResponse.json({ message: "Invalid ticket type ID" }, { status: 400 })
+    }
+
+    const ticketTypes = await prisma.ticketType.findMany({
+      where: {
+        eventId: data.eventId,
+        id: { in: data.tickets.map((ticket: { ticketTypeId: string }) => ticket.ticketTypeId) },
+      },
+    })
+
+    const items: BookingItem[] = ticketTypes.map((ticketType) => ({
+      ticketTypeId: ticketType.id,
+      name: ticketType.name,
+      price: ticketType.price,
+      quantity:
+        Number(data.tickets.find((ticket: { ticketTypeId: string }) => ticket.ticketTypeId === ticketType.id)?.quantity) ||
+        0,
+    }))
+
+    const { promoCode, discountAmount } = await getApplicablePromoCode(prisma, {
+      eventId: data.eventId,
+      code: data.code,
+      userId: session.user.id,
+      items,
+    })
+
+    const subtotal = items.reduce((total, item) => total + item.price * item.quantity, 0)
+
+    return NextResponse.json({
+      code: promoCode.code,
+      discountAmount,
+      subtotal,
+      totalAmount: Math.round((subtotal - discountAmount) * 100) / 100,
+    })
+  } catch (error) {
+    if (error instanceof PromoCodeError) {
+      return NextResponse.json(error.toJSON(), { status: error.status })
+    }
+    console.error("Error validating promo code:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -1,35 +1,67 @@
 import prisma from "@/lib/prisma"
 import { NextResponse } from "next/server"
+import { countEventFacets, getEventFilterWhere, parseEventFilters } from "@/lib/events/event-filters"
+import { pageEventsBySeries } from "@/lib/events/event-series"
+import { toOrderBy } from "@/lib/pagination"
 
 // Get published events for the public landing page
 export async function GET(request: Request) {
   try {
     const { searchParams } = new URL(request.url)
     const limit = searchParams.get("limit") ? Number.parseInt(searchParams.get("limit") as string) : 6
+    const { filters, error } = parseEventFilters(searchParams)
 
-    const events = await prisma.event.findMany({
-      where: {
-        isPublished: true,
-        startDate: {
-          gte: new Date(), // Only future events
-        },
+    if (!filters) {
+      return NextResponse.json({ message: error }, { status: 400 })
+    }
+
+    const where = {
+      isPublished: true,
+      startDate: {
+        gte: new Date(), // Only future events
       },
+    }
+
+    // Each series is listed once, by its next occurrence, with its other upcoming dates
+    const sort = { field: "startDate", order: "asc" } as const
+    const { eventIds, otherDates } = await pageEventsBySeries(
+      { AND: [where, getEventFilterWhere(filters)] },
+      sort,
+      { skip: 0, take: limit },
+    )
+
+    const events = await prisma.event.findMany({
+      where: { id: { in: eventIds } },
       include: {
         ticketTypes: {
           select: {
             id: true,
             name: true,
             price: true,
+            remaining: true,
+            salesStartDate: true,
+            availableUntil: true,
+            rolloverToId: true,
           },
         },
       },
-      orderBy: {
-        startDate: "asc",
-      },
-      take: limit,
+      orderBy: toOrderBy(sort),
     })
 
-    return NextResponse.json({ events })
+    // Facets ignore the category and tags picked, so the other choices keep their counts. Events are
+    // grouped by category and tags in the database, so only the distinct combinations are read.
+    const facetGroups = await prisma.event.groupBy({
+      by: ["category", "tags"],
+      where: { AND: [where, getEventFilterWhere({ ...filters, category: undefined, tags: undefined })] },
+      _count: { _all: true },
+    })
+
+    return NextResponse.json({
+      events: events.map((event) => ({ ...event, seriesDates: otherDates[event.id] })),
+      facets: countEventFacets(
+        facetGroups.map(({ _count, ...group }) => ({ ...group, count: _count._all })),
+      ),
+    })
   } catch (error) {
     console.error("Error fetching public events:", error)
     return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
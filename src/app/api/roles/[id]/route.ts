@@ -3,6 +3,7 @@ import { PrismaClient } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth/auth"
 import { checkPermission } from "@/lib/auth/permissions"
+import { isObjectId } from "@/lib/object-id"
 
 const prisma = new PrismaClient()
 
@@ -24,7 +25,7 @@ export async function GET(request: Request) {
     const { pathname } = new URL(request.url);
     const id = pathname.split("/").pop();
 
-    if (!id) {
+    if (!isObjectId(id)) {
       return NextResponse.json({ message: "Invalid role ID" }, { status: 400 });
     }
     const role = await prisma.role.findUnique({
@@ -70,7 +71,7 @@ export async function PUT(request: Request) {
     const { pathname } = new URL(request.url);
     const id = pathname.split("/").pop();
 
-    if (!id) {
+    if (!isObjectId(id)) {
       return NextResponse.json({ message: "Invalid role ID" }, { status: 400 });
     }
 
@@ -132,7 +133,7 @@ export async function DELETE(request: Request) {
     const { pathname } = new URL(request.url);
     const id = pathname.split("/").pop();
 
-    if (!id) {
+    if (!isObjectId(id)) {
       return NextResponse.json({ message: "Invalid role ID" }, { status: 400 });
     }
 
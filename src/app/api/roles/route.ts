@@ -3,10 +3,14 @@ import { PrismaClient } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "../../../lib/auth/auth"
 import { checkPermission } from "@/lib/auth/permissions"
+import { parsePagination, parseSort, toOrderBy } from "@/lib/pagination"
 
 const prisma = new PrismaClient()
 
-export async function GET() {
+// Fields the roles listing can be sorted by
+const ROLE_SORT_FIELDS = ["name", "createdAt"] as const
+
+export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions)
 
@@ -20,30 +24,41 @@ export async function GET() {
       return NextResponse.json({ message: "Forbidden" }, { status: 403 })
     }
 
-    const roles = await prisma.role.findMany({
-      include: {
-        permissions: {
-          include: {
-            permission: {
-              select: {
-                id: true,
-                name: true,
+    const { searchParams } = new URL(request.url)
+    const { pagination, error: paginationError } = parsePagination(searchParams)
+    const { sort, error: sortError } = parseSort(searchParams, ROLE_SORT_FIELDS, { field: "name", order: "asc" })
+
+    if (!pagination || !sort) {
+      return NextResponse.json({ message: paginationError ?? sortError }, { status: 400 })
+    }
+
+    const [roles, totalCount] = await Promise.all([
+      prisma.role.findMany({
+        include: {
+          permissions: {
+            include: {
+              permission: {
+                select: {
+                  id: true,
+                  name: true,
+                },
               },
             },
           },
-        },
-        _count: {
-          select: {
-            users: true,
+          _count: {
+            select: {
+              users: true,
+            },
           },
         },
-      },
-      orderBy: {
-        name: "asc",
-      },
-    })
-
-    return NextResponse.json({ roles })
+        orderBy: toOrderBy(sort),
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      prisma.role.count(),
+    ])
+
+    return NextResponse.json({ roles, totalCount, page: pagination.page, pageSize: pagination.pageSize })
   } catch (error) {
     console.error("Error fetching roles:", error)
     return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
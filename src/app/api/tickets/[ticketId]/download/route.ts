@@ -3,6 +3,8 @@ import { PrismaClient } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth/auth"
 import { generateTicketPDF } from "@/lib/ticket-generator/ticket-generator"
+import { signTicketToken } from "@/lib/ticket-generator/ticket-token"
+import { isObjectId } from "@/lib/object-id"
 
 const prisma = new PrismaClient()
 
@@ -14,9 +16,9 @@ export async function GET(request: Request) {
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
     }
     const { pathname } = new URL(request.url);
-    const ticketId = pathname.split("/").pop();
+    const ticketId = pathname.split("/").slice(-2)[0];
 
-    if (!ticketId) {
+    if (!isObjectId(ticketId)) {
       return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
     }
 
@@ -61,13 +63,14 @@ export async function GET(request: Request) {
 
     // Generate PDF ticket
     const pdfBuffer = await generateTicketPDF({
-      bookingId: ticket.booking.id,
+      token: await signTicketToken({ ticketId: ticket.id, eventId: ticket.booking.eventId }),
       eventName: ticket.booking.event.name,
       eventDate: new Date(ticket.booking.event.startDate),
       eventLocation: ticket.booking.event.location,
       attendeeName: ticket.booking.name,
       ticketType: ticket.ticketType.name,
       ticketNumber: ticket.ticketNumber,
+      entryPolicy: ticket.ticketType.entryPolicy,
     })
 
     // Set response headers for PDF download
@@ -2,6 +2,9 @@ import { NextResponse } from "next/server"
 import { PrismaClient } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth/auth"
+import { signTicketToken } from "@/lib/ticket-generator/ticket-token"
+import { canCheckInAttendees, canSuperviseCheckIns } from "@/lib/auth/event-access"
+import { isObjectId } from "@/lib/object-id"
 
 const prisma = new PrismaClient()
 
@@ -10,7 +13,7 @@ export async function GET(request: Request) {
     const { pathname } = new URL(request.url);
     const ticketId = pathname.split("/").pop();
 
-    if (!ticketId) {
+    if (!isObjectId(ticketId)) {
       return NextResponse.json({ error: "Invalid event ID" }, { status: 400 });
     }
     const session = await getServerSession(authOptions)
@@ -55,11 +58,20 @@ export async function GET(request: Request) {
       },
     })
 
-    if (!isOwner && !isAdmin) {
+    // The event's organiser and door staff look tickets up to check their scan history
+    const canViewScans = Boolean(isAdmin) || Boolean(await canCheckInAttendees(ticket.booking.eventId, session.user.id))
+
+    if (!isOwner && !canViewScans) {
       return NextResponse.json({ message: "You don't have permission to access this ticket" }, { status: 403 })
     }
 
-    return NextResponse.json(ticket)
+    // The QR code shown on the ticket page, only for the people who may use it
+    const token =
+      isOwner || isAdmin ? await signTicketToken({ ticketId: ticket.id, eventId: ticket.booking.eventId }) : null
+
+    const canUndoCheckIn = canViewScans && Boolean(await canSuperviseCheckIns(ticket.booking.eventId, session.user.id))
+
+    return NextResponse.json({ ...ticket, token, canViewScans, canUndoCheckIn })
   } catch (error) {
     console.error("Error fetching ticket:", error)
     return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { canCheckInAttendees } from "@/lib/auth/event-access"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Every scan of a ticket, newest first, for settling disputes at the door
+export async function GET(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const ticketId = segments[segments.length - 2]
+
+    if (!isObjectId(ticketId)) {
+      return NextResponse.json({ message: "Invalid ticket ID" }, { status: 400 })
+    }
+
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      select: { booking: { select: { eventId: true } } },
+    })
+
+    if (!ticket) {
+      return NextResponse.json({ message: "Ticket not found" }, { status: 404 })
+    }
+
+    if (!(await canCheckInAttendees(ticket.booking.eventId, session.user.id))) {
+      return NextResponse.json({ message: "You don't have permission to view this ticket's scans" }, { status: 403 })
+    }
+
+    const scans = await prisma.scanEvent.findMany({
+      where: { ticketId },
+      orderBy: { createdAt: "desc" },
+      include: {
+        event: { select: { name: true } },
+        session: { select: { name: true } },
+        operator: { select: { name: true, email: true } },
+      },
+    })
+
+    return NextResponse.json({ scans })
+  } catch (error) {
+    console.error("Error fetching ticket scans:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
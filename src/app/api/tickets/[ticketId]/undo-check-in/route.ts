@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { canSuperviseCheckIns } from "@/lib/auth/event-access"
+import { recordScanEvent, undoLatestCheckIn } from "@/lib/bookings/check-in-service"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Reverse a ticket's latest check-in, e.g. when the wrong ticket was scanned
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const segments = new URL(req.url).pathname.split("/")
+    const ticketId = segments[segments.length - 2]
+
+    if (!isObjectId(ticketId)) {
+      return NextResponse.json({ message: "Invalid ticket ID" }, { status: 400 })
+    }
+
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: ticketId },
+      select: { booking: { select: { eventId: true } } },
+    })
+
+    if (!ticket) {
+      return NextResponse.json({ message: "Ticket not found" }, { status: 404 })
+    }
+
+    const eventId = ticket.booking.eventId
+
+    if (!(await canSuperviseCheckIns(eventId, session.user.id))) {
+      return NextResponse.json({ message: "Only supervisors can undo check-ins" }, { status: 403 })
+    }
+
+    if (!(await undoLatestCheckIn(ticketId))) {
+      return NextResponse.json({ message: "This ticket hasn't been checked in" }, { status: 409 })
+    }
+
+    await recordScanEvent({ eventId, operatorId: session.user.id, result: "CHECK_IN_UNDONE", ticketId })
+
+    const updatedTicket = await prisma.ticket.findUniqueOrThrow({
+      where: { id: ticketId },
+      select: { usedAt: true, lastEntryAt: true, checkedOutAt: true },
+    })
+
+    return NextResponse.json({ message: "Check-in undone", ticket: updatedTicket })
+  } catch (error) {
+    console.error("Error undoing check-in:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -1,11 +1,39 @@
 import { NextResponse } from "next/server"
-import { PrismaClient } from "@prisma/client"
+import { PrismaClient, type ScanResult } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth/auth"
-import { checkPermission } from "@/lib/auth/permissions"
+import { canCheckInAttendees } from "@/lib/auth/event-access"
+import { verifyTicketToken } from "@/lib/ticket-generator/ticket-token"
+import {
+  recordScanEvent,
+  parseDeviceId,
+  getEntryRejection,
+  recordEntry,
+  getSessionRejection,
+  recordSessionCheckIn,
+  type EntryDirection,
+} from "@/lib/bookings/check-in-service"
+import { isObjectId } from "@/lib/object-id"
 
 const prisma = new PrismaClient()
 
+// What door staff are told when a ticket's entry policy or a session's rules turn it away
+const ENTRY_REJECTION_MESSAGES: Partial<Record<ScanResult, string>> = {
+  ALREADY_USED: "Ticket has already been used",
+  ENTERED_TODAY: "This ticket has already been used to get in today",
+  ALREADY_INSIDE: "This ticket is already checked in, scan it out first",
+  NOT_INSIDE: "This ticket isn't checked in",
+  NO_REENTRY: "This ticket type doesn't allow re-entry",
+  NO_SESSION_ACCESS: "This ticket doesn't include this session",
+  SESSION_ENDED: "This session has already ended",
+  SESSION_FULL: "This session is full",
+}
+
+function getSuccessMessage(result: ScanResult, sessionName?: string) {
+  if (result === "CHECKED_OUT") return "Ticket checked out, it can be scanned back in"
+  return sessionName ? `Ticket checked in to ${sessionName}` : "Ticket validated successfully"
+}
+
 export async function POST(request: Request) {
   try {
     const session = await getServerSession(authOptions)
@@ -14,32 +42,91 @@ export async function POST(request: Request) {
       return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
     }
 
-    // Check if user has permission to verify tickets
-    const hasPermission = (await checkPermission("events:edit")) || (await checkPermission("admin:access"))
+    const data = await request.json()
+
+    // Tickets are always checked against the event being scanned
+    const eventId = typeof data.eventId === "string" ? data.eventId : ""
 
-    if (!hasPermission) {
-      return NextResponse.json({ message: "Forbidden" }, { status: 403 })
+    if (!eventId) {
+      return NextResponse.json({ message: "Event ID is required" }, { status: 400 })
     }
 
-    const data = await request.json()
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const canCheckIn = await canCheckInAttendees(eventId, session.user.id)
+
+    if (canCheckIn === null) {
+      return NextResponse.json({ message: "Event not found" }, { status: 404 })
+    }
+
+    if (!canCheckIn) {
+      return NextResponse.json({ message: "You don't have permission to scan tickets for this event" }, { status: 403 })
+    }
+
+    if (data.direction !== undefined && data.direction !== "in" && data.direction !== "out") {
+      return NextResponse.json({ message: "Direction must be in or out" }, { status: 400 })
+    }
 
-    // Validate required fields - at least one of ticketId or ticketNumber must be provided and non-empty
-    if ((!data.ticketId || data.ticketId.trim() === "") && (!data.ticketNumber || data.ticketNumber.trim() === "")) {
-      return NextResponse.json({ message: "Valid ticket ID or ticket number is required" }, { status: 400 })
+    const direction: EntryDirection = data.direction ?? "in"
+
+    // Scanners at a session's door check tickets in to that session rather than the event
+    const sessionId = typeof data.sessionId === "string" ? data.sessionId : ""
+    const eventSession =
+      isObjectId(sessionId)
+        ? await prisma.eventSession.findFirst({ where: { id: sessionId, eventId } })
+        : null
+
+    if (sessionId && !eventSession) {
+      return NextResponse.json({ message: "Session not found" }, { status: 404 })
+    }
+
+    if (eventSession && direction === "out") {
+      return NextResponse.json({ message: "Tickets can only be checked in to sessions" }, { status: 400 })
     }
 
-    // Build the where clause for the query
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const whereClause: any = { OR: [] }
+    // Every attempt is kept for the check-in dashboard, whether or not the ticket got in
+    const operatorId = session.user.id
+    const deviceId = parseDeviceId(data.deviceId)
+    const recordScan = (result: ScanResult, ticketId?: string) =>
+      recordScanEvent({ eventId, operatorId, deviceId, result, ticketId, sessionId: eventSession?.id })
 
-    // Only add ticketId to the query if it's a valid non-empty string
-    if (data.ticketId && data.ticketId.trim() !== "") {
-      whereClause.OR.push({ id: data.ticketId.trim() })
+    const token = typeof data.token === "string" ? data.token.trim() : ""
+    const ticketNumber = typeof data.ticketNumber === "string" ? data.ticketNumber.trim() : ""
+
+    // Scanned QR codes carry a signed token, ticket numbers are typed in by hand
+    if (!token && !ticketNumber) {
+      return NextResponse.json({ message: "A ticket code or ticket number is required" }, { status: 400 })
     }
 
-    // Only add ticketNumber to the query if it's a valid non-empty string
-    if (data.ticketNumber && data.ticketNumber.trim() !== "") {
-      whereClause.OR.push({ ticketNumber: data.ticketNumber.trim() })
+    let whereClause: { id: string } | { ticketNumber: string }
+
+    if (token) {
+      const payload = await verifyTicketToken(token)
+
+      if (!payload) {
+        await recordScan("NOT_GENUINE")
+        return NextResponse.json({
+          valid: false,
+          code: "NOT_GENUINE",
+          message: "This ticket code is not genuine",
+        })
+      }
+
+      // No need to look the ticket up, the signed code already names its event
+      if (payload.eventId !== eventId) {
+        await recordScan("WRONG_EVENT", payload.ticketId)
+        return NextResponse.json({
+          valid: false,
+          code: "WRONG_EVENT",
+          message: "This ticket is for a different event",
+        })
+      }
+
+      whereClause = { id: payload.ticketId }
+    } else {
+      whereClause = { ticketNumber }
     }
 
     // Find the ticket
@@ -58,6 +145,7 @@ export async function POST(request: Request) {
                 startDate: true,
                 endDate: true,
                 location: true,
+                timezoneOffset: true,
               },
             },
           },
@@ -66,25 +154,40 @@ export async function POST(request: Request) {
           select: {
             name: true,
             price: true,
+            entryPolicy: true,
+            sessionIds: true,
           },
         },
       },
     })
 
     if (!ticket) {
+      await recordScan("NOT_FOUND")
       return NextResponse.json(
         {
           valid: false,
+          code: "NOT_FOUND",
           message: "Ticket not found",
         },
         { status: 404 },
       )
     }
 
+    if (ticket.booking.event.id !== eventId) {
+      await recordScan("WRONG_EVENT", ticket.id)
+      return NextResponse.json({
+        valid: false,
+        code: "WRONG_EVENT",
+        message: "This ticket is for a different event",
+      })
+    }
+
     // Check if booking is confirmed
     if (ticket.booking.status !== "CONFIRMED") {
+      await recordScan("NOT_CONFIRMED", ticket.id)
       return NextResponse.json({
         valid: false,
+        code: "NOT_CONFIRMED",
         message: `Ticket is not valid. Booking status: ${ticket.booking.status}`,
         ticket: {
           id: ticket.id,
@@ -97,13 +200,33 @@ export async function POST(request: Request) {
       })
     }
 
-    // Check if event date is valid (not in the past)
+    // Refunded tickets were given back and may have been sold again
+    if (ticket.refundedAt) {
+      await recordScan("REFUNDED", ticket.id)
+      return NextResponse.json({
+        valid: false,
+        code: "REFUNDED",
+        message: "Ticket has been refunded",
+        ticket: {
+          id: ticket.id,
+          ticketNumber: ticket.ticketNumber,
+          ticketType: ticket.ticketType.name,
+          attendee: ticket.booking.name,
+          event: ticket.booking.event.name,
+          status: ticket.booking.status,
+        },
+      })
+    }
+
+    // Doors stay open until the event ends, and multi-day events span several days
     const eventDate = new Date(ticket.booking.event.startDate)
     const now = new Date()
 
-    if (eventDate < now) {
+    if (new Date(ticket.booking.event.endDate) < now) {
+      await recordScan("EVENT_PASSED", ticket.id)
       return NextResponse.json({
         valid: false,
+        code: "EVENT_PASSED",
         message: "Event has already passed",
         ticket: {
           id: ticket.id,
@@ -117,18 +240,32 @@ export async function POST(request: Request) {
       })
     }
 
-    // Check if ticket has already been used
-    if (ticket.usedAt) {
+    // Sessions have their own rules, otherwise each ticket type decides how often its holder can come in
+    // and whether they can go out again
+    const entryRejection = eventSession
+      ? await getSessionRejection(ticket, eventSession, now)
+      : getEntryRejection(
+          ticket,
+          ticket.ticketType.entryPolicy,
+          direction,
+          now,
+          ticket.booking.event.timezoneOffset ?? 0,
+        )
+
+    if (entryRejection) {
+      await recordScan(entryRejection, ticket.id)
       return NextResponse.json({
         valid: false,
-        message: "Ticket has already been used",
+        code: entryRejection,
+        message: ENTRY_REJECTION_MESSAGES[entryRejection],
         ticket: {
           id: ticket.id,
           ticketNumber: ticket.ticketNumber,
           ticketType: ticket.ticketType.name,
           attendee: ticket.booking.name,
           event: ticket.booking.event.name,
-          usedAt: ticket.usedAt.toISOString(),
+          // Entry times are for the event's own door, not its sessions
+          usedAt: eventSession ? undefined : (ticket.lastEntryAt ?? ticket.usedAt)?.toISOString(),
           status: ticket.booking.status,
         },
       })
@@ -136,6 +273,7 @@ export async function POST(request: Request) {
 
     // If verification only, don't mark as used
     if (data.verifyOnly) {
+      await recordScan("VERIFIED", ticket.id)
       return NextResponse.json({
         valid: true,
         message: "Ticket is valid",
@@ -151,15 +289,36 @@ export async function POST(request: Request) {
       })
     }
 
-    // Mark ticket as used
-    const updatedTicket = await prisma.ticket.update({
-      where: { id: ticket.id },
-      data: { usedAt: new Date() },
-    })
+    // Check the ticket in or out, unless another scanner got there first
+    const result = eventSession
+      ? await recordSessionCheckIn(ticket.id, eventSession, now)
+      : await recordEntry(ticket, direction, now, ticket.booking.event.timezoneOffset ?? 0)
+    await recordScan(result, ticket.id)
+
+    const updatedTicket = await prisma.ticket.findUniqueOrThrow({ where: { id: ticket.id } })
+    const scannedAt = result === "CHECKED_OUT" ? updatedTicket.checkedOutAt : updatedTicket.lastEntryAt
+
+    if (result !== "CHECKED_IN" && result !== "CHECKED_OUT") {
+      return NextResponse.json({
+        valid: false,
+        code: result,
+        message: ENTRY_REJECTION_MESSAGES[result],
+        ticket: {
+          id: ticket.id,
+          ticketNumber: ticket.ticketNumber,
+          ticketType: ticket.ticketType.name,
+          attendee: ticket.booking.name,
+          event: ticket.booking.event.name,
+          usedAt: eventSession ? undefined : (updatedTicket.lastEntryAt ?? updatedTicket.usedAt)?.toISOString(),
+          status: ticket.booking.status,
+        },
+      })
+    }
 
     return NextResponse.json({
       valid: true,
-      message: "Ticket validated successfully",
+      code: result,
+      message: getSuccessMessage(result, eventSession?.name),
       ticket: {
         id: ticket.id,
         ticketNumber: ticket.ticketNumber,
@@ -167,7 +326,7 @@ export async function POST(request: Request) {
         attendee: ticket.booking.name,
         event: ticket.booking.event.name,
         eventDate: eventDate.toISOString(),
-        usedAt: updatedTicket.usedAt?.toISOString(),
+        usedAt: (eventSession ? now : scannedAt)?.toISOString(),
         status: ticket.booking.status,
       },
     })
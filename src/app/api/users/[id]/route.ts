@@ -3,6 +3,7 @@ import { PrismaClient } from "@prisma/client";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth/auth";
 import { checkPermission } from "@/lib/auth/permissions";
+import { isObjectId } from "@/lib/object-id";
 
 const prisma = new PrismaClient();
 
@@ -17,7 +18,7 @@ export async function GET(request: Request) {
 
     const { pathname } = new URL(request.url);
     const id = pathname.split("/").pop();
-    if (!id) return NextResponse.json({ message: "Invalid user ID" }, { status: 400 });
+    if (!isObjectId(id)) return NextResponse.json({ message: "Invalid user ID" }, { status: 400 });
 
     const user = await prisma.user.findUnique({
       where: { id },
@@ -52,7 +53,7 @@ export async function PUT(request: Request) {
 
     const { pathname } = new URL(request.url);
     const id = pathname.split("/").pop();
-    if (!id) return NextResponse.json({ message: "Invalid user ID" }, { status: 400 });
+    if (!isObjectId(id)) return NextResponse.json({ message: "Invalid user ID" }, { status: 400 });
 
     const { name, email, roleId } = await request.json();
     if (!name || !email) return NextResponse.json({ message: "Name and email are required" }, { status: 400 });
@@ -93,7 +94,7 @@ export async function DELETE(request: Request) {
 
     const { pathname } = new URL(request.url);
     const id = pathname.split("/").pop();
-    if (!id) return NextResponse.json({ message: "Invalid user ID" }, { status: 400 });
+    if (!isObjectId(id)) return NextResponse.json({ message: "Invalid user ID" }, { status: 400 });
 
     if (id === session.user.id) {
       return NextResponse.json({ message: "You cannot delete your own account" }, { status: 403 });
@@ -3,11 +3,15 @@ import { PrismaClient } from "@prisma/client"
 import { getServerSession } from "next-auth/next"
 import { authOptions } from "@/lib/auth/auth"
 import { checkPermission } from "@/lib/auth/permissions"
+import { parsePagination, parseSort, toOrderBy } from "@/lib/pagination"
 
 const prisma = new PrismaClient()
 
-// Get all users
-export async function GET() {
+// Fields the users listing can be sorted by
+const USER_SORT_FIELDS = ["createdAt", "name", "email"] as const
+
+// Get users a page at a time, optionally only those whose name or email contains ?search=
+export async function GET(request: Request) {
   try {
     const session = await getServerSession(authOptions)
 
@@ -21,29 +25,46 @@ export async function GET() {
       return NextResponse.json({ message: "Forbidden" }, { status: 403 })
     }
 
-    const users = await prisma.user.findMany({
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        image: true,
-        createdAt: true,
-        role: {
-          select: {
-            id: true,
-            name: true,
+    const { searchParams } = new URL(request.url)
+    const { pagination, error: paginationError } = parsePagination(searchParams)
+    const { sort, error: sortError } = parseSort(searchParams, USER_SORT_FIELDS, { field: "createdAt", order: "desc" })
+
+    if (!pagination || !sort) {
+      return NextResponse.json({ message: paginationError ?? sortError }, { status: 400 })
+    }
+
+    const search = searchParams.get("search")?.trim()
+    const contains = { contains: search, mode: "insensitive" as const }
+    const where = search
+      ? { OR: [{ name: contains }, { email: contains }, { role: { is: { name: contains } } }] }
+      : {}
+
+    const [users, totalCount] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          image: true,
+          createdAt: true,
+          role: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
         },
-      },
-      orderBy: {
-        createdAt: "desc",
-      },
-    })
+        orderBy: toOrderBy(sort),
+        skip: pagination.skip,
+        take: pagination.take,
+      }),
+      prisma.user.count({ where }),
+    ])
 
-    return NextResponse.json({ users })
+    return NextResponse.json({ users, totalCount, page: pagination.page, pageSize: pagination.pageSize })
   } catch (error) {
     console.error("Error fetching users:", error)
     return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
   }
 }
-
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { leaveWaitlist } from "@/lib/bookings/waitlist-service"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Leave the waitlist, giving up any tickets offered so far
+export async function DELETE(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const { pathname } = new URL(request.url)
+    const id = pathname.split("/").pop()
+
+    if (!isObjectId(id)) {
+      return NextResponse.json({ message: "Invalid waitlist entry ID" }, { status: 400 })
+    }
+
+    const entry = await prisma.waitlistEntry.findUnique({
+      where: { id },
+    })
+
+    if (!entry) {
+      return NextResponse.json({ message: "Waitlist entry not found" }, { status: 404 })
+    }
+
+    if (entry.userId !== session.user.id) {
+      return NextResponse.json({ message: "You don't have permission to remove this waitlist entry" }, { status: 403 })
+    }
+
+    await leaveWaitlist(entry.id)
+
+    return NextResponse.json({ message: "You have left the waitlist" })
+  } catch (error) {
+    console.error("Error leaving waitlist:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
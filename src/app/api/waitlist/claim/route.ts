@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { claimWaitlistOffer, WaitlistError } from "@/lib/bookings/waitlist-service"
+
+// Accept the tickets offered in a waitlist email; checkout then continues with the returned hold
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const { token } = await request.json()
+
+    if (!token) {
+      return NextResponse.json({ message: "Claim token is required" }, { status: 400 })
+    }
+
+    const { eventId, hold } = await claimWaitlistOffer(token, session.user.id)
+
+    return NextResponse.json({ message: "Your tickets are reserved", eventId, hold })
+  } catch (error) {
+    if (error instanceof WaitlistError) {
+      return NextResponse.json(error.toJSON(), { status: error.status })
+    }
+    console.error("Error claiming waitlist offer:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server"
+import { PrismaClient } from "@prisma/client"
+import { getServerSession } from "next-auth/next"
+import { authOptions } from "@/lib/auth/auth"
+import { getWaitlistPosition, joinWaitlist, WaitlistError } from "@/lib/bookings/waitlist-service"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Get the current user's open waitlist entries for an event, with their place in line
+export async function GET(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const eventId = new URL(request.url).searchParams.get("eventId")
+
+    if (!eventId) {
+      return NextResponse.json({ message: "Event ID is required" }, { status: 400 })
+    }
+
+    if (!isObjectId(eventId)) {
+      return NextResponse.json({ message: "Invalid event ID" }, { status: 400 })
+    }
+
+    const entries = await prisma.waitlistEntry.findMany({
+      where: {
+        userId: session.user.id,
+        eventId,
+        status: { in: ["WAITING", "OFFERED"] },
+      },
+      orderBy: { createdAt: "asc" },
+    })
+
+    const entriesWithPosition = await Promise.all(
+      entries.map(async (entry) => ({
+        ...entry,
+        claimToken: undefined,
+        position: entry.status === "WAITING" ? await getWaitlistPosition(entry) : null,
+      })),
+    )
+
+    return NextResponse.json({ entries: entriesWithPosition })
+  } catch (error) {
+    console.error("Error fetching waitlist entries:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
+
+// Join the waitlist for a sold out ticket type
+export async function POST(request: Request) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ message: "Unauthorized" }, { status: 401 })
+    }
+
+    const data = await request.json()
+
+    if (!data.ticketTypeId) {
+      return NextResponse.json({ message: "Ticket type is required" }, { status: 400 })
+    }
+
+    if (!isObjectId(data.ticketTypeId)) {
+      return NextResponse.json({ message: "Invalid ticket type ID" }, { status: 400 })
+    }
+
+    const entry = await joinWaitlist(session.user.id, data.ticketTypeId, Number(data.quantity ?? 1))
+    const position = await getWaitlistPosition(entry)
+
+    return NextResponse.json(
+      { message: "You have joined the waitlist", entry: { ...entry, position } },
+      { status: 201 },
+    )
+  } catch (error) {
+    if (error instanceof WaitlistError) {
+      return NextResponse.json(error.toJSON(), { status: error.status })
+    }
+    console.error("Error joining waitlist:", error)
+    return NextResponse.json({ message: "Something went wrong" }, { status: 500 })
+  }
+}
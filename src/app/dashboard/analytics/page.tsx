@@ -0,0 +1,28 @@
+import { AnalyticsDashboard } from "@/components/dashboard/analytics/analytics-dashboard"
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { PermissionGate } from "@/components/auth/permission-gate"
+
+export default function AnalyticsPage() {
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Analytics</h1>
+        <p className="text-muted-foreground">Sales, bookings and attendance across your events.</p>
+      </div>
+
+      <PermissionGate
+        permission="analytics:access"
+        fallback={
+          <Card>
+            <CardHeader>
+              <CardTitle>Access Denied</CardTitle>
+              <CardDescription>You don&#39;t have permission to view analytics.</CardDescription>
+            </CardHeader>
+          </Card>
+        }
+      >
+        <AnalyticsDashboard />
+      </PermissionGate>
+    </div>
+  )
+}
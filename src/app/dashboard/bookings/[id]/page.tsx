@@ -21,6 +21,7 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog"
 import { toast } from "sonner"
+import { RefundDialog, type RefundInfo } from "@/components/dashboard/bookings/refund-dialog"
 
 interface Booking {
   id: string
@@ -30,6 +31,10 @@ interface Booking {
   totalAmount: number
   status: string
   paymentId: string | null
+  expiresAt: string | null
+  refundedAmount: number | null
+  promoCode: string | null
+  discountAmount: number | null
   createdAt: string
   event: {
     id: string
@@ -42,6 +47,8 @@ interface Booking {
   tickets: {
     id: string
     ticketNumber: string
+    usedAt: string | null
+    refundedAt: string | null
     ticketType: {
       id: string
       name: string
@@ -50,6 +57,15 @@ interface Booking {
   }[]
 }
 
+interface Refund {
+  id: string
+  amount: number
+  reason: string | null
+  status: string
+  ticketIds: string[]
+  createdAt: string
+}
+
 export default function BookingDetailsPage() {
   const params = useParams()
   //   const router = useRouter();
@@ -58,6 +74,9 @@ export default function BookingDetailsPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [isCancelling, setIsCancelling] = useState(false)
+  const [isCheckingPayment, setIsCheckingPayment] = useState(false)
+  const [refunds, setRefunds] = useState<Refund[]>([])
+  const [refundInfo, setRefundInfo] = useState<RefundInfo | null>(null)
 
   const fetchBooking = useCallback(async () => {
     try {
@@ -72,6 +91,13 @@ export default function BookingDetailsPage() {
 
       const data = await response.json()
       setBooking(data)
+
+      const refundsResponse = await fetch(`/api/bookings/${id}/refunds`)
+      if (refundsResponse.ok) {
+        const { refunds, ...info } = await refundsResponse.json()
+        setRefunds(refunds)
+        setRefundInfo(info)
+      }
     } catch (error) {
       setError(error instanceof Error ? error.message : "An error occurred")
     } finally {
@@ -104,9 +130,7 @@ export default function BookingDetailsPage() {
       })
 
       // Refresh booking data
-      const bookingResponse = await fetch(`/api/bookings/${params.id}`)
-      const bookingData = await bookingResponse.json()
-      setBooking(bookingData)
+      await fetchBooking()
     } catch (error) {
       toast("Error", {
         description: error instanceof Error ? error.message : "Failed to cancel booking",
@@ -117,6 +141,39 @@ export default function BookingDetailsPage() {
     }
   }
 
+  const handleCheckPayment = async () => {
+    setIsCheckingPayment(true)
+    try {
+      const response = await fetch("/api/payments/confirm", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ bookingId: id }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok && response.status !== 202) {
+        throw new Error(result.message || "Failed to check payment")
+      }
+
+      toast(response.status === 202 ? "Payment pending" : "Payment confirmed", {
+        description: result.message,
+      })
+
+      await fetchBooking()
+    } catch (error) {
+      toast("Error", {
+        description: error instanceof Error ? error.message : "Failed to check payment",
+        style: { backgroundColor: "#ff4d4f", color: "#fff" },
+      })
+      await fetchBooking()
+    } finally {
+      setIsCheckingPayment(false)
+    }
+  }
+
   if (isLoading) {
     return (
       <div className="flex justify-center py-12">
@@ -140,7 +197,13 @@ export default function BookingDetailsPage() {
   }
 
   const isUpcoming = new Date(booking.event.startDate) > new Date()
-  const canCancel = booking.status === "CONFIRMED" && isUpcoming
+  // Paid bookings are refunded rather than cancelled
+  const isPaid = !!booking.paymentId && booking.totalAmount > 0
+  const canCancel = (booking.status === "PENDING" || (booking.status === "CONFIRMED" && !isPaid)) && isUpcoming
+  const canRefund =
+    booking.status === "CONFIRMED" &&
+    !!refundInfo &&
+    (refundInfo.isStaff || (refundInfo.percentage > 0 && refundInfo.refundableTicketIds.length > 0 && isPaid))
 
   return (
     <div className="space-y-6">
@@ -179,7 +242,9 @@ export default function BookingDetailsPage() {
                       ? "default"
                       : booking.status === "CANCELLED"
                         ? "destructive"
-                        : "secondary"
+                        : booking.status === "REFUNDED"
+                          ? "outline"
+                          : "secondary"
                   }
                 >
                   {booking.status}
@@ -236,13 +301,33 @@ export default function BookingDetailsPage() {
 
               <div>
                 <h3 className="text-lg font-medium">Tickets</h3>
+                {booking.status === "PENDING" && (
+                  <div className="mt-2 flex items-center justify-between rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                    <span>
+                      Awaiting payment. Your tickets will be issued once the payment is confirmed.
+                      {booking.expiresAt &&
+                        ` Unpaid bookings are released at ${format(new Date(booking.expiresAt), "h:mm a")}.`}
+                    </span>
+                    <Button variant="outline" size="sm" onClick={handleCheckPayment} disabled={isCheckingPayment}>
+                      {isCheckingPayment ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+                      Check Payment
+                    </Button>
+                  </div>
+                )}
                 <div className="mt-2 space-y-4">
                   {booking.tickets.map((ticket) => (
                     <Card key={ticket.id}>
                       <CardContent className="p-4">
                         <div className="flex justify-between items-center">
                           <div>
-                            <h4 className="font-medium">{ticket.ticketType.name}</h4>
+                            <h4 className="font-medium">
+                              {ticket.ticketType.name}
+                              {ticket.refundedAt && (
+                                <Badge variant="outline" className="ml-2">
+                                  Refunded
+                                </Badge>
+                              )}
+                            </h4>
                             <p className="text-sm text-muted-foreground">Ticket #{ticket.ticketNumber}</p>
                           </div>
                           <div className="flex items-center gap-2">
@@ -269,6 +354,16 @@ export default function BookingDetailsPage() {
                 </div>
               </div>
             </CardContent>
+            {canRefund && refundInfo && (
+              <CardFooter>
+                <RefundDialog
+                  bookingId={booking.id}
+                  tickets={booking.tickets}
+                  refundInfo={refundInfo}
+                  onRefunded={fetchBooking}
+                />
+              </CardFooter>
+            )}
             {canCancel && (
               <CardFooter>
                 <AlertDialog>
@@ -352,17 +447,58 @@ export default function BookingDetailsPage() {
 
                 <Separator />
 
+                {!!booking.discountAmount && (
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>Discount{booking.promoCode && ` (${booking.promoCode})`}</span>
+                    <span>- Kshs {booking.discountAmount.toFixed(2)}</span>
+                  </div>
+                )}
+
                 <div className="flex justify-between font-medium">
                   <span>Total</span>
                   <span>Kshs {booking.totalAmount.toFixed(2)}</span>
                 </div>
 
+                {!!booking.refundedAmount && (
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>Refunded</span>
+                    <span>- Kshs {booking.refundedAmount.toFixed(2)}</span>
+                  </div>
+                )}
+
                 {booking.paymentId && (
                   <div className="text-xs text-muted-foreground">Payment ID: {booking.paymentId}</div>
                 )}
               </div>
             </CardContent>
           </Card>
+
+          {refunds.length > 0 && (
+            <Card className="mt-6">
+              <CardHeader>
+                <CardTitle>Refunds</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {refunds.map((refund) => (
+                  <div key={refund.id} className="text-sm">
+                    <div className="flex justify-between">
+                      <span>{format(new Date(refund.createdAt), "MMM d, yyyy h:mm a")}</span>
+                      <span className="font-medium">Kshs {refund.amount.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between text-muted-foreground">
+                      <span>
+                        {refund.ticketIds.length > 0
+                          ? `${refund.ticketIds.length} ticket${refund.ticketIds.length === 1 ? "" : "s"}`
+                          : "Amount only"}
+                        {refund.reason && ` · ${refund.reason}`}
+                      </span>
+                      <Badge variant={refund.status === "FAILED" ? "destructive" : "secondary"}>{refund.status}</Badge>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,28 @@
+import { BookingConsole } from "@/components/dashboard/bookings/booking-console"
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { PermissionGate } from "@/components/auth/permission-gate"
+
+export default function ManageBookingsPage() {
+  return (
+    <div className="flex flex-col gap-6">
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Manage Bookings</h1>
+        <p className="text-muted-foreground">Find any booking for your events and act on several at once.</p>
+      </div>
+
+      <PermissionGate
+        permission="bookings:manage"
+        fallback={
+          <Card>
+            <CardHeader>
+              <CardTitle>Access Denied</CardTitle>
+              <CardDescription>You don&#39;t have permission to manage bookings.</CardDescription>
+            </CardHeader>
+          </Card>
+        }
+      >
+        <BookingConsole />
+      </PermissionGate>
+    </div>
+  )
+}
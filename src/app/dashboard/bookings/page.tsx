@@ -4,25 +4,28 @@ import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { BookingsList } from "@/components/dashboard/bookings/bookings-list"
-
-interface Booking {
-  event: {
-    startDate: string;
-  };
-}
+import type { PageInfo } from "@/components/dashboard/pagination-controls"
 
 export default function BookingsPage() {
   const [activeTab, setActiveTab] = useState("all")
   const [isLoading, setIsLoading] = useState(true)
   const [bookings, setBookings] = useState([])
+  const [page, setPage] = useState(1)
+  const [pageInfo, setPageInfo] = useState<PageInfo>()
 
   useEffect(() => {
     const fetchBookings = async () => {
+      setIsLoading(true)
       try {
-        const response = await fetch("/api/bookings")
+        // Each tab asks for its own bookings so the pages line up
+        const params = new URLSearchParams({ page: String(page) })
+        if (activeTab !== "all") params.set("scope", activeTab)
+
+        const response = await fetch(`/api/bookings?${params}`)
         if (!response.ok) throw new Error("Failed to fetch bookings")
         const data = await response.json()
         setBookings(data.bookings)
+        setPageInfo({ page: data.page, pageSize: data.pageSize, totalCount: data.totalCount })
       } catch (error) {
         console.error("Error fetching bookings:", error)
       } finally {
@@ -31,7 +34,12 @@ export default function BookingsPage() {
     }
 
     fetchBookings()
-  }, [])
+  }, [activeTab, page])
+
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab)
+    setPage(1)
+  }
 
   return (
     <div className="flex flex-col gap-6">
@@ -40,7 +48,7 @@ export default function BookingsPage() {
         <p className="text-muted-foreground">View and manage your event bookings</p>
       </div>
 
-      <Tabs defaultValue="all" value={activeTab} onValueChange={setActiveTab} className="space-y-4">
+      <Tabs defaultValue="all" value={activeTab} onValueChange={handleTabChange} className="space-y-4">
         <TabsList>
           <TabsTrigger value="all">All Bookings</TabsTrigger>
           <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
@@ -54,7 +62,13 @@ export default function BookingsPage() {
               <CardDescription>View all your bookings</CardDescription>
             </CardHeader>
             <CardContent>
-              <BookingsList bookings={bookings} isLoading={isLoading} emptyMessage="You don't have any bookings yet" />
+              <BookingsList
+                bookings={bookings}
+                isLoading={isLoading}
+                emptyMessage="You don't have any bookings yet"
+                pageInfo={pageInfo}
+                onPageChange={setPage}
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -67,9 +81,11 @@ export default function BookingsPage() {
             </CardHeader>
             <CardContent>
               <BookingsList
-                bookings={bookings.filter((booking: Booking) => new Date(booking.event.startDate) > new Date())}
+                bookings={bookings}
                 isLoading={isLoading}
                 emptyMessage="You don't have any upcoming bookings"
+                pageInfo={pageInfo}
+                onPageChange={setPage}
               />
             </CardContent>
           </Card>
@@ -83,9 +99,11 @@ export default function BookingsPage() {
             </CardHeader>
             <CardContent>
               <BookingsList
-                bookings={bookings.filter((booking: Booking) => new Date(booking.event.startDate) < new Date())}
+                bookings={bookings}
                 isLoading={isLoading}
                 emptyMessage="You don't have any past bookings"
+                pageInfo={pageInfo}
+                onPageChange={setPage}
               />
             </CardContent>
           </Card>
@@ -0,0 +1,111 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useParams } from "next/navigation"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Card, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Loader2, ArrowLeft, Activity } from "lucide-react"
+import { PermissionGate } from "@/components/auth/permission-gate"
+import { AttendeeList } from "@/components/dashboard/events/attendee-list"
+
+interface Event {
+  id: string
+  name: string
+  startDate: string
+  ticketTypes: {
+    id: string
+    name: string
+  }[]
+}
+
+export default function AttendeesPage() {
+  const params = useParams()
+  const eventId = params.eventId as string
+  const [event, setEvent] = useState<Event | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const fetchEvent = async () => {
+      try {
+        const response = await fetch(`/api/events/${eventId}`)
+
+        if (!response.ok) {
+          throw new Error(response.status === 404 ? "Event not found" : "Failed to fetch event")
+        }
+
+        setEvent(await response.json())
+      } catch (error) {
+        setError(error instanceof Error ? error.message : "An error occurred")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchEvent()
+  }, [eventId])
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (error || !event) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-center">
+        <h2 className="text-2xl font-bold mb-4">{error || "Event not found"}</h2>
+        <Button asChild>
+          <Link href="/dashboard/events">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Events
+          </Link>
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <Button variant="outline" asChild>
+          <Link href={`/dashboard/events/${eventId}`}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Event
+          </Link>
+        </Button>
+        <Button variant="outline" asChild>
+          <Link href={`/dashboard/events/${eventId}/check-ins`}>
+            <Activity className="mr-2 h-4 w-4" />
+            Check-ins
+          </Link>
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-2xl font-bold">Attendees</h1>
+        <p className="text-muted-foreground">
+          {event.name} on {format(new Date(event.startDate), "MMMM d, yyyy")}
+        </p>
+      </div>
+
+      <PermissionGate
+        permission="attendees:read"
+        fallback={
+          <Card>
+            <CardHeader>
+              <CardTitle>Access Denied</CardTitle>
+              <CardDescription>You don&#39;t have permission to view attendees.</CardDescription>
+            </CardHeader>
+          </Card>
+        }
+      >
+        <AttendeeList eventId={eventId} ticketTypes={event.ticketTypes} />
+      </PermissionGate>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { useParams, useRouter } from "next/navigation"
+import { useState, useEffect, useCallback } from "react"
+import { useParams, useRouter, useSearchParams } from "next/navigation"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { useForm } from "react-hook-form"
 import * as z from "zod"
@@ -10,11 +10,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Separator } from "@/components/ui/separator"
-import { Loader2, ArrowLeft, Calendar, Clock, MapPin, CreditCard } from "lucide-react"
+import { Loader2, ArrowLeft, Calendar, Clock, MapPin, CreditCard, Smartphone, Timer, Tag } from "lucide-react"
 import { format } from "date-fns"
 import Link from "next/link"
 import { useSession } from "next-auth/react"
 import { toast } from "sonner"
+import { getSalesStatus, SALES_STATUS_LABELS } from "@/lib/bookings/sales-window"
 
 interface TicketType {
   id: string
@@ -22,6 +23,9 @@ interface TicketType {
   description: string | null
   price: number
   remaining: number
+  salesStartDate: string | null
+  availableUntil: string | null
+  rolloverToId: string | null
 }
 
 interface Event {
@@ -48,16 +52,70 @@ const bookingFormSchema = z.object({
 
 type BookingFormValues = z.infer<typeof bookingFormSchema>
 
+interface TicketHold {
+  id: string
+  expiresAt: string
+  items: {
+    ticketTypeId: string
+    quantity: number
+  }[]
+}
+
+interface WaitlistEntry {
+  id: string
+  ticketTypeId: string
+  quantity: number
+  status: "WAITING" | "OFFERED"
+  position: number | null
+}
+
+interface AppliedPromoCode {
+  code: string
+  discountAmount: number
+}
+
+interface PaymentProviderOption {
+  name: string
+  label: string
+}
+
+// How often and how long to wait for the customer to approve an M-Pesa prompt
+const PAYMENT_POLL_INTERVAL = 5000
+const PAYMENT_POLL_ATTEMPTS = 24
+
+// m:ss, or h:mm:ss for waitlist offers which are held for hours
+function formatCountdown(seconds: number) {
+  const pad = (value: number) => String(value).padStart(2, "0")
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds % 60)}` : `${minutes}:${pad(seconds % 60)}`
+}
+
 export default function BookEventPage() {
   const params = useParams()
   const eventId = params.eventId
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const claimToken = searchParams.get("claim")
   const { data: session } = useSession()
   const [event, setEvent] = useState<Event | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedTickets, setSelectedTickets] = useState<Record<string, number>>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [paymentProviders, setPaymentProviders] = useState<PaymentProviderOption[]>([])
+  const [paymentProvider, setPaymentProvider] = useState<string | null>(null)
+  const [isAwaitingPayment, setIsAwaitingPayment] = useState(false)
+  const [hold, setHold] = useState<TicketHold | null>(null)
+  const [isReserving, setIsReserving] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+  const [promoCodeInput, setPromoCodeInput] = useState("")
+  const [appliedPromoCode, setAppliedPromoCode] = useState<AppliedPromoCode | null>(null)
+  const [isApplyingPromoCode, setIsApplyingPromoCode] = useState(false)
+  const [waitlistEntries, setWaitlistEntries] = useState<WaitlistEntry[]>([])
+  const [waitlistQuantities, setWaitlistQuantities] = useState<Record<string, number>>({})
+  const [updatingWaitlistId, setUpdatingWaitlistId] = useState<string | null>(null)
 
   const form = useForm<BookingFormValues>({
     resolver: zodResolver(bookingFormSchema),
@@ -76,6 +134,30 @@ export default function BookEventPage() {
     }
   }, [session, form])
 
+  // Pick up a reservation made earlier, e.g. before the page was reloaded
+  const loadHold = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/holds?eventId=${eventId}`)
+      if (!response.ok) throw new Error("Failed to fetch reservation")
+      const data = await response.json()
+      setHold(data.hold)
+      setNow(Date.now())
+
+      if (data.hold) {
+        const heldTickets: Record<string, number> = {}
+        data.hold.items.forEach((item: TicketHold["items"][number]) => {
+          heldTickets[item.ticketTypeId] = item.quantity
+        })
+        setSelectedTickets((current) => {
+          const reset = Object.fromEntries(Object.keys(current).map((ticketId) => [ticketId, 0]))
+          return { ...reset, ...heldTickets }
+        })
+      }
+    } catch (error) {
+      console.error("Error fetching reservation:", error)
+    }
+  }, [eventId])
+
   useEffect(() => {
     const fetchEvent = async () => {
       try {
@@ -103,6 +185,8 @@ export default function BookEventPage() {
           initialTickets[ticket.id] = 0
         })
         setSelectedTickets(initialTickets)
+
+        await loadHold()
       } catch (error) {
         setError(error instanceof Error ? error.message : "An error occurred")
       } finally {
@@ -111,13 +195,172 @@ export default function BookEventPage() {
     }
 
     fetchEvent()
+  }, [eventId, loadHold])
+
+  const loadWaitlist = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/waitlist?eventId=${eventId}`)
+      if (!response.ok) throw new Error("Failed to fetch waitlist")
+      const data = await response.json()
+      setWaitlistEntries(data.entries)
+    } catch (error) {
+      console.error("Error fetching waitlist:", error)
+    }
   }, [eventId])
 
+  useEffect(() => {
+    loadWaitlist()
+  }, [loadWaitlist])
+
+  // Tickets offered from the waitlist are already held, the emailed link just takes the attendee to them
+  useEffect(() => {
+    if (!claimToken) return
+
+    const claimOffer = async () => {
+      try {
+        const response = await fetch("/api/waitlist/claim", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ token: claimToken }),
+        })
+
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.message || "Failed to claim tickets")
+        }
+
+        toast("Tickets reserved", {
+          description: "Complete your booking before the reservation runs out.",
+        })
+        await loadHold()
+        await loadWaitlist()
+      } catch (error) {
+        toast("Offer unavailable", {
+          description: error instanceof Error ? error.message : "Failed to claim tickets",
+          style: { backgroundColor: "#ff4d4f", color: "#fff" },
+        })
+      } finally {
+        router.replace(`/dashboard/events/${eventId}/book`)
+      }
+    }
+
+    claimOffer()
+  }, [claimToken, eventId, loadHold, loadWaitlist, router])
+
+  const joinWaitlist = async (ticketTypeId: string) => {
+    setUpdatingWaitlistId(ticketTypeId)
+
+    try {
+      const response = await fetch("/api/waitlist", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ticketTypeId, quantity: waitlistQuantities[ticketTypeId] || 1 }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to join the waitlist")
+      }
+
+      toast("You're on the waitlist", {
+        description: "We'll email you as soon as tickets become available.",
+      })
+      await loadWaitlist()
+    } catch (error) {
+      toast("Waitlist", {
+        description: error instanceof Error ? error.message : "Failed to join the waitlist",
+        style: { backgroundColor: "#ff4d4f", color: "#fff" },
+      })
+    } finally {
+      setUpdatingWaitlistId(null)
+    }
+  }
+
+  const leaveWaitlist = async (entry: WaitlistEntry) => {
+    setUpdatingWaitlistId(entry.ticketTypeId)
+
+    try {
+      const response = await fetch(`/api/waitlist/${entry.id}`, { method: "DELETE" })
+      if (!response.ok) throw new Error("Failed to leave the waitlist")
+      await loadWaitlist()
+    } catch (error) {
+      console.error("Error leaving waitlist:", error)
+    } finally {
+      setUpdatingWaitlistId(null)
+    }
+  }
+
+  // Reload availability after tickets have been released
+  const refreshTicketTypes = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/events/${eventId}`)
+      if (!response.ok) throw new Error("Failed to fetch event")
+      const data = await response.json()
+      setEvent(data)
+
+      // Tickets that sold out or went off sale in the meantime can't stay selected
+      setSelectedTickets((current) => {
+        const available: Record<string, number> = {}
+        data.ticketTypes.forEach((ticket: TicketType) => {
+          available[ticket.id] =
+            getSalesStatus(ticket, data.ticketTypes) === "ON_SALE" ? Math.min(current[ticket.id] || 0, ticket.remaining) : 0
+        })
+        return available
+      })
+    } catch (error) {
+      console.error("Error refreshing tickets:", error)
+    }
+  }, [eventId])
+
+  useEffect(() => {
+    if (!hold) return
+
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [hold])
+
+  const secondsLeft = hold ? Math.max(0, Math.floor((new Date(hold.expiresAt).getTime() - now) / 1000)) : 0
+
+  useEffect(() => {
+    if (hold && secondsLeft === 0 && !isSubmitting) {
+      setHold(null)
+      toast("Reservation expired", {
+        description: "Your tickets have been released. Please select them again.",
+        style: { backgroundColor: "#ff4d4f", color: "#fff" },
+      })
+      refreshTicketTypes()
+    }
+  }, [hold, secondsLeft, isSubmitting, refreshTicketTypes])
+
+  useEffect(() => {
+    const fetchPaymentProviders = async () => {
+      try {
+        const response = await fetch("/api/payments/providers")
+        if (!response.ok) throw new Error("Failed to fetch payment methods")
+        const data = await response.json()
+        setPaymentProviders(data.providers)
+        setPaymentProvider(data.providers[0]?.name ?? null)
+      } catch (error) {
+        console.error("Error fetching payment methods:", error)
+      }
+    }
+
+    fetchPaymentProviders()
+  }, [])
+
   const handleTicketChange = (ticketId: string, value: number) => {
     setSelectedTickets({
       ...selectedTickets,
       [ticketId]: value,
     })
+    // The discount depends on the tickets, so it has to be applied again
+    setAppliedPromoCode(null)
   }
 
   const calculateTotal = () => {
@@ -128,32 +371,153 @@ export default function BookEventPage() {
     }, 0)
   }
 
+  const calculateAmountDue = () => {
+    return Math.max(0, calculateTotal() - (appliedPromoCode?.discountAmount || 0))
+  }
+
   const getTotalTickets = () => {
     return Object.values(selectedTickets).reduce((sum, count) => sum + count, 0)
   }
 
-  async function onSubmit(data: BookingFormValues) {
-    // Validate that at least one ticket is selected
-    if (getTotalTickets() === 0) {
-        toast("No tickets selected", {
-            description: "Please select at least one ticket to continue.",
-            style: { backgroundColor: "#ff4d4f", color: "#fff" },
-          });
-      return
-    }
-
-    setIsSubmitting(true)
-
-    try {
-      // Prepare tickets data
-      const tickets = Object.entries(selectedTickets)
+  const getSelectedTickets = () => {
+    return (
+      Object.entries(selectedTickets)
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         .filter(([_, quantity]) => quantity > 0)
         .map(([ticketTypeId, quantity]) => ({
           ticketTypeId,
           quantity,
         }))
+    )
+  }
+
+  const applyPromoCode = async () => {
+    if (!promoCodeInput.trim() || getTotalTickets() === 0) return
+
+    setIsApplyingPromoCode(true)
+
+    try {
+      const response = await fetch("/api/promo-codes/validate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ eventId: params.eventId, code: promoCodeInput, tickets: getSelectedTickets() }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to apply promo code")
+      }
+
+      setAppliedPromoCode({ code: result.code, discountAmount: result.discountAmount })
+    } catch (error) {
+      setAppliedPromoCode(null)
+      toast("Promo code not applied", {
+        description: error instanceof Error ? error.message : "Failed to apply promo code",
+        style: { backgroundColor: "#ff4d4f", color: "#fff" },
+      })
+    } finally {
+      setIsApplyingPromoCode(false)
+    }
+  }
+
+  const reserveTickets = async () => {
+    if (getTotalTickets() === 0) {
+      toast("No tickets selected", {
+        description: "Please select at least one ticket to continue.",
+        style: { backgroundColor: "#ff4d4f", color: "#fff" },
+      })
+      return
+    }
+
+    setIsReserving(true)
+
+    try {
+      const tickets = getSelectedTickets()
+
+      const response = await fetch("/api/holds", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ eventId: params.eventId, tickets }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to reserve tickets")
+      }
+
+      setHold(result.hold)
+      setNow(Date.now())
+    } catch (error) {
+      toast("Reservation Failed", {
+        description: error instanceof Error ? error.message : "Failed to reserve tickets",
+        style: { backgroundColor: "#ff4d4f", color: "#fff" },
+      })
+      refreshTicketTypes()
+    } finally {
+      setIsReserving(false)
+    }
+  }
+
+  const changeSelection = async () => {
+    if (!hold) return
+
+    setIsReserving(true)
+
+    try {
+      await fetch(`/api/holds/${hold.id}`, { method: "DELETE" })
+      setHold(null)
+      await refreshTicketTypes()
+    } catch (error) {
+      console.error("Error releasing reservation:", error)
+    } finally {
+      setIsReserving(false)
+    }
+  }
+
+  // Ask the server for the payment outcome until the provider settles it, returns false if it is still pending
+  const waitForPayment = async (bookingId: string) => {
+    for (let attempt = 0; attempt < PAYMENT_POLL_ATTEMPTS; attempt++) {
+      const response = await fetch("/api/payments/confirm", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ bookingId }),
+      })
+
+      if (response.status !== 202) {
+        const result = await response.json()
+        if (!response.ok) {
+          throw new Error(result.message || "Payment failed")
+        }
+        return true
+      }
 
+      await new Promise((resolve) => setTimeout(resolve, PAYMENT_POLL_INTERVAL))
+    }
+
+    return false
+  }
+
+  async function onSubmit(data: BookingFormValues) {
+    // Tickets must be reserved before paying for them
+    if (!hold) {
+      toast("No tickets reserved", {
+        description: "Please select and reserve your tickets to continue.",
+        style: { backgroundColor: "#ff4d4f", color: "#fff" },
+      })
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
       const response = await fetch("/api/bookings", {
         method: "POST",
         headers: {
@@ -164,17 +528,52 @@ export default function BookEventPage() {
           name: data.name,
           email: data.email,
           phone: data.phone,
-          tickets,
+          holdId: hold.id,
+          promoCode: appliedPromoCode?.code,
+          paymentProvider,
         }),
       })
 
       if (!response.ok) {
         const error = await response.json()
+        // A failed checkout may have used up or released the reservation
+        await loadHold()
+        await refreshTicketTypes()
         throw new Error(error.message || "Failed to book tickets")
       }
 
       const result = await response.json()
 
+      // The reservation now belongs to the booking, which has its own deadline for the payment
+      if (result.booking?.expiresAt) {
+        setHold({ ...hold, expiresAt: result.booking.expiresAt })
+      }
+
+      // Some providers finish the payment on their own checkout page
+      if (result.payment?.redirectUrl) {
+        window.location.href = result.payment.redirectUrl
+        return
+      }
+
+      if (result.payment?.status === "PENDING") {
+        if (paymentProvider === "mpesa") {
+          setIsAwaitingPayment(true)
+          toast("Check your phone", {
+            description: result.payment.message || "Enter your M-Pesa PIN to complete the payment.",
+          })
+        }
+
+        const isPaid = await waitForPayment(result.booking.id)
+
+        if (!isPaid) {
+          toast("Payment pending", {
+            description: "We will issue your tickets as soon as the payment is confirmed.",
+          })
+          router.push(`/dashboard/bookings/${result.booking.id}`)
+          return
+        }
+      }
+
       toast("Booking successful!", {
         description: "Your tickets have been booked successfully.",
       });
@@ -188,6 +587,7 @@ export default function BookEventPage() {
       })
     } finally {
       setIsSubmitting(false)
+      setIsAwaitingPayment(false)
     }
   }
 
@@ -213,6 +613,11 @@ export default function BookEventPage() {
     )
   }
 
+  const salesStatuses = Object.fromEntries(
+    event.ticketTypes.map((ticket) => [ticket.id, getSalesStatus(ticket, event.ticketTypes, new Date(now))]),
+  )
+  const waitlistByTicketType = Object.fromEntries(waitlistEntries.map((entry) => [entry.ticketTypeId, entry]))
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -270,7 +675,7 @@ export default function BookEventPage() {
                         <FormItem>
                           <FormLabel>Phone Number</FormLabel>
                           <FormControl>
-                            <Input placeholder="+1 (555) 123-4567" {...field} />
+                            <Input placeholder="0712 345 678" {...field} />
                           </FormControl>
                           <FormMessage />
                         </FormItem>
@@ -290,13 +695,75 @@ export default function BookEventPage() {
                           {ticket.description && (
                             <p className="text-sm text-muted-foreground mt-1">{ticket.description}</p>
                           )}
+                          {salesStatuses[ticket.id] === "ON_SALE" && ticket.availableUntil && (
+                            <p className="text-sm text-amber-600 mt-1">
+                              Sales end {format(new Date(ticket.availableUntil), "MMM d, yyyy h:mm a")}
+                            </p>
+                          )}
+                          {salesStatuses[ticket.id] !== "ON_SALE" && (
+                            <p className="text-sm font-medium text-muted-foreground mt-1">
+                              {SALES_STATUS_LABELS[salesStatuses[ticket.id]]}
+                              {salesStatuses[ticket.id] === "NOT_STARTED" &&
+                                ticket.salesStartDate &&
+                                new Date(ticket.salesStartDate).getTime() > now &&
+                                ` · opens ${format(new Date(ticket.salesStartDate), "MMM d, yyyy h:mm a")}`}
+                            </p>
+                          )}
+                          {salesStatuses[ticket.id] === "SOLD_OUT" &&
+                            (waitlistByTicketType[ticket.id] ? (
+                              <div className="flex items-center gap-2 mt-2">
+                                <span className="text-sm">
+                                  {waitlistByTicketType[ticket.id].status === "OFFERED"
+                                    ? "Tickets have been set aside for you"
+                                    : `On the waitlist for ${waitlistByTicketType[ticket.id].quantity} · #${waitlistByTicketType[ticket.id].position} in line`}
+                                </span>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  disabled={updatingWaitlistId === ticket.id}
+                                  onClick={() => leaveWaitlist(waitlistByTicketType[ticket.id])}
+                                >
+                                  Leave
+                                </Button>
+                              </div>
+                            ) : (
+                              <div className="flex items-center gap-2 mt-2">
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  max="10"
+                                  className="w-20 h-8"
+                                  value={waitlistQuantities[ticket.id] || 1}
+                                  onChange={(e) =>
+                                    setWaitlistQuantities({
+                                      ...waitlistQuantities,
+                                      [ticket.id]: Number.parseInt(e.target.value) || 1,
+                                    })
+                                  }
+                                />
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={updatingWaitlistId === ticket.id}
+                                  onClick={() => joinWaitlist(ticket.id)}
+                                >
+                                  {updatingWaitlistId === ticket.id ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    "Join waitlist"
+                                  )}
+                                </Button>
+                              </div>
+                            ))}
                         </div>
                         <div className="flex items-center">
                           <Button
                             type="button"
                             variant="outline"
                             size="icon"
-                            disabled={selectedTickets[ticket.id] <= 0}
+                            disabled={!!hold || selectedTickets[ticket.id] <= 0}
                             onClick={() => handleTicketChange(ticket.id, Math.max(0, selectedTickets[ticket.id] - 1))}
                           >
                             -
@@ -306,7 +773,9 @@ export default function BookEventPage() {
                             type="button"
                             variant="outline"
                             size="icon"
-                            disabled={selectedTickets[ticket.id] >= ticket.remaining}
+                            disabled={
+                              !!hold || salesStatuses[ticket.id] !== "ON_SALE" || selectedTickets[ticket.id] >= ticket.remaining
+                            }
                             onClick={() =>
                               handleTicketChange(
                                 ticket.id,
@@ -319,11 +788,130 @@ export default function BookEventPage() {
                         </div>
                       </div>
                     ))}
+
+                    {hold ? (
+                      <div className="flex items-center justify-between p-4 rounded-md border border-amber-200 bg-amber-50 text-amber-900">
+                        <div className="flex items-center">
+                          <Timer className="h-4 w-4 mr-2" />
+                          <span className="text-sm">
+                            Tickets reserved for{" "}
+                            <span className="font-medium tabular-nums">
+                              {formatCountdown(secondsLeft)}
+                            </span>
+                          </span>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          disabled={isReserving || isSubmitting}
+                          onClick={changeSelection}
+                        >
+                          Change selection
+                        </Button>
+                      </div>
+                    ) : (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className="w-full"
+                        disabled={isReserving || getTotalTickets() === 0}
+                        onClick={reserveTickets}
+                      >
+                        {isReserving ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Reserving...
+                          </>
+                        ) : (
+                          "Reserve tickets"
+                        )}
+                      </Button>
+                    )}
                   </div>
 
+                  {getTotalTickets() > 0 && calculateTotal() > 0 && (
+                    <div className="space-y-2">
+                      <h3 className="text-lg font-medium">Promo Code</h3>
+                      <div className="flex gap-2">
+                        <Input
+                          placeholder="Enter a promo code"
+                          value={promoCodeInput}
+                          disabled={!!appliedPromoCode}
+                          onChange={(e) => setPromoCodeInput(e.target.value)}
+                        />
+                        {appliedPromoCode ? (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            disabled={isSubmitting}
+                            onClick={() => {
+                              setAppliedPromoCode(null)
+                              setPromoCodeInput("")
+                            }}
+                          >
+                            Remove
+                          </Button>
+                        ) : (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            disabled={isApplyingPromoCode || !promoCodeInput.trim()}
+                            onClick={applyPromoCode}
+                          >
+                            {isApplyingPromoCode ? <Loader2 className="h-4 w-4 animate-spin" /> : "Apply"}
+                          </Button>
+                        )}
+                      </div>
+                      {appliedPromoCode && (
+                        <p className="flex items-center text-sm text-green-600">
+                          <Tag className="h-4 w-4 mr-2" />
+                          {appliedPromoCode.code} saves you Kshs {appliedPromoCode.discountAmount.toFixed(2)}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {paymentProviders.length > 0 && calculateAmountDue() > 0 && (
+                    <>
+                      <Separator />
+
+                      <div className="space-y-4">
+                        <h3 className="text-lg font-medium">Payment Method</h3>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                          {paymentProviders.map((provider) => (
+                            <Button
+                              key={provider.name}
+                              type="button"
+                              variant={paymentProvider === provider.name ? "default" : "outline"}
+                              onClick={() => setPaymentProvider(provider.name)}
+                            >
+                              {provider.name === "mpesa" ? (
+                                <Smartphone className="mr-2 h-4 w-4" />
+                              ) : (
+                                <CreditCard className="mr-2 h-4 w-4" />
+                              )}
+                              {provider.label}
+                            </Button>
+                          ))}
+                        </div>
+                        {paymentProvider === "mpesa" && (
+                          <p className="text-sm text-muted-foreground">
+                            You will receive an M-Pesa prompt on the phone number above to approve the payment.
+                          </p>
+                        )}
+                      </div>
+                    </>
+                  )}
+
                   <div className="pt-4">
-                    <Button type="submit" className="w-full" disabled={isSubmitting || getTotalTickets() === 0}>
-                      {isSubmitting ? (
+                    <Button type="submit" className="w-full" disabled={isSubmitting || !hold}>
+                      {isAwaitingPayment ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Waiting for M-Pesa confirmation...
+                        </>
+                      ) : isSubmitting ? (
                         <>
                           <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                           Processing...
@@ -331,7 +919,7 @@ export default function BookEventPage() {
                       ) : (
                         <>
                           <CreditCard className="mr-2 h-4 w-4" />
-                          Pay Kshs {calculateTotal().toFixed(2)}
+                          Pay Kshs {calculateAmountDue().toFixed(2)}
                         </>
                       )}
                     </Button>
@@ -389,9 +977,15 @@ export default function BookEventPage() {
                   {getTotalTickets() > 0 ? (
                     <>
                       <Separator />
+                      {appliedPromoCode && (
+                        <div className="flex justify-between text-sm text-green-600">
+                          <span>Discount ({appliedPromoCode.code})</span>
+                          <span>- Kshs {appliedPromoCode.discountAmount.toFixed(2)}</span>
+                        </div>
+                      )}
                       <div className="flex justify-between font-medium">
                         <span>Total</span>
-                        <span>Kshs {calculateTotal().toFixed(2)}</span>
+                        <span>Kshs {calculateAmountDue().toFixed(2)}</span>
                       </div>
                     </>
                   ) : (
@@ -1,21 +1,35 @@
 "use client"
 
 import { useState, useEffect, useCallback } from "react"
-import { useParams, useRouter } from "next/navigation"
+import { useParams, useRouter, useSearchParams } from "next/navigation"
 import { format } from "date-fns"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { Loader2, Calendar, Clock, MapPin, Edit, Ticket, ArrowLeft, Trash, Plus } from "lucide-react"
+import { Loader2, Calendar, Clock, MapPin, Edit, Ticket, ArrowLeft, Trash, Plus, Activity, Copy, Users } from "lucide-react"
 import Link from "next/link"
 import { useSession } from "next-auth/react"
 import { EventFormModal } from "@/components/dashboard/events/event-form-modal"
 import { DeleteEventModal } from "@/components/dashboard/events/delete-event-modal"
+import { DuplicateEventModal } from "@/components/dashboard/events/duplicate-event-modal"
 import Image from "next/image"
 import { TicketTypeEditModal } from "@/components/dashboard/events/ticket-type-edit-modal"
 import { TicketTypeCreateModal } from "@/components/dashboard/events/ticket-type-create-modal"
+import { EventBookings } from "@/components/dashboard/events/event-bookings"
+import { PromoCodesList } from "@/components/dashboard/events/promo-codes-list"
+import { EventWaitlist } from "@/components/dashboard/events/event-waitlist"
+import { EventStaff } from "@/components/dashboard/events/event-staff"
+import { EventAgenda } from "@/components/dashboard/events/event-agenda"
+import { SalesReportMenu } from "@/components/dashboard/events/sales-report-menu"
+import { PermissionGate } from "@/components/auth/permission-gate"
+import type { EventSession } from "@/components/dashboard/events/event-session-modal"
+import { getSalesStatus, SALES_STATUS_LABELS } from "@/lib/bookings/sales-window"
+import { ENTRY_POLICY_LABELS } from "@/lib/bookings/entry-policy"
+import type { EntryPolicy, EventCategory } from "@prisma/client"
+import { describeRecurrenceRule } from "@/lib/events/recurrence"
+import { EVENT_CATEGORY_LABELS } from "@/lib/events/categories"
 
 interface TicketType {
     id: string
@@ -24,6 +38,11 @@ interface TicketType {
     price: number
     quantity: number
     remaining: number
+    salesStartDate: string | null
+    availableUntil: string | null
+    rolloverToId: string | null
+    entryPolicy: EntryPolicy | null
+    sessionIds: string[]
 }
 
 interface Event {
@@ -35,15 +54,30 @@ interface Event {
     location: string
     imageUrl: string | null
     isPublished: boolean
+    category: EventCategory | null
+    tags: string[]
     creator: {
         id: string
         name: string
         email: string
     }
     ticketTypes: TicketType[]
+    sessions: EventSession[]
+    series: {
+        id: string
+        name: string
+        rule: string
+        events: {
+            id: string
+            startDate: string
+            isPublished: boolean
+        }[]
+    } | null
     _count: {
         bookings: number
     }
+    isStaff: boolean
+    canViewReports: boolean
 }
 
 export default function EventDetailsPage() {
@@ -51,12 +85,14 @@ export default function EventDetailsPage() {
     const params = useParams()
     const eventId = params.eventId
     const router = useRouter()
+    const searchParams = useSearchParams()
     const { data: session } = useSession()
     const [event, setEvent] = useState<Event | null>(null)
     const [isLoading, setIsLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [isEditModalOpen, setIsEditModalOpen] = useState(false)
     const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
+    const [isDuplicateModalOpen, setIsDuplicateModalOpen] = useState(false)
     const [isTicketTypeEditModalOpen, setIsTicketTypeEditModalOpen] = useState(false)
     const [isTicketTypeCreateModalOpen, setIsTicketTypeCreateModalOpen] = useState(false)
     const [selectedTicketType, setSelectedTicketType] = useState<TicketType | null>(null)
@@ -74,7 +110,7 @@ export default function EventDetailsPage() {
             }
 
             const data = await response.json()
-            if (!data.isPublished && session?.user?.id !== data.creator.id) {
+            if (!data.isPublished && session?.user?.id !== data.creator.id && !data.isStaff) {
                 // Check if user has admin access
                 const permissionsResponse = await fetch("/api/permissions/check?permission=admin:access")
                 const permissionsData = await permissionsResponse.json()
@@ -95,6 +131,13 @@ export default function EventDetailsPage() {
         fetchEvent()
     }, [fetchEvent])
 
+    // A freshly duplicated event opens straight in the edit form
+    useEffect(() => {
+        if (searchParams.get("edit") === "true") {
+            setIsEditModalOpen(true)
+        }
+    }, [searchParams])
+
     const isCreator = session?.user?.id === event?.creator.id
 
     const handleEditTicketType = (ticketType: TicketType) => {
@@ -123,6 +166,10 @@ export default function EventDetailsPage() {
         )
     }
 
+    const salesStatuses = Object.fromEntries(
+        event.ticketTypes.map((ticket) => [ticket.id, getSalesStatus(ticket, event.ticketTypes)]),
+    )
+
     return (
         <div className="space-y-6">
             <div className="flex items-center justify-between">
@@ -133,24 +180,67 @@ export default function EventDetailsPage() {
                     </Link>
                 </Button>
 
-                {isCreator && (
-                    <div className="flex gap-2">
-                        <Button onClick={() => setIsEditModalOpen(true)}>
-                            <Edit className="mr-2 h-4 w-4" />
-                            Edit Event
-                        </Button>
-                        <Button variant="outline" asChild>
-                        <Link href={`/dashboard/events/${event.id}/scanner`}>
-                            <Ticket className="mr-2 h-4 w-4" />
-                            Scan Tickets
-                        </Link>
-                        </Button>
-                        <Button variant="destructive" onClick={() => setIsDeleteModalOpen(true)}>
-                            <Trash className="mr-2 h-4 w-4" />
-                            Delete
-                        </Button>
-                    </div>
-                )}
+                <div className="flex gap-2">
+                    {!isCreator && event.isStaff && (
+                        <>
+                            <Button variant="outline" asChild>
+                                <Link href={`/dashboard/events/${event.id}/check-ins`}>
+                                    <Activity className="mr-2 h-4 w-4" />
+                                    Check-ins
+                                </Link>
+                            </Button>
+                            <Button variant="outline" asChild>
+                                <Link href={`/dashboard/events/${event.id}/scanner`}>
+                                    <Ticket className="mr-2 h-4 w-4" />
+                                    Scan Tickets
+                                </Link>
+                            </Button>
+                        </>
+                    )}
+
+                    {isCreator && (
+                        <>
+                            <Button onClick={() => setIsEditModalOpen(true)}>
+                                <Edit className="mr-2 h-4 w-4" />
+                                Edit Event
+                            </Button>
+                            <Button variant="outline" asChild>
+                                <Link href={`/dashboard/events/${event.id}/check-ins`}>
+                                    <Activity className="mr-2 h-4 w-4" />
+                                    Check-ins
+                                </Link>
+                            </Button>
+                            <Button variant="outline" asChild>
+                            <Link href={`/dashboard/events/${event.id}/scanner`}>
+                                <Ticket className="mr-2 h-4 w-4" />
+                                Scan Tickets
+                            </Link>
+                            </Button>
+                            <Button variant="outline" onClick={() => setIsDuplicateModalOpen(true)}>
+                                <Copy className="mr-2 h-4 w-4" />
+                                Duplicate
+                            </Button>
+                            <Button variant="destructive" onClick={() => setIsDeleteModalOpen(true)}>
+                                <Trash className="mr-2 h-4 w-4" />
+                                Delete
+                            </Button>
+                        </>
+                    )}
+
+                    {event.canViewReports && (
+                        <>
+                            <PermissionGate permission="attendees:read">
+                                <Button variant="outline" asChild>
+                                    <Link href={`/dashboard/events/${event.id}/attendees`}>
+                                        <Users className="mr-2 h-4 w-4" />
+                                        Attendees
+                                    </Link>
+                                </Button>
+                            </PermissionGate>
+                            <SalesReportMenu eventId={event.id} />
+                        </>
+                    )}
+                </div>
             </div>
 
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -171,6 +261,16 @@ export default function EventDetailsPage() {
                         </div>
                         <CardHeader>
                             <CardTitle className="text-2xl">{event.name}</CardTitle>
+                            {(event.category || event.tags.length > 0) && (
+                                <div className="flex flex-wrap gap-2">
+                                    {event.category && <Badge variant="secondary">{EVENT_CATEGORY_LABELS[event.category]}</Badge>}
+                                    {event.tags.map((tag) => (
+                                        <Badge key={tag} variant="outline">
+                                            #{tag}
+                                        </Badge>
+                                    ))}
+                                </div>
+                            )}
                             <CardDescription>
                                 <div className="flex flex-wrap gap-4 text-sm">
                                     <div className="flex items-center">
@@ -193,6 +293,11 @@ export default function EventDetailsPage() {
                                 <TabsList>
                                     <TabsTrigger value="details">Details</TabsTrigger>
                                     <TabsTrigger value="tickets">Tickets</TabsTrigger>
+                                    <TabsTrigger value="agenda">Agenda</TabsTrigger>
+                                    {isCreator && <TabsTrigger value="bookings">Bookings</TabsTrigger>}
+                                    {isCreator && <TabsTrigger value="promo-codes">Promo Codes</TabsTrigger>}
+                                    {isCreator && <TabsTrigger value="waitlist">Waitlist</TabsTrigger>}
+                                    {isCreator && <TabsTrigger value="staff">Staff</TabsTrigger>}
                                 </TabsList>
                                 <TabsContent value="details" className="space-y-4 mt-4">
                                     <div>
@@ -216,6 +321,35 @@ export default function EventDetailsPage() {
                                         </div>
                                     </div>
 
+                                    {event.series && (
+                                        <>
+                                            <Separator />
+
+                                            <div>
+                                                <h3 className="text-lg font-medium">Other dates</h3>
+                                                <p className="mt-2 text-sm text-muted-foreground">
+                                                    {describeRecurrenceRule(event.series.rule)}
+                                                </p>
+                                                <div className="mt-2 flex flex-wrap gap-2">
+                                                    {event.series.events
+                                                        .filter((occurrence) => occurrence.isPublished || isCreator)
+                                                        .map((occurrence) => (
+                                                            <Button
+                                                                key={occurrence.id}
+                                                                asChild
+                                                                size="sm"
+                                                                variant={occurrence.id === event.id ? "default" : "outline"}
+                                                            >
+                                                                <Link href={`/dashboard/events/${occurrence.id}`}>
+                                                                    {format(new Date(occurrence.startDate), "MMM d, yyyy")}
+                                                                </Link>
+                                                            </Button>
+                                                        ))}
+                                                </div>
+                                            </div>
+                                        </>
+                                    )}
+
                                     <Separator />
 
                                     <div>
@@ -262,16 +396,78 @@ export default function EventDetailsPage() {
                                                     <CardContent className="pb-2">
                                                         <div className="flex justify-between items-center">
                                                             <div className="text-2xl font-bold">Kshs {ticket.price.toFixed(2)}</div>
-                                                            <Badge variant={ticket.remaining > 0 ? "outline" : "secondary"}>
-                                                                {ticket.remaining > 0 ? `${ticket.remaining} remaining` : "Sold out"}
+                                                            <Badge variant={salesStatuses[ticket.id] === "ON_SALE" ? "outline" : "secondary"}>
+                                                                {salesStatuses[ticket.id] === "ON_SALE"
+                                                                    ? `${ticket.remaining} remaining`
+                                                                    : SALES_STATUS_LABELS[salesStatuses[ticket.id]]}
                                                             </Badge>
                                                         </div>
+                                                        {(ticket.salesStartDate || ticket.availableUntil) && (
+                                                            <p className="text-sm text-muted-foreground mt-2">
+                                                                On sale{" "}
+                                                                {ticket.salesStartDate &&
+                                                                    `from ${format(new Date(ticket.salesStartDate), "MMM d, yyyy h:mm a")} `}
+                                                                {ticket.availableUntil &&
+                                                                    `until ${format(new Date(ticket.availableUntil), "MMM d, yyyy h:mm a")}`}
+                                                            </p>
+                                                        )}
+                                                        {ticket.rolloverToId && (
+                                                            <p className="text-sm text-muted-foreground">
+                                                                Early bird, then{" "}
+                                                                {event.ticketTypes.find((t) => t.id === ticket.rolloverToId)?.name ?? "regular tickets"}
+                                                            </p>
+                                                        )}
+                                                        {ticket.entryPolicy && ticket.entryPolicy !== "SINGLE" && (
+                                                            <p className="text-sm text-muted-foreground">{ENTRY_POLICY_LABELS[ticket.entryPolicy]}</p>
+                                                        )}
+                                                        {ticket.sessionIds.length > 0 && (
+                                                            <p className="text-sm text-muted-foreground">
+                                                                Includes:{" "}
+                                                                {event.sessions
+                                                                    .filter((s) => ticket.sessionIds.includes(s.id))
+                                                                    .map((s) => s.name)
+                                                                    .join(", ")}
+                                                            </p>
+                                                        )}
                                                     </CardContent>
                                                 </Card>
                                             ))}
                                         </div>
                                     )}
                                 </TabsContent>
+
+                                <TabsContent value="agenda" className="mt-4">
+                                    <EventAgenda
+                                        eventId={event.id}
+                                        sessions={event.sessions}
+                                        canManage={isCreator}
+                                        onChange={fetchEvent}
+                                    />
+                                </TabsContent>
+
+                                {isCreator && (
+                                    <TabsContent value="bookings" className="mt-4">
+                                        <EventBookings eventId={event.id} />
+                                    </TabsContent>
+                                )}
+
+                                {isCreator && (
+                                    <TabsContent value="promo-codes" className="mt-4">
+                                        <PromoCodesList eventId={event.id} ticketTypes={event.ticketTypes} />
+                                    </TabsContent>
+                                )}
+
+                                {isCreator && (
+                                    <TabsContent value="waitlist" className="mt-4">
+                                        <EventWaitlist eventId={event.id} />
+                                    </TabsContent>
+                                )}
+
+                                {isCreator && (
+                                    <TabsContent value="staff" className="mt-4">
+                                        <EventStaff eventId={event.id} />
+                                    </TabsContent>
+                                )}
                             </Tabs>
                         </CardContent>
                     </Card>
@@ -296,8 +492,10 @@ export default function EventDetailsPage() {
                                                 <p className="font-medium">{ticket.name}</p>
                                                 <p className="text-sm text-muted-foreground">Kshs {ticket.price.toFixed(2)}</p>
                                             </div>
-                                            <Badge variant={ticket.remaining > 0 ? "outline" : "secondary"}>
-                                                {ticket.remaining > 0 ? `${ticket.remaining}/${ticket.quantity}` : "Sold out"}
+                                            <Badge variant={salesStatuses[ticket.id] === "ON_SALE" ? "outline" : "secondary"}>
+                                                {salesStatuses[ticket.id] === "ON_SALE"
+                                                    ? `${ticket.remaining}/${ticket.quantity}`
+                                                    : SALES_STATUS_LABELS[salesStatuses[ticket.id]]}
                                             </Badge>
                                         </div>
                                     ))}
@@ -308,7 +506,10 @@ export default function EventDetailsPage() {
                             <Button
                                 className="w-full"
                                 asChild
-                                disabled={!event.isPublished || event.ticketTypes.every((t) => t.remaining === 0)}
+                                disabled={
+                                    !event.isPublished ||
+                                    event.ticketTypes.every((t) => !["ON_SALE", "SOLD_OUT"].includes(salesStatuses[t.id]))
+                                }
                             >
                                 <Link href={`/dashboard/events/${event.id}/book`}>
                                     <Ticket className="mr-2 h-4 w-4" />
@@ -349,6 +550,9 @@ export default function EventDetailsPage() {
                 isOpen={isEditModalOpen}
                 onClose={() => {
                     setIsEditModalOpen(false)
+                    if (searchParams.get("edit")) {
+                        router.replace(`/dashboard/events/${event.id}`)
+                    }
                     fetchEvent() // Refresh event data after editing
                 }}
                 eventId={event.id}
@@ -373,6 +577,19 @@ export default function EventDetailsPage() {
                 bookingsCount={event._count.bookings}
             />
 
+            {/* Duplicate Event Modal */}
+            <DuplicateEventModal
+                isOpen={isDuplicateModalOpen}
+                onClose={() => setIsDuplicateModalOpen(false)}
+                eventId={event.id}
+                eventName={event.name}
+                startDate={event.startDate}
+                onDuplicated={(copyId) => {
+                    setIsDuplicateModalOpen(false)
+                    router.push(`/dashboard/events/${copyId}?edit=true`)
+                }}
+            />
+
             {/* Edit Ticket Type Modal */}
             {selectedTicketType && (
                 <TicketTypeEditModal
@@ -384,6 +601,8 @@ export default function EventDetailsPage() {
                     }}
                     eventId={event.id}
                     ticketType={selectedTicketType}
+                    ticketTypes={event.ticketTypes}
+                    sessions={event.sessions}
                 />
             )}
 
@@ -395,6 +614,8 @@ export default function EventDetailsPage() {
                     fetchEvent() // Refresh event data after creating
                 }}
                 eventId={event.id}
+                ticketTypes={event.ticketTypes}
+                sessions={event.sessions}
             />
         </div>
     )
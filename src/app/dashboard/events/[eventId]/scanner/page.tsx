@@ -6,11 +6,33 @@ import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
-import { Loader2, ArrowLeft, Check, X, Search, Camera, CameraOff } from "lucide-react"
+import {
+  Loader2,
+  ArrowLeft,
+  Check,
+  X,
+  Search,
+  Camera,
+  CameraOff,
+  AlertTriangle,
+  RefreshCw,
+  Wifi,
+  WifiOff,
+  LogIn,
+  LogOut,
+  Undo2,
+} from "lucide-react"
 import Link from "next/link"
 import { toast } from "sonner"
 import { format } from "date-fns"
 import { useParams } from "next/navigation"
+import { parseTicketToken, verifyTicketToken } from "@/lib/ticket-generator/ticket-token"
+import { useOfflineScanner, type OfflineCheckInResult } from "@/hooks/use-offline-scanner"
+import { getScannerDeviceId } from "@/lib/scanner/device-id"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { EntryPolicy, ScanResult } from "@prisma/client"
+import type { EntryDirection } from "@/lib/bookings/check-in-service"
 
 // We'll use a dynamic import for the QR scanner to avoid SSR issues
 import dynamic from "next/dynamic"
@@ -21,10 +43,20 @@ interface Event {
   name: string
   startDate: string
   location: string
+  ticketTypes: {
+    entryPolicy: EntryPolicy | null
+  }[]
+  sessions: {
+    id: string
+    name: string
+    startDate: string
+  }[]
+  canUndoCheckIns: boolean
 }
 
 interface VerificationResult {
   valid: boolean
+  code?: ScanResult // The outcome, or the rule that turned the ticket away
   message: string
   ticket?: {
     id: string
@@ -38,6 +70,19 @@ interface VerificationResult {
   }
 }
 
+// Tickets for another event get their own colour so door staff can send the attendee to the right entrance
+const RESULT_STYLES = {
+  valid: { label: "Valid Ticket", border: "border-green-500", background: "bg-green-50", title: "text-green-700" },
+  checkedOut: { label: "Checked Out", border: "border-blue-500", background: "bg-blue-50", title: "text-blue-700" },
+  wrongEvent: { label: "Wrong Event", border: "border-amber-500", background: "bg-amber-50", title: "text-amber-700" },
+  invalid: { label: "Invalid Ticket", border: "border-red-500", background: "bg-red-50", title: "text-red-700" },
+}
+
+function getResultKind(result: VerificationResult): keyof typeof RESULT_STYLES {
+  if (result.valid) return result.code === "CHECKED_OUT" ? "checkedOut" : "valid"
+  return result.code === "WRONG_EVENT" ? "wrongEvent" : "invalid"
+}
+
 export default function TicketScannerPage() {
   const params = useParams()
   const eventId = params.eventId as string
@@ -53,6 +98,10 @@ export default function TicketScannerPage() {
   const [cameraError, setCameraError] = useState<string | null>(null)
   const [availableCameras, setAvailableCameras] = useState<MediaDeviceInfo[]>([])
   const [selectedCamera, setSelectedCamera] = useState<string | null>(null)
+  const [direction, setDirection] = useState<EntryDirection>("in")
+  const [sessionId, setSessionId] = useState("entrance")
+  const [isUndoing, setIsUndoing] = useState(false)
+  const offline = useOfflineScanner(eventId)
 
   // const scannerRef = useRef<HTMLDivElement>(null)
 
@@ -167,19 +216,36 @@ export default function TicketScannerPage() {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const handleScan = async (data: any) => {
     if (data && data.text) {
+      const token = data.text.trim()
+
+      if (!parseTicketToken(token)) {
+        toast.error("Invalid QR code format")
+        return
+      }
+
+      setIsCameraActive(false)
+
+      // Turn away forged codes on the spot, without a round trip to the server
       try {
-        // Parse the QR code data
-        const qrData = JSON.parse(data.text)
+        const payload = await verifyTicketToken(token)
 
-        // If we have a ticketId or ticketNumber, verify it
-        if (qrData.ticketId || qrData.ticketNumber) {
-          setIsCameraActive(false)
-          await verifyTicket(qrData.ticketId, qrData.ticketNumber)
+        if (!payload) {
+          setVerificationResult({ valid: false, message: "This ticket code is not genuine" })
+          toast.error("This ticket code is not genuine")
+          return
+        }
+
+        if (payload.eventId !== eventId) {
+          setVerificationResult({ valid: false, code: "WRONG_EVENT", message: "This ticket is for a different event" })
+          toast.error("This ticket is for a different event")
+          return
         }
       } catch (error) {
-        console.error("Error parsing QR code:", error)
-        toast.error("Invalid QR code format")
+        // This browser can't check signatures, the server will check the code instead
+        console.error("Error checking ticket code:", error)
       }
+
+      await verifyTicket({ token })
     }
   }
 
@@ -205,38 +271,39 @@ export default function TicketScannerPage() {
     setIsCameraActive(false)
   }
 
-  const verifyTicket = async (ticketId?: string, ticketNumber?: string) => {
+  const verifyTicket = async (payload: { token: string } | { ticketNumber: string }) => {
     setIsVerifying(true)
     setVerificationResult(null)
 
     try {
-      // Ensure we're not sending empty strings
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const payload: any = {
-        eventId: eventId,
-      }
-
-      if (ticketId && ticketId.trim() !== "") {
-        payload.ticketId = ticketId.trim()
+      // Without a connection, check the ticket against the downloaded list instead
+      if (!navigator.onLine && offline.manifest) {
+        await verifyOffline(payload)
+        return
       }
 
-      if (ticketNumber && ticketNumber.trim() !== "") {
-        payload.ticketNumber = ticketNumber.trim()
-      }
-
-      // Make sure we have at least one valid identifier
-      if (!payload.ticketId && !payload.ticketNumber) {
-        throw new Error("Please enter a valid ticket ID or ticket number")
+      let response
+      try {
+        response = await fetch("/api/tickets/verify", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            ...payload,
+            eventId,
+            // Sessions only check people in, so the exit toggle doesn't apply to them
+            direction: sessionId === "entrance" ? direction : "in",
+            sessionId: sessionId === "entrance" ? undefined : sessionId,
+            deviceId: getScannerDeviceId(),
+          }),
+        })
+      } catch (error) {
+        if (!offline.manifest) throw error
+        await verifyOffline(payload)
+        return
       }
 
-      const response = await fetch("/api/tickets/verify", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      })
-
       const result = await response.json()
 
       if (!response.ok) {
@@ -246,7 +313,7 @@ export default function TicketScannerPage() {
       setVerificationResult(result)
 
       if (result.valid) {
-        toast.success("Ticket verified successfully")
+        toast.success(result.code === "CHECKED_OUT" ? "Ticket checked out" : "Ticket verified successfully")
       } else {
         toast.error(result.message || "Invalid ticket")
       }
@@ -258,6 +325,68 @@ export default function TicketScannerPage() {
     }
   }
 
+  // The downloaded list only knows which tickets are in, so exits and sessions wait for the connection
+  const verifyOffline = async (payload: { token: string } | { ticketNumber: string }) => {
+    if (sessionId !== "entrance") {
+      setVerificationResult({ valid: false, message: "Session check-ins need a connection" })
+      toast.error("Session check-ins need a connection")
+      return
+    }
+
+    if (direction === "out") {
+      setVerificationResult({ valid: false, message: "Checking tickets out needs a connection" })
+      toast.error("Checking tickets out needs a connection")
+      return
+    }
+
+    showOfflineResult(await offline.checkIn(payload))
+  }
+
+  const undoCheckIn = async (ticketId: string) => {
+    setIsUndoing(true)
+
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}/undo-check-in`, {
+        method: "POST",
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to undo check-in")
+      }
+
+      toast.success("Check-in undone")
+      setVerificationResult(null)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to undo check-in")
+    } finally {
+      setIsUndoing(false)
+    }
+  }
+
+  const showOfflineResult = (result: OfflineCheckInResult) => {
+    setVerificationResult({
+      valid: result.valid,
+      message: result.message,
+      ticket: result.ticket && {
+        id: result.ticket.id,
+        ticketNumber: result.ticket.ticketNumber,
+        ticketType: result.ticket.ticketType,
+        attendee: result.ticket.attendee,
+        event: event?.name ?? "",
+        usedAt: result.ticket.usedAt ?? undefined,
+        status: "CONFIRMED",
+      },
+    })
+
+    if (result.valid) {
+      toast.success("Ticket checked in offline")
+    } else {
+      toast.error(result.message)
+    }
+  }
+
   const handleManualVerify = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!ticketNumber || ticketNumber.trim() === "") {
@@ -265,7 +394,7 @@ export default function TicketScannerPage() {
       return
     }
 
-    await verifyTicket(undefined, ticketNumber.trim())
+    await verifyTicket({ ticketNumber: ticketNumber.trim() })
   }
 
   const switchCamera = () => {
@@ -311,6 +440,49 @@ export default function TicketScannerPage() {
         </Button>
       </div>
 
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Offline Mode</CardTitle>
+            <Badge variant={offline.isOnline ? "outline" : "destructive"}>
+              {offline.isOnline ? <Wifi className="mr-1 h-3 w-3" /> : <WifiOff className="mr-1 h-3 w-3" />}
+              {offline.isOnline ? "Online" : "Offline"}
+            </Badge>
+          </div>
+          <CardDescription>
+            Download the ticket list before doors open and keep this page open. If the connection drops, tickets are
+            checked against the list and synced once you are back online.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2 text-sm">
+          {offline.manifest ? (
+            <>
+              <p>
+                {offline.manifest.tickets.length} tickets downloaded, last synced{" "}
+                {format(new Date(offline.manifest.lastSyncedAt), "MMM d, h:mm a")}
+              </p>
+              <p className={offline.queuedCount > 0 ? "font-medium text-amber-700" : "text-muted-foreground"}>
+                {offline.queuedCount === 0
+                  ? "All scans are synced"
+                  : `${offline.queuedCount} scan${offline.queuedCount === 1 ? "" : "s"} waiting to sync`}
+              </p>
+            </>
+          ) : (
+            <p className="text-muted-foreground">No tickets downloaded on this device yet.</p>
+          )}
+        </CardContent>
+        <CardFooter>
+          <Button variant="outline" onClick={offline.sync} disabled={offline.isSyncing || !offline.isOnline}>
+            {offline.isSyncing ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            {offline.manifest ? "Sync Now" : "Download Tickets"}
+          </Button>
+        </CardFooter>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Ticket Scanner</CardTitle>
@@ -319,6 +491,35 @@ export default function TicketScannerPage() {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          {event.sessions.length > 0 && (
+            <Select value={sessionId} onValueChange={setSessionId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="entrance">Event entrance</SelectItem>
+                {event.sessions.map((eventSession) => (
+                  <SelectItem key={eventSession.id} value={eventSession.id}>
+                    {eventSession.name} · {format(new Date(eventSession.startDate), "MMM d, h:mm a")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {sessionId === "entrance" && event.ticketTypes.some((ticketType) => ticketType.entryPolicy === "REENTRY") && (
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant={direction === "in" ? "default" : "outline"} onClick={() => setDirection("in")}>
+                <LogIn className="mr-2 h-4 w-4" />
+                Entry
+              </Button>
+              <Button variant={direction === "out" ? "default" : "outline"} onClick={() => setDirection("out")}>
+                <LogOut className="mr-2 h-4 w-4" />
+                Exit
+              </Button>
+            </div>
+          )}
+
           {isCameraActive ? (
             <div className="space-y-4">
               <div className="relative aspect-square max-w-md mx-auto border rounded-lg overflow-hidden">
@@ -427,16 +628,20 @@ export default function TicketScannerPage() {
           )}
 
           {verificationResult && (
-            <Card className={`mt-6 ${verificationResult.valid ? "border-green-500" : "border-red-500"}`}>
-              <CardHeader className={`${verificationResult.valid ? "bg-green-50" : "bg-red-50"} rounded-t-lg`}>
+            <Card className={`mt-6 ${RESULT_STYLES[getResultKind(verificationResult)].border}`}>
+              <CardHeader className={`${RESULT_STYLES[getResultKind(verificationResult)].background} rounded-t-lg`}>
                 <div className="flex items-center">
-                  {verificationResult.valid ? (
+                  {verificationResult.code === "CHECKED_OUT" ? (
+                    <LogOut className="h-6 w-6 text-blue-500 mr-2" />
+                  ) : verificationResult.valid ? (
                     <Check className="h-6 w-6 text-green-500 mr-2" />
+                  ) : verificationResult.code === "WRONG_EVENT" ? (
+                    <AlertTriangle className="h-6 w-6 text-amber-500 mr-2" />
                   ) : (
                     <X className="h-6 w-6 text-red-500 mr-2" />
                   )}
-                  <CardTitle className={verificationResult.valid ? "text-green-700" : "text-red-700"}>
-                    {verificationResult.valid ? "Valid Ticket" : "Invalid Ticket"}
+                  <CardTitle className={RESULT_STYLES[getResultKind(verificationResult)].title}>
+                    {RESULT_STYLES[getResultKind(verificationResult)].label}
                   </CardTitle>
                 </div>
                 <CardDescription>{verificationResult.message}</CardDescription>
@@ -479,7 +684,18 @@ export default function TicketScannerPage() {
                   </div>
                 </CardContent>
               )}
-              <CardFooter className="pt-0">
+              <CardFooter className="pt-0 gap-2">
+                {event.canUndoCheckIns && verificationResult.code === "CHECKED_IN" && verificationResult.ticket && (
+                  <Button
+                    onClick={() => verificationResult.ticket && undoCheckIn(verificationResult.ticket.id)}
+                    variant="outline"
+                    className="w-full"
+                    disabled={isUndoing}
+                  >
+                    {isUndoing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />}
+                    Undo Check-in
+                  </Button>
+                )}
                 <Button onClick={() => setVerificationResult(null)} variant="outline" className="w-full">
                   Scan Another Ticket
                 </Button>
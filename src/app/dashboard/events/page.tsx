@@ -1,67 +1,101 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback, Suspense } from "react"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { PermissionGate } from "@/components/auth/permission-gate"
 import { EventsList } from "@/components/dashboard/events/events-list"
 import { EventFormModal } from "@/components/dashboard/events/event-form-modal"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Plus } from "lucide-react"
-import { useSession } from "next-auth/react"
-import { Event } from "@/types/event"
+import { Event, EventFilters } from "@/types/event"
+import type { PageInfo } from "@/components/dashboard/pagination-controls"
+import { EventFilterBar } from "@/components/dashboard/events/event-filter-bar"
+import { toEventFilterParams, type EventFacets } from "@/lib/events/event-filters"
+import type { SearchHighlight } from "@/lib/events/search"
 
-export default function EventsPage() {
-  const { data: session } = useSession()
+function EventsPageContent() {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const query = searchParams.get("q") ?? ""
   const [activeTab, setActiveTab] = useState("all")
   const [isLoading, setIsLoading] = useState(true)
   const [events, setEvents] = useState([])
-  const [myEvents, setMyEvents] = useState([])
+  const [page, setPage] = useState(1)
+  const [pageInfo, setPageInfo] = useState<PageInfo>()
+  const [sort, setSort] = useState("startDate:asc")
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
-  const userId = session?.user?.id
+  const [filters, setFilters] = useState<EventFilters>({ searchTerm: query || undefined })
+  const [facets, setFacets] = useState<EventFacets | null>(null)
+  const [highlights, setHighlights] = useState<Record<string, SearchHighlight[]> | undefined>()
+
+  // The search lives in ?q= so it can be shared and survives going back
   useEffect(() => {
-    const fetchEvents = async () => {
-      try {
-        const response = await fetch("/api/events")
-        if (!response.ok) throw new Error("Failed to fetch events")
-        const data = await response.json()
+    setFilters((current) =>
+      (current.searchTerm ?? "") === query ? current : { ...current, searchTerm: query || undefined },
+    )
+  }, [query])
 
-        setEvents(data.events)
+  const handleFiltersChange = useCallback(
+    (next: EventFilters) => {
+      setFilters(next)
+      setPage(1)
 
-        // Filter my events
-        if (session?.user?.id) {
-          setMyEvents(data.events.filter((event: Event) => event.creator.id === userId))
+      if ((next.searchTerm ?? "") !== query) {
+        const params = new URLSearchParams(searchParams)
+        if (next.searchTerm) {
+          params.set("q", next.searchTerm)
+        } else {
+          params.delete("q")
         }
-      } catch (error) {
-        console.error("Error fetching events:", error)
-      } finally {
-        setIsLoading(false)
+        router.replace(params.size > 0 ? `${pathname}?${params}` : pathname, { scroll: false })
       }
-    }
-
-    fetchEvents()
-  }, [session,userId])
+    },
+    [query, searchParams, pathname, router],
+  )
 
-  const refreshEvents = async () => {
+  const fetchEvents = useCallback(async () => {
     setIsLoading(true)
     try {
-      const response = await fetch("/api/events")
+      const params = toEventFilterParams(filters)
+      const [sortField, order] = sort.split(":")
+      params.set("page", String(page))
+      params.set("sort", sortField)
+      params.set("order", order)
+      if (activeTab === "my-events") params.set("scope", "mine")
+      if (activeTab === "upcoming") params.set("scope", "upcoming")
+      // Series show as one card with their other dates, except among the user's own events
+      if (activeTab !== "my-events") params.set("groupSeries", "true")
+
+      // Searches come back best match first, whatever the sort
+      const response = await fetch(`${filters.searchTerm ? "/api/events/search" : "/api/events"}?${params}`)
       if (!response.ok) throw new Error("Failed to fetch events")
       const data = await response.json()
+      const results: { event: Event; highlights: SearchHighlight[] }[] | undefined = data.results
 
-      setEvents(data.events)
-
-      // Filter my events
-      if (session?.user?.id) {
-        setMyEvents(data.events.filter((event: Event) => event.creator.id === userId))
-      }
+      setEvents(results ? results.map(({ event }) => event) : data.events)
+      setPageInfo({ page: data.page, pageSize: data.pageSize, totalCount: data.totalCount })
+      setFacets(data.facets)
+      setHighlights(results && Object.fromEntries(results.map(({ event, highlights }) => [event.id, highlights])))
     } catch (error) {
-      console.error("Error refreshing events:", error)
+      console.error("Error fetching events:", error)
     } finally {
       setIsLoading(false)
     }
+  }, [filters, activeTab, page, sort])
+
+  const handleTabChange = (tab: string) => {
+    setActiveTab(tab)
+    setPage(1)
   }
 
+  useEffect(() => {
+    fetchEvents()
+  }, [fetchEvents])
+
   return (
     <div className="flex flex-col gap-6">
       <div className="flex items-center justify-between">
@@ -77,12 +111,35 @@ export default function EventsPage() {
         </PermissionGate>
       </div>
 
-      <Tabs defaultValue="all" value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList>
-          <TabsTrigger value="all">All Events</TabsTrigger>
-          <TabsTrigger value="my-events">My Events</TabsTrigger>
-          <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
-        </TabsList>
+      <EventFilterBar filters={filters} facets={facets} onChange={handleFiltersChange} />
+
+      <Tabs defaultValue="all" value={activeTab} onValueChange={handleTabChange} className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <TabsList>
+            <TabsTrigger value="all">All Events</TabsTrigger>
+            <TabsTrigger value="my-events">My Events</TabsTrigger>
+            <TabsTrigger value="upcoming">Upcoming</TabsTrigger>
+          </TabsList>
+          {!filters.searchTerm && (
+            <Select
+              value={sort}
+              onValueChange={(value) => {
+                setSort(value)
+                setPage(1)
+              }}
+            >
+              <SelectTrigger className="w-[200px]">
+                <SelectValue placeholder="Sort by" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="startDate:asc">Date, soonest first</SelectItem>
+                <SelectItem value="startDate:desc">Date, latest first</SelectItem>
+                <SelectItem value="createdAt:desc">Recently created</SelectItem>
+                <SelectItem value="name:asc">Name, A to Z</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+        </div>
 
         <TabsContent value="all" className="space-y-4">
           <Card>
@@ -95,7 +152,10 @@ export default function EventsPage() {
                 events={events}
                 isLoading={isLoading}
                 emptyMessage="No events found"
-                onEventUpdated={refreshEvents}
+                highlights={highlights}
+                pageInfo={pageInfo}
+                onPageChange={setPage}
+                onEventUpdated={fetchEvents}
               />
             </CardContent>
           </Card>
@@ -109,11 +169,14 @@ export default function EventsPage() {
             </CardHeader>
             <CardContent>
               <EventsList
-                events={myEvents}
+                events={events}
                 isLoading={isLoading}
                 emptyMessage="You haven't created any events yet"
                 showManageActions
-                onEventUpdated={refreshEvents}
+                highlights={highlights}
+                pageInfo={pageInfo}
+                onPageChange={setPage}
+                onEventUpdated={fetchEvents}
               />
             </CardContent>
           </Card>
@@ -127,10 +190,13 @@ export default function EventsPage() {
             </CardHeader>
             <CardContent>
               <EventsList
-                events={events.filter((event: Event) => new Date(event.startDate) > new Date())}
+                events={events}
                 isLoading={isLoading}
                 emptyMessage="No upcoming events found"
-                onEventUpdated={refreshEvents}
+                highlights={highlights}
+                pageInfo={pageInfo}
+                onPageChange={setPage}
+                onEventUpdated={fetchEvents}
               />
             </CardContent>
           </Card>
@@ -142,7 +208,7 @@ export default function EventsPage() {
         isOpen={isCreateModalOpen}
         onClose={() => {
           setIsCreateModalOpen(false)
-          refreshEvents()
+          fetchEvents()
         }}
         mode="create"
       />
@@ -150,3 +216,10 @@ export default function EventsPage() {
   )
 }
 
+export default function EventsPage() {
+  return (
+    <Suspense fallback={<p className="text-center text-muted-foreground">Loading...</p>}>
+      <EventsPageContent />
+    </Suspense>
+  )
+}
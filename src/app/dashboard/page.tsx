@@ -4,6 +4,7 @@ import { authOptions } from "@/lib/auth/auth"
 import { DashboardCards } from "@/components/dashboard/dashboard-cards"
 import { DashboardCharts } from "@/components/dashboard/dashboard-charts"
 import { DashboardWelcome } from "@/components/dashboard/dashboard-welcome"
+import { PermissionGate } from "@/components/auth/permission-gate"
 import { redirect } from "next/navigation"
 
 export default async function DashboardPage() {
@@ -16,8 +17,10 @@ export default async function DashboardPage() {
   return (
     <div className="flex flex-col min-w-full gap-6">
       {user && <DashboardWelcome user={user} />}
-      <DashboardCards />
-      <DashboardCharts />
+      <PermissionGate permission="analytics:access">
+        <DashboardCards />
+        <DashboardCharts />
+      </PermissionGate>
     </div>
   )
 }
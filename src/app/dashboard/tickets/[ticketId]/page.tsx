@@ -9,13 +9,20 @@ import { Separator } from "@/components/ui/separator"
 import { Loader2, ArrowLeft, Download, Printer } from "lucide-react"
 import Link from "next/link"
 import { QRCodeSVG } from "qrcode.react"
+import { TicketScanHistory } from "@/components/dashboard/tickets/ticket-scan-history"
+import type { EntryPolicy } from "@prisma/client"
+import { DEFAULT_ENTRY_POLICY, ENTRY_POLICY_NOTES } from "@/lib/bookings/entry-policy"
 
 interface Ticket {
   id: string
   ticketNumber: string
+  token: string | null
+  canViewScans: boolean
+  canUndoCheckIn: boolean
   ticketType: {
     name: string
     price: number
+    entryPolicy: EntryPolicy | null
   }
   booking: {
     id: string
@@ -94,33 +101,37 @@ export default function TicketPage() {
     )
   }
 
-  // Create QR code data
-  const qrCodeData = JSON.stringify({
-    ticketId: ticket.id,
-    ticketNumber: ticket.ticketNumber,
-    eventId: ticket.booking.event.id,
-  })
-
   return (
     <div className="container max-w-2xl mx-auto px-4 py-8">
       <div className="flex items-center justify-between mb-6">
-        <Button variant="outline" asChild>
-          <Link href={`/dashboard/bookings/${ticket.booking.id}`}>
-            <ArrowLeft className="mr-2 h-4 w-4" />
-            Back to Booking
-          </Link>
-        </Button>
-
-        <div className="flex gap-2">
-          <Button variant="outline" onClick={handlePrint}>
-            <Printer className="mr-2 h-4 w-4" />
-            Print
+        {ticket.token ? (
+          <Button variant="outline" asChild>
+            <Link href={`/dashboard/bookings/${ticket.booking.id}`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Booking
+            </Link>
           </Button>
-          <Button onClick={handleDownload}>
-            <Download className="mr-2 h-4 w-4" />
-            Download PDF
+        ) : (
+          <Button variant="outline" asChild>
+            <Link href={`/dashboard/events/${ticket.booking.event.id}/check-ins`}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Check-ins
+            </Link>
           </Button>
-        </div>
+        )}
+
+        {ticket.token && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handlePrint}>
+              <Printer className="mr-2 h-4 w-4" />
+              Print
+            </Button>
+            <Button onClick={handleDownload}>
+              <Download className="mr-2 h-4 w-4" />
+              Download PDF
+            </Button>
+          </div>
+        )}
       </div>
 
       <Card className="border-2 print:border-0">
@@ -152,22 +163,26 @@ export default function TicketPage() {
               </div>
             </div>
 
-            <div className="flex flex-col items-center justify-center">
-              <div className="bg-white p-4 rounded-lg">
-                <QRCodeSVG value={qrCodeData} size={180} level="H" />
+            {ticket.token && (
+              <div className="flex flex-col items-center justify-center">
+                <div className="bg-white p-4 rounded-lg">
+                  <QRCodeSVG value={ticket.token} size={180} level="H" />
+                </div>
+                <p className="text-sm text-center mt-2">Scan at event entrance</p>
               </div>
-              <p className="text-sm text-center mt-2">Scan at event entrance</p>
-            </div>
+            )}
           </div>
 
           <Separator className="my-6" />
 
           <div className="text-sm text-muted-foreground">
-            <p>This ticket is valid for one-time entry only.</p>
+            <p>{ENTRY_POLICY_NOTES[ticket.ticketType.entryPolicy ?? DEFAULT_ENTRY_POLICY]}</p>
             <p>Please present this ticket (printed or on your device) at the event entrance.</p>
           </div>
         </CardContent>
       </Card>
+
+      {ticket.canViewScans && <TicketScanHistory ticketId={ticket.id} canUndoCheckIn={ticket.canUndoCheckIn} />}
     </div>
   )
 }
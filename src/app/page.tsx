@@ -1,3 +1,4 @@
+import { Suspense } from "react"
 import Header from "@/components/landing/header"
 import Hero from "@/components/landing/hero-section"
 import DiscoverEvents from "@/components/landing/discover-events"
@@ -10,7 +11,9 @@ export default function LandingPage() {
       <Header />
       <main className="flex-1">
         <Hero />
-        <DiscoverEvents />
+        <Suspense>
+          <DiscoverEvents />
+        </Suspense>
         <CtaSection />
       </main>
       <Footer />
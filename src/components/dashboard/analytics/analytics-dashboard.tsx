@@ -0,0 +1,45 @@
+"use client"
+
+import { useState } from "react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DashboardCards } from "@/components/dashboard/dashboard-cards"
+import { BookingsChart } from "@/components/dashboard/analytics/bookings-chart"
+import { SellThroughChart } from "@/components/dashboard/analytics/sell-through-chart"
+import { UsersByRoleChart } from "@/components/dashboard/analytics/users-by-role-chart"
+import { useHasPermission } from "@/hooks/use-permissions"
+
+const PERIODS = [7, 30, 90, 365]
+
+export function AnalyticsDashboard() {
+  const [days, setDays] = useState(30)
+  // Organizers only see their own events, so platform-wide charts are for admins
+  const { hasPermission: isAdmin } = useHasPermission("admin:access")
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex justify-end">
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Period" />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map((period) => (
+              <SelectItem key={period} value={String(period)}>
+                Last {period} days
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <DashboardCards days={days} />
+
+      <BookingsChart days={days} />
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <SellThroughChart className={isAdmin ? undefined : "md:col-span-2"} />
+        {isAdmin && <UsersByRoleChart />}
+      </div>
+    </div>
+  )
+}
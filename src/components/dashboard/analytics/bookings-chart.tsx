@@ -0,0 +1,71 @@
+"use client"
+
+import { useState } from "react"
+import { format, parseISO } from "date-fns"
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Button } from "@/components/ui/button"
+import { ChartCard } from "@/components/dashboard/analytics/chart-card"
+import { useAnalytics } from "@/hooks/use-analytics"
+import type { BookingsOverTime } from "@/lib/analytics/analytics-service"
+
+const METRICS = {
+  revenue: { label: "Revenue", color: "#4F46E5" },
+  bookings: { label: "Bookings", color: "#0EA5E9" },
+  tickets: { label: "Tickets", color: "#10B981" },
+} as const
+
+type Metric = keyof typeof METRICS
+
+interface BookingsChartProps {
+  days: number
+  className?: string
+}
+
+export function BookingsChart({ days, className }: BookingsChartProps) {
+  const [metric, setMetric] = useState<Metric>("revenue")
+  const { data, isLoading, error } = useAnalytics<{ days: BookingsOverTime }>("/api/analytics/bookings", days)
+
+  const points = (data?.days ?? []).map((day) => ({ ...day, label: format(parseISO(day.date), "MMM d") }))
+
+  return (
+    <ChartCard
+      title="Bookings Over Time"
+      description={`Paid bookings over the last ${days} days`}
+      isLoading={isLoading}
+      error={error}
+      isEmpty={points.every((point) => point.bookings === 0)}
+      emptyMessage="No paid bookings in this period"
+      className={className}
+      action={
+        <div className="flex gap-1">
+          {(Object.keys(METRICS) as Metric[]).map((key) => (
+            <Button
+              key={key}
+              size="sm"
+              variant={metric === key ? "default" : "ghost"}
+              className="h-7 px-2 text-xs"
+              onClick={() => setMetric(key)}
+            >
+              {METRICS[key].label}
+            </Button>
+          ))}
+        </div>
+      }
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={points}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="label" fontSize={12} tickLine={false} minTickGap={16} />
+          <YAxis allowDecimals={metric === "revenue"} fontSize={12} tickLine={false} width={48} />
+          <Tooltip
+            formatter={(value: number) => [
+              metric === "revenue" ? `Kshs ${value.toFixed(2)}` : value,
+              METRICS[metric].label,
+            ]}
+          />
+          <Bar dataKey={metric} fill={METRICS[metric].color} radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  )
+}
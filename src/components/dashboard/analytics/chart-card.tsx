@@ -0,0 +1,54 @@
+import type React from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Loader2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+
+interface ChartCardProps {
+  title: string
+  description: string
+  isLoading: boolean
+  error: Error | null
+  isEmpty: boolean
+  emptyMessage: string
+  action?: React.ReactNode
+  className?: string
+  children: React.ReactNode
+}
+
+// A card for one analytics chart, showing a spinner, the error or the empty message in its place
+export function ChartCard({
+  title,
+  description,
+  isLoading,
+  error,
+  isEmpty,
+  emptyMessage,
+  action,
+  className,
+  children,
+}: ChartCardProps) {
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </div>
+        {action}
+      </CardHeader>
+      <CardContent className="pl-2">
+        <div className={cn("h-[250px] w-full", (isLoading || error || isEmpty) && "flex items-center justify-center")}>
+          {isLoading ? (
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          ) : error ? (
+            <p className="text-sm text-muted-foreground">{error.message}</p>
+          ) : isEmpty ? (
+            <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+          ) : (
+            children
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
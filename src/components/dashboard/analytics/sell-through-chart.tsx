@@ -0,0 +1,42 @@
+"use client"
+
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { ChartCard } from "@/components/dashboard/analytics/chart-card"
+import { useAnalytics } from "@/hooks/use-analytics"
+import type { EventSellThrough } from "@/lib/analytics/analytics-service"
+
+interface SellThroughChartProps {
+  className?: string
+}
+
+export function SellThroughChart({ className }: SellThroughChartProps) {
+  const { data, isLoading, error } = useAnalytics<{ events: EventSellThrough }>("/api/analytics/sell-through")
+  const events = data?.events ?? []
+
+  return (
+    <ChartCard
+      title="Sell-Through"
+      description="Share of tickets sold for upcoming events"
+      isLoading={isLoading}
+      error={error}
+      isEmpty={events.length === 0}
+      emptyMessage="No upcoming events"
+      className={className}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={events} layout="vertical" margin={{ left: 8 }}>
+          <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+          <XAxis type="number" domain={[0, 100]} unit="%" fontSize={12} tickLine={false} />
+          <YAxis type="category" dataKey="name" fontSize={12} tickLine={false} width={110} />
+          <Tooltip
+            formatter={(value: number, _name, item) => [
+              `${value}% (${item.payload.ticketsSold} of ${item.payload.capacity})`,
+              "Sold",
+            ]}
+          />
+          <Bar dataKey="sellThrough" fill="#4F46E5" radius={[0, 4, 4, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  )
+}
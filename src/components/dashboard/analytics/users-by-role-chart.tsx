@@ -0,0 +1,41 @@
+"use client"
+
+import { Cell, Legend, Pie, PieChart, ResponsiveContainer, Tooltip } from "recharts"
+import { ChartCard } from "@/components/dashboard/analytics/chart-card"
+import { useAnalytics } from "@/hooks/use-analytics"
+import type { UsersByRole } from "@/lib/analytics/analytics-service"
+
+const COLORS = ["#4F46E5", "#0EA5E9", "#10B981", "#F59E0B", "#EF4444", "#8B5CF6", "#64748B"]
+
+interface UsersByRoleChartProps {
+  className?: string
+}
+
+export function UsersByRoleChart({ className }: UsersByRoleChartProps) {
+  const { data, isLoading, error } = useAnalytics<{ roles: UsersByRole }>("/api/analytics/users-by-role")
+  const roles = data?.roles ?? []
+
+  return (
+    <ChartCard
+      title="User Roles"
+      description="Distribution of users by role"
+      isLoading={isLoading}
+      error={error}
+      isEmpty={roles.every((role) => role.users === 0)}
+      emptyMessage="No users yet"
+      className={className}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <PieChart>
+          <Pie data={roles} dataKey="users" nameKey="role" innerRadius={50} outerRadius={90} paddingAngle={2}>
+            {roles.map((role, index) => (
+              <Cell key={role.role} fill={COLORS[index % COLORS.length]} />
+            ))}
+          </Pie>
+          <Tooltip />
+          <Legend />
+        </PieChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  )
+}
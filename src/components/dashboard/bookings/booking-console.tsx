@@ -0,0 +1,463 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Ban, Banknote, Loader2, RotateCcw, Search, Send } from "lucide-react"
+import { toast } from "sonner"
+import { PaginationControls, type PageInfo } from "@/components/dashboard/pagination-controls"
+import type { BulkBookingAction, BulkBookingResult } from "@/lib/bookings/booking-console"
+
+interface Booking {
+  id: string
+  name: string
+  email: string
+  phone: string
+  totalAmount: number
+  refundedAmount: number | null
+  status: string
+  paymentId: string | null
+  paymentProvider: string | null
+  paymentReference: string | null
+  issuedById: string | null
+  createdAt: string
+  event: {
+    id: string
+    name: string
+    startDate: string
+  }
+  _count: {
+    tickets: number
+  }
+}
+
+const BOOKING_STATUSES = ["PENDING", "CONFIRMED", "CANCELLED", "REFUNDED"]
+
+const STATUS_BADGE_VARIANTS: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  CONFIRMED: "default",
+  PENDING: "secondary",
+  CANCELLED: "outline",
+  REFUNDED: "destructive",
+}
+
+const ACTIONS: Record<BulkBookingAction, { label: string; title: string; description: string }> = {
+  resend: {
+    label: "Resend Tickets",
+    title: "Resend Tickets",
+    description: "Email the tickets for each selected confirmed booking to its attendee again.",
+  },
+  cancel: {
+    label: "Cancel",
+    title: "Cancel Bookings",
+    description:
+      "Cancel each selected booking that hasn't been paid for and put its tickets back on sale. Paid bookings, including ones marked as paid offline, have to be refunded instead, and checked-in bookings stay as they are.",
+  },
+  refund: {
+    label: "Refund",
+    title: "Refund Bookings",
+    description:
+      "Refund every unused ticket on each selected confirmed booking in full, whatever the event's refund policy says.",
+  },
+  markPaid: {
+    label: "Mark Paid",
+    title: "Mark as Paid",
+    description:
+      "Confirm each selected pending booking as paid outside the app, e.g. in cash, and email its tickets. Record the receipt so the payment can be traced.",
+  },
+}
+
+const ACTION_ICONS = {
+  resend: Send,
+  cancel: Ban,
+  refund: RotateCcw,
+  markPaid: Banknote,
+}
+
+export function BookingConsole() {
+  const [bookings, setBookings] = useState<Booking[]>([])
+  const [events, setEvents] = useState<{ id: string; name: string }[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [search, setSearch] = useState("")
+  const [eventId, setEventId] = useState("all")
+  const [status, setStatus] = useState("all")
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [page, setPage] = useState(1)
+  const [pageInfo, setPageInfo] = useState<PageInfo>()
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [action, setAction] = useState<BulkBookingAction | null>(null)
+  const [note, setNote] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [failures, setFailures] = useState<(BulkBookingResult & { name: string })[]>([])
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchQuery.trim())
+      setPage(1)
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  const filterParams = useMemo(() => {
+    const params = new URLSearchParams()
+    if (search) params.set("search", search)
+    if (eventId !== "all") params.set("eventId", eventId)
+    if (status !== "all") params.set("status", status)
+    if (from) params.set("from", from)
+    if (to) params.set("to", to)
+    return params
+  }, [search, eventId, status, from, to])
+
+  const fetchBookings = useCallback(async () => {
+    try {
+      const params = new URLSearchParams(filterParams)
+      params.set("page", String(page))
+
+      const response = await fetch(`/api/bookings/manage?${params}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || "Failed to fetch bookings")
+      setBookings(data.bookings)
+      setEvents(data.events)
+      setPageInfo({ page: data.page, pageSize: data.pageSize, totalCount: data.totalCount })
+    } catch (error) {
+      console.error("Error fetching bookings:", error)
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to fetch bookings",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [filterParams, page])
+
+  useEffect(() => {
+    fetchBookings()
+  }, [fetchBookings])
+
+  // Selections only cover what's on screen, so a bulk action never touches bookings the organiser can't see
+  useEffect(() => {
+    setSelected(new Set())
+  }, [filterParams, page])
+
+  // Filter changes start again from the first page
+  const withFirstPage = (setter: (value: string) => void) => (value: string) => {
+    setter(value)
+    setPage(1)
+  }
+
+  const toggleSelected = (bookingId: string, checked: boolean) => {
+    const next = new Set(selected)
+    if (checked) {
+      next.add(bookingId)
+    } else {
+      next.delete(bookingId)
+    }
+    setSelected(next)
+  }
+
+  const allSelected = bookings.length > 0 && bookings.every((booking) => selected.has(booking.id))
+
+  const openAction = (value: BulkBookingAction) => {
+    setNote("")
+    setAction(value)
+  }
+
+  async function runAction() {
+    if (!action) return
+
+    if (action === "markPaid" && !note.trim()) {
+      toast.error("Enter the receipt or reference for the payment")
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch("/api/bookings/manage", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          action,
+          bookingIds: [...selected],
+          ...(action === "refund" && { reason: note }),
+          ...(action === "markPaid" && { reference: note }),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to update bookings")
+      }
+
+      const names = new Map(bookings.map((booking) => [booking.id, booking.name]))
+      setFailures(
+        (data.results as BulkBookingResult[])
+          .filter((result) => !result.ok)
+          .map((result) => ({ ...result, name: names.get(result.bookingId) ?? result.bookingId })),
+      )
+
+      if (data.failed > 0) {
+        toast.warning(data.message)
+      } else {
+        toast.success(data.message)
+      }
+
+      setAction(null)
+      setSelected(new Set())
+      fetchBookings()
+    } catch (error) {
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to update bookings",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by email, phone, ticket number or payment id..."
+            className="pl-8"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        </div>
+        <Select value={eventId} onValueChange={withFirstPage(setEventId)}>
+          <SelectTrigger className="w-[200px]">
+            <SelectValue placeholder="Event" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All events</SelectItem>
+            {events.map((event) => (
+              <SelectItem key={event.id} value={event.id}>
+                {event.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={status} onValueChange={withFirstPage(setStatus)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {BOOKING_STATUSES.map((value) => (
+              <SelectItem key={value} value={value}>
+                {value}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Input
+            type="date"
+            className="w-[150px]"
+            aria-label="Booked from"
+            value={from}
+            onChange={(e) => withFirstPage(setFrom)(e.target.value)}
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="date"
+            className="w-[150px]"
+            aria-label="Booked to"
+            value={to}
+            onChange={(e) => withFirstPage(setTo)(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground mr-2">{selected.size} selected</span>
+        {(Object.keys(ACTIONS) as BulkBookingAction[]).map((value) => {
+          const Icon = ACTION_ICONS[value]
+          return (
+            <Button
+              key={value}
+              variant={value === "cancel" || value === "refund" ? "destructive" : "outline"}
+              size="sm"
+              disabled={selected.size === 0}
+              onClick={() => openAction(value)}
+            >
+              <Icon className="mr-2 h-4 w-4" />
+              {ACTIONS[value].label}
+            </Button>
+          )
+        })}
+      </div>
+
+      {failures.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTitle>Some bookings weren&#39;t changed</AlertTitle>
+          <AlertDescription>
+            <ul className="list-disc pl-4">
+              {failures.map((failure) => (
+                <li key={failure.bookingId}>
+                  {failure.name}: {failure.message}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[40px]">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) =>
+                    setSelected(checked === true ? new Set(bookings.map((booking) => booking.id)) : new Set())
+                  }
+                  aria-label="Select all bookings on this page"
+                />
+              </TableHead>
+              <TableHead>Attendee</TableHead>
+              <TableHead>Event</TableHead>
+              <TableHead>Payment</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Booked</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {bookings.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center h-24 text-muted-foreground">
+                  {filterParams.toString() ? "No bookings match your filters" : "No bookings yet"}
+                </TableCell>
+              </TableRow>
+            ) : (
+              bookings.map((booking) => (
+                <TableRow key={booking.id} data-state={selected.has(booking.id) ? "selected" : undefined}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.has(booking.id)}
+                      onCheckedChange={(checked) => toggleSelected(booking.id, checked === true)}
+                      aria-label={`Select booking for ${booking.name}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Link href={`/dashboard/bookings/${booking.id}`} className="font-medium hover:underline">
+                      {booking.name}
+                    </Link>
+                    <div className="text-sm text-muted-foreground">{booking.email}</div>
+                    <div className="text-xs text-muted-foreground">{booking.phone}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div>{booking.event.name}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {booking._count.tickets} {booking._count.tickets === 1 ? "ticket" : "tickets"}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {booking.issuedById ? (
+                      <Badge variant="outline">Complimentary</Badge>
+                    ) : (
+                      <>
+                        <div className="text-sm">{booking.paymentProvider ?? "-"}</div>
+                        <div className="font-mono text-xs text-muted-foreground">
+                          {booking.paymentReference ?? booking.paymentId ?? ""}
+                        </div>
+                      </>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div>Kshs {booking.totalAmount.toFixed(2)}</div>
+                    {!!booking.refundedAmount && (
+                      <div className="text-xs text-muted-foreground">
+                        Kshs {booking.refundedAmount.toFixed(2)} refunded
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_BADGE_VARIANTS[booking.status] ?? "outline"}>{booking.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {format(new Date(booking.createdAt), "MMM d, yyyy h:mm a")}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageInfo && <PaginationControls {...pageInfo} onPageChange={setPage} />}
+
+      <AlertDialog open={action !== null} onOpenChange={(open) => !open && setAction(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{action && ACTIONS[action].title}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {action && ACTIONS[action].description} {selected.size}{" "}
+              {selected.size === 1 ? "booking is" : "bookings are"} selected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {(action === "refund" || action === "markPaid") && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-action-note">{action === "refund" ? "Reason (optional)" : "Receipt or reference"}</Label>
+              <Input id="bulk-action-note" value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isSubmitting}>Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Keep the dialog open until the action has finished
+                e.preventDefault()
+                runAction()
+              }}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Confirm"
+              )}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,246 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Loader2, RotateCcw } from "lucide-react"
+import { toast } from "sonner"
+import { getRefundTierDeadline, type RefundPolicy } from "@/lib/bookings/refund-policy"
+
+export interface RefundInfo {
+  policy: RefundPolicy
+  eventStartDate: string
+  percentage: number
+  refundable: number
+  amount: number
+  refundableTicketIds: string[]
+  isStaff: boolean
+}
+
+interface RefundDialogProps {
+  bookingId: string
+  tickets: {
+    id: string
+    ticketNumber: string
+    ticketType: {
+      name: string
+      price: number
+    }
+  }[]
+  refundInfo: RefundInfo
+  onRefunded: () => void
+}
+
+type RefundScope = "booking" | "tickets" | "amount"
+
+export function RefundDialog({ bookingId, tickets, refundInfo, onRefunded }: RefundDialogProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [scope, setScope] = useState<RefundScope>("booking")
+  const [selectedTicketIds, setSelectedTicketIds] = useState<string[]>([])
+  const [amount, setAmount] = useState("")
+  const [reason, setReason] = useState("")
+  const [isRefunding, setIsRefunding] = useState(false)
+
+  const refundableTickets = tickets.filter((ticket) => refundInfo.refundableTicketIds.includes(ticket.id))
+  const scopes: { value: RefundScope; label: string }[] = [
+    { value: "booking", label: "Whole booking" },
+    { value: "tickets", label: "Selected tickets" },
+    ...(refundInfo.isStaff ? [{ value: "amount" as const, label: "Amount only" }] : []),
+  ]
+
+  // Staff refund the full price unless they enter an amount, attendees get their policy's share
+  const percentage = refundInfo.isStaff ? 100 : refundInfo.percentage
+  const ticketsTotal = (scope === "booking"
+    ? refundableTickets
+    : refundableTickets.filter((ticket) => selectedTicketIds.includes(ticket.id))
+  ).reduce((total, ticket) => total + ticket.ticketType.price, 0)
+  const estimate =
+    scope === "amount" || (refundInfo.isStaff && amount)
+      ? Number(amount) || 0
+      : Math.min((ticketsTotal * percentage) / 100, refundInfo.refundable)
+
+  const eventStart = new Date(refundInfo.eventStartDate)
+  const openTiers = refundInfo.policy.tiers.filter((tier) => getRefundTierDeadline(tier, eventStart) > new Date())
+
+  const toggleTicket = (ticketId: string, checked: boolean) => {
+    setSelectedTicketIds(checked ? [...selectedTicketIds, ticketId] : selectedTicketIds.filter((id) => id !== ticketId))
+  }
+
+  const handleRefund = async () => {
+    setIsRefunding(true)
+    try {
+      const response = await fetch(`/api/bookings/${bookingId}`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          action: "refund",
+          scope,
+          ticketIds: scope === "tickets" ? selectedTicketIds : undefined,
+          amount: refundInfo.isStaff && amount ? Number(amount) : undefined,
+          reason: reason || undefined,
+        }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.message || "Failed to refund booking")
+      }
+
+      toast(result.message, {
+        description: `Kshs ${result.refund.amount.toFixed(2)} will be returned to the original payment method.`,
+      })
+
+      setIsOpen(false)
+      setSelectedTicketIds([])
+      setAmount("")
+      setReason("")
+      onRefunded()
+    } catch (error) {
+      toast("Error", {
+        description: error instanceof Error ? error.message : "Failed to refund booking",
+        style: { backgroundColor: "#ff4d4f", color: "#fff" },
+      })
+    } finally {
+      setIsRefunding(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <RotateCcw className="mr-2 h-4 w-4" />
+          {refundInfo.isStaff ? "Issue Refund" : "Request Refund"}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{refundInfo.isStaff ? "Issue Refund" : "Request Refund"}</DialogTitle>
+          <DialogDescription>
+            {refundInfo.isStaff
+              ? "Refunded tickets are cancelled and put back on sale."
+              : `You will get back ${refundInfo.percentage}% of the ticket price. Refunded tickets can no longer be used.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {scopes.map((option) => (
+              <Button
+                key={option.value}
+                type="button"
+                size="sm"
+                variant={scope === option.value ? "default" : "outline"}
+                onClick={() => setScope(option.value)}
+              >
+                {option.label}
+              </Button>
+            ))}
+          </div>
+
+          {scope === "tickets" && (
+            <div className="space-y-2">
+              {refundableTickets.map((ticket) => (
+                <div key={ticket.id} className="flex items-center space-x-3 rounded-md border p-3">
+                  <Checkbox
+                    id={`refund-${ticket.id}`}
+                    checked={selectedTicketIds.includes(ticket.id)}
+                    onCheckedChange={(checked) => toggleTicket(ticket.id, checked === true)}
+                  />
+                  <Label htmlFor={`refund-${ticket.id}`} className="flex-1 font-normal">
+                    {ticket.ticketType.name} <span className="text-muted-foreground">#{ticket.ticketNumber}</span>
+                  </Label>
+                  <span className="text-sm">Kshs {ticket.ticketType.price.toFixed(2)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {refundInfo.isStaff && (
+            <div className="space-y-1">
+              <Label htmlFor="refund-amount">Amount (Kshs)</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                max={refundInfo.refundable}
+                placeholder={scope === "amount" ? "0.00" : "Full ticket price"}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Up to Kshs {refundInfo.refundable.toFixed(2)} can still be refunded on this booking
+              </p>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="refund-reason">Reason</Label>
+            <Textarea
+              id="refund-reason"
+              className="resize-none"
+              placeholder="Optional"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          {!refundInfo.isStaff && openTiers.length > 0 && (
+            <div className="rounded-md bg-muted p-3 text-sm text-muted-foreground">
+              {openTiers.map((tier) => (
+                <p key={tier.hoursBeforeStart}>
+                  {tier.percentage}% refund until {format(getRefundTierDeadline(tier, eventStart), "MMM d, yyyy h:mm a")}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between font-medium">
+            <span>Refund</span>
+            <span>Kshs {estimate.toFixed(2)}</span>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Close
+          </Button>
+          <Button
+            onClick={handleRefund}
+            disabled={
+              isRefunding ||
+              (scope === "tickets" && selectedTicketIds.length === 0) ||
+              (scope === "amount" && !(Number(amount) > 0))
+            }
+          >
+            {isRefunding ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Refunding...
+              </>
+            ) : (
+              "Confirm Refund"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,59 +1,105 @@
-import { ArrowUpRight, Users, ShieldCheck, FileText } from "lucide-react"
+"use client"
+
+import type React from "react"
+import Link from "next/link"
+import { ArrowUpRight, Banknote, Calendar, ClipboardList, Ticket, Users } from "lucide-react"
 
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAnalytics } from "@/hooks/use-analytics"
+import type { AnalyticsSummary } from "@/lib/analytics/analytics-service"
+
+interface DashboardCardsProps {
+  days?: number
+}
 
-export function DashboardCards() {
+interface StatCardProps {
+  title: string
+  icon: React.ElementType
+  value: string | number | null
+  detail: string
+  href: string
+  linkText: string
+}
+
+function StatCard({ title, icon: Icon, value, detail, href, linkText }: StatCardProps) {
   return (
-    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Total Users</CardTitle>
-          <Users className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">120</div>
-          <p className="text-xs text-muted-foreground">+10% from last month</p>
-        </CardContent>
-        <CardFooter className="p-2">
-          <a href="#" className="text-xs text-blue-500 hover:underline flex items-center">
-            View all users
-            <ArrowUpRight className="ml-1 h-3 w-3" />
-          </a>
-        </CardFooter>
-      </Card>
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Active Roles</CardTitle>
-          <ShieldCheck className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">3</div>
-          <p className="text-xs text-muted-foreground">Admin, User, Guest</p>
-        </CardContent>
-        <CardFooter className="p-2">
-          <a href="#" className="text-xs text-blue-500 hover:underline flex items-center">
-            Manage roles
-            <ArrowUpRight className="ml-1 h-3 w-3" />
-          </a>
-        </CardFooter>
-      </Card>
-      <Card>
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Documents</CardTitle>
-          <FileText className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">25</div>
-          <p className="text-xs text-muted-foreground">+5 created this week</p>
-        </CardContent>
-        <CardFooter className="p-2">
-          <a href="#" className="text-xs text-blue-500 hover:underline flex items-center">
-            View all documents
-            <ArrowUpRight className="ml-1 h-3 w-3" />
-          </a>
-        </CardFooter>
-      </Card>
-    </div>
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="text-sm font-medium">{title}</CardTitle>
+        <Icon className="h-4 w-4 text-muted-foreground" />
+      </CardHeader>
+      <CardContent>
+        {value === null ? <Skeleton className="h-8 w-24" /> : <div className="text-2xl font-bold">{value}</div>}
+        <p className="text-xs text-muted-foreground">{detail}</p>
+      </CardContent>
+      <CardFooter className="p-2">
+        <Link href={href} className="text-xs text-blue-500 hover:underline flex items-center">
+          {linkText}
+          <ArrowUpRight className="ml-1 h-3 w-3" />
+        </Link>
+      </CardFooter>
+    </Card>
   )
 }
 
+export function DashboardCards({ days = 30 }: DashboardCardsProps) {
+  const { data, error } = useAnalytics<{ summary: AnalyticsSummary; isPlatform: boolean }>(
+    "/api/analytics/summary",
+    days,
+  )
+  const summary = data?.summary
+  const period = `Last ${days} days`
+
+  if (error) {
+    return <p className="text-sm text-muted-foreground">{error.message}</p>
+  }
+
+  return (
+    <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <StatCard
+        title="Revenue"
+        icon={Banknote}
+        value={summary ? `Kshs ${summary.revenue.toLocaleString(undefined, { minimumFractionDigits: 2 })}` : null}
+        detail={summary && summary.refunds > 0 ? `${period}, after Kshs ${summary.refunds} refunded` : period}
+        href="/dashboard/analytics"
+        linkText="View analytics"
+      />
+      <StatCard
+        title="Tickets Sold"
+        icon={Ticket}
+        value={summary ? summary.ticketsSold : null}
+        detail={period}
+        href="/dashboard/analytics"
+        linkText="View analytics"
+      />
+      <StatCard
+        title="Bookings"
+        icon={ClipboardList}
+        value={summary ? summary.bookings : null}
+        detail={`Paid, ${period.toLowerCase()}`}
+        href="/dashboard/analytics"
+        linkText="View analytics"
+      />
+      {data?.isPlatform ? (
+        <StatCard
+          title="Total Users"
+          icon={Users}
+          value={summary ? summary.users : null}
+          detail={`Across ${summary?.events ?? 0} events on the platform`}
+          href="/dashboard/users"
+          linkText="View all users"
+        />
+      ) : (
+        <StatCard
+          title="Events"
+          icon={Calendar}
+          value={summary ? summary.events : null}
+          detail={data?.isPlatform ? "On the platform" : "Created by you"}
+          href="/dashboard/events"
+          linkText="View events"
+        />
+      )}
+    </div>
+  )
+}
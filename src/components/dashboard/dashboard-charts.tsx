@@ -1,27 +1,15 @@
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { BookingsChart } from "@/components/dashboard/analytics/bookings-chart"
+import { SellThroughChart } from "@/components/dashboard/analytics/sell-through-chart"
 
-export function DashboardCharts() {
+interface DashboardChartsProps {
+  days?: number
+}
+
+export function DashboardCharts({ days = 30 }: DashboardChartsProps) {
   return (
     <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-7">
-      <Card className="col-span-4">
-        <CardHeader>
-          <CardTitle>User Activity</CardTitle>
-          <CardDescription>User activity over the last 30 days</CardDescription>
-        </CardHeader>
-        <CardContent className="pl-2">
-          <div className="h-[200px] w-full bg-muted/50 rounded-md"></div>
-        </CardContent>
-      </Card>
-      <Card className="col-span-3">
-        <CardHeader>
-          <CardTitle>User Roles</CardTitle>
-          <CardDescription>Distribution of users by role</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <div className="h-[200px] w-full bg-muted/50 rounded-md"></div>
-        </CardContent>
-      </Card>
+      <BookingsChart days={days} className="md:col-span-2 lg:col-span-4" />
+      <SellThroughChart className="md:col-span-2 lg:col-span-3" />
     </div>
   )
 }
-
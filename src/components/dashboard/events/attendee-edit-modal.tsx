@@ -0,0 +1,154 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import * as z from "zod"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { toast } from "sonner"
+
+export interface AttendeeContact {
+  bookingId: string
+  name: string
+  email: string
+  phone: string
+}
+
+interface AttendeeEditModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved: () => void
+  eventId: string
+  attendee: AttendeeContact | null
+}
+
+const attendeeSchema = z.object({
+  name: z.string().trim().min(1, { message: "Name is required." }),
+  email: z.string().trim().email({ message: "Enter a valid email address." }),
+  phone: z.string().trim().min(1, { message: "Phone number is required." }),
+})
+
+type AttendeeValues = z.infer<typeof attendeeSchema>
+
+export function AttendeeEditModal({ isOpen, onClose, onSaved, eventId, attendee }: AttendeeEditModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const form = useForm<AttendeeValues>({
+    resolver: zodResolver(attendeeSchema),
+    defaultValues: { name: "", email: "", phone: "" },
+  })
+
+  useEffect(() => {
+    if (attendee) {
+      form.reset({ name: attendee.name, email: attendee.email, phone: attendee.phone })
+    }
+  }, [attendee, form])
+
+  async function onSubmit(data: AttendeeValues) {
+    if (!attendee) return
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/events/${eventId}/attendees/${attendee.bookingId}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(data),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.message || "Failed to update attendee")
+      }
+
+      toast.success("Attendee updated")
+      onSaved()
+    } catch (error) {
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to update attendee",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Edit Attendee</DialogTitle>
+          <DialogDescription>
+            Correct the holder details on this booking. Every ticket in the booking shares them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : (
+                  "Save Changes"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
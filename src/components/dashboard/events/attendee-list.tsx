@@ -0,0 +1,289 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download, Loader2, Pencil, Printer, Search, UserPlus } from "lucide-react"
+import { PermissionGate } from "@/components/auth/permission-gate"
+import { PaginationControls, type PageInfo } from "@/components/dashboard/pagination-controls"
+import { AttendeeEditModal, type AttendeeContact } from "@/components/dashboard/events/attendee-edit-modal"
+import { GuestImportModal } from "@/components/dashboard/events/guest-import-modal"
+import { ATTENDEE_STATUSES, ATTENDEE_STATUS_LABELS, type AttendeeStatus } from "@/lib/bookings/attendee-status"
+
+interface Attendee {
+  id: string
+  ticketNumber: string
+  status: AttendeeStatus
+  checkedInAt: string | null
+  ticketType: {
+    id: string
+    name: string
+  }
+  booking: {
+    id: string
+    name: string
+    email: string
+    phone: string
+    status: string
+  }
+}
+
+interface AttendeeListProps {
+  eventId: string
+  ticketTypes: {
+    id: string
+    name: string
+  }[]
+}
+
+const BOOKING_STATUSES = ["CONFIRMED", "REFUNDED", "CANCELLED", "PENDING"]
+
+const STATUS_BADGE_VARIANTS: Record<AttendeeStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  CHECKED_IN: "default",
+  CHECKED_OUT: "secondary",
+  NOT_CHECKED_IN: "outline",
+  REFUNDED: "destructive",
+}
+
+export function AttendeeList({ eventId, ticketTypes }: AttendeeListProps) {
+  const [attendees, setAttendees] = useState<Attendee[]>([])
+  const [loading, setLoading] = useState(true)
+  const [searchQuery, setSearchQuery] = useState("")
+  const [search, setSearch] = useState("")
+  const [ticketTypeId, setTicketTypeId] = useState("all")
+  const [bookingStatus, setBookingStatus] = useState("all")
+  const [status, setStatus] = useState("all")
+  const [page, setPage] = useState(1)
+  const [pageInfo, setPageInfo] = useState<PageInfo>()
+  const [editing, setEditing] = useState<AttendeeContact | null>(null)
+  const [isAddingGuests, setIsAddingGuests] = useState(false)
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchQuery.trim())
+      setPage(1)
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  // The list's filters, which the exports use too
+  const filterParams = useMemo(() => {
+    const params = new URLSearchParams()
+    if (search) params.set("search", search)
+    if (ticketTypeId !== "all") params.set("ticketTypeId", ticketTypeId)
+    if (bookingStatus !== "all") params.set("bookingStatus", bookingStatus)
+    if (status !== "all") params.set("status", status)
+    return params
+  }, [search, ticketTypeId, bookingStatus, status])
+
+  const fetchAttendees = useCallback(async () => {
+    try {
+      const params = new URLSearchParams(filterParams)
+      params.set("page", String(page))
+
+      const response = await fetch(`/api/events/${eventId}/attendees?${params}`)
+      if (!response.ok) throw new Error("Failed to fetch attendees")
+      const data = await response.json()
+      setAttendees(data.attendees)
+      setPageInfo({ page: data.page, pageSize: data.pageSize, totalCount: data.totalCount })
+    } catch (error) {
+      console.error("Error fetching attendees:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [eventId, filterParams, page])
+
+  useEffect(() => {
+    fetchAttendees()
+  }, [fetchAttendees])
+
+  // Filter changes start again from the first page
+  const withFirstPage = (setter: (value: string) => void) => (value: string) => {
+    setter(value)
+    setPage(1)
+  }
+
+  const exportQuery = filterParams.toString() ? `&${filterParams}` : ""
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by name, email, phone or ticket number..."
+            className="pl-8"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        </div>
+        <Select value={ticketTypeId} onValueChange={withFirstPage(setTicketTypeId)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Ticket type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All ticket types</SelectItem>
+            {ticketTypes.map((ticketType) => (
+              <SelectItem key={ticketType.id} value={ticketType.id}>
+                {ticketType.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={bookingStatus} onValueChange={withFirstPage(setBookingStatus)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Booking status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All bookings</SelectItem>
+            {BOOKING_STATUSES.map((value) => (
+              <SelectItem key={value} value={value}>
+                {value}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={status} onValueChange={withFirstPage(setStatus)}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Check-in" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any check-in state</SelectItem>
+            {ATTENDEE_STATUSES.map((value) => (
+              <SelectItem key={value} value={value}>
+                {ATTENDEE_STATUS_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex gap-2">
+          <PermissionGate permission="attendees:create">
+            <Button onClick={() => setIsAddingGuests(true)}>
+              <UserPlus className="mr-2 h-4 w-4" />
+              Add Guests
+            </Button>
+          </PermissionGate>
+          <Button variant="outline" asChild>
+            <a href={`/api/events/${eventId}/attendees/export?format=csv${exportQuery}`} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/events/${eventId}/attendees/export?format=pdf${exportQuery}`} download>
+              <Printer className="mr-2 h-4 w-4" />
+              Door List
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Attendee</TableHead>
+              <TableHead>Ticket</TableHead>
+              <TableHead>Booking</TableHead>
+              <TableHead>Check-in</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {attendees.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center h-24 text-muted-foreground">
+                  {filterParams.toString() ? "No attendees match your filters" : "No tickets have been issued yet"}
+                </TableCell>
+              </TableRow>
+            ) : (
+              attendees.map((attendee) => (
+                <TableRow key={attendee.id}>
+                  <TableCell>
+                    <div className="font-medium">{attendee.booking.name}</div>
+                    <div className="text-sm text-muted-foreground">{attendee.booking.email}</div>
+                    <div className="text-xs text-muted-foreground">{attendee.booking.phone}</div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-mono text-sm">{attendee.ticketNumber}</div>
+                    <div className="text-sm text-muted-foreground">{attendee.ticketType.name}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Link href={`/dashboard/bookings/${attendee.booking.id}`} className="hover:underline">
+                      <Badge variant="outline">{attendee.booking.status}</Badge>
+                    </Link>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={STATUS_BADGE_VARIANTS[attendee.status]}>
+                      {ATTENDEE_STATUS_LABELS[attendee.status]}
+                    </Badge>
+                    {attendee.checkedInAt && attendee.status !== "REFUNDED" && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {format(new Date(attendee.checkedInAt), "MMM d, h:mm a")}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <PermissionGate permission="attendees:update">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setEditing({
+                            bookingId: attendee.booking.id,
+                            name: attendee.booking.name,
+                            email: attendee.booking.email,
+                            phone: attendee.booking.phone,
+                          })
+                        }
+                      >
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit
+                      </Button>
+                    </PermissionGate>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {pageInfo && <PaginationControls {...pageInfo} onPageChange={setPage} />}
+
+      <AttendeeEditModal
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        onSaved={() => {
+          setEditing(null)
+          fetchAttendees()
+        }}
+        eventId={eventId}
+        attendee={editing}
+      />
+
+      <GuestImportModal
+        isOpen={isAddingGuests}
+        onClose={() => setIsAddingGuests(false)}
+        onIssued={fetchAttendees}
+        eventId={eventId}
+        ticketTypes={ticketTypes}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,238 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { format } from "date-fns"
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Loader2, Download } from "lucide-react"
+import Link from "next/link"
+import type { CheckInStats } from "@/lib/bookings/check-in-service"
+import { SCAN_RESULT_LABELS, getScanResultVariant } from "@/lib/bookings/scan-results"
+
+interface CheckInDashboardProps {
+  eventId: string
+}
+
+export function CheckInDashboard({ eventId }: CheckInDashboardProps) {
+  const [stats, setStats] = useState<CheckInStats | null>(null)
+  const [isConnected, setIsConnected] = useState(false)
+
+  // The server pushes a new snapshot every time a ticket is scanned
+  useEffect(() => {
+    const source = new EventSource(`/api/events/${eventId}/check-ins/stream`)
+
+    source.onopen = () => setIsConnected(true)
+    source.onmessage = (message) => {
+      setStats(JSON.parse(message.data))
+      setIsConnected(true)
+    }
+    // EventSource reconnects by itself
+    source.onerror = () => setIsConnected(false)
+
+    return () => source.close()
+  }, [eventId])
+
+  if (!stats) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  const percentage = stats.totals.sold > 0 ? Math.round((stats.totals.checkedIn / stats.totals.sold) * 100) : 0
+  const arrivals = stats.arrivals.map((bucket) => ({
+    time: format(new Date(bucket.start), "h:mm a"),
+    arrivals: bucket.count,
+  }))
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        <Badge variant={isConnected ? "default" : "secondary"}>{isConnected ? "Live" : "Reconnecting..."}</Badge>
+        <Button variant="outline" size="sm" onClick={() => window.open(`/api/events/${eventId}/scans/export`, "_blank")}>
+          <Download className="mr-2 h-4 w-4" />
+          Export Scans
+        </Button>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Checked In</CardDescription>
+            <CardTitle className="text-3xl">{stats.totals.checkedIn}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">{percentage}% of tickets sold</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Tickets Sold</CardDescription>
+            <CardTitle className="text-3xl">{stats.totals.sold}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">Confirmed and not refunded</CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Still to Arrive</CardDescription>
+            <CardTitle className="text-3xl">{stats.totals.sold - stats.totals.checkedIn}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {stats.rejections.reduce((total, rejection) => total + rejection.count, 0)} scans turned away
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>By Ticket Type</CardTitle>
+            <CardDescription>Checked in against sold</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {stats.ticketTypes.map((ticketType) => (
+              <div key={ticketType.id} className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="font-medium">{ticketType.name}</span>
+                  <span>
+                    {ticketType.checkedIn} / {ticketType.sold}
+                  </span>
+                </div>
+                <div className="h-2 w-full rounded-full bg-muted">
+                  <div
+                    className="h-2 rounded-full bg-primary"
+                    style={{ width: `${ticketType.sold > 0 ? (ticketType.checkedIn / ticketType.sold) * 100 : 0}%` }}
+                  />
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {stats.sessions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>By Session</CardTitle>
+              <CardDescription>Checked in against capacity</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {stats.sessions.map((session) => (
+                <div key={session.id} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">
+                      {session.name}
+                      <span className="ml-2 text-xs font-normal text-muted-foreground">
+                        {format(new Date(session.startDate), "MMM d, h:mm a")}
+                        {session.room && ` · ${session.room}`}
+                      </span>
+                    </span>
+                    <span>
+                      {session.checkedIn}
+                      {session.capacity !== null && ` / ${session.capacity}`}
+                    </span>
+                  </div>
+                  {session.capacity !== null && (
+                    <div className="h-2 w-full rounded-full bg-muted">
+                      <div
+                        className="h-2 rounded-full bg-primary"
+                        style={{ width: `${Math.min((session.checkedIn / session.capacity) * 100, 100)}%` }}
+                      />
+                    </div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Arrivals</CardTitle>
+            <CardDescription>Check-ins per 15 minutes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {arrivals.length === 0 ? (
+              <p className="text-muted-foreground">Nobody has checked in yet.</p>
+            ) : (
+              <div className="h-[240px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={arrivals}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="time" fontSize={12} tickLine={false} />
+                    <YAxis allowDecimals={false} fontSize={12} tickLine={false} width={32} />
+                    <Tooltip />
+                    <Bar dataKey="arrivals" fill="#4F46E5" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Scans</CardTitle>
+            <CardDescription>The latest tickets scanned at the door</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {stats.recentScans.length === 0 ? (
+              <p className="text-muted-foreground">No tickets scanned yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {stats.recentScans.map((scan) => (
+                  <div key={scan.id} className="flex items-start justify-between gap-4 text-sm">
+                    <div>
+                      <div className="font-medium">
+                        {scan.ticketId ? (
+                          <Link href={`/dashboard/tickets/${scan.ticketId}`} className="hover:underline">
+                            {scan.attendee || scan.ticketNumber}
+                          </Link>
+                        ) : (
+                          "Unknown ticket"
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {[scan.ticketType, scan.ticketNumber, scan.session].filter(Boolean).join(" · ")}
+                        {scan.operator && ` · scanned by ${scan.operator}`}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <Badge variant={getScanResultVariant(scan.result)}>
+                        {SCAN_RESULT_LABELS[scan.result]}
+                      </Badge>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {format(new Date(scan.scannedAt), "h:mm:ss a")}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Turned Away</CardTitle>
+            <CardDescription>Why scans were rejected</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {stats.rejections.length === 0 ? (
+              <p className="text-muted-foreground">No rejected scans.</p>
+            ) : (
+              <div className="space-y-2">
+                {stats.rejections.map((rejection) => (
+                  <div key={rejection.result} className="flex justify-between text-sm">
+                    <span>{SCAN_RESULT_LABELS[rejection.result]}</span>
+                    <span className="font-medium">{rejection.count}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import { useState } from "react"
+import { addDays, format } from "date-fns"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2 } from "lucide-react"
+import { toast } from "sonner"
+
+interface DuplicateEventModalProps {
+  isOpen: boolean
+  onClose: () => void
+  eventId: string
+  eventName: string
+  startDate: string
+  onDuplicated: (eventId: string) => void
+}
+
+export function DuplicateEventModal({
+  isOpen,
+  onClose,
+  eventId,
+  eventName,
+  startDate,
+  onDuplicated,
+}: DuplicateEventModalProps) {
+  const [offsetDays, setOffsetDays] = useState("7")
+  const [isDuplicating, setIsDuplicating] = useState(false)
+
+  const days = Number.parseInt(offsetDays)
+
+  const handleDuplicate = async () => {
+    setIsDuplicating(true)
+    try {
+      const response = await fetch(`/api/events/${eventId}/duplicate`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ offsetDays: days }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to duplicate event")
+      }
+
+      toast.success("Event duplicated", {
+        description: "The copy is saved as a draft. Review it before publishing.",
+      })
+
+      onDuplicated(data.event.id)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to duplicate event")
+    } finally {
+      setIsDuplicating(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Duplicate Event</DialogTitle>
+          <DialogDescription>
+            Copy <span className="font-semibold">{eventName}</span> with its ticket types, agenda, promo codes and
+            staff into a new draft
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="offset-days">Move dates by (days)</Label>
+          <Input id="offset-days" type="number" value={offsetDays} onChange={(e) => setOffsetDays(e.target.value)} />
+          {Number.isInteger(days) && (
+            <p className="text-sm text-muted-foreground">
+              The copy starts on {format(addDays(new Date(startDate), days), "EEEE, MMMM d, yyyy")}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleDuplicate} disabled={isDuplicating || !Number.isInteger(days)}>
+            {isDuplicating ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Duplicating...
+              </>
+            ) : (
+              "Duplicate"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
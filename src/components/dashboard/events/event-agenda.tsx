@@ -0,0 +1,127 @@
+"use client"
+
+import { useState } from "react"
+import { format } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Clock, Edit, MapPin, Plus, Trash } from "lucide-react"
+import { toast } from "sonner"
+import { EventSessionModal, type EventSession } from "@/components/dashboard/events/event-session-modal"
+
+interface EventAgendaProps {
+  eventId: string
+  sessions: EventSession[]
+  canManage: boolean
+  onChange: () => void
+}
+
+export function EventAgenda({ eventId, sessions, canManage, onChange }: EventAgendaProps) {
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [selectedSession, setSelectedSession] = useState<EventSession | undefined>(undefined)
+
+  // Sessions arrive sorted by start time, so each day's sessions are already in order
+  const days = sessions.reduce<{ day: string; sessions: EventSession[] }[]>((groups, session) => {
+    const day = format(new Date(session.startDate), "EEEE, MMMM d")
+    const group = groups.find((group) => group.day === day)
+    if (group) {
+      group.sessions.push(session)
+    } else {
+      groups.push({ day, sessions: [session] })
+    }
+    return groups
+  }, [])
+
+  const openModal = (session?: EventSession) => {
+    setSelectedSession(session)
+    setIsModalOpen(true)
+  }
+
+  const deleteSession = async (session: EventSession) => {
+    try {
+      const response = await fetch(`/api/events/${eventId}/sessions/${session.id}`, {
+        method: "DELETE",
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.message || "Failed to delete session")
+      }
+
+      onChange()
+    } catch (error) {
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to delete session",
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {canManage && (
+        <div className="flex justify-end">
+          <Button onClick={() => openModal()}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Session
+          </Button>
+        </div>
+      )}
+
+      {sessions.length === 0 ? (
+        <p className="text-muted-foreground">No sessions on the agenda yet.</p>
+      ) : (
+        days.map(({ day, sessions: daySessions }) => (
+          <div key={day} className="space-y-2">
+            <h3 className="text-lg font-medium">{day}</h3>
+            {daySessions.map((session) => (
+              <div key={session.id} className="flex items-start justify-between gap-4 rounded-lg border p-4">
+                <div className="space-y-1">
+                  <div className="font-medium">{session.name}</div>
+                  <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                    <span className="flex items-center">
+                      <Clock className="mr-1 h-4 w-4" />
+                      {format(new Date(session.startDate), "h:mm a")} – {format(new Date(session.endDate), "h:mm a")}
+                    </span>
+                    {session.room && (
+                      <span className="flex items-center">
+                        <MapPin className="mr-1 h-4 w-4" />
+                        {session.room}
+                      </span>
+                    )}
+                  </div>
+                  {session.description && <p className="text-sm">{session.description}</p>}
+                </div>
+                <div className="flex items-center gap-2">
+                  {session.capacity !== null && (
+                    <Badge variant="outline">
+                      {canManage ? `${session.checkedInCount} / ${session.capacity}` : `${session.capacity} places`}
+                    </Badge>
+                  )}
+                  {canManage && (
+                    <>
+                      <Button variant="ghost" size="icon" onClick={() => openModal(session)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => deleteSession(session)}>
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ))
+      )}
+
+      <EventSessionModal
+        isOpen={isModalOpen}
+        onClose={() => {
+          setIsModalOpen(false)
+          onChange()
+        }}
+        eventId={eventId}
+        session={selectedSession}
+      />
+    </div>
+  )
+}
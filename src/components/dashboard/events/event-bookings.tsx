@@ -0,0 +1,114 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { format } from "date-fns"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Loader2 } from "lucide-react"
+
+interface EventBooking {
+  id: string
+  name: string
+  email: string
+  totalAmount: number
+  refundedAmount: number | null
+  status: string
+  createdAt: string
+  _count: {
+    tickets: number
+  }
+}
+
+interface EventBookingsProps {
+  eventId: string
+}
+
+export function EventBookings({ eventId }: EventBookingsProps) {
+  const [bookings, setBookings] = useState<EventBooking[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchBookings = async () => {
+      try {
+        const response = await fetch(`/api/events/${eventId}/bookings`)
+        if (!response.ok) throw new Error("Failed to fetch bookings")
+        const data = await response.json()
+        setBookings(data.bookings)
+      } catch (error) {
+        console.error("Error fetching bookings:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchBookings()
+  }, [eventId])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (bookings.length === 0) {
+    return <p className="text-muted-foreground">No bookings for this event yet.</p>
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Attendee</TableHead>
+          <TableHead>Tickets</TableHead>
+          <TableHead>Amount</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {bookings.map((booking) => (
+          <TableRow key={booking.id}>
+            <TableCell>
+              <div className="font-medium">{booking.name}</div>
+              <div className="text-sm text-muted-foreground">{booking.email}</div>
+              <div className="text-xs text-muted-foreground">{format(new Date(booking.createdAt), "MMM d, yyyy")}</div>
+            </TableCell>
+            <TableCell>{booking._count.tickets}</TableCell>
+            <TableCell>
+              <div>Kshs {booking.totalAmount.toFixed(2)}</div>
+              {!!booking.refundedAmount && (
+                <div className="text-xs text-muted-foreground">
+                  Kshs {booking.refundedAmount.toFixed(2)} refunded
+                </div>
+              )}
+            </TableCell>
+            <TableCell>
+              <Badge
+                variant={
+                  booking.status === "CONFIRMED"
+                    ? "default"
+                    : booking.status === "CANCELLED"
+                      ? "destructive"
+                      : booking.status === "REFUNDED"
+                        ? "outline"
+                        : "secondary"
+                }
+              >
+                {booking.status}
+              </Badge>
+            </TableCell>
+            <TableCell className="text-right">
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/dashboard/bookings/${booking.id}`}>Manage</Link>
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import type React from "react"
+import { useState, useEffect } from "react"
+import { addMonths, endOfDay, endOfMonth, endOfWeek, startOfDay } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Search, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { EventFilters } from "@/types/event"
+import type { EventFacets } from "@/lib/events/event-filters"
+import { EVENT_CATEGORY_LABELS } from "@/lib/events/categories"
+
+interface EventFilterBarProps {
+  filters: EventFilters
+  facets: EventFacets | null
+  onChange: (filters: EventFilters) => void
+}
+
+const PRICE_RANGES = [
+  { label: "Free", min: 0, max: 0 },
+  { label: "Under Kshs 1,000", min: 0, max: 999.99 },
+  { label: "Kshs 1,000 - 5,000", min: 1000, max: 5000 },
+  { label: "Over Kshs 5,000", min: 5000.01, max: Number.POSITIVE_INFINITY },
+]
+
+// Worked out on each render so the ranges always start today
+function getDateRanges() {
+  const today = startOfDay(new Date())
+
+  return [
+    { label: "Today", startDate: today, endDate: endOfDay(today) },
+    { label: "This week", startDate: today, endDate: endOfWeek(today) },
+    { label: "This month", startDate: today, endDate: endOfMonth(today) },
+    { label: "Next 3 months", startDate: today, endDate: endOfDay(addMonths(today, 3)) },
+  ]
+}
+
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <Button
+      type="button"
+      size="sm"
+      variant={active ? "default" : "outline"}
+      className={cn("h-7 rounded-full px-3 text-xs", !active && "text-muted-foreground")}
+      onClick={onClick}
+    >
+      {children}
+    </Button>
+  )
+}
+
+export function EventFilterBar({ filters, facets, onChange }: EventFilterBarProps) {
+  const [search, setSearch] = useState(filters.searchTerm ?? "")
+
+  // Follow searches started elsewhere, e.g. from the header or the back button
+  useEffect(() => {
+    setSearch((current) => (current.trim() === (filters.searchTerm ?? "") ? current : (filters.searchTerm ?? "")))
+  }, [filters.searchTerm])
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if ((filters.searchTerm ?? "") !== search.trim()) {
+        onChange({ ...filters, searchTerm: search.trim() || undefined })
+      }
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [search, filters, onChange])
+
+  const sameTime = (a?: string | Date, b?: Date) => Boolean(a && b && new Date(a).getTime() === b.getTime())
+  const dateRanges = getDateRanges()
+  const tags = filters.tags ?? []
+  const isFiltered = Boolean(
+    filters.category || tags.length > 0 || filters.startDate || filters.endDate || filters.priceRange || filters.searchTerm,
+  )
+
+  const toggleTag = (tag: string) => {
+    const next = tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag]
+    onChange({ ...filters, tags: next.length > 0 ? next : undefined })
+  }
+
+  // Keep picked filters visible even when nothing else matches them
+  const categories = facets?.categories ?? []
+  const categoryChips =
+    filters.category && !categories.some(({ category }) => category === filters.category)
+      ? [...categories, { category: filters.category, count: 0 }]
+      : categories
+  const tagChips = [
+    ...(facets?.tags ?? []),
+    ...tags.filter((tag) => !facets?.tags.some((facet) => facet.tag === tag)).map((tag) => ({ tag, count: 0 })),
+  ]
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search events by name, description, location or tag"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        {isFiltered && (
+          <Button
+            type="button"
+            variant="ghost"
+            onClick={() => {
+              setSearch("")
+              onChange({})
+            }}
+          >
+            <X className="mr-2 h-4 w-4" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      {categoryChips.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <Chip active={!filters.category} onClick={() => onChange({ ...filters, category: undefined })}>
+            All categories
+          </Chip>
+          {categoryChips.map(({ category, count }) => (
+            <Chip
+              key={category}
+              active={filters.category === category}
+              onClick={() => onChange({ ...filters, category: filters.category === category ? undefined : category })}
+            >
+              {EVENT_CATEGORY_LABELS[category]} ({count})
+            </Chip>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {dateRanges.map((range) => {
+          const active = sameTime(filters.startDate, range.startDate) && sameTime(filters.endDate, range.endDate)
+          return (
+            <Chip
+              key={range.label}
+              active={active}
+              onClick={() =>
+                onChange({
+                  ...filters,
+                  startDate: active ? undefined : range.startDate,
+                  endDate: active ? undefined : range.endDate,
+                })
+              }
+            >
+              {range.label}
+            </Chip>
+          )
+        })}
+        {PRICE_RANGES.map((range) => {
+          const active = filters.priceRange?.min === range.min && filters.priceRange?.max === range.max
+          return (
+            <Chip
+              key={range.label}
+              active={active}
+              onClick={() =>
+                onChange({ ...filters, priceRange: active ? undefined : { min: range.min, max: range.max } })
+              }
+            >
+              {range.label}
+            </Chip>
+          )
+        })}
+      </div>
+
+      {tagChips.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tagChips.map(({ tag, count }) => (
+            <Chip key={tag} active={tags.includes(tag)} onClick={() => toggleTag(tag)}>
+              #{tag} ({count})
+            </Chip>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
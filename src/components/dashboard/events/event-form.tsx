@@ -13,12 +13,17 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { Calendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { format } from "date-fns"
-import { CalendarIcon, Loader2, Trash } from "lucide-react"
+import { CalendarIcon, Loader2, Plus, Trash } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { TicketTypeForm } from "@/components/dashboard/events/ticket-type-form"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { toast } from "sonner"
+import { Label } from "@/components/ui/label"
+import { DEFAULT_REFUND_POLICY, type RefundPolicy } from "@/lib/bookings/refund-policy"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { formatRecurrenceRule, MAX_OCCURRENCES, type RecurrenceFrequency } from "@/lib/events/recurrence"
+import { EVENT_CATEGORY_LABELS } from "@/lib/events/categories"
 
 const eventFormSchema = z
     .object({
@@ -37,6 +42,8 @@ const eventFormSchema = z
         }),
         imageUrl: z.string().optional(),
         isPublished: z.boolean().default(false),
+        category: z.string(),
+        tags: z.string().optional(), // Comma separated
     })
     .refine((data) => data.endDate >= data.startDate, {
         message: "End date must be after start date",
@@ -51,8 +58,19 @@ interface TicketType {
     description?: string
     price: number
     quantity: number
+    salesStartDate?: string
+    availableUntil?: string
 }
 
+interface Recurrence {
+    frequency: RecurrenceFrequency | "NONE"
+    interval: number
+    byDay: number[]
+    count: number
+}
+
+const WEEKDAY_OPTIONS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
 interface EventFormProps {
     mode: "create" | "edit"
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -65,6 +83,9 @@ export function EventForm({ mode, initialData, onSuccess }: EventFormProps) {
     const [isSubmitting, setIsSubmitting] = useState(false)
     const [ticketTypes, setTicketTypes] = useState<TicketType[]>([])
     const [activeTab, setActiveTab] = useState("details")
+    const [refundPolicy, setRefundPolicy] = useState<RefundPolicy>(DEFAULT_REFUND_POLICY)
+    const [recurrence, setRecurrence] = useState<Recurrence>({ frequency: "NONE", interval: 1, byDay: [], count: 4 })
+    const [scope, setScope] = useState<"occurrence" | "future">("occurrence")
 
     const form = useForm<EventFormValues>({
         resolver: zodResolver(eventFormSchema),
@@ -74,6 +95,8 @@ export function EventForm({ mode, initialData, onSuccess }: EventFormProps) {
             location: "",
             imageUrl: "",
             isPublished: false,
+            category: "none",
+            tags: "",
         },
     })
 
@@ -88,8 +111,14 @@ export function EventForm({ mode, initialData, onSuccess }: EventFormProps) {
                 endDate: new Date(initialData.endDate),
                 imageUrl: initialData.imageUrl || "",
                 isPublished: initialData.isPublished,
+                category: initialData.category || "none",
+                tags: initialData.tags?.join(", ") || "",
             })
 
+            if (initialData.refundPolicy) {
+                setRefundPolicy(initialData.refundPolicy)
+            }
+
             // Set ticket types
             if (initialData.ticketTypes) {
                 setTicketTypes(
@@ -100,6 +129,8 @@ export function EventForm({ mode, initialData, onSuccess }: EventFormProps) {
                         description: ticket.description,
                         price: ticket.price,
                         quantity: ticket.quantity,
+                        salesStartDate: ticket.salesStartDate || undefined,
+                        availableUntil: ticket.availableUntil || undefined,
                     })),
                 )
             }
@@ -114,6 +145,38 @@ export function EventForm({ mode, initialData, onSuccess }: EventFormProps) {
         setTicketTypes(ticketTypes.filter((_, i) => i !== index))
     }
 
+    const updateRefundTier = (index: number, field: "hoursBeforeStart" | "percentage", value: string) => {
+        setRefundPolicy({
+            ...refundPolicy,
+            tiers: refundPolicy.tiers.map((tier, i) =>
+                i === index ? { ...tier, [field]: Number.parseInt(value) || 0 } : tier,
+            ),
+        })
+    }
+
+    const addRefundTier = () => {
+        setRefundPolicy({
+            ...refundPolicy,
+            tiers: [...refundPolicy.tiers, { hoursBeforeStart: 0, percentage: 50 }],
+        })
+    }
+
+    const removeRefundTier = (index: number) => {
+        setRefundPolicy({
+            ...refundPolicy,
+            tiers: refundPolicy.tiers.filter((_, i) => i !== index),
+        })
+    }
+
+    const toggleRecurrenceDay = (day: number) => {
+        setRecurrence({
+            ...recurrence,
+            byDay: recurrence.byDay.includes(day)
+                ? recurrence.byDay.filter((d) => d !== day)
+                : [...recurrence.byDay, day].sort((a, b) => a - b),
+        })
+    }
+
     async function onSubmit(data: EventFormValues) {
         if (ticketTypes.length === 0) {
             toast.info("Please add at least one ticket type for this event.",)
@@ -134,7 +197,24 @@ export function EventForm({ mode, initialData, onSuccess }: EventFormProps) {
                 },
                 body: JSON.stringify({
                     ...data,
+                    category: data.category === "none" ? null : data.category,
+                    tags: data.tags?.split(",") ?? [],
                     ticketTypes,
+                    refundPolicy,
+                    // Days at the venue, and the weekdays of a series, are counted in the organiser's time zone
+                    timezoneOffset: data.startDate.getTimezoneOffset(),
+                    ...(mode === "create" &&
+                        recurrence.frequency !== "NONE" && {
+                            recurrence: {
+                                rule: formatRecurrenceRule({
+                                    frequency: recurrence.frequency,
+                                    interval: recurrence.interval,
+                                    byDay: recurrence.frequency === "WEEKLY" ? recurrence.byDay : [],
+                                    count: recurrence.count,
+                                }),
+                            },
+                        }),
+                    ...(mode === "edit" && initialData.seriesId && { scope }),
                 }),
             })
 
@@ -172,6 +252,7 @@ export function EventForm({ mode, initialData, onSuccess }: EventFormProps) {
                 <TabsList>
                     <TabsTrigger value="details">Event Details</TabsTrigger>
                     <TabsTrigger value="tickets">Ticket Types</TabsTrigger>
+                    <TabsTrigger value="refunds">Refund Policy</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="details" className="space-y-4 pt-4">
@@ -285,6 +366,99 @@ export function EventForm({ mode, initialData, onSuccess }: EventFormProps) {
                                 />
                             </div>
 
+                            {mode === "create" && (
+                                <div className="space-y-4 rounded-md border p-4">
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                        <div className="space-y-2">
+                                            <Label>Repeats</Label>
+                                            <Select
+                                                value={recurrence.frequency}
+                                                onValueChange={(value) =>
+                                                    setRecurrence({ ...recurrence, frequency: value as Recurrence["frequency"] })
+                                                }
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    <SelectItem value="NONE">Does not repeat</SelectItem>
+                                                    <SelectItem value="DAILY">Daily</SelectItem>
+                                                    <SelectItem value="WEEKLY">Weekly</SelectItem>
+                                                    <SelectItem value="MONTHLY">Monthly</SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                        {recurrence.frequency !== "NONE" && (
+                                            <>
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="recurrence-interval">Every</Label>
+                                                    <Input
+                                                        id="recurrence-interval"
+                                                        type="number"
+                                                        min={1}
+                                                        value={recurrence.interval}
+                                                        onChange={(e) =>
+                                                            setRecurrence({ ...recurrence, interval: Number.parseInt(e.target.value) || 1 })
+                                                        }
+                                                    />
+                                                </div>
+                                                <div className="space-y-2">
+                                                    <Label htmlFor="recurrence-count">Occurrences</Label>
+                                                    <Input
+                                                        id="recurrence-count"
+                                                        type="number"
+                                                        min={1}
+                                                        max={MAX_OCCURRENCES}
+                                                        value={recurrence.count}
+                                                        onChange={(e) =>
+                                                            setRecurrence({ ...recurrence, count: Number.parseInt(e.target.value) || 1 })
+                                                        }
+                                                    />
+                                                </div>
+                                            </>
+                                        )}
+                                    </div>
+                                    {recurrence.frequency === "WEEKLY" && (
+                                        <div className="flex flex-wrap gap-2">
+                                            {WEEKDAY_OPTIONS.map((day, index) => (
+                                                <Button
+                                                    key={day}
+                                                    type="button"
+                                                    size="sm"
+                                                    variant={recurrence.byDay.includes(index) ? "default" : "outline"}
+                                                    onClick={() => toggleRecurrenceDay(index)}
+                                                >
+                                                    {day}
+                                                </Button>
+                                            ))}
+                                        </div>
+                                    )}
+                                    <p className="text-sm text-muted-foreground">
+                                        {recurrence.frequency === "NONE"
+                                            ? "Create a series to run the same event on a schedule"
+                                            : "Each occurrence is its own event with a copy of the ticket types below"}
+                                    </p>
+                                </div>
+                            )}
+
+                            {mode === "edit" && initialData?.seriesId && (
+                                <div className="space-y-2 rounded-md border p-4">
+                                    <Label>Apply Changes To</Label>
+                                    <Select value={scope} onValueChange={(value) => setScope(value as "occurrence" | "future")}>
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="occurrence">This occurrence</SelectItem>
+                                            <SelectItem value="future">This and all future occurrences</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                    <p className="text-sm text-muted-foreground">
+                                        Date changes move later occurrences by the same amount
+                                    </p>
+                                </div>
+                            )}
+
                             <FormField
                                 control={form.control}
                                 name="location"
@@ -300,6 +474,49 @@ export function EventForm({ mode, initialData, onSuccess }: EventFormProps) {
                                 )}
                             />
 
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <FormField
+                                    control={form.control}
+                                    name="category"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Category</FormLabel>
+                                            <Select onValueChange={field.onChange} value={field.value}>
+                                                <FormControl>
+                                                    <SelectTrigger>
+                                                        <SelectValue />
+                                                    </SelectTrigger>
+                                                </FormControl>
+                                                <SelectContent>
+                                                    <SelectItem value="none">No category</SelectItem>
+                                                    {Object.entries(EVENT_CATEGORY_LABELS).map(([value, label]) => (
+                                                        <SelectItem key={value} value={value}>
+                                                            {label}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+
+                                <FormField
+                                    control={form.control}
+                                    name="tags"
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel>Tags</FormLabel>
+                                            <FormControl>
+                                                <Input placeholder="jazz, outdoor, family" {...field} value={field.value || ""} />
+                                            </FormControl>
+                                            <FormDescription>Separate tags with commas</FormDescription>
+                                            <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                            </div>
+
                             <FormField
                                 control={form.control}
                                 name="imageUrl"
@@ -379,6 +596,15 @@ export function EventForm({ mode, initialData, onSuccess }: EventFormProps) {
                                                 <p className="text-sm text-muted-foreground">
                                                     Kshs {ticketType.price} - {ticketType.quantity} available
                                                 </p>
+                                                {(ticketType.salesStartDate || ticketType.availableUntil) && (
+                                                    <p className="text-sm text-muted-foreground">
+                                                        On sale{" "}
+                                                        {ticketType.salesStartDate &&
+                                                            `from ${format(new Date(ticketType.salesStartDate), "MMM d, yyyy h:mm a")} `}
+                                                        {ticketType.availableUntil &&
+                                                            `until ${format(new Date(ticketType.availableUntil), "MMM d, yyyy h:mm a")}`}
+                                                    </p>
+                                                )}
                                                 {ticketType.description && (
                                                     <p className="text-sm text-muted-foreground mt-1">{ticketType.description}</p>
                                                 )}
@@ -412,6 +638,91 @@ export function EventForm({ mode, initialData, onSuccess }: EventFormProps) {
                         </Button>
                     </div>
                 </TabsContent>
+
+                <TabsContent value="refunds" className="space-y-4 pt-4">
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Refund Policy</CardTitle>
+                            <CardDescription>
+                                Decide how much attendees get back when they refund their own tickets. Organisers
+                                can always refund a booking from its booking page.
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div className="flex flex-row items-start space-x-3 rounded-md border p-4">
+                                <Checkbox
+                                    id="refunds-enabled"
+                                    checked={refundPolicy.enabled}
+                                    onCheckedChange={(checked) => setRefundPolicy({ ...refundPolicy, enabled: checked === true })}
+                                />
+                                <div className="space-y-1 leading-none">
+                                    <Label htmlFor="refunds-enabled">Allow attendees to request refunds</Label>
+                                    <p className="text-sm text-muted-foreground">
+                                        When unchecked, only organisers and admins can refund bookings
+                                    </p>
+                                </div>
+                            </div>
+
+                            {refundPolicy.enabled && (
+                                <div className="space-y-2">
+                                    {refundPolicy.tiers.map((tier, index) => (
+                                        <div key={index} className="flex items-end gap-2">
+                                            <div className="flex-1 space-y-1">
+                                                <Label>Hours before the event</Label>
+                                                <Input
+                                                    type="number"
+                                                    min={0}
+                                                    value={tier.hoursBeforeStart}
+                                                    onChange={(e) => updateRefundTier(index, "hoursBeforeStart", e.target.value)}
+                                                />
+                                            </div>
+                                            <div className="flex-1 space-y-1">
+                                                <Label>Refund (%)</Label>
+                                                <Input
+                                                    type="number"
+                                                    min={0}
+                                                    max={100}
+                                                    value={tier.percentage}
+                                                    onChange={(e) => updateRefundTier(index, "percentage", e.target.value)}
+                                                />
+                                            </div>
+                                            <Button type="button" variant="ghost" size="icon" onClick={() => removeRefundTier(index)}>
+                                                <Trash className="h-4 w-4" />
+                                            </Button>
+                                        </div>
+                                    ))}
+                                    <p className="text-sm text-muted-foreground">
+                                        Attendees get the highest percentage whose deadline has not passed. With no
+                                        deadlines left, refunds are closed.
+                                    </p>
+                                    <Button type="button" variant="outline" size="sm" onClick={addRefundTier}>
+                                        <Plus className="mr-2 h-4 w-4" />
+                                        Add Deadline
+                                    </Button>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <div className="flex justify-between">
+                        <Button type="button" variant="outline" onClick={() => setActiveTab("tickets")}>
+                            Back to Ticket Types
+                        </Button>
+
+                        <Button type="button" onClick={() => form.handleSubmit(onSubmit)()} disabled={isSubmitting}>
+                            {isSubmitting ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    {mode === "create" ? "Creating..." : "Updating..."}
+                                </>
+                            ) : mode === "create" ? (
+                                "Create Event"
+                            ) : (
+                                "Update Event"
+                            )}
+                        </Button>
+                    </div>
+                </TabsContent>
             </Tabs>
         </div>
     )
@@ -0,0 +1,242 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import * as z from "zod"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import { format } from "date-fns"
+
+export interface EventSession {
+  id: string
+  name: string
+  description: string | null
+  startDate: string
+  endDate: string
+  room: string | null
+  capacity: number | null
+  checkedInCount: number
+}
+
+interface EventSessionModalProps {
+  isOpen: boolean
+  onClose: () => void
+  eventId: string
+  session?: EventSession
+}
+
+const sessionSchema = z
+  .object({
+    name: z.string().min(2, {
+      message: "Session name must be at least 2 characters.",
+    }),
+    description: z.string().optional(),
+    startDate: z.string().min(1, { message: "Start time is required." }),
+    endDate: z.string().min(1, { message: "End time is required." }),
+    room: z.string().optional(),
+    capacity: z.string().optional(),
+  })
+  .refine((data) => new Date(data.endDate) > new Date(data.startDate), {
+    message: "The session must end after it starts.",
+    path: ["endDate"],
+  })
+
+type SessionValues = z.infer<typeof sessionSchema>
+
+// Format a stored date for a datetime-local input, which works in local time
+function toDateTimeInput(date?: string | null) {
+  return date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : ""
+}
+
+function getDefaultValues(session?: EventSession): SessionValues {
+  return {
+    name: session?.name ?? "",
+    description: session?.description ?? "",
+    startDate: toDateTimeInput(session?.startDate),
+    endDate: toDateTimeInput(session?.endDate),
+    room: session?.room ?? "",
+    capacity: session?.capacity?.toString() ?? "",
+  }
+}
+
+export function EventSessionModal({ isOpen, onClose, eventId, session }: EventSessionModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const form = useForm<SessionValues>({
+    resolver: zodResolver(sessionSchema),
+    defaultValues: getDefaultValues(session),
+  })
+
+  // The same modal is reused for every session on the agenda
+  useEffect(() => {
+    if (isOpen) {
+      form.reset(getDefaultValues(session))
+    }
+  }, [isOpen, session, form])
+
+  async function onSubmit(data: SessionValues) {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(
+        session ? `/api/events/${eventId}/sessions/${session.id}` : `/api/events/${eventId}/sessions`,
+        {
+          method: session ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            ...data,
+            // Session times are picked in the organiser's local time
+            startDate: new Date(data.startDate).toISOString(),
+            endDate: new Date(data.endDate).toISOString(),
+          }),
+        },
+      )
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.message || "Failed to save session")
+      }
+
+      toast.success(session ? "Session updated" : "Session created", {
+        description: `${data.name} is on the agenda.`,
+      })
+
+      onClose()
+    } catch (error) {
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to save session",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{session ? "Edit Session" : "Add Session"}</DialogTitle>
+          <DialogDescription>Sessions must take place between the event&apos;s start and end</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Session Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Opening Keynote" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description (Optional)</FormLabel>
+                  <FormControl>
+                    <Textarea className="resize-none" {...field} value={field.value || ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="room"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Room (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Main Hall" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="capacity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Capacity (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" step="1" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty for no limit</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : session ? (
+                  "Save Session"
+                ) : (
+                  "Add Session"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
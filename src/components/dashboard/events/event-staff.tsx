@@ -0,0 +1,206 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useCallback } from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Loader2, Trash, UserPlus } from "lucide-react"
+import { toast } from "sonner"
+import type { StaffRole } from "@prisma/client"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+
+interface StaffMember {
+  id: string
+  role: StaffRole | null
+  user: {
+    id: string
+    name: string | null
+    email: string | null
+  }
+}
+
+interface EventStaffProps {
+  eventId: string
+}
+
+export function EventStaff({ eventId }: EventStaffProps) {
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [email, setEmail] = useState("")
+  const [role, setRole] = useState<StaffRole>("SCANNER")
+  const [isAdding, setIsAdding] = useState(false)
+
+  const fetchStaff = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/events/${eventId}/staff`)
+      if (!response.ok) throw new Error("Failed to fetch staff")
+      const data = await response.json()
+      setStaff(data.staff)
+    } catch (error) {
+      console.error("Error fetching staff:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [eventId])
+
+  useEffect(() => {
+    fetchStaff()
+  }, [fetchStaff])
+
+  const addStaff = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsAdding(true)
+
+    try {
+      const response = await fetch(`/api/events/${eventId}/staff`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email, role }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to add staff member")
+      }
+
+      toast.success("Staff member added", {
+        description: `${data.staff.user.name || data.staff.user.email} can now scan tickets for this event.`,
+      })
+
+      setEmail("")
+      setRole("SCANNER")
+      await fetchStaff()
+    } catch (error) {
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to add staff member",
+      })
+    } finally {
+      setIsAdding(false)
+    }
+  }
+
+  const changeRole = async (staffMember: StaffMember, newRole: StaffRole) => {
+    try {
+      const response = await fetch(`/api/events/${eventId}/staff/${staffMember.id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ role: newRole }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.message || "Failed to update staff member")
+      }
+
+      await fetchStaff()
+    } catch (error) {
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to update staff member",
+      })
+    }
+  }
+
+  const removeStaff = async (staffMember: StaffMember) => {
+    try {
+      const response = await fetch(`/api/events/${eventId}/staff/${staffMember.id}`, {
+        method: "DELETE",
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.message || "Failed to remove staff member")
+      }
+
+      await fetchStaff()
+    } catch (error) {
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to remove staff member",
+      })
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Staff can open the ticket scanner and check attendees in to this event. Supervisors can also undo check-ins.
+        They need an account first.
+      </p>
+
+      <form onSubmit={addStaff} className="flex gap-2">
+        <Input
+          type="email"
+          placeholder="staff@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+        <Select value={role} onValueChange={(value) => setRole(value as StaffRole)}>
+          <SelectTrigger className="w-[160px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="SCANNER">Scanner</SelectItem>
+            <SelectItem value="SUPERVISOR">Supervisor</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={isAdding}>
+          {isAdding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UserPlus className="mr-2 h-4 w-4" />}
+          Add Staff
+        </Button>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : staff.length === 0 ? (
+        <p className="text-muted-foreground">No staff assigned to this event yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {staff.map((staffMember) => (
+              <TableRow key={staffMember.id}>
+                <TableCell className="font-medium">{staffMember.user.name || "—"}</TableCell>
+                <TableCell>{staffMember.user.email}</TableCell>
+                <TableCell>
+                  <Select
+                    value={staffMember.role ?? "SCANNER"}
+                    onValueChange={(value) => changeRole(staffMember, value as StaffRole)}
+                  >
+                    <SelectTrigger className="w-[140px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="SCANNER">Scanner</SelectItem>
+                      <SelectItem value="SUPERVISOR">Supervisor</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="icon" onClick={() => removeStaff(staffMember)}>
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Loader2 } from "lucide-react"
+
+interface WaitlistSummary {
+  id: string
+  name: string
+  remaining: number
+  waiting: number
+  waitingTickets: number
+  offered: number
+  claimed: number
+  expired: number
+}
+
+interface EventWaitlistProps {
+  eventId: string
+}
+
+export function EventWaitlist({ eventId }: EventWaitlistProps) {
+  const [ticketTypes, setTicketTypes] = useState<WaitlistSummary[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchWaitlist = async () => {
+      try {
+        const response = await fetch(`/api/events/${eventId}/waitlist`)
+        if (!response.ok) throw new Error("Failed to fetch waitlist")
+        const data = await response.json()
+        setTicketTypes(data.ticketTypes)
+      } catch (error) {
+        console.error("Error fetching waitlist:", error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchWaitlist()
+  }, [eventId])
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  if (ticketTypes.length === 0) {
+    return <p className="text-muted-foreground">This event has no ticket types yet.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Attendees can join a waitlist once a ticket type sells out. Returned tickets are emailed to them in the order
+        they joined and held until the offer runs out.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Ticket Type</TableHead>
+            <TableHead>Waiting</TableHead>
+            <TableHead>Offered</TableHead>
+            <TableHead>Claimed</TableHead>
+            <TableHead>Expired</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {ticketTypes.map((ticketType) => (
+            <TableRow key={ticketType.id}>
+              <TableCell>
+                <div className="font-medium">{ticketType.name}</div>
+                <Badge variant={ticketType.remaining > 0 ? "outline" : "secondary"} className="mt-1">
+                  {ticketType.remaining > 0 ? `${ticketType.remaining} remaining` : "Sold out"}
+                </Badge>
+              </TableCell>
+              <TableCell>
+                <div className="font-medium">{ticketType.waiting}</div>
+                {ticketType.waiting > 0 && (
+                  <div className="text-xs text-muted-foreground">{ticketType.waitingTickets} tickets wanted</div>
+                )}
+              </TableCell>
+              <TableCell>{ticketType.offered}</TableCell>
+              <TableCell>{ticketType.claimed}</TableCell>
+              <TableCell>{ticketType.expired}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
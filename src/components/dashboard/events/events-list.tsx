@@ -6,10 +6,17 @@ import { format } from "date-fns"
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { Loader2, Calendar, MapPin, Clock, Edit, Trash, Eye, Ticket } from "lucide-react"
+import { Loader2, Calendar, MapPin, Clock, Edit, Trash, Eye, Ticket, Repeat, Copy } from "lucide-react"
 import { EventFormModal } from "@/components/dashboard/events/event-form-modal"
 import { DeleteEventModal } from "@/components/dashboard/events/delete-event-modal"
+import { DuplicateEventModal } from "@/components/dashboard/events/duplicate-event-modal"
 import Image from "next/image"
+import { describeRecurrenceRule } from "@/lib/events/recurrence"
+import { EVENT_CATEGORY_LABELS } from "@/lib/events/categories"
+import type { SearchHighlight } from "@/lib/events/search"
+import { HighlightedText } from "@/components/dashboard/events/highlighted-text"
+import { PaginationControls, type PageInfo } from "@/components/dashboard/pagination-controls"
+import type { EventCategory } from "@prisma/client"
 
 interface Event {
   id: string
@@ -20,6 +27,8 @@ interface Event {
   location: string
   imageUrl: string
   isPublished: boolean
+  category: EventCategory | null
+  tags: string[]
   creator: {
     id: string
     name: string
@@ -30,6 +39,15 @@ interface Event {
     price: number
     remaining: number
   }[]
+  series?: {
+    id: string
+    name: string
+    rule: string
+  } | null
+  seriesDates?: {
+    id: string
+    startDate: string
+  }[] // The series' other listed dates, when the listing groups series
   _count: {
     bookings: number
   }
@@ -40,6 +58,9 @@ interface EventsListProps {
   isLoading: boolean
   emptyMessage?: string
   showManageActions?: boolean
+  highlights?: Record<string, SearchHighlight[]> // Search matches by event id
+  pageInfo?: PageInfo
+  onPageChange?: (page: number) => void
   onEventUpdated?: () => void
 }
 
@@ -48,11 +69,15 @@ export function EventsList({
   isLoading,
   emptyMessage = "No events found",
   showManageActions = false,
+  highlights,
+  pageInfo,
+  onPageChange,
   onEventUpdated,
 }: EventsListProps) {
   const [selectedEventId, setSelectedEventId] = useState<string | null>(null)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
+  const [isDuplicateModalOpen, setIsDuplicateModalOpen] = useState(false)
   const [selectedEvent, setSelectedEvent] = useState<Event | null>(null)
 
   const handleEditEvent = (event: Event) => {
@@ -67,6 +92,16 @@ export function EventsList({
     setIsDeleteModalOpen(true)
   }
 
+  // The name is marked where it matched, and the best other match is shown under it
+  const getNameHighlight = (event: Event) => highlights?.[event.id]?.find(({ field }) => field === "name")
+  const getOtherHighlight = (event: Event) => highlights?.[event.id]?.find(({ field }) => field !== "name")
+
+  const handleDuplicateEvent = (event: Event) => {
+    setSelectedEvent(event)
+    setSelectedEventId(event.id)
+    setIsDuplicateModalOpen(true)
+  }
+
   if (isLoading) {
     return (
       <div className="flex justify-center py-8">
@@ -101,7 +136,10 @@ export function EventsList({
               </div>
             </CardHeader>
             <CardContent className="flex-1 p-4">
-              <CardTitle className="text-xl mb-2 line-clamp-1">{event.name}</CardTitle>
+              <CardTitle className="text-xl mb-2 line-clamp-1">
+                <HighlightedText text={event.name} ranges={getNameHighlight(event)?.ranges ?? []} />
+              </CardTitle>
+              <SearchMatch highlight={getOtherHighlight(event)} />
               <div className="space-y-2 text-sm text-muted-foreground">
                 <div className="flex items-center">
                   <Calendar className="h-4 w-4 mr-2" />
@@ -115,9 +153,34 @@ export function EventsList({
                   <MapPin className="h-4 w-4 mr-2" />
                   <span className="line-clamp-1">{event.location}</span>
                 </div>
+                {event.series && (
+                  <div className="flex items-center">
+                    <Repeat className="h-4 w-4 mr-2" />
+                    <span>{describeRecurrenceRule(event.series.rule)}</span>
+                  </div>
+                )}
               </div>
+              {event.seriesDates && event.seriesDates.length > 0 && (
+                <div className="mt-3 text-sm">
+                  <span className="text-muted-foreground">More dates: </span>
+                  {event.seriesDates
+                    .slice(0, 3)
+                    .map((occurrence, index) => (
+                      <span key={occurrence.id}>
+                        {index > 0 && ", "}
+                        <Link href={`/dashboard/events/${occurrence.id}`} className="hover:underline">
+                          {format(new Date(occurrence.startDate), "MMM d")}
+                        </Link>
+                      </span>
+                    ))}
+                  {event.seriesDates.length > 3 && (
+                    <span className="text-muted-foreground"> and {event.seriesDates.length - 3} more</span>
+                  )}
+                </div>
+              )}
               <div className="mt-4">
                 <div className="flex flex-wrap gap-2">
+                  {event.category && <Badge variant="secondary">{EVENT_CATEGORY_LABELS[event.category]}</Badge>}
                   {event.ticketTypes.map((type) => (
                     <Badge key={type.id} variant="outline">
                       {type.name}: Kshs {type.price}
@@ -141,6 +204,11 @@ export function EventsList({
                     Edit
                   </Button>
 
+                  <Button variant="outline" size="sm" className="flex-1" onClick={() => handleDuplicateEvent(event)}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Duplicate
+                  </Button>
+
                   <Button variant="outline" size="sm" className="flex-1" onClick={() => handleDeleteEvent(event)}>
                     <Trash className="h-4 w-4 mr-2" />
                     Delete
@@ -159,8 +227,10 @@ export function EventsList({
         ))}
       </div>
 
+      {pageInfo && onPageChange && <PaginationControls {...pageInfo} onPageChange={onPageChange} />}
+
       {/* Edit Event Modal */}
-      {selectedEvent && (
+      {selectedEventId && (
         <EventFormModal
           isOpen={isEditModalOpen}
           onClose={() => {
@@ -174,6 +244,27 @@ export function EventsList({
         />
       )}
 
+      {/* Duplicate Event Modal, the copy opens in the edit form */}
+      {selectedEvent && (
+        <DuplicateEventModal
+          isOpen={isDuplicateModalOpen}
+          onClose={() => {
+            setIsDuplicateModalOpen(false)
+            setSelectedEventId(null)
+            setSelectedEvent(null)
+          }}
+          eventId={selectedEvent.id}
+          eventName={selectedEvent.name}
+          startDate={selectedEvent.startDate}
+          onDuplicated={(copyId) => {
+            setIsDuplicateModalOpen(false)
+            setSelectedEvent(null)
+            setSelectedEventId(copyId)
+            setIsEditModalOpen(true)
+          }}
+        />
+      )}
+
       {/* Delete Event Modal */}
       {selectedEvent && (
         <DeleteEventModal
@@ -193,3 +284,15 @@ export function EventsList({
   )
 }
 
+function SearchMatch({ highlight }: { highlight?: SearchHighlight }) {
+  if (!highlight) {
+    return null
+  }
+
+  return (
+    <p className="mb-2 text-sm text-muted-foreground line-clamp-2">
+      {highlight.field === "tags" && "Tags: "}
+      <HighlightedText text={highlight.text} ranges={highlight.ranges} />
+    </p>
+  )
+}
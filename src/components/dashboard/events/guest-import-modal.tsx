@@ -0,0 +1,262 @@
+"use client"
+
+import { useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { toast } from "sonner"
+import type { GuestRow } from "@/lib/bookings/guest-list"
+
+interface GuestImportModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onIssued: () => void
+  eventId: string
+  ticketTypes: {
+    id: string
+    name: string
+  }[]
+}
+
+const ROW_BADGE_VARIANTS: Record<GuestRow["status"], "default" | "secondary" | "destructive"> = {
+  READY: "secondary",
+  ISSUED: "default",
+  ERROR: "destructive",
+}
+
+const emptyGuest = { name: "", email: "", phone: "", quantity: "1" }
+
+export function GuestImportModal({ isOpen, onClose, onIssued, eventId, ticketTypes }: GuestImportModalProps) {
+  const [ticketTypeId, setTicketTypeId] = useState("")
+  const [source, setSource] = useState("single")
+  const [guest, setGuest] = useState(emptyGuest)
+  const [csv, setCsv] = useState<{ fileName: string; text: string } | null>(null)
+  const [rows, setRows] = useState<GuestRow[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const reset = () => {
+    setGuest(emptyGuest)
+    setCsv(null)
+    setRows([])
+  }
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  const handleFile = async (file?: File) => {
+    setRows([])
+    setCsv(file ? { fileName: file.name, text: await file.text() } : null)
+  }
+
+  async function submit(dryRun: boolean) {
+    if (!ticketTypeId) {
+      toast.error("Choose a ticket type")
+      return
+    }
+
+    if (source === "csv" && !csv) {
+      toast.error("Choose a CSV file")
+      return
+    }
+
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/events/${eventId}/guests`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ticketTypeId,
+          dryRun,
+          ...(source === "csv" ? { csv: csv?.text } : { guests: [guest] }),
+        }),
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to add guests")
+      }
+
+      setRows(data.rows)
+
+      if (dryRun) {
+        toast(data.message)
+        return
+      }
+
+      if (data.summary.issued > 0) {
+        toast.success(data.message)
+        onIssued()
+      }
+
+      // Keep the results open when some guests couldn't be issued, so the organiser can see why
+      if (data.summary.failed === 0) {
+        handleClose()
+      }
+    } catch (error) {
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to add guests",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add Guests</DialogTitle>
+          <DialogDescription>
+            Issue complimentary tickets. Each guest is emailed their tickets, and nothing is charged.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Ticket Type</Label>
+            <Select
+              value={ticketTypeId}
+              onValueChange={(value) => {
+                setTicketTypeId(value)
+                setRows([])
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a ticket type" />
+              </SelectTrigger>
+              <SelectContent>
+                {ticketTypes.map((ticketType) => (
+                  <SelectItem key={ticketType.id} value={ticketType.id}>
+                    {ticketType.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Tabs
+            value={source}
+            onValueChange={(value) => {
+              setSource(value)
+              setRows([])
+            }}
+          >
+            <TabsList>
+              <TabsTrigger value="single">One Guest</TabsTrigger>
+              <TabsTrigger value="csv">Upload CSV</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="single" className="space-y-4 pt-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="guest-name">Name</Label>
+                  <Input
+                    id="guest-name"
+                    value={guest.name}
+                    onChange={(e) => setGuest({ ...guest, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guest-email">Email</Label>
+                  <Input
+                    id="guest-email"
+                    type="email"
+                    value={guest.email}
+                    onChange={(e) => setGuest({ ...guest, email: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guest-phone">Phone (optional)</Label>
+                  <Input
+                    id="guest-phone"
+                    value={guest.phone}
+                    onChange={(e) => setGuest({ ...guest, phone: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guest-quantity">Tickets</Label>
+                  <Input
+                    id="guest-quantity"
+                    type="number"
+                    min="1"
+                    value={guest.quantity}
+                    onChange={(e) => setGuest({ ...guest, quantity: e.target.value })}
+                  />
+                </div>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="csv" className="space-y-2 pt-4">
+              <Input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+              <p className="text-sm text-muted-foreground">
+                The first row must be a header with name and email columns. Phone and quantity columns are optional,
+                and guests get one ticket when quantity is left out.
+              </p>
+            </TabsContent>
+          </Tabs>
+
+          {rows.length > 0 && (
+            <div className="rounded-md border max-h-[300px] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Guest</TableHead>
+                    <TableHead>Tickets</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.name || "-"}</div>
+                        <div className="text-sm text-muted-foreground">{row.email}</div>
+                      </TableCell>
+                      <TableCell>{row.quantity}</TableCell>
+                      <TableCell>
+                        <Badge variant={ROW_BADGE_VARIANTS[row.status]}>{row.status}</Badge>
+                        {row.error && <div className="text-xs text-destructive mt-1">{row.error}</div>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button type="button" variant="outline" disabled={isSubmitting} onClick={() => submit(true)}>
+              Validate
+            </Button>
+            <Button type="button" disabled={isSubmitting} onClick={() => submit(false)}>
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Issue Tickets"
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
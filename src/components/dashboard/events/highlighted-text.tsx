@@ -0,0 +1,29 @@
+import type React from "react"
+import type { SearchHighlight } from "@/lib/events/search"
+
+interface HighlightedTextProps {
+  text: string
+  ranges: SearchHighlight["ranges"]
+}
+
+// Text with the parts a search matched marked
+export function HighlightedText({ text, ranges }: HighlightedTextProps) {
+  const parts: React.ReactNode[] = []
+  let position = 0
+
+  for (const [start, end] of ranges) {
+    if (start > position) {
+      parts.push(text.slice(position, start))
+    }
+    parts.push(
+      <mark key={start} className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-800">
+        {text.slice(start, end)}
+      </mark>,
+    )
+    position = end
+  }
+
+  parts.push(text.slice(position))
+
+  return <>{parts}</>
+}
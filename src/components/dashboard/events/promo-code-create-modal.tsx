@@ -0,0 +1,275 @@
+"use client"
+
+import { useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Loader2 } from "lucide-react"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useForm } from "react-hook-form"
+import * as z from "zod"
+import { Button } from "@/components/ui/button"
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+
+interface PromoCodeCreateModalProps {
+  isOpen: boolean
+  onClose: () => void
+  eventId: string
+  ticketTypes: {
+    id: string
+    name: string
+  }[]
+}
+
+const promoCodeSchema = z
+  .object({
+    code: z.string().regex(/^[A-Za-z0-9_-]{3,32}$/, {
+      message: "Use 3 to 32 letters, numbers, dashes or underscores.",
+    }),
+    discountType: z.enum(["PERCENTAGE", "FIXED"]),
+    discountValue: z.coerce.number().positive({
+      message: "Discount must be greater than zero.",
+    }),
+    maxUses: z.string().optional(),
+    maxUsesPerUser: z.string().optional(),
+    validFrom: z.string().optional(),
+    validUntil: z.string().optional(),
+    ticketTypeIds: z.array(z.string()),
+  })
+  .refine((data) => data.discountType !== "PERCENTAGE" || data.discountValue <= 100, {
+    message: "A percentage discount can be at most 100.",
+    path: ["discountValue"],
+  })
+
+type PromoCodeValues = z.infer<typeof promoCodeSchema>
+
+export function PromoCodeCreateModal({ isOpen, onClose, eventId, ticketTypes }: PromoCodeCreateModalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const form = useForm<PromoCodeValues>({
+    resolver: zodResolver(promoCodeSchema),
+    defaultValues: {
+      code: "",
+      discountType: "PERCENTAGE",
+      discountValue: 10,
+      maxUses: "",
+      maxUsesPerUser: "",
+      validFrom: "",
+      validUntil: "",
+      ticketTypeIds: [],
+    },
+  })
+
+  async function onSubmit(data: PromoCodeValues) {
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(`/api/events/${eventId}/promo-codes`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          ...data,
+          validFrom: data.validFrom ? new Date(data.validFrom).toISOString() : null,
+          validUntil: data.validUntil ? new Date(data.validUntil).toISOString() : null,
+        }),
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.message || "Failed to create promo code")
+      }
+
+      toast.success("Promo code created", {
+        description: `${data.code.toUpperCase()} can now be used at checkout.`,
+      })
+
+      form.reset()
+      onClose()
+    } catch (error) {
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to create promo code",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Add Promo Code</DialogTitle>
+          <DialogDescription>Create a discount code for this event</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Code</FormLabel>
+                  <FormControl>
+                    <Input placeholder="EARLYBIRD" {...field} />
+                  </FormControl>
+                  <FormDescription>Attendees enter this at checkout, it is not case sensitive</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="discountType"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Discount Type</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="PERCENTAGE">Percentage</SelectItem>
+                        <SelectItem value="FIXED">Fixed amount</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="discountValue"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{form.watch("discountType") === "PERCENTAGE" ? "Discount (%)" : "Discount (Kshs)"}</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="maxUses"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Total Uses (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" step="1" placeholder="Unlimited" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxUsesPerUser"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Uses per Attendee (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="1" step="1" placeholder="Unlimited" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="validFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid From (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="validUntil"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Valid Until (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="ticketTypeIds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Ticket Types</FormLabel>
+                  <FormDescription>Leave all unchecked to apply the code to every ticket type</FormDescription>
+                  <div className="space-y-2">
+                    {ticketTypes.map((ticketType) => (
+                      <div key={ticketType.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`promo-${ticketType.id}`}
+                          checked={field.value.includes(ticketType.id)}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked
+                                ? [...field.value, ticketType.id]
+                                : field.value.filter((id) => id !== ticketType.id),
+                            )
+                          }
+                        />
+                        <label htmlFor={`promo-${ticketType.id}`} className="text-sm">
+                          {ticketType.name}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSubmitting}>
+                {isSubmitting ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Creating...
+                  </>
+                ) : (
+                  "Create Promo Code"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
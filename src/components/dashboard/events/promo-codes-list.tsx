@@ -0,0 +1,175 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { format } from "date-fns"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, Plus, Trash } from "lucide-react"
+import { toast } from "sonner"
+import { PromoCodeCreateModal } from "@/components/dashboard/events/promo-code-create-modal"
+
+interface PromoCode {
+  id: string
+  code: string
+  discountType: "PERCENTAGE" | "FIXED"
+  discountValue: number
+  ticketTypeIds: string[]
+  maxUses: number | null
+  usedCount: number
+  maxUsesPerUser: number | null
+  validFrom: string | null
+  validUntil: string | null
+  isActive: boolean
+}
+
+interface PromoCodesListProps {
+  eventId: string
+  ticketTypes: {
+    id: string
+    name: string
+  }[]
+}
+
+export function PromoCodesList({ eventId, ticketTypes }: PromoCodesListProps) {
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
+
+  const fetchPromoCodes = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/events/${eventId}/promo-codes`)
+      if (!response.ok) throw new Error("Failed to fetch promo codes")
+      const data = await response.json()
+      setPromoCodes(data.promoCodes)
+    } catch (error) {
+      console.error("Error fetching promo codes:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [eventId])
+
+  useEffect(() => {
+    fetchPromoCodes()
+  }, [fetchPromoCodes])
+
+  const updatePromoCode = async (promoCode: PromoCode, method: "PUT" | "DELETE") => {
+    try {
+      const response = await fetch(`/api/events/${eventId}/promo-codes/${promoCode.id}`, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: method === "PUT" ? JSON.stringify({ ...promoCode, isActive: !promoCode.isActive }) : undefined,
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.message || "Failed to update promo code")
+      }
+
+      await fetchPromoCodes()
+    } catch (error) {
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to update promo code",
+      })
+    }
+  }
+
+  const describeTicketTypes = (ids: string[]) =>
+    ids.length === 0
+      ? "All tickets"
+      : ticketTypes
+          .filter((ticketType) => ids.includes(ticketType.id))
+          .map((ticketType) => ticketType.name)
+          .join(", ")
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button onClick={() => setIsCreateModalOpen(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Add Promo Code
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : promoCodes.length === 0 ? (
+        <p className="text-muted-foreground">No promo codes for this event yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Code</TableHead>
+              <TableHead>Discount</TableHead>
+              <TableHead>Uses</TableHead>
+              <TableHead>Valid</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {promoCodes.map((promoCode) => (
+              <TableRow key={promoCode.id}>
+                <TableCell>
+                  <div className="font-medium">{promoCode.code}</div>
+                  <div className="text-xs text-muted-foreground">{describeTicketTypes(promoCode.ticketTypeIds)}</div>
+                </TableCell>
+                <TableCell>
+                  {promoCode.discountType === "PERCENTAGE"
+                    ? `${promoCode.discountValue}%`
+                    : `Kshs ${promoCode.discountValue.toFixed(2)}`}
+                </TableCell>
+                <TableCell>
+                  {promoCode.usedCount}
+                  {promoCode.maxUses !== null && ` / ${promoCode.maxUses}`}
+                  {promoCode.maxUsesPerUser !== null && (
+                    <div className="text-xs text-muted-foreground">{promoCode.maxUsesPerUser} per attendee</div>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {promoCode.validFrom || promoCode.validUntil ? (
+                    <>
+                      {promoCode.validFrom ? format(new Date(promoCode.validFrom), "MMM d, yyyy") : "Now"} –{" "}
+                      {promoCode.validUntil ? format(new Date(promoCode.validUntil), "MMM d, yyyy") : "No end"}
+                    </>
+                  ) : (
+                    "Always"
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={promoCode.isActive ? "default" : "secondary"}>
+                    {promoCode.isActive ? "Active" : "Disabled"}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" size="sm" onClick={() => updatePromoCode(promoCode, "PUT")}>
+                      {promoCode.isActive ? "Disable" : "Enable"}
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => updatePromoCode(promoCode, "DELETE")}>
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <PromoCodeCreateModal
+        isOpen={isCreateModalOpen}
+        onClose={() => {
+          setIsCreateModalOpen(false)
+          fetchPromoCodes()
+        }}
+        eventId={eventId}
+        ticketTypes={ticketTypes}
+      />
+    </div>
+  )
+}
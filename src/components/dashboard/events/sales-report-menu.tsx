@@ -0,0 +1,44 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { BarChart3, FileSpreadsheet, FileText, Sheet } from "lucide-react"
+
+const REPORT_FORMATS = [
+  { format: "csv", label: "CSV", icon: Sheet },
+  { format: "xlsx", label: "Excel (XLSX)", icon: FileSpreadsheet },
+  { format: "pdf", label: "PDF", icon: FileText },
+] as const
+
+// Download an event's sales report, for its creator and admins
+export function SalesReportMenu({ eventId }: { eventId: string }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <BarChart3 className="mr-2 h-4 w-4" />
+          Sales Report
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Download as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {REPORT_FORMATS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem key={format} asChild>
+            <a href={`/api/events/${eventId}/reports/sales?format=${format}`} download>
+              <Icon className="mr-2 h-4 w-4" />
+              {label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
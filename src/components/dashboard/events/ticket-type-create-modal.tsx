@@ -11,12 +11,23 @@ import { Button } from "@/components/ui/button"
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { toast } from "sonner"
+import { ENTRY_POLICY_LABELS } from "@/lib/bookings/entry-policy"
 
 interface TicketTypeCreateModalProps {
   isOpen: boolean
   onClose: () => void
   eventId: string
+  ticketTypes: {
+    id: string
+    name: string
+  }[]
+  sessions: {
+    id: string
+    name: string
+  }[]
 }
 
 const ticketTypeSchema = z.object({
@@ -30,13 +41,25 @@ const ticketTypeSchema = z.object({
   quantity: z.coerce.number().int().min(1, {
     message: "Quantity must be at least 1.",
   }),
+  salesStartDate: z.string().optional(),
+  availableUntil: z.string().optional(),
+  rolloverToId: z.string().optional(),
+  entryPolicy: z.enum(["SINGLE", "REENTRY", "DAILY"]),
+  sessionIds: z.array(z.string()),
 })
 
 type TicketTypeValues = z.infer<typeof ticketTypeSchema>
 
-export function TicketTypeCreateModal({ isOpen, onClose, eventId }: TicketTypeCreateModalProps) {
+export function TicketTypeCreateModal({
+  isOpen,
+  onClose,
+  eventId,
+  ticketTypes,
+  sessions,
+}: TicketTypeCreateModalProps) {
   const router = useRouter()
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const rolloverOptions = ticketTypes
 
   const form = useForm<TicketTypeValues>({
     resolver: zodResolver(ticketTypeSchema),
@@ -45,6 +68,11 @@ export function TicketTypeCreateModal({ isOpen, onClose, eventId }: TicketTypeCr
       description: "",
       price: 0,
       quantity: 1,
+      salesStartDate: "",
+      availableUntil: "",
+      rolloverToId: "none",
+      entryPolicy: "SINGLE",
+      sessionIds: [],
     },
   })
 
@@ -56,7 +84,13 @@ export function TicketTypeCreateModal({ isOpen, onClose, eventId }: TicketTypeCr
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({
+          ...data,
+          // Sales dates are picked in the organiser's local time
+          salesStartDate: data.salesStartDate ? new Date(data.salesStartDate).toISOString() : null,
+          availableUntil: data.availableUntil ? new Date(data.availableUntil).toISOString() : null,
+          rolloverToId: data.rolloverToId === "none" ? null : data.rolloverToId,
+        }),
       })
 
       if (!response.ok) {
@@ -82,7 +116,7 @@ export function TicketTypeCreateModal({ isOpen, onClose, eventId }: TicketTypeCr
 
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Add Ticket Type</DialogTitle>
           <DialogDescription>Create a new ticket type for this event</DialogDescription>
@@ -154,6 +188,127 @@ export function TicketTypeCreateModal({ isOpen, onClose, eventId }: TicketTypeCr
               />
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="salesStartDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sales Start (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="availableUntil"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sales End (Optional)</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="entryPolicy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Entry</FormLabel>
+                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {Object.entries(ENTRY_POLICY_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>How many times a ticket lets its holder in</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {sessions.length > 0 && (
+              <FormField
+                control={form.control}
+                name="sessionIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sessions</FormLabel>
+                    <FormDescription>Leave all unchecked to include every session</FormDescription>
+                    <div className="space-y-2">
+                      {sessions.map((eventSession) => (
+                        <div key={eventSession.id} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`session-${eventSession.id}`}
+                            checked={field.value.includes(eventSession.id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...field.value, eventSession.id]
+                                  : field.value.filter((id) => id !== eventSession.id),
+                              )
+                            }
+                          />
+                          <label htmlFor={`session-${eventSession.id}`} className="text-sm">
+                            {eventSession.name}
+                          </label>
+                        </div>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {rolloverOptions.length > 0 && (
+              <FormField
+                control={form.control}
+                name="rolloverToId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Early Bird Rollover (Optional)</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="none">Not an early bird</SelectItem>
+                        {rolloverOptions.map((option) => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {option.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      The chosen ticket type goes on sale once this one sells out or its sales end
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <div className="flex justify-end space-x-2 pt-4">
               <Button type="button" variant="outline" onClick={onClose}>
                 Cancel
@@ -21,6 +21,8 @@ const ticketTypeSchema = z.object({
   quantity: z.coerce.number().int().min(1, {
     message: "Quantity must be at least 1.",
   }),
+  salesStartDate: z.string().optional(),
+  availableUntil: z.string().optional(),
 })
 
 type TicketTypeValues = z.infer<typeof ticketTypeSchema>
@@ -40,16 +42,25 @@ export function TicketTypeForm({ onAdd, initialValues }: TicketTypeFormProps) {
       description: "",
       price: 0,
       quantity: 1,
+      salesStartDate: "",
+      availableUntil: "",
     },
   })
 
   function onSubmit(data: TicketTypeValues) {
-    onAdd(data)
+    // Sales dates are picked in the organiser's local time
+    onAdd({
+      ...data,
+      salesStartDate: data.salesStartDate ? new Date(data.salesStartDate).toISOString() : undefined,
+      availableUntil: data.availableUntil ? new Date(data.availableUntil).toISOString() : undefined,
+    })
     form.reset({
       name: "",
       description: "",
       price: 0,
       quantity: 1,
+      salesStartDate: "",
+      availableUntil: "",
     })
     setIsAdding(false)
   }
@@ -122,6 +133,37 @@ export function TicketTypeForm({ onAdd, initialValues }: TicketTypeFormProps) {
             />
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="salesStartDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sales Start (Optional)</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="availableUntil"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sales End (Optional)</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" {...field} />
+                  </FormControl>
+                  <FormDescription>Leave empty to sell until the event</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
           <Button type="submit" disabled={isAdding} className="w-full">
             <Plus className="mr-2 h-4 w-4" />
             Add Ticket Type
@@ -0,0 +1,47 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+
+// The paging details list endpoints return alongside their records
+export interface PageInfo {
+  page: number
+  pageSize: number
+  totalCount: number
+}
+
+interface PaginationControlsProps extends PageInfo {
+  onPageChange: (page: number) => void
+}
+
+export function PaginationControls({ page, pageSize, totalCount, onPageChange }: PaginationControlsProps) {
+  const pageCount = Math.max(1, Math.ceil(totalCount / pageSize))
+
+  if (totalCount <= pageSize && page === 1) {
+    return null
+  }
+
+  const first = Math.min((page - 1) * pageSize + 1, totalCount)
+  const last = Math.min(page * pageSize, totalCount)
+
+  return (
+    <div className="flex items-center justify-between gap-4 pt-4">
+      <p className="text-sm text-muted-foreground">
+        Showing {first}-{last} of {totalCount}
+      </p>
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={page <= 1}>
+          <ChevronLeft className="mr-1 h-4 w-4" />
+          Previous
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          Page {page} of {pageCount}
+        </span>
+        <Button variant="outline" size="sm" onClick={() => onPageChange(page + 1)} disabled={page >= pageCount}>
+          Next
+          <ChevronRight className="ml-1 h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
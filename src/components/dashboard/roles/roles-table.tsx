@@ -9,6 +9,7 @@ import { PermissionGate } from "@/components/auth/permission-gate"
 import Link from "next/link"
 import { EditRoleModal } from "@/components/dashboard/roles/edit-role-modal"
 import { useRouter } from "next/navigation"
+import { MAX_PAGE_SIZE } from "@/lib/pagination"
 
 interface Role {
   id: string
@@ -38,7 +39,7 @@ export function RolesTable() {
 
   async function fetchRoles() {
     try {
-      const response = await fetch("/api/roles")
+      const response = await fetch(`/api/roles?pageSize=${MAX_PAGE_SIZE}`)
       if (!response.ok) throw new Error("Failed to fetch roles")
       const data = await response.json()
       setRoles(data.roles)
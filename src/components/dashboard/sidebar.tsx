@@ -4,7 +4,7 @@ import type React from "react"
 
 import Link from "next/link"
 import { usePathname } from "next/navigation"
-import { BarChart3, Calendar, LayoutDashboard, ShieldCheck, Ticket, UserCheck, Users } from "lucide-react"
+import { BarChart3, Calendar, ClipboardList, LayoutDashboard, ShieldCheck, Ticket, UserCheck, Users } from "lucide-react"
 import { Sidebar, SidebarContent, SidebarMenu, SidebarMenuButton, SidebarMenuItem } from "@/components/ui/sidebar"
 
 // Import the custom components
@@ -76,6 +76,12 @@ export function DashboardSidebar({ user }: Props) {
       icon: Users,
       permission: "attendees:read",
     },
+    {
+      title: "Bookings",
+      href: "/dashboard/bookings/manage",
+      icon: ClipboardList,
+      permission: "bookings:manage",
+    },
     {
       title: "Roles & Permissions",
       href: "/dashboard/permissions",
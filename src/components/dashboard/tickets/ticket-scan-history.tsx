@@ -0,0 +1,196 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { format } from "date-fns"
+import type { ScanResult } from "@prisma/client"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Loader2, Search, Undo2 } from "lucide-react"
+import { toast } from "sonner"
+import { SCAN_RESULT_LABELS, getScanResultVariant } from "@/lib/bookings/scan-results"
+
+interface Scan {
+  id: string
+  result: ScanResult
+  deviceId: string | null
+  createdAt: string
+  event: {
+    name: string
+  }
+  session: {
+    name: string
+  } | null
+  operator: {
+    name: string | null
+    email: string | null
+  }
+}
+
+interface TicketScanHistoryProps {
+  ticketId: string
+  canUndoCheckIn: boolean
+}
+
+export function TicketScanHistory({ ticketId, canUndoCheckIn }: TicketScanHistoryProps) {
+  const [scans, setScans] = useState<Scan[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState("")
+  const [isUndoing, setIsUndoing] = useState(false)
+
+  const fetchScans = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}/scans`)
+      if (!response.ok) throw new Error("Failed to fetch scans")
+      const data = await response.json()
+      setScans(data.scans)
+    } catch (error) {
+      console.error("Error fetching scans:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [ticketId])
+
+  useEffect(() => {
+    fetchScans()
+  }, [fetchScans])
+
+  const undoCheckIn = async () => {
+    setIsUndoing(true)
+
+    try {
+      const response = await fetch(`/api/tickets/${ticketId}/undo-check-in`, {
+        method: "POST",
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to undo check-in")
+      }
+
+      toast.success("Check-in undone", {
+        description: "The ticket can be scanned in again.",
+      })
+
+      await fetchScans()
+    } catch (error) {
+      toast.error("Error", {
+        description: error instanceof Error ? error.message : "Failed to undo check-in",
+      })
+    } finally {
+      setIsUndoing(false)
+    }
+  }
+
+  const query = search.trim().toLowerCase()
+  const filteredScans = scans.filter((scan) =>
+    [
+      SCAN_RESULT_LABELS[scan.result],
+      scan.session?.name,
+      scan.operator.name,
+      scan.operator.email,
+      scan.deviceId,
+      format(new Date(scan.createdAt), "MMM d, yyyy h:mm:ss a"),
+    ].some((value) => value?.toLowerCase().includes(query)),
+  )
+
+  return (
+    <Card className="mt-6 print:hidden">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Scan History</CardTitle>
+          <CardDescription>Every time this ticket was scanned, whether or not it was let in</CardDescription>
+        </div>
+        {canUndoCheckIn && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isUndoing}>
+                {isUndoing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Undo2 className="mr-2 h-4 w-4" />}
+                Undo Check-in
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Undo Check-in</AlertDialogTitle>
+                <AlertDialogDescription>
+                  The ticket&apos;s latest check-in will be removed so it can be scanned in again. The undo is kept in
+                  the scan history.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={undoCheckIn}>Undo Check-in</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by result, session, operator, device or time"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : filteredScans.length === 0 ? (
+          <p className="text-muted-foreground">
+            {scans.length === 0 ? "This ticket hasn't been scanned yet." : "No scans match your search."}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Result</TableHead>
+                <TableHead>Session</TableHead>
+                <TableHead>Operator</TableHead>
+                <TableHead>Device</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredScans.map((scan) => (
+                <TableRow key={scan.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {format(new Date(scan.createdAt), "MMM d, yyyy h:mm:ss a")}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={getScanResultVariant(scan.result)}>
+                      {SCAN_RESULT_LABELS[scan.result]}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{scan.session?.name ?? "Event entrance"}</TableCell>
+                  <TableCell>{scan.operator.name || scan.operator.email}</TableCell>
+                  <TableCell className="font-mono text-xs" title={scan.deviceId ?? undefined}>
+                    {scan.deviceId ? scan.deviceId.slice(0, 8) : "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -24,6 +24,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { useSession } from "next-auth/react"
 import { toast } from "sonner"
+import { MAX_PAGE_SIZE } from "@/lib/pagination"
 
 const userFormSchema = z.object({
   name: z
@@ -75,7 +76,7 @@ export function EditUserForm({ userId, onSuccess }: EditUserFormProps) {
   useEffect(() => {
     async function fetchRoles() {
       try {
-        const response = await fetch("/api/roles")
+        const response = await fetch(`/api/roles?pageSize=${MAX_PAGE_SIZE}`)
         if (!response.ok) throw new Error("Failed to fetch roles")
         const data = await response.json()
         setRoles(data.roles)
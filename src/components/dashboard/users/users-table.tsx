@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Button } from "@/components/ui/button"
 import { Loader2, Pencil, Search } from "lucide-react"
@@ -8,6 +8,8 @@ import { PermissionGate } from "@/components/auth/permission-gate"
 import { Badge } from "@/components/ui/badge"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PaginationControls, type PageInfo } from "@/components/dashboard/pagination-controls"
 import { formatDistanceToNow } from "date-fns"
 import { EditUserModal } from "@/components/dashboard/users/edit-user-modal"
 import { useRouter } from "next/navigation"
@@ -28,35 +30,45 @@ export function UsersTable() {
   const [users, setUsers] = useState<User[]>([])
   const [loading, setLoading] = useState(true)
   const [searchQuery, setSearchQuery] = useState("")
+  const [search, setSearch] = useState("")
+  const [page, setPage] = useState(1)
+  const [pageInfo, setPageInfo] = useState<PageInfo>()
+  const [sort, setSort] = useState("createdAt:desc")
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const router = useRouter()
 
+  // Wait for a pause in typing before searching
   useEffect(() => {
-    fetchUsers()
-  }, [])
+    const timeout = setTimeout(() => {
+      setSearch(searchQuery.trim())
+      setPage(1)
+    }, 300)
+
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
 
-  async function fetchUsers() {
+  const fetchUsers = useCallback(async () => {
     try {
-      const response = await fetch("/api/users")
+      const [sortField, order] = sort.split(":")
+      const params = new URLSearchParams({ page: String(page), sort: sortField, order })
+      if (search) params.set("search", search)
+
+      const response = await fetch(`/api/users?${params}`)
       if (!response.ok) throw new Error("Failed to fetch users")
       const data = await response.json()
       setUsers(data.users)
+      setPageInfo({ page: data.page, pageSize: data.pageSize, totalCount: data.totalCount })
     } catch (error) {
       console.error("Error fetching users:", error)
     } finally {
       setLoading(false)
     }
-  }
+  }, [page, search, sort])
 
-  const filteredUsers = searchQuery
-    ? users.filter(
-        (user) =>
-          user.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          user.email?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-          user.role?.name.toLowerCase().includes(searchQuery.toLowerCase()),
-      )
-    : users
+  useEffect(() => {
+    fetchUsers()
+  }, [fetchUsers])
 
   const handleEditUser = (id: string) => {
     setSelectedUserId(id)
@@ -90,6 +102,23 @@ export function UsersTable() {
             onChange={(e) => setSearchQuery(e.target.value)}
           />
         </div>
+        <Select
+          value={sort}
+          onValueChange={(value) => {
+            setSort(value)
+            setPage(1)
+          }}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Sort by" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="createdAt:desc">Newest first</SelectItem>
+            <SelectItem value="createdAt:asc">Oldest first</SelectItem>
+            <SelectItem value="name:asc">Name, A to Z</SelectItem>
+            <SelectItem value="email:asc">Email, A to Z</SelectItem>
+          </SelectContent>
+        </Select>
       </div>
 
       <div className="rounded-md border">
@@ -104,14 +133,14 @@ export function UsersTable() {
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredUsers.length === 0 ? (
+            {users.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={5} className="text-center h-24 text-muted-foreground">
-                  {searchQuery ? "No users found matching your search" : "No users found"}
+                  {search ? "No users found matching your search" : "No users found"}
                 </TableCell>
               </TableRow>
             ) : (
-              filteredUsers.map((user) => (
+              users.map((user) => (
                 <TableRow key={user.id}>
                   <TableCell>
                     <div className="flex items-center gap-3">
@@ -162,6 +191,8 @@ export function UsersTable() {
         </Table>
       </div>
 
+      {pageInfo && <PaginationControls {...pageInfo} onPageChange={setPage} />}
+
       {selectedUserId && <EditUserModal isOpen={isEditModalOpen} onClose={handleModalClose} userId={selectedUserId} />}
     </div>
   )
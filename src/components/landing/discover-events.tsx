@@ -1,12 +1,21 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
 import Image from "next/image"
 import { format } from "date-fns"
 import { Button } from "@/components/ui/button"
 import { Calendar, MapPin, ArrowRight, Loader2 } from "lucide-react"
 import { toast } from "sonner"
+import { getSalesStatus, SALES_STATUS_LABELS } from "@/lib/bookings/sales-window"
+import { EventFilterBar } from "@/components/dashboard/events/event-filter-bar"
+import { toEventFilterParams, type EventFacets } from "@/lib/events/event-filters"
+import { EVENT_CATEGORY_LABELS } from "@/lib/events/categories"
+import type { EventFilters } from "@/types/event"
+import type { SearchHighlight } from "@/lib/events/search"
+import { HighlightedText } from "@/components/dashboard/events/highlighted-text"
+import type { EventCategory } from "@prisma/client"
 
 interface Event {
   id: string
@@ -15,24 +24,67 @@ interface Event {
   startDate: string
   location: string
   imageUrl: string | null
+  category: EventCategory | null
   ticketTypes: {
     id: string
     name: string
     price: number
+    remaining: number
+    salesStartDate: string | null
+    availableUntil: string | null
+    rolloverToId: string | null
   }[]
+  seriesDates?: {
+    id: string
+    startDate: string
+  }[] // The series' other upcoming dates
 }
 
 export default function DiscoverEvents() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const query = searchParams.get("q") ?? ""
   const [events, setEvents] = useState<Event[]>([])
+  const [highlights, setHighlights] = useState<Record<string, SearchHighlight[]>>({})
   const [isLoading, setIsLoading] = useState(true)
+  const [filters, setFilters] = useState<EventFilters>({ searchTerm: query || undefined })
+  const [facets, setFacets] = useState<EventFacets | null>(null)
+
+  // Searches from the header arrive as ?q=
+  useEffect(() => {
+    setFilters((current) =>
+      (current.searchTerm ?? "") === query ? current : { ...current, searchTerm: query || undefined },
+    )
+  }, [query])
+
+  const handleFiltersChange = useCallback(
+    (next: EventFilters) => {
+      setFilters(next)
+
+      if ((next.searchTerm ?? "") !== query) {
+        router.replace(next.searchTerm ? `/?q=${encodeURIComponent(next.searchTerm)}#discover` : "/#discover", {
+          scroll: false,
+        })
+      }
+    },
+    [query, router],
+  )
 
   useEffect(() => {
     const fetchEvents = async () => {
+      setIsLoading(true)
       try {
-        const response = await fetch("/api/public/events")
+        const params = toEventFilterParams(filters)
+        if (filters.searchTerm) params.set("scope", "public")
+
+        const response = await fetch(`${filters.searchTerm ? "/api/events/search" : "/api/public/events"}?${params}`)
         if (!response.ok) throw new Error("Failed to fetch events")
         const data = await response.json()
-        setEvents(data.events)
+        const results: { event: Event; highlights: SearchHighlight[] }[] | undefined = data.results
+
+        setEvents(results ? results.map(({ event }) => event) : data.events)
+        setHighlights(results ? Object.fromEntries(results.map(({ event, highlights }) => [event.id, highlights])) : {})
+        setFacets(data.facets)
       } catch (error) {
         console.error("Error fetching events:", error)
         toast.error("Failed to load events")
@@ -42,7 +94,7 @@ export default function DiscoverEvents() {
     }
 
     fetchEvents()
-  }, [])
+  }, [filters])
 
   return (
     <section id="discover" className="w-full py-8 md:py-16 lg:py-24">
@@ -56,18 +108,26 @@ export default function DiscoverEvents() {
           </div>
         </div>
 
+        <div className="pt-8">
+          <EventFilterBar filters={filters} facets={facets} onChange={handleFiltersChange} />
+        </div>
+
         {isLoading ? (
           <div className="flex justify-center py-8 md:py-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
         ) : events.length === 0 ? (
           <div className="text-center py-8 md:py-12">
-            <p className="text-muted-foreground">No upcoming events available at the moment. Check back soon!</p>
+            <p className="text-muted-foreground">
+              {toEventFilterParams(filters).toString() === ""
+                ? "No upcoming events available at the moment. Check back soon!"
+                : "No upcoming events match your filters."}
+            </p>
           </div>
         ) : (
           <div className="mx-auto grid gap-4 sm:gap-6 py-8 md:py-12 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
             {events.map((event) => (
-              <EventCard key={event.id} event={event} />
+              <EventCard key={event.id} event={event} highlights={highlights[event.id] ?? []} />
             ))}
           </div>
         )}
@@ -82,9 +142,20 @@ export default function DiscoverEvents() {
   )
 }
 
-function EventCard({ event }: { event: Event }) {
-  // Get the lowest price from ticket types
-  const lowestPrice = event.ticketTypes.length > 0 ? Math.min(...event.ticketTypes.map((ticket) => ticket.price)) : null
+function EventCard({ event, highlights }: { event: Event; highlights: SearchHighlight[] }) {
+  const nameHighlight = highlights.find(({ field }) => field === "name")
+  const descriptionHighlight = highlights.find(({ field }) => field === "description")
+  const statuses = event.ticketTypes.map((ticket) => getSalesStatus(ticket, event.ticketTypes))
+  const onSale = event.ticketTypes.filter((_, index) => statuses[index] === "ON_SALE")
+
+  // Get the lowest price from ticket types that can be bought right now
+  const lowestPrice = onSale.length > 0 ? Math.min(...onSale.map((ticket) => ticket.price)) : null
+
+  // Otherwise say why nothing can be bought, preferring tickets that are still to come
+  const unavailableStatus =
+    event.ticketTypes.length === 0
+      ? null
+      : (["NOT_STARTED", "SOLD_OUT", "ENDED"] as const).find((status) => statuses.includes(status))
 
   return (
     <div className="group relative overflow-hidden rounded-lg border bg-background hover:shadow-md transition-all duration-300 flex flex-col h-full">
@@ -113,15 +184,36 @@ function EventCard({ event }: { event: Event }) {
           </div>
         </div>
         
-        <h3 className="mt-2 text-base sm:text-lg font-bold line-clamp-1">{event.name}</h3>
+        <h3 className="mt-2 text-base sm:text-lg font-bold line-clamp-1">
+          <HighlightedText text={event.name} ranges={nameHighlight?.ranges ?? []} />
+        </h3>
+        {event.category && (
+          <span className="text-xs font-medium text-primary">{EVENT_CATEGORY_LABELS[event.category]}</span>
+        )}
+        {event.seriesDates && event.seriesDates.length > 0 && (
+          <p className="mt-1 text-xs text-muted-foreground">
+            Also on{" "}
+            {event.seriesDates
+              .slice(0, 3)
+              .map((occurrence) => format(new Date(occurrence.startDate), "MMM d"))
+              .join(", ")}
+            {event.seriesDates.length > 3 && ` and ${event.seriesDates.length - 3} more`}
+          </p>
+        )}
         
         <p className="mt-1 line-clamp-2 text-xs sm:text-sm text-muted-foreground flex-grow">
-          {event.description || "No description available."}
+          {descriptionHighlight ? (
+            <HighlightedText text={descriptionHighlight.text} ranges={descriptionHighlight.ranges} />
+          ) : (
+            event.description || "No description available."
+          )}
         </p>
         
         <div className="mt-3 sm:mt-4 flex items-center justify-between">
           {lowestPrice !== null ? (
             <span className="font-medium text-sm sm:text-base">Kshs {lowestPrice.toFixed(2)}</span>
+          ) : unavailableStatus ? (
+            <span className="text-xs sm:text-sm font-medium text-muted-foreground">{SALES_STATUS_LABELS[unavailableStatus]}</span>
           ) : (
             <span className="text-xs sm:text-sm text-muted-foreground">Free</span>
           )}
@@ -0,0 +1,33 @@
+"use client"
+
+import type React from "react"
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Input } from "@/components/ui/input"
+import { Search } from "lucide-react"
+
+// Sends a search to the Discover section, which reads it from ?q=
+export default function HeaderSearch() {
+  const router = useRouter()
+  const [query, setQuery] = useState("")
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const term = query.trim()
+    router.push(term ? `/?q=${encodeURIComponent(term)}#discover` : "/#discover")
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="relative hidden sm:block w-56 lg:w-72">
+      <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+      <Input
+        type="search"
+        placeholder="Search events"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        className="h-9 pl-8"
+        aria-label="Search events"
+      />
+    </form>
+  )
+}
@@ -1,6 +1,7 @@
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { Calendar } from "lucide-react"
+import HeaderSearch from "@/components/landing/header-search"
 
 export default function Header() {
   return (
@@ -21,6 +22,7 @@ export default function Header() {
         </nav>
 
         <div className="flex items-center gap-2">
+          <HeaderSearch />
           <Link href="/login">
             <Button variant="ghost" size="sm">
               Log in
@@ -0,0 +1,45 @@
+"use client"
+
+import { useState, useEffect } from "react"
+
+/**
+ * Hook to load one of the analytics endpoints, reloading whenever the period changes
+ */
+export function useAnalytics<T>(
+  path: string,
+  days?: number,
+): {
+  data: T | null
+  isLoading: boolean
+  error: Error | null
+} {
+  const [data, setData] = useState<T | null>(null)
+  const [isLoading, setIsLoading] = useState<boolean>(true)
+  const [error, setError] = useState<Error | null>(null)
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      setIsLoading(true)
+      try {
+        const response = await fetch(days ? `${path}?days=${days}` : path)
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.message || "Failed to load analytics")
+        }
+
+        setData(result)
+        setError(null)
+      } catch (err) {
+        console.error("Error loading analytics:", err)
+        setError(err instanceof Error ? err : new Error("Failed to load analytics"))
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchAnalytics()
+  }, [path, days])
+
+  return { data, isLoading, error }
+}
@@ -0,0 +1,207 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { toast } from "sonner"
+import { parseTicketToken, verifyTicketManifest } from "@/lib/ticket-generator/ticket-token"
+import {
+  getManifest,
+  saveManifest,
+  getQueuedCheckIns,
+  removeQueuedCheckIns,
+  recordOfflineCheckIn,
+  type ManifestTicket,
+  type OfflineManifest,
+} from "@/lib/scanner/offline-store"
+import { getScannerDeviceId } from "@/lib/scanner/device-id"
+
+// Matches the largest batch the check-ins route accepts
+const SYNC_BATCH_SIZE = 500
+
+export interface OfflineCheckInResult {
+  valid: boolean
+  message: string
+  ticket?: ManifestTicket
+}
+
+async function checkManifestSignature(manifest: string, signature: string) {
+  let genuine = true
+
+  try {
+    genuine = await verifyTicketManifest(manifest, signature)
+  } catch (error) {
+    // Browsers without Ed25519 rely on the HTTPS connection the list came over
+    console.error("Error checking ticket list signature:", error)
+  }
+
+  if (!genuine) {
+    throw new Error("The downloaded ticket list failed its signature check")
+  }
+}
+
+/**
+ * Keeps a copy of an event's tickets on the device so the scanner can carry on without a
+ * connection, queueing check-ins until they can be synced back
+ */
+export function useOfflineScanner(eventId: string) {
+  const [manifest, setManifest] = useState<OfflineManifest | null>(null)
+  const [queuedCount, setQueuedCount] = useState(0)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [isOnline, setIsOnline] = useState(true)
+
+  useEffect(() => {
+    const loadOfflineData = async () => {
+      try {
+        setManifest((await getManifest(eventId)) ?? null)
+        setQueuedCount((await getQueuedCheckIns(eventId)).length)
+      } catch (error) {
+        console.error("Error loading offline scanner data:", error)
+      }
+    }
+
+    loadOfflineData()
+  }, [eventId])
+
+  // Send queued check-ins, then download a fresh ticket list that includes other devices' scans
+  const sync = useCallback(async () => {
+    setIsSyncing(true)
+
+    try {
+      const queued = await getQueuedCheckIns(eventId)
+      let conflicts = 0
+      let rejected = 0
+
+      for (let i = 0; i < queued.length; i += SYNC_BATCH_SIZE) {
+        const batch = queued.slice(i, i + SYNC_BATCH_SIZE)
+
+        const response = await fetch(`/api/events/${eventId}/check-ins`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            checkIns: batch.map(({ ticketId, scannedAt, result }) => ({ ticketId, scannedAt, result })),
+            deviceId: getScannerDeviceId(),
+          }),
+        })
+
+        const data = await response.json()
+
+        if (!response.ok) {
+          throw new Error(data.message || "Failed to sync check-ins")
+        }
+
+        for (const result of data.results as { status: string }[]) {
+          if (result.status === "ALREADY_CHECKED_IN") conflicts++
+          if (result.status === "REJECTED") rejected++
+        }
+
+        await removeQueuedCheckIns(batch.map((checkIn) => checkIn.id as number))
+      }
+
+      const response = await fetch(`/api/events/${eventId}/scan-manifest`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to download tickets")
+      }
+
+      await checkManifestSignature(data.manifest, data.signature)
+
+      const downloaded: Omit<OfflineManifest, "lastSyncedAt"> = JSON.parse(data.manifest)
+
+      if (downloaded.eventId !== eventId) {
+        throw new Error("The downloaded ticket list is for a different event")
+      }
+
+      // Tickets scanned while the sync was running are still queued, keep them marked as used
+      const stillQueued = await getQueuedCheckIns(eventId)
+      for (const checkIn of stillQueued) {
+        const ticket = downloaded.tickets.find((ticket) => ticket.id === checkIn.ticketId)
+        if (ticket && !ticket.usedAt) {
+          ticket.usedAt = checkIn.scannedAt
+        }
+      }
+
+      const updated = { ...downloaded, lastSyncedAt: new Date().toISOString() }
+      await saveManifest(updated)
+      setManifest(updated)
+      setQueuedCount(stillQueued.length)
+
+      if (conflicts > 0) {
+        toast.warning(`${conflicts} ticket${conflicts === 1 ? " was" : "s were"} also scanned on another device`)
+      }
+      if (rejected > 0) {
+        toast.error(`${rejected} offline check-in${rejected === 1 ? " was" : "s were"} for tickets that are no longer valid`)
+      }
+      toast.success("Tickets synced", {
+        description: `${updated.tickets.length} tickets ready for offline scanning`,
+      })
+    } catch (error) {
+      toast.error("Sync failed", {
+        description: error instanceof Error ? error.message : "Failed to sync tickets",
+      })
+    } finally {
+      setIsSyncing(false)
+    }
+  }, [eventId])
+
+  // Follow the connection, sending anything queued as soon as it comes back
+  useEffect(() => {
+    const handleOnline = async () => {
+      setIsOnline(true)
+      if ((await getQueuedCheckIns(eventId)).length > 0) {
+        sync()
+      }
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    setIsOnline(navigator.onLine)
+    window.addEventListener("online", handleOnline)
+    window.addEventListener("offline", handleOffline)
+
+    return () => {
+      window.removeEventListener("online", handleOnline)
+      window.removeEventListener("offline", handleOffline)
+    }
+  }, [eventId, sync])
+
+  // Check a ticket in against the downloaded list
+  const checkIn = useCallback(
+    async (lookup: { token: string } | { ticketNumber: string }): Promise<OfflineCheckInResult> => {
+      const stored = await getManifest(eventId)
+      const ticketId = "token" in lookup ? parseTicketToken(lookup.token)?.ticketId : undefined
+      const ticket = stored?.tickets.find((ticket) =>
+        "token" in lookup ? ticket.id === ticketId : ticket.ticketNumber === lookup.ticketNumber,
+      )
+
+      if (!ticket) {
+        return { valid: false, message: "Ticket not found in the downloaded ticket list" }
+      }
+
+      const scannedAt = new Date().toISOString()
+
+      const checkedIn = await recordOfflineCheckIn({ eventId, ticketId: ticket.id, scannedAt })
+      setQueuedCount((count) => count + 1)
+
+      if (!checkedIn) {
+        return { valid: false, message: "Ticket has already been used", ticket }
+      }
+
+      setManifest((current) =>
+        current && {
+          ...current,
+          tickets: current.tickets.map((item) => (item.id === ticket.id ? { ...item, usedAt: scannedAt } : item)),
+        },
+      )
+
+      return {
+        valid: true,
+        message: "Ticket checked in offline, it will sync when the connection is back",
+        ticket: { ...ticket, usedAt: scannedAt },
+      }
+    },
+    [eventId],
+  )
+
+  return { manifest, queuedCount, isSyncing, isOnline, sync, checkIn }
+}
@@ -0,0 +1,173 @@
+import { PrismaClient, type Prisma } from "@prisma/client"
+import { addDays, format, startOfDay, subDays } from "date-fns"
+import { hasPermission } from "@/lib/auth/permissions"
+import { notRefunded } from "@/lib/bookings/refund-service"
+
+const prisma = new PrismaClient()
+
+// Bookings that were paid for. Refunds are taken off their totals rather than leaving them out.
+export const PAID_STATUSES = ["CONFIRMED", "REFUNDED"] as const
+
+export const DEFAULT_ANALYTICS_DAYS = 30
+export const MAX_ANALYTICS_DAYS = 366
+
+// How many events the sell-through chart compares
+const SELL_THROUGH_EVENTS = 10
+
+export interface AnalyticsScope {
+  isPlatform: boolean // Admins see the whole platform, organizers only their own events
+  events: Prisma.EventWhereInput
+}
+
+export interface AnalyticsRange {
+  from: Date
+  to: Date
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100
+
+export async function getAnalyticsScope(userId: string): Promise<AnalyticsScope> {
+  const isPlatform = await hasPermission(userId, "admin:access")
+  return { isPlatform, events: isPlatform ? {} : { creatorId: userId } }
+}
+
+// Read ?days= from an analytics query string, the period ending now that figures cover
+export function parseAnalyticsRange(searchParams: URLSearchParams): { range?: AnalyticsRange; error?: string } {
+  const days = Number(searchParams.get("days") ?? DEFAULT_ANALYTICS_DAYS)
+
+  if (!Number.isInteger(days) || days < 1 || days > MAX_ANALYTICS_DAYS) {
+    return { error: `Days must be a whole number from 1 to ${MAX_ANALYTICS_DAYS}` }
+  }
+
+  const to = new Date()
+  return { range: { from: startOfDay(subDays(to, days - 1)), to } }
+}
+
+function getPaidBookingsWhere(scope: AnalyticsScope, range: AnalyticsRange): Prisma.BookingWhereInput {
+  return {
+    event: scope.events,
+    status: { in: [...PAID_STATUSES] },
+    createdAt: { gte: range.from, lte: range.to },
+  }
+}
+
+// Headline figures for the period. Users are only counted for the whole platform.
+export async function getAnalyticsSummary(scope: AnalyticsScope, range: AnalyticsRange) {
+  const bookingsWhere = getPaidBookingsWhere(scope, range)
+
+  const [bookings, ticketsSold, events, users] = await Promise.all([
+    prisma.booking.aggregate({
+      where: bookingsWhere,
+      _sum: { totalAmount: true, refundedAmount: true },
+      _count: { _all: true },
+    }),
+    prisma.ticket.count({ where: { ...notRefunded, booking: bookingsWhere } }),
+    prisma.event.count({ where: scope.events }),
+    scope.isPlatform ? prisma.user.count() : null,
+  ])
+
+  const grossRevenue = bookings._sum.totalAmount ?? 0
+  const refunds = bookings._sum.refundedAmount ?? 0
+
+  return {
+    revenue: roundAmount(grossRevenue - refunds),
+    refunds: roundAmount(refunds),
+    bookings: bookings._count._all,
+    ticketsSold,
+    events,
+    users,
+  }
+}
+
+// Paid bookings, tickets and revenue for each day of the period, with quiet days kept as zeros
+export async function getBookingsOverTime(scope: AnalyticsScope, range: AnalyticsRange) {
+  const bookings = await prisma.booking.findMany({
+    where: getPaidBookingsWhere(scope, range),
+    select: {
+      createdAt: true,
+      totalAmount: true,
+      refundedAmount: true,
+      _count: { select: { tickets: { where: notRefunded } } },
+    },
+  })
+
+  const days = new Map<string, { bookings: number; tickets: number; revenue: number }>()
+  for (let day = range.from; day <= range.to; day = addDays(day, 1)) {
+    days.set(format(day, "yyyy-MM-dd"), { bookings: 0, tickets: 0, revenue: 0 })
+  }
+
+  for (const booking of bookings) {
+    const totals = days.get(format(booking.createdAt, "yyyy-MM-dd"))
+    if (totals) {
+      totals.bookings += 1
+      totals.tickets += booking._count.tickets
+      totals.revenue += booking.totalAmount - (booking.refundedAmount ?? 0)
+    }
+  }
+
+  return [...days].map(([date, totals]) => ({ date, ...totals, revenue: roundAmount(totals.revenue) }))
+}
+
+// Tickets sold against capacity for the next events to happen
+export async function getEventSellThrough(scope: AnalyticsScope) {
+  const events = await prisma.event.findMany({
+    where: { AND: [scope.events, { endDate: { gte: new Date() } }] },
+    select: {
+      id: true,
+      name: true,
+      startDate: true,
+      ticketTypes: { select: { id: true, quantity: true } },
+    },
+    orderBy: { startDate: "asc" },
+    take: SELL_THROUGH_EVENTS,
+  })
+
+  const sold = await prisma.ticket.groupBy({
+    by: ["ticketTypeId"],
+    where: {
+      ...notRefunded,
+      ticketTypeId: { in: events.flatMap((event) => event.ticketTypes.map((ticketType) => ticketType.id)) },
+      booking: { status: "CONFIRMED" },
+    },
+    _count: { _all: true },
+  })
+  const soldByTicketType = new Map(sold.map((group) => [group.ticketTypeId, group._count._all]))
+
+  return events.map((event) => {
+    const capacity = event.ticketTypes.reduce((total, ticketType) => total + ticketType.quantity, 0)
+    const ticketsSold = event.ticketTypes.reduce(
+      (total, ticketType) => total + (soldByTicketType.get(ticketType.id) ?? 0),
+      0,
+    )
+
+    return {
+      id: event.id,
+      name: event.name,
+      startDate: event.startDate.toISOString(),
+      capacity,
+      ticketsSold,
+      sellThrough: capacity > 0 ? Math.round((ticketsSold / capacity) * 100) : 0,
+    }
+  })
+}
+
+// How many users hold each role, for the whole platform
+export async function getUsersByRole() {
+  const [roles, withoutRole] = await Promise.all([
+    prisma.role.findMany({
+      select: { name: true, _count: { select: { users: true } } },
+      orderBy: { name: "asc" },
+    }),
+    prisma.user.count({ where: { OR: [{ roleId: null }, { roleId: { isSet: false } }] } }),
+  ])
+
+  return [
+    ...roles.map((role) => ({ role: role.name, users: role._count.users })),
+    ...(withoutRole > 0 ? [{ role: "No role", users: withoutRole }] : []),
+  ]
+}
+
+export type AnalyticsSummary = Awaited<ReturnType<typeof getAnalyticsSummary>>
+export type BookingsOverTime = Awaited<ReturnType<typeof getBookingsOverTime>>
+export type EventSellThrough = Awaited<ReturnType<typeof getEventSellThrough>>
+export type UsersByRole = Awaited<ReturnType<typeof getUsersByRole>>
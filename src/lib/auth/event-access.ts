@@ -0,0 +1,108 @@
+import { PrismaClient, type Prisma } from "@prisma/client"
+import { hasPermission } from "./permissions"
+
+const prisma = new PrismaClient()
+
+// Whether a user may check attendees in to an event: its creator, staff the creator has
+// assigned to it, and admins. Returns null when the event doesn't exist.
+export async function canCheckInAttendees(eventId: string, userId: string) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { creatorId: true },
+  })
+
+  if (!event) {
+    return null
+  }
+
+  if (event.creatorId === userId || (await isEventStaff(eventId, userId))) {
+    return true
+  }
+
+  return hasPermission(userId, "admin:access")
+}
+
+// Whether a user may see an event's sales reports and attendee details: its creator and admins.
+// Returns null when the event doesn't exist.
+export async function canManageEvent(eventId: string, userId: string) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { creatorId: true },
+  })
+
+  if (!event) {
+    return null
+  }
+
+  return event.creatorId === userId || hasPermission(userId, "admin:access")
+}
+
+// Whether a user may work with an event's attendees: its creator and admins, when their role also
+// grants the attendees permission needed (attendees:read to see them, attendees:update to edit them).
+// Returns null when the event doesn't exist.
+export async function canAccessAttendees(eventId: string, userId: string, permission: string) {
+  const canManage = await canManageEvent(eventId, userId)
+
+  if (canManage === null) {
+    return null
+  }
+
+  return canManage && hasPermission(userId, permission)
+}
+
+// Whether a user may undo check-ins for an event: its creator, staff assigned as supervisors,
+// and admins. Returns null when the event doesn't exist.
+export async function canSuperviseCheckIns(eventId: string, userId: string) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    select: { creatorId: true },
+  })
+
+  if (!event) {
+    return null
+  }
+
+  if (event.creatorId === userId) {
+    return true
+  }
+
+  const assignment = await prisma.eventStaff.findUnique({
+    where: { eventId_userId: { eventId, userId } },
+    select: { role: true },
+  })
+
+  return assignment?.role === "SUPERVISOR" || hasPermission(userId, "admin:access")
+}
+
+export async function isEventStaff(eventId: string, userId: string) {
+  const assignment = await prisma.eventStaff.findUnique({
+    where: { eventId_userId: { eventId, userId } },
+  })
+
+  return assignment !== null
+}
+
+// Which events a user may list or search: admins and event editors see everything, other signed in
+// users see published events and their own drafts, and visitors only published events. `published`
+// is the ?published= query parameter, which only admins and editors can use to list drafts.
+export async function getVisibleEventsWhere(
+  userId: string | undefined,
+  published: string | null,
+): Promise<Prisma.EventWhereInput> {
+  const isAdmin = userId ? await hasPermission(userId, "admin:access") : false
+  const canEdit = userId ? await hasPermission(userId, "events:edit") : false
+
+  if (userId && !isAdmin && !canEdit) {
+    return { OR: [{ isPublished: true }, { creatorId: userId }] }
+  }
+
+  if (published === "false" && (isAdmin || canEdit)) {
+    return { isPublished: false }
+  }
+
+  if (published === "true" || (!isAdmin && !canEdit)) {
+    return { isPublished: true }
+  }
+
+  return {}
+}
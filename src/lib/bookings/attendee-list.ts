@@ -0,0 +1,132 @@
+import { BookingStatus, PrismaClient, type Prisma } from "@prisma/client"
+import { notCheckedOut, notEntered } from "@/lib/bookings/check-in-service"
+import { notRefunded, notUsed } from "@/lib/bookings/refund-service"
+import { getAttendeeStatus, isAttendeeStatus, type AttendeeStatus } from "@/lib/bookings/attendee-status"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+export interface AttendeeFilters {
+  search?: string // Holder name, email or phone, or ticket number
+  ticketTypeId?: string
+  bookingStatus?: BookingStatus
+  status?: AttendeeStatus
+}
+
+// The same rules as getAttendeeStatus, as queries
+const ATTENDEE_STATUS_WHERE: Record<AttendeeStatus, Prisma.TicketWhereInput> = {
+  NOT_CHECKED_IN: { AND: [notRefunded, notEntered, notUsed] },
+  CHECKED_IN: {
+    AND: [notRefunded, notCheckedOut, { OR: [{ lastEntryAt: { not: null } }, { usedAt: { not: null } }] }],
+  },
+  CHECKED_OUT: { AND: [notRefunded, { checkedOutAt: { not: null } }] },
+  REFUNDED: { refundedAt: { not: null } },
+}
+
+const ATTENDEE_SELECT = {
+  id: true,
+  ticketNumber: true,
+  usedAt: true,
+  lastEntryAt: true,
+  checkedOutAt: true,
+  refundedAt: true,
+  createdAt: true,
+  ticketType: { select: { id: true, name: true } },
+  booking: { select: { id: true, name: true, email: true, phone: true, status: true } },
+} satisfies Prisma.TicketSelect
+
+// Read the attendee list's ?search=, ?ticketTypeId=, ?bookingStatus= and ?status= filters
+export function parseAttendeeFilters(searchParams: URLSearchParams): { filters?: AttendeeFilters; error?: string } {
+  const search = searchParams.get("search")?.trim()
+  const ticketTypeId = searchParams.get("ticketTypeId")
+  const bookingStatus = searchParams.get("bookingStatus")
+  const status = searchParams.get("status")
+
+  if (ticketTypeId && !isObjectId(ticketTypeId)) {
+    return { error: "Invalid ticket type ID" }
+  }
+
+  if (bookingStatus && !Object.values(BookingStatus).some((value) => value === bookingStatus)) {
+    return { error: `Booking status must be one of ${Object.values(BookingStatus).join(", ")}` }
+  }
+
+  if (status && !isAttendeeStatus(status)) {
+    return { error: "Status must be one of NOT_CHECKED_IN, CHECKED_IN, CHECKED_OUT, REFUNDED" }
+  }
+
+  return {
+    filters: {
+      search: search || undefined,
+      ticketTypeId: ticketTypeId || undefined,
+      bookingStatus: (bookingStatus as BookingStatus) || undefined,
+      status: (status as AttendeeStatus) || undefined,
+    },
+  }
+}
+
+export function getAttendeesWhere(eventId: string, filters: AttendeeFilters): Prisma.TicketWhereInput {
+  const contains = { contains: filters.search, mode: "insensitive" as const }
+
+  return {
+    AND: [
+      { booking: { eventId, ...(filters.bookingStatus ? { status: filters.bookingStatus } : {}) } },
+      filters.ticketTypeId ? { ticketTypeId: filters.ticketTypeId } : {},
+      filters.status ? ATTENDEE_STATUS_WHERE[filters.status] : {},
+      filters.search
+        ? {
+            OR: [
+              { ticketNumber: contains },
+              { booking: { name: contains } },
+              { booking: { email: contains } },
+              { booking: { phone: contains } },
+            ],
+          }
+        : {},
+    ],
+  }
+}
+
+// Tickets for an event with their holders, in the order they were issued. Without a page,
+// every matching ticket is returned, sorted by holder name for door lists and exports.
+export async function getAttendees(where: Prisma.TicketWhereInput, page?: { skip: number; take: number }) {
+  const tickets = await prisma.ticket.findMany({
+    where,
+    select: ATTENDEE_SELECT,
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    skip: page?.skip,
+    take: page?.take,
+  })
+
+  const attendees = tickets.map((ticket) => ({
+    ...ticket,
+    status: getAttendeeStatus(ticket),
+    checkedInAt: ticket.lastEntryAt ?? ticket.usedAt,
+  }))
+
+  return page
+    ? attendees
+    : attendees.sort((a, b) => a.booking.name.localeCompare(b.booking.name, undefined, { sensitivity: "base" }))
+}
+
+export type Attendee = Awaited<ReturnType<typeof getAttendees>>[number]
+
+// Validate the holder details an organiser sends when correcting an attendee
+export function parseAttendeeContact(data: Record<string, unknown>) {
+  const name = typeof data.name === "string" ? data.name.trim() : ""
+  const email = typeof data.email === "string" ? data.email.trim() : ""
+  const phone = typeof data.phone === "string" ? data.phone.trim() : ""
+
+  if (!name) {
+    return { error: "Name is required" }
+  }
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return { error: "Enter a valid email address" }
+  }
+
+  if (!phone) {
+    return { error: "Phone number is required" }
+  }
+
+  return { data: { name, email, phone } satisfies Prisma.BookingUpdateInput }
+}
@@ -0,0 +1,29 @@
+// Where a ticket holder is with the event, worked out from their ticket
+export const ATTENDEE_STATUSES = ["NOT_CHECKED_IN", "CHECKED_IN", "CHECKED_OUT", "REFUNDED"] as const
+
+export type AttendeeStatus = (typeof ATTENDEE_STATUSES)[number]
+
+// Shared by the attendee list, its filters and the exports
+export const ATTENDEE_STATUS_LABELS: Record<AttendeeStatus, string> = {
+  NOT_CHECKED_IN: "Not checked in",
+  CHECKED_IN: "Checked in",
+  CHECKED_OUT: "Checked out",
+  REFUNDED: "Refunded",
+}
+
+export function isAttendeeStatus(value: string): value is AttendeeStatus {
+  return ATTENDEE_STATUSES.some((status) => status === value)
+}
+
+// Tickets checked in before entries were tracked only have usedAt
+export function getAttendeeStatus(ticket: {
+  refundedAt: Date | string | null
+  usedAt: Date | string | null
+  lastEntryAt: Date | string | null
+  checkedOutAt: Date | string | null
+}): AttendeeStatus {
+  if (ticket.refundedAt) return "REFUNDED"
+  if (ticket.checkedOutAt) return "CHECKED_OUT"
+  if (ticket.lastEntryAt ?? ticket.usedAt) return "CHECKED_IN"
+  return "NOT_CHECKED_IN"
+}
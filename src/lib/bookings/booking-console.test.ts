@@ -0,0 +1,187 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+// The bookings in the user's events, which is all a bulk action reads itself before handing each
+// booking to the booking and refund services
+const db = vi.hoisted(() => {
+  const state = { managedIds: [] as string[] }
+
+  class FakePrismaClient {
+    booking = {
+      async findMany({ where }: { where: { id: { in: string[] } } }) {
+        return where.id.in.filter((id) => state.managedIds.includes(id)).map((id) => ({ id }))
+      },
+    }
+  }
+
+  return { state, FakePrismaClient }
+})
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: db.FakePrismaClient,
+}))
+vi.mock("@/lib/auth/permissions", () => ({ hasPermission: vi.fn() }))
+vi.mock("@/lib/bookings/booking-service", () => ({
+  BookingError: class BookingError extends Error {},
+  cancelBooking: vi.fn(),
+  markBookingPaid: vi.fn(),
+  resendTickets: vi.fn(),
+}))
+vi.mock("@/lib/bookings/refund-service", () => ({
+  RefundError: class RefundError extends Error {},
+  refundBooking: vi.fn(),
+}))
+
+import {
+  getBookingConsoleWhere,
+  MAX_BULK_BOOKINGS,
+  parseBookingConsoleFilters,
+  parseBulkBookingAction,
+  runBulkBookingAction,
+} from "@/lib/bookings/booking-console"
+import { BookingError, cancelBooking, markBookingPaid } from "@/lib/bookings/booking-service"
+import { refundBooking } from "@/lib/bookings/refund-service"
+
+const BOOKING_A = "64b7f0c2a1d3e4f5a6b7c8d1"
+const BOOKING_B = "64b7f0c2a1d3e4f5a6b7c8d2"
+const BOOKING_C = "64b7f0c2a1d3e4f5a6b7c8d3"
+
+describe("parseBookingConsoleFilters", () => {
+  it("takes in the whole of both days of a date range", () => {
+    const { filters } = parseBookingConsoleFilters(new URLSearchParams({ from: "2026-05-01", to: "2026-05-01" }))
+
+    expect(filters?.from).toEqual(new Date(2026, 4, 1, 0, 0, 0, 0))
+    expect(filters?.to).toEqual(new Date(2026, 4, 1, 23, 59, 59, 999))
+  })
+
+  it("leaves out filters that are empty", () => {
+    expect(parseBookingConsoleFilters(new URLSearchParams({ search: "  ", status: "" }))).toEqual({
+      filters: { search: undefined, eventId: undefined, status: undefined, from: undefined, to: undefined },
+    })
+  })
+
+  it.each([
+    [{ eventId: "event-1" }, "Invalid event ID"],
+    [{ status: "LOST" }, "Status must be one of"],
+    [{ from: "01/05/2026" }, "Dates must be in the form yyyy-MM-dd"],
+    [{ from: "2026-05-02", to: "2026-05-01" }, "The start date must be before the end date"],
+  ])("refuses %j", (params, error) => {
+    expect(parseBookingConsoleFilters(new URLSearchParams(params)).error).toContain(error)
+  })
+})
+
+describe("getBookingConsoleWhere", () => {
+  it("keeps every filter inside the user's events", () => {
+    const where = getBookingConsoleWhere({ creatorId: "organiser" }, { status: "CONFIRMED", search: "TKT-1" })
+
+    expect(where.AND).toEqual(
+      expect.arrayContaining([
+        { event: { creatorId: "organiser" } },
+        { status: "CONFIRMED" },
+        expect.objectContaining({
+          OR: expect.arrayContaining([{ tickets: { some: { ticketNumber: { contains: "TKT-1", mode: "insensitive" } } } }]),
+        }),
+      ]),
+    )
+  })
+})
+
+describe("parseBulkBookingAction", () => {
+  it("drops repeated and non-text booking IDs and trims the reason", () => {
+    expect(
+      parseBulkBookingAction({ action: "refund", bookingIds: [BOOKING_A, BOOKING_A, 7, BOOKING_B], reason: " Rain " }),
+    ).toEqual({
+      request: { action: "refund", bookingIds: [BOOKING_A, BOOKING_B], reason: "Rain", reference: undefined },
+    })
+  })
+
+  it.each([
+    [{ action: "delete", bookingIds: [BOOKING_A] }, "Action must be one of resend, cancel, refund, markPaid"],
+    [{ action: "cancel", bookingIds: [] }, "Select at least one booking"],
+    [{ action: "cancel", bookingIds: BOOKING_A }, "Select at least one booking"],
+    [{ action: "cancel", bookingIds: ["booking-1"] }, "Invalid booking ID"],
+    [{ action: "markPaid", bookingIds: [BOOKING_A], reference: " " }, "Enter the receipt or reference for the payment"],
+  ])("refuses %j", (data, error) => {
+    expect(parseBulkBookingAction(data).error).toBe(error)
+  })
+
+  it("refuses more bookings than one action may take", () => {
+    const bookingIds = Array.from({ length: MAX_BULK_BOOKINGS + 1 }, (_, index) =>
+      index.toString(16).padStart(24, "0"),
+    )
+
+    expect(parseBulkBookingAction({ action: "resend", bookingIds }).error).toBe(
+      `Select at most ${MAX_BULK_BOOKINGS} bookings at a time`,
+    )
+  })
+})
+
+describe("runBulkBookingAction", () => {
+  beforeEach(() => {
+    db.state.managedIds = [BOOKING_A, BOOKING_B]
+    vi.mocked(cancelBooking).mockReset()
+    vi.mocked(refundBooking).mockReset()
+    vi.mocked(markBookingPaid).mockReset()
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  it("reports each booking's outcome without stopping at the first failure", async () => {
+    vi.mocked(cancelBooking).mockRejectedValueOnce(new BookingError("Only pending bookings can be cancelled"))
+
+    const outcome = await runBulkBookingAction(
+      { creatorId: "organiser" },
+      { action: "cancel", bookingIds: [BOOKING_A, BOOKING_B], userId: "organiser" },
+    )
+
+    expect(outcome).toEqual({
+      results: [
+        { bookingId: BOOKING_A, ok: false, message: "Only pending bookings can be cancelled" },
+        { bookingId: BOOKING_B, ok: true },
+      ],
+      succeeded: 1,
+      failed: 1,
+    })
+  })
+
+  it("treats bookings outside the user's events as missing and leaves them alone", async () => {
+    const { results } = await runBulkBookingAction(
+      { creatorId: "organiser" },
+      { action: "cancel", bookingIds: [BOOKING_C], userId: "organiser" },
+    )
+
+    expect(results).toEqual([{ bookingId: BOOKING_C, ok: false, message: "Booking not found" }])
+    expect(cancelBooking).not.toHaveBeenCalled()
+  })
+
+  it("hides unexpected errors behind a general message", async () => {
+    vi.mocked(cancelBooking).mockRejectedValueOnce(new Error("Connection lost"))
+
+    const { results } = await runBulkBookingAction(
+      {},
+      { action: "cancel", bookingIds: [BOOKING_A], userId: "admin" },
+    )
+
+    expect(results).toEqual([{ bookingId: BOOKING_A, ok: false, message: "Something went wrong" }])
+  })
+
+  it("refunds in full whatever the event's refund policy says", async () => {
+    await runBulkBookingAction({}, { action: "refund", bookingIds: [BOOKING_A], reason: "Rain", userId: "admin" })
+
+    expect(refundBooking).toHaveBeenCalledWith({
+      bookingId: BOOKING_A,
+      scope: "booking",
+      reason: "Rain",
+      requestedById: "admin",
+      enforcePolicy: false,
+    })
+  })
+
+  it("records who marked a booking paid and against which receipt", async () => {
+    await runBulkBookingAction(
+      {},
+      { action: "markPaid", bookingIds: [BOOKING_B], reference: "RCPT-12", userId: "admin" },
+    )
+
+    expect(markBookingPaid).toHaveBeenCalledWith(BOOKING_B, "RCPT-12", "admin")
+  })
+})
@@ -0,0 +1,214 @@
+import { BookingStatus, PrismaClient, type Prisma } from "@prisma/client"
+import { endOfDay, isValid, parseISO, startOfDay } from "date-fns"
+import { hasPermission } from "@/lib/auth/permissions"
+import { BookingError, cancelBooking, markBookingPaid, resendTickets } from "@/lib/bookings/booking-service"
+import { refundBooking, RefundError } from "@/lib/bookings/refund-service"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+export const MAX_BULK_BOOKINGS = 100
+
+export const BULK_BOOKING_ACTIONS = ["resend", "cancel", "refund", "markPaid"] as const
+
+export type BulkBookingAction = (typeof BULK_BOOKING_ACTIONS)[number]
+
+export interface BookingConsoleFilters {
+  search?: string // Holder email or phone, ticket number, or payment id or receipt
+  eventId?: string
+  status?: BookingStatus
+  from?: Date
+  to?: Date
+}
+
+export interface BulkBookingRequest {
+  action: BulkBookingAction
+  bookingIds: string[]
+  reason?: string // Refunds only
+  reference?: string // Receipt for offline payments, markPaid only
+  userId: string
+}
+
+export interface BulkBookingResult {
+  bookingId: string
+  ok: boolean
+  message?: string
+}
+
+// Events whose bookings a user may manage: every event for admins, their own events for organizers.
+// Returns null without bookings:manage.
+export async function getBookingConsoleScope(userId: string): Promise<Prisma.EventWhereInput | null> {
+  if (!(await hasPermission(userId, "bookings:manage"))) {
+    return null
+  }
+
+  return (await hasPermission(userId, "admin:access")) ? {} : { creatorId: userId }
+}
+
+// Read the console's ?search=, ?eventId=, ?status=, ?from= and ?to= filters. Dates are yyyy-MM-dd
+// and both ends are included.
+export function parseBookingConsoleFilters(searchParams: URLSearchParams): {
+  filters?: BookingConsoleFilters
+  error?: string
+} {
+  const search = searchParams.get("search")?.trim()
+  const eventId = searchParams.get("eventId")
+  const status = searchParams.get("status")
+  const from = searchParams.get("from")
+  const to = searchParams.get("to")
+
+  if (eventId && !isObjectId(eventId)) {
+    return { error: "Invalid event ID" }
+  }
+
+  if (status && !Object.values(BookingStatus).some((value) => value === status)) {
+    return { error: `Status must be one of ${Object.values(BookingStatus).join(", ")}` }
+  }
+
+  const fromDate = from ? parseISO(from) : undefined
+  const toDate = to ? parseISO(to) : undefined
+
+  if ((fromDate && !isValid(fromDate)) || (toDate && !isValid(toDate))) {
+    return { error: "Dates must be in the form yyyy-MM-dd" }
+  }
+
+  if (fromDate && toDate && fromDate > toDate) {
+    return { error: "The start date must be before the end date" }
+  }
+
+  return {
+    filters: {
+      search: search || undefined,
+      eventId: eventId || undefined,
+      status: (status as BookingStatus) || undefined,
+      from: fromDate && startOfDay(fromDate),
+      to: toDate && endOfDay(toDate),
+    },
+  }
+}
+
+export function getBookingConsoleWhere(
+  scope: Prisma.EventWhereInput,
+  filters: BookingConsoleFilters,
+): Prisma.BookingWhereInput {
+  const contains = { contains: filters.search, mode: "insensitive" as const }
+
+  return {
+    AND: [
+      { event: scope },
+      filters.eventId ? { eventId: filters.eventId } : {},
+      filters.status ? { status: filters.status } : {},
+      filters.from || filters.to ? { createdAt: { gte: filters.from, lte: filters.to } } : {},
+      filters.search
+        ? {
+            OR: [
+              { email: contains },
+              { phone: contains },
+              { name: contains },
+              { paymentId: contains },
+              { paymentReference: contains },
+              { tickets: { some: { ticketNumber: contains } } },
+            ],
+          }
+        : {},
+    ],
+  }
+}
+
+// Validate a bulk action sent from the console
+export function parseBulkBookingAction(
+  data: Record<string, unknown>,
+): { request?: Omit<BulkBookingRequest, "userId">; error?: string } {
+  const action = BULK_BOOKING_ACTIONS.find((value) => value === data.action)
+  const bookingIds = Array.isArray(data.bookingIds)
+    ? [...new Set(data.bookingIds.filter((id): id is string => typeof id === "string"))]
+    : []
+  const reason = typeof data.reason === "string" ? data.reason.trim() : ""
+  const reference = typeof data.reference === "string" ? data.reference.trim() : ""
+
+  if (!action) {
+    return { error: `Action must be one of ${BULK_BOOKING_ACTIONS.join(", ")}` }
+  }
+
+  if (bookingIds.length === 0) {
+    return { error: "Select at least one booking" }
+  }
+
+  if (bookingIds.length > MAX_BULK_BOOKINGS) {
+    return { error: `Select at most ${MAX_BULK_BOOKINGS} bookings at a time` }
+  }
+
+  if (!bookingIds.every(isObjectId)) {
+    return { error: "Invalid booking ID" }
+  }
+
+  if (action === "markPaid" && !reference) {
+    return { error: "Enter the receipt or reference for the payment" }
+  }
+
+  return {
+    request: {
+      action,
+      bookingIds,
+      reason: reason || undefined,
+      reference: reference || undefined,
+    },
+  }
+}
+
+// Apply one action to each selected booking in turn. A booking that can't take the action is reported
+// with the reason rather than stopping the rest. Bookings outside the user's events are treated as missing.
+export async function runBulkBookingAction(scope: Prisma.EventWhereInput, request: BulkBookingRequest) {
+  const managed = await prisma.booking.findMany({
+    where: { id: { in: request.bookingIds }, event: scope },
+    select: { id: true },
+  })
+  const managedIds = new Set(managed.map((booking) => booking.id))
+
+  const results: BulkBookingResult[] = []
+
+  for (const bookingId of request.bookingIds) {
+    if (!managedIds.has(bookingId)) {
+      results.push({ bookingId, ok: false, message: "Booking not found" })
+      continue
+    }
+
+    try {
+      await applyBookingAction(bookingId, request)
+      results.push({ bookingId, ok: true })
+    } catch (error) {
+      if (error instanceof BookingError || error instanceof RefundError) {
+        results.push({ bookingId, ok: false, message: error.message })
+        continue
+      }
+      console.error(`Error applying ${request.action} to booking ${bookingId}:`, error)
+      results.push({ bookingId, ok: false, message: "Something went wrong" })
+    }
+  }
+
+  return {
+    results,
+    succeeded: results.filter((result) => result.ok).length,
+    failed: results.filter((result) => !result.ok).length,
+  }
+}
+
+async function applyBookingAction(bookingId: string, request: BulkBookingRequest) {
+  switch (request.action) {
+    case "resend":
+      return resendTickets(bookingId)
+    case "cancel":
+      return cancelBooking(bookingId)
+    case "refund":
+      // Staff refunds return every unused ticket in full, whatever the event's refund policy says
+      return refundBooking({
+        bookingId,
+        scope: "booking",
+        reason: request.reason,
+        requestedById: request.userId,
+        enforcePolicy: false,
+      })
+    case "markPaid":
+      return markBookingPaid(bookingId, request.reference ?? "", request.userId)
+  }
+}
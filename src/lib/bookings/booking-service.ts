@@ -0,0 +1,432 @@
+import { Prisma, PrismaClient } from "@prisma/client"
+import { nanoid } from "nanoid"
+import { format } from "date-fns"
+import type { PaymentResult, PaymentWebhookEvent } from "@/lib/payments/payment-provider"
+import { getPaymentProvider } from "@/lib/payments/payments"
+import { releasePromoCode } from "@/lib/bookings/promo-codes"
+import { offerWaitlistSpots } from "@/lib/bookings/waitlist-service"
+import {
+  sendEmail,
+  generateQRCode,
+  generateQRCodeBuffer,
+  getTicketConfirmationEmailTemplate,
+} from "@/lib/email/email"
+import { signTicketToken } from "@/lib/ticket-generator/ticket-token"
+
+const prisma = new PrismaClient()
+
+const confirmedBookingInclude = {
+  tickets: {
+    include: {
+      ticketType: true,
+    },
+  },
+  event: {
+    select: {
+      name: true,
+      startDate: true,
+      endDate: true,
+      location: true,
+    },
+  },
+  user: {
+    select: {
+      name: true,
+      email: true,
+    },
+  },
+} satisfies Prisma.BookingInclude
+
+type ConfirmedBooking = Prisma.BookingGetPayload<{ include: typeof confirmedBookingInclude }>
+
+export class BookingError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "BookingError"
+  }
+}
+
+// Mark a pending booking as paid, issue its tickets and send the confirmation email.
+// Safe to call more than once for the same booking: only the first call issues tickets.
+export async function confirmBooking(
+  bookingId: string,
+  payment?: Partial<Pick<PaymentResult, "paymentId" | "reference">>,
+) {
+  const confirmed = await prisma.$transaction(async (tx) => {
+    // Only move the booking out of PENDING once, even if the webhook and the client confirm concurrently
+    const { count } = await tx.booking.updateMany({
+      where: { id: bookingId, status: "PENDING" },
+      data: {
+        status: "CONFIRMED",
+        ...(payment?.paymentId ? { paymentId: payment.paymentId } : {}),
+        ...(payment?.reference ? { paymentReference: payment.reference } : {}),
+      },
+    })
+
+    if (count === 0) {
+      return null
+    }
+
+    const booking = await tx.booking.findUniqueOrThrow({ where: { id: bookingId } })
+
+    for (const item of booking.items) {
+      for (let i = 0; i < item.quantity; i++) {
+        await tx.ticket.create({
+          data: {
+            ticketNumber: `TKT-${nanoid(8)}`,
+            bookingId: booking.id,
+            ticketTypeId: item.ticketTypeId,
+          },
+        })
+      }
+    }
+
+    return tx.booking.findUniqueOrThrow({
+      where: { id: bookingId },
+      include: confirmedBookingInclude,
+    })
+  })
+
+  if (confirmed) {
+    await sendTicketConfirmationEmail(confirmed)
+    return confirmed
+  }
+
+  return prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: confirmedBookingInclude,
+  })
+}
+
+// Cancel a booking whose payment did not go through and give its tickets back to the pool
+export async function failBooking(bookingId: string) {
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.booking.updateMany({
+      where: { id: bookingId, status: "PENDING" },
+      data: { status: "CANCELLED" },
+    })
+
+    if (count === 0) {
+      return
+    }
+
+    const booking = await tx.booking.findUniqueOrThrow({ where: { id: bookingId } })
+
+    for (const item of booking.items) {
+      await tx.ticketType.update({
+        where: { id: item.ticketTypeId },
+        data: {
+          remaining: {
+            increment: item.quantity,
+          },
+        },
+      })
+    }
+
+    if (booking.promoCodeId) {
+      await releasePromoCode(tx, booking.promoCodeId)
+    }
+  })
+}
+
+// Cancel a booking that hasn't been paid for, or a free one, and give its tickets back to the pool.
+// Paid bookings have to be refunded instead so the attendee gets their money back.
+export async function cancelBooking(bookingId: string) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: {
+      tickets: true,
+    },
+  })
+
+  if (!booking) {
+    throw new BookingError("Booking not found", 404)
+  }
+
+  if (booking.status === "CANCELLED" || booking.status === "REFUNDED") {
+    throw new BookingError(`Booking is already ${booking.status.toLowerCase()}`)
+  }
+
+  // Money has changed hands, whether online or recorded as paid offline, so the attendee gets it back
+  // through a refund instead
+  if (booking.status === "CONFIRMED" && booking.totalAmount > 0) {
+    throw new BookingError("Paid bookings have to be refunded instead of cancelled")
+  }
+
+  // Tickets someone has already been let in on can't go back on sale
+  if (booking.tickets.some((ticket) => ticket.usedAt)) {
+    throw new BookingError("Bookings with checked-in tickets can't be cancelled")
+  }
+
+  const cancelled = await prisma.$transaction(async (tx) => {
+    // Only release the tickets once, even if the booking is cancelled twice at the same time
+    const { count } = await tx.booking.updateMany({
+      where: { id: bookingId, status: booking.status },
+      data: { status: "CANCELLED" },
+    })
+
+    if (count === 0) {
+      throw new BookingError("The booking changed while it was being cancelled, please try again", 409)
+    }
+
+    // Refunded tickets were already put back on sale
+    const ticketTypeCounts = booking.tickets.reduce((acc: Record<string, number>, ticket) => {
+      if (ticket.refundedAt) return acc
+      acc[ticket.ticketTypeId] = (acc[ticket.ticketTypeId] || 0) + 1
+      return acc
+    }, {})
+
+    // Bookings still awaiting payment have no tickets yet, only the reserved selection
+    if (booking.tickets.length === 0) {
+      for (const item of booking.items) {
+        ticketTypeCounts[item.ticketTypeId] = (ticketTypeCounts[item.ticketTypeId] || 0) + item.quantity
+      }
+    }
+
+    for (const [typeId, count] of Object.entries(ticketTypeCounts)) {
+      await tx.ticketType.update({
+        where: { id: typeId },
+        data: {
+          remaining: {
+            increment: count,
+          },
+        },
+      })
+    }
+
+    // An unpaid booking's promo code can be used again
+    if (booking.promoCodeId) {
+      await releasePromoCode(tx, booking.promoCodeId)
+    }
+
+    return tx.booking.findUniqueOrThrow({ where: { id: bookingId } })
+  })
+
+  // The returned tickets go to the waitlist first
+  await offerWaitlistSpots([
+    ...booking.tickets.map((ticket) => ticket.ticketTypeId),
+    ...booking.items.map((item) => item.ticketTypeId),
+  ])
+
+  return cancelled
+}
+
+// Confirm a pending booking the attendee paid for outside the app, e.g. in cash or by bank transfer,
+// recording the receipt and who took the payment. Issues and emails the tickets like any other payment.
+export async function markBookingPaid(bookingId: string, reference: string, markedPaidById: string) {
+  const { count } = await prisma.booking.updateMany({
+    where: { id: bookingId, status: "PENDING" },
+    data: { markedPaidById },
+  })
+
+  if (count === 0) {
+    const booking = await prisma.booking.findUnique({ where: { id: bookingId }, select: { status: true } })
+
+    throw booking
+      ? new BookingError(`Only pending bookings can be marked as paid, this one is ${booking.status.toLowerCase()}`)
+      : new BookingError("Booking not found", 404)
+  }
+
+  const booking = await confirmBooking(bookingId, { reference })
+
+  // Another confirmation got there first, so this payment wasn't the one that settled the booking
+  if (booking?.status !== "CONFIRMED" || booking.paymentReference !== reference) {
+    await prisma.booking.update({ where: { id: bookingId }, data: { markedPaidById: null } })
+    throw new BookingError("The booking was settled by another payment", 409)
+  }
+
+  return booking
+}
+
+// Send a confirmed booking's tickets to the attendee again
+export async function resendTickets(bookingId: string) {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: confirmedBookingInclude,
+  })
+
+  if (!booking) {
+    throw new BookingError("Booking not found", 404)
+  }
+
+  if (booking.status !== "CONFIRMED") {
+    throw new BookingError(`Only confirmed bookings have tickets to send, this one is ${booking.status.toLowerCase()}`)
+  }
+
+  if (!(await sendTicketConfirmationEmail(booking))) {
+    throw new BookingError("The email could not be sent", 502)
+  }
+}
+
+// Apply the outcome of a payment to its booking and return the booking as it now stands
+export async function settlePayment(
+  bookingId: string,
+  payment: Pick<PaymentResult, "paymentId" | "status" | "reference">,
+) {
+  if (payment.status === "FAILED") {
+    await failBooking(bookingId)
+  }
+
+  if (payment.status !== "SUCCEEDED") {
+    return prisma.booking.findUnique({
+      where: { id: bookingId },
+      include: confirmedBookingInclude,
+    })
+  }
+
+  const booking = await confirmBooking(bookingId, payment)
+
+  // The money arrived after the booking was cancelled, e.g. once its reservation had expired
+  if (booking?.status === "CANCELLED") {
+    await refundLatePayment(booking.id, payment)
+  }
+
+  return booking
+}
+
+// Apply a verified provider notification to the booking it belongs to. chargedAmount gives what the
+// provider was asked to collect for a booking total, for notifications that report the amount paid.
+export async function applyPaymentEvent(
+  providerName: string,
+  event: PaymentWebhookEvent,
+  chargedAmount = (totalAmount: number) => totalAmount,
+) {
+  const booking = await prisma.booking.findFirst({
+    where: { paymentId: event.paymentId, paymentProvider: providerName },
+    select: { id: true, totalAmount: true },
+  })
+
+  if (!booking) {
+    return null
+  }
+
+  // A payment for anything but the amount asked for doesn't pay for the booking
+  if (event.status === "SUCCEEDED" && event.amount !== undefined && event.amount !== chargedAmount(booking.totalAmount)) {
+    console.error(`Payment ${event.paymentId} of ${event.amount} does not match booking ${booking.id}`)
+    await settlePayment(booking.id, { ...event, status: "FAILED" })
+    return booking
+  }
+
+  await settlePayment(booking.id, event)
+
+  return booking
+}
+
+async function refundLatePayment(bookingId: string, payment: Pick<PaymentResult, "paymentId" | "reference">) {
+  // Record the payment on the booking first so the webhook and a client confirmation can't both refund it
+  const { count } = await prisma.booking.updateMany({
+    where: {
+      id: bookingId,
+      status: "CANCELLED",
+      OR: [{ paymentReference: null }, { paymentReference: { isSet: false } }],
+    },
+    data: { paymentReference: payment.reference || payment.paymentId },
+  })
+
+  if (count === 0) {
+    return
+  }
+
+  const booking = await prisma.booking.findUniqueOrThrow({ where: { id: bookingId } })
+
+  const refund = await prisma.refund.create({
+    data: {
+      amount: booking.totalAmount,
+      reason: "Booking was cancelled before the payment completed",
+      bookingId,
+    },
+  })
+
+  try {
+    const result = await getPaymentProvider(booking.paymentProvider).refundPayment({
+      paymentId: payment.paymentId,
+      reference: payment.reference,
+      amount: booking.totalAmount,
+      reason: refund.reason ?? undefined,
+    })
+
+    await prisma.$transaction([
+      prisma.refund.update({
+        where: { id: refund.id },
+        data: { status: result.status, providerRefundId: result.refundId },
+      }),
+      prisma.booking.update({
+        where: { id: bookingId },
+        data: { refundedAmount: result.status === "FAILED" ? 0 : booking.totalAmount },
+      }),
+    ])
+  } catch (error) {
+    console.error(`Error refunding late payment for booking ${bookingId}:`, error)
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: "FAILED" },
+    })
+  }
+}
+
+async function sendTicketConfirmationEmail(booking: ConfirmedBooking) {
+  try {
+    // Group tickets by type for the email
+    const ticketsByType = booking.tickets.reduce((acc: Map<string, { name: string; quantity: number }>, ticket) => {
+      const typeName = ticket.ticketType.name
+      const entry = acc.get(typeName) || { name: typeName, quantity: 0 }
+      entry.quantity += 1
+      acc.set(typeName, entry)
+      return acc
+    }, new Map())
+
+    // Format event date
+    const eventDate = format(new Date(booking.event.startDate), "EEEE, MMMM d, yyyy 'at' h:mm a")
+
+    // Every ticket gets its own signed QR code, so each attendee can be scanned in separately
+    const ticketCodes = await Promise.all(
+      booking.tickets.map(async (ticket) => {
+        const token = await signTicketToken({ ticketId: ticket.id, eventId: booking.eventId })
+
+        return {
+          ticketNumber: ticket.ticketNumber,
+          ticketType: ticket.ticketType.name,
+          qrCodeDataUrl: await generateQRCode(token),
+          qrCodeBuffer: await generateQRCodeBuffer(token),
+        }
+      }),
+    )
+
+    // Create ticket download URL
+    const ticketUrl = `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/bookings/${booking.id}`
+
+    // Guests issued complimentary tickets may not have an account
+    const { subject, html, text } = getTicketConfirmationEmailTemplate(
+      booking.user?.name || booking.name,
+      booking.event.name,
+      eventDate,
+      booking.event.location,
+      Array.from(ticketsByType.values()),
+      ticketCodes,
+      ticketUrl,
+    )
+
+    // Send the email with a QR code attachment per ticket
+    await sendEmail({
+      to: booking.email,
+      subject,
+      html,
+      text,
+      attachments: ticketCodes.map((ticket) => ({
+        filename: `ticket-${ticket.ticketNumber}.png`,
+        content: ticket.qrCodeBuffer,
+        contentType: "image/png",
+      })),
+    })
+
+    console.log("Ticket confirmation email sent successfully")
+    return true
+  } catch (emailError) {
+    console.error("Error sending ticket confirmation email:", emailError)
+    // Don't fail the booking if email fails
+    return false
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from "vitest"
+
+// Refunds are imported for their query fragments, nothing here sends email
+vi.mock("@/lib/email/email", () => ({}))
+
+import { getEntryRejection } from "@/lib/bookings/check-in-service"
+
+const at = new Date("2026-05-02T10:00:00Z")
+const earlier = new Date("2026-05-02T08:00:00Z")
+
+const neverScanned = { usedAt: null, lastEntryAt: null, checkedOutAt: null }
+const inside = { usedAt: earlier, lastEntryAt: earlier, checkedOutAt: null }
+const checkedOut = { usedAt: earlier, lastEntryAt: earlier, checkedOutAt: new Date("2026-05-02T09:00:00Z") }
+
+describe("getEntryRejection", () => {
+  describe("single entry tickets", () => {
+    it("let a ticket in once", () => {
+      expect(getEntryRejection(neverScanned, "SINGLE", "in", at)).toBeNull()
+      expect(getEntryRejection(inside, "SINGLE", "in", at)).toBe("ALREADY_USED")
+    })
+
+    it("treat tickets from before entry policies as single entry", () => {
+      expect(getEntryRejection({ ...neverScanned, usedAt: earlier }, null, "in", at)).toBe("ALREADY_USED")
+    })
+
+    it("can't be checked out", () => {
+      expect(getEntryRejection(inside, "SINGLE", "out", at)).toBe("NO_REENTRY")
+    })
+  })
+
+  describe("re-entry tickets", () => {
+    it("come back in after being checked out, but not while inside", () => {
+      expect(getEntryRejection(neverScanned, "REENTRY", "in", at)).toBeNull()
+      expect(getEntryRejection(inside, "REENTRY", "in", at)).toBe("ALREADY_INSIDE")
+      expect(getEntryRejection(checkedOut, "REENTRY", "in", at)).toBeNull()
+    })
+
+    it("only go out while inside", () => {
+      expect(getEntryRejection(inside, "REENTRY", "out", at)).toBeNull()
+      expect(getEntryRejection(checkedOut, "REENTRY", "out", at)).toBe("NOT_INSIDE")
+      expect(getEntryRejection(neverScanned, "REENTRY", "out", at)).toBe("NOT_INSIDE")
+    })
+
+    it("count a check-in from before entries were tracked as inside", () => {
+      expect(getEntryRejection({ ...neverScanned, usedAt: earlier }, "REENTRY", "in", at)).toBe("ALREADY_INSIDE")
+    })
+  })
+
+  describe("daily tickets", () => {
+    it("get in once a day", () => {
+      const yesterday = { ...inside, lastEntryAt: new Date("2026-05-01T10:00:00Z") }
+
+      expect(getEntryRejection(inside, "DAILY", "in", at)).toBe("ENTERED_TODAY")
+      expect(getEntryRejection(yesterday, "DAILY", "in", at)).toBeNull()
+    })
+
+    it("start a new day at midnight on the event's clock rather than the server's", () => {
+      // 23:30 and 00:30 in Nairobi, UTC+3, are the same UTC day but different days at the venue
+      const lateEntry = { ...inside, lastEntryAt: new Date("2026-05-01T20:30:00Z") }
+      const afterMidnight = new Date("2026-05-01T21:30:00Z")
+
+      expect(getEntryRejection(lateEntry, "DAILY", "in", afterMidnight, -180)).toBeNull()
+      expect(getEntryRejection(lateEntry, "DAILY", "in", afterMidnight)).toBe("ENTERED_TODAY")
+    })
+
+    it("can't be checked out", () => {
+      expect(getEntryRejection(inside, "DAILY", "out", at)).toBe("NO_REENTRY")
+    })
+  })
+})
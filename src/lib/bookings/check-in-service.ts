@@ -0,0 +1,546 @@
+import { Prisma, PrismaClient, type EntryPolicy, type EventSession, type ScanResult } from "@prisma/client"
+import { notRefunded, notUsed } from "@/lib/bookings/refund-service"
+import { SUCCESSFUL_SCAN_RESULTS, SUPERVISOR_SCAN_RESULTS } from "@/lib/bookings/scan-results"
+import { grantsSession } from "@/lib/bookings/event-sessions"
+import { startOfDayInTimezone } from "@/lib/events/timezone"
+
+const prisma = new PrismaClient()
+
+// How many scans the check-in dashboard lists
+const RECENT_SCAN_COUNT = 20
+
+// Width of the arrivals chart's bars
+const ARRIVAL_BUCKET_MINUTES = 15
+
+// A check-in recorded by a scanner while it had no connection
+export interface OfflineCheckIn {
+  ticketId: string
+  scannedAt: string
+  result?: "ALREADY_USED" // The scanner turned the ticket away, only the attempt is recorded
+}
+
+export type CheckInSyncStatus =
+  // Recorded as the ticket's check-in
+  | "CHECKED_IN"
+  // The ticket was also checked in elsewhere, the earliest scan is kept
+  | "ALREADY_CHECKED_IN"
+  // The ticket isn't valid for this event any more, e.g. it was refunded after the scanner went offline
+  | "REJECTED"
+  // A scan the device already turned away, kept for the ticket's history
+  | "RECORDED"
+
+export interface CheckInSyncResult {
+  ticketId: string
+  status: CheckInSyncStatus
+  usedAt: string | null
+}
+
+// Scanners either let people in or, for re-entry tickets, let them out
+export type EntryDirection = "in" | "out"
+
+interface EntryState {
+  usedAt: Date | null
+  lastEntryAt: Date | null
+  checkedOutAt: Date | null
+}
+
+export const notEntered = {
+  OR: [{ lastEntryAt: null }, { lastEntryAt: { isSet: false } }],
+} satisfies Prisma.TicketWhereInput
+
+export const notCheckedOut = {
+  OR: [{ checkedOutAt: null }, { checkedOutAt: { isSet: false } }],
+} satisfies Prisma.TicketWhereInput
+
+// Tickets checked in before entries were tracked only have usedAt
+function isInside(ticket: EntryState) {
+  return (ticket.lastEntryAt ?? ticket.usedAt) !== null && ticket.checkedOutAt === null
+}
+
+// The rule that stops a ticket going in or out right now, if any. Days for DAILY tickets start at
+// midnight on the event's clock, see src/lib/events/timezone.ts.
+export function getEntryRejection(
+  ticket: EntryState,
+  policy: EntryPolicy | null,
+  direction: EntryDirection,
+  at: Date,
+  timezoneOffset = 0,
+): ScanResult | null {
+  if (direction === "out") {
+    if (policy !== "REENTRY") return "NO_REENTRY"
+    return isInside(ticket) ? null : "NOT_INSIDE"
+  }
+
+  switch (policy) {
+    case "REENTRY":
+      return isInside(ticket) ? "ALREADY_INSIDE" : null
+    case "DAILY": {
+      const lastEntry = ticket.lastEntryAt ?? ticket.usedAt
+      return lastEntry && lastEntry >= startOfDayInTimezone(at, timezoneOffset) ? "ENTERED_TODAY" : null
+    }
+    default:
+      return ticket.usedAt ? "ALREADY_USED" : null
+  }
+}
+
+// The same rules as a query, so two scanners can't both let a ticket through
+function getEntryCondition(
+  policy: EntryPolicy | null,
+  direction: EntryDirection,
+  at: Date,
+  timezoneOffset: number,
+): Prisma.TicketWhereInput {
+  if (direction === "out") {
+    return { AND: [{ OR: [{ lastEntryAt: { not: null } }, { usedAt: { not: null } }] }, notCheckedOut] }
+  }
+
+  switch (policy) {
+    case "REENTRY":
+      return { OR: [{ checkedOutAt: { not: null } }, { AND: [notEntered, notUsed] }] }
+    case "DAILY": {
+      const today = startOfDayInTimezone(at, timezoneOffset)
+      return {
+        AND: [
+          { OR: [...notEntered.OR, { lastEntryAt: { lt: today } }] },
+          { OR: [...notUsed.OR, { usedAt: { lt: today } }] },
+        ],
+      }
+    }
+    default:
+      return notUsed
+  }
+}
+
+// Check a ticket in or out under its ticket type's entry policy. Returns the scan's outcome,
+// which is the rule's rejection if another scanner got there first.
+export async function recordEntry(
+  ticket: { id: string; ticketType: { entryPolicy: EntryPolicy | null } },
+  direction: EntryDirection,
+  at: Date,
+  timezoneOffset = 0,
+): Promise<ScanResult> {
+  const policy = ticket.ticketType.entryPolicy
+
+  if (direction === "out") {
+    if (policy !== "REENTRY") return "NO_REENTRY"
+
+    const { count } = await prisma.ticket.updateMany({
+      where: { id: ticket.id, AND: [getEntryCondition(policy, "out", at, timezoneOffset)] },
+      data: { checkedOutAt: at },
+    })
+
+    if (count === 0) return "NOT_INSIDE"
+
+    const visit = await prisma.ticketEntry.findFirst({
+      where: { ticketId: ticket.id, OR: [{ checkedOutAt: null }, { checkedOutAt: { isSet: false } }] },
+      orderBy: { checkedInAt: "desc" },
+    })
+
+    if (visit) {
+      await prisma.ticketEntry.update({
+        where: { id: visit.id },
+        data: { checkedOutAt: at },
+      })
+    }
+
+    return "CHECKED_OUT"
+  }
+
+  // A single-entry ticket is used up by the same write that lets it in
+  const singleEntry = policy !== "REENTRY" && policy !== "DAILY"
+
+  const { count } = await prisma.ticket.updateMany({
+    where: { id: ticket.id, AND: [getEntryCondition(policy, "in", at, timezoneOffset)] },
+    data: { lastEntryAt: at, checkedOutAt: null, ...(singleEntry ? { usedAt: at } : {}) },
+  })
+
+  if (count === 0) {
+    const current = await prisma.ticket.findUniqueOrThrow({ where: { id: ticket.id } })
+    return getEntryRejection(current, policy, "in", at) ?? "ALREADY_USED"
+  }
+
+  if (!singleEntry) {
+    await prisma.ticket.updateMany({
+      where: { id: ticket.id, ...notUsed },
+      data: { usedAt: at },
+    })
+  }
+
+  await prisma.ticketEntry.create({
+    data: { ticketId: ticket.id, checkedInAt: at },
+  })
+
+  return "CHECKED_IN"
+}
+
+// The rule that stops a ticket getting into a session right now, if any
+export async function getSessionRejection(
+  ticket: { id: string; ticketType: { sessionIds: string[] } },
+  session: Pick<EventSession, "id" | "endDate" | "capacity" | "checkedInCount">,
+  at: Date,
+): Promise<ScanResult | null> {
+  if (!grantsSession(ticket.ticketType, session.id)) return "NO_SESSION_ACCESS"
+  if (session.endDate < at) return "SESSION_ENDED"
+
+  const checkIn = await prisma.sessionCheckIn.findUnique({
+    where: { sessionId_ticketId: { sessionId: session.id, ticketId: ticket.id } },
+  })
+
+  if (checkIn) return "ALREADY_USED"
+  if (session.capacity !== null && session.checkedInCount >= session.capacity) return "SESSION_FULL"
+  return null
+}
+
+// Check a ticket in to a session, keeping to the session's capacity
+export async function recordSessionCheckIn(
+  ticketId: string,
+  session: Pick<EventSession, "id" | "capacity">,
+  at: Date,
+): Promise<ScanResult> {
+  try {
+    await prisma.sessionCheckIn.create({
+      data: { sessionId: session.id, ticketId, checkedInAt: at },
+    })
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      return "ALREADY_USED"
+    }
+    throw error
+  }
+
+  const { count } = await prisma.eventSession.updateMany({
+    where: {
+      id: session.id,
+      ...(session.capacity !== null ? { checkedInCount: { lt: session.capacity } } : {}),
+    },
+    data: { checkedInCount: { increment: 1 } },
+  })
+
+  // The session filled up while this ticket was being scanned
+  if (count === 0) {
+    await prisma.sessionCheckIn.delete({
+      where: { sessionId_ticketId: { sessionId: session.id, ticketId } },
+    })
+    return "SESSION_FULL"
+  }
+
+  return "CHECKED_IN"
+}
+
+// Reverse a ticket's latest check-in, leaving it as it was before that scan.
+// Returns false if there's nothing to undo.
+export async function undoLatestCheckIn(ticketId: string) {
+  const latest = await prisma.ticketEntry.findFirst({
+    where: { ticketId },
+    orderBy: { checkedInAt: "desc" },
+  })
+
+  // Tickets checked in before entries were tracked are simply cleared
+  if (!latest) {
+    const { count } = await prisma.ticket.updateMany({
+      where: { id: ticketId, usedAt: { not: null } },
+      data: { usedAt: null, lastEntryAt: null, checkedOutAt: null },
+    })
+    return count > 0
+  }
+
+  const { count } = await prisma.ticketEntry.deleteMany({ where: { id: latest.id } })
+
+  // Someone else undid it at the same moment
+  if (count === 0) return false
+
+  const remaining = await prisma.ticketEntry.findMany({
+    where: { ticketId },
+    orderBy: { checkedInAt: "asc" },
+  })
+  const previous = remaining[remaining.length - 1]
+
+  await prisma.ticket.update({
+    where: { id: ticketId },
+    data: {
+      usedAt: remaining[0]?.checkedInAt ?? null,
+      lastEntryAt: previous?.checkedInAt ?? null,
+      checkedOutAt: previous?.checkedOutAt ?? null,
+    },
+  })
+
+  return true
+}
+
+// Tickets that should be let in to an event, for scanners to download before doors open
+export async function getCheckInManifest(eventId: string) {
+  const tickets = await prisma.ticket.findMany({
+    where: {
+      ...notRefunded,
+      booking: { eventId, status: "CONFIRMED" },
+    },
+    select: {
+      id: true,
+      ticketNumber: true,
+      usedAt: true,
+      lastEntryAt: true,
+      checkedOutAt: true,
+      ticketType: { select: { name: true, entryPolicy: true } },
+      booking: { select: { name: true } },
+    },
+  })
+
+  const now = new Date()
+
+  return {
+    eventId,
+    generatedAt: new Date().toISOString(),
+    tickets: tickets.map((ticket) => ({
+      id: ticket.id,
+      ticketNumber: ticket.ticketNumber,
+      ticketType: ticket.ticketType.name,
+      attendee: ticket.booking.name,
+      // Offline scanners turn away any ticket with a usedAt, so it's only sent while the ticket can't get in
+      usedAt: getEntryRejection(ticket, ticket.ticketType.entryPolicy, "in", now)
+        ? ((ticket.lastEntryAt ?? ticket.usedAt)?.toISOString() ?? null)
+        : null,
+    })),
+  }
+}
+
+// Keep a record of a scan, whatever its outcome
+export async function recordScanEvent(data: {
+  eventId: string
+  operatorId: string
+  result: ScanResult
+  ticketId?: string
+  sessionId?: string
+  deviceId?: string
+  createdAt?: Date
+}) {
+  try {
+    await prisma.scanEvent.create({ data })
+  } catch (error) {
+    // Losing an audit entry must not stop people getting in
+    console.error("Error recording scan event:", error)
+  }
+}
+
+// Why an offline check-in can't stand, if it can't
+function getSyncRejection(
+  ticket: { refundedAt: Date | null; booking: { eventId: string; status: string } } | null,
+  eventId: string,
+): ScanResult | null {
+  if (!ticket) return "NOT_FOUND"
+  if (ticket.booking.eventId !== eventId) return "WRONG_EVENT"
+  if (ticket.booking.status !== "CONFIRMED") return "NOT_CONFIRMED"
+  if (ticket.refundedAt) return "REFUNDED"
+  return null
+}
+
+// Apply check-ins queued by an offline scanner. When the same ticket was scanned on more than one
+// device the earliest scan wins, and every later one is reported back so staff can follow it up.
+export async function syncOfflineCheckIns(
+  eventId: string,
+  operatorId: string,
+  deviceId: string | undefined,
+  checkIns: OfflineCheckIn[],
+) {
+  const results: CheckInSyncResult[] = []
+
+  for (const checkIn of checkIns) {
+    const scannedAt = new Date(checkIn.scannedAt)
+
+    const ticket = await prisma.ticket.findUnique({
+      where: { id: checkIn.ticketId },
+      include: {
+        booking: { select: { eventId: true, status: true } },
+        ticketType: { select: { entryPolicy: true } },
+      },
+    })
+
+    if (checkIn.result === "ALREADY_USED") {
+      await recordScanEvent({
+        eventId,
+        operatorId,
+        deviceId,
+        result: "ALREADY_USED",
+        ticketId: ticket?.booking.eventId === eventId ? ticket.id : undefined,
+        createdAt: scannedAt,
+      })
+      results.push({ ticketId: checkIn.ticketId, status: "RECORDED", usedAt: ticket?.usedAt?.toISOString() ?? null })
+      continue
+    }
+
+    const rejection = getSyncRejection(ticket, eventId)
+
+    if (!ticket || rejection) {
+      await recordScanEvent({
+        eventId,
+        operatorId,
+        deviceId,
+        result: rejection ?? "NOT_FOUND",
+        ticketId: ticket?.id,
+        createdAt: scannedAt,
+      })
+      results.push({ ticketId: checkIn.ticketId, status: "REJECTED", usedAt: ticket?.usedAt?.toISOString() ?? null })
+      continue
+    }
+
+    // Only the first device to sync sets the check-in time...
+    const result = await recordEntry(ticket, "in", scannedAt)
+
+    if (result === "ALREADY_USED") {
+      // ...though a device that scanned earlier but synced later moves a single entry back
+      await prisma.ticket.updateMany({
+        where: { id: ticket.id, usedAt: { gt: scannedAt } },
+        data: { usedAt: scannedAt, lastEntryAt: scannedAt },
+      })
+      await prisma.ticketEntry.updateMany({
+        where: { ticketId: ticket.id, checkedInAt: { gt: scannedAt } },
+        data: { checkedInAt: scannedAt },
+      })
+    }
+
+    await recordScanEvent({
+      eventId,
+      operatorId,
+      deviceId,
+      result,
+      ticketId: ticket.id,
+      createdAt: scannedAt,
+    })
+
+    const { usedAt } = await prisma.ticket.findUniqueOrThrow({
+      where: { id: ticket.id },
+      select: { usedAt: true },
+    })
+
+    results.push({
+      ticketId: ticket.id,
+      status: result === "CHECKED_IN" ? "CHECKED_IN" : "ALREADY_CHECKED_IN",
+      usedAt: usedAt?.toISOString() ?? null,
+    })
+  }
+
+  return results
+}
+
+// Changes whenever a scan is recorded, so live views know when to reload their numbers
+export async function getCheckInVersion(eventId: string) {
+  const [count, latest] = await Promise.all([
+    prisma.scanEvent.count({ where: { eventId } }),
+    prisma.scanEvent.findFirst({
+      where: { eventId },
+      orderBy: { id: "desc" },
+      select: { id: true },
+    }),
+  ])
+
+  return `${count}:${latest?.id ?? ""}`
+}
+
+// Everything the check-in dashboard shows for an event
+export async function getCheckInStats(eventId: string) {
+  const [ticketTypes, tickets, recentScans, rejectedScans, sessions] = await Promise.all([
+    prisma.ticketType.findMany({
+      where: { eventId },
+      select: { id: true, name: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.ticket.findMany({
+      where: {
+        ...notRefunded,
+        booking: { eventId, status: "CONFIRMED" },
+      },
+      select: { ticketTypeId: true, usedAt: true },
+    }),
+    prisma.scanEvent.findMany({
+      where: { eventId },
+      orderBy: { createdAt: "desc" },
+      take: RECENT_SCAN_COUNT,
+      include: {
+        ticket: {
+          select: {
+            ticketNumber: true,
+            ticketType: { select: { name: true } },
+            booking: { select: { name: true } },
+          },
+        },
+        operator: { select: { name: true, email: true } },
+        session: { select: { name: true } },
+      },
+    }),
+    prisma.scanEvent.groupBy({
+      by: ["result"],
+      where: { eventId, result: { notIn: [...SUCCESSFUL_SCAN_RESULTS, ...SUPERVISOR_SCAN_RESULTS] } },
+      _count: { _all: true },
+    }),
+    prisma.eventSession.findMany({
+      where: { eventId },
+      select: { id: true, name: true, room: true, startDate: true, capacity: true, checkedInCount: true },
+      orderBy: { startDate: "asc" },
+    }),
+  ])
+
+  const byTicketType = ticketTypes.map((ticketType) => {
+    const sold = tickets.filter((ticket) => ticket.ticketTypeId === ticketType.id)
+    return {
+      id: ticketType.id,
+      name: ticketType.name,
+      sold: sold.length,
+      checkedIn: sold.filter((ticket) => ticket.usedAt).length,
+    }
+  })
+
+  // Arrivals counted into fixed buckets, with empty buckets kept so the chart's time axis is even
+  const bucketSize = ARRIVAL_BUCKET_MINUTES * 60 * 1000
+  const arrivalCounts = new Map<number, number>()
+  for (const ticket of tickets) {
+    if (ticket.usedAt) {
+      const bucket = Math.floor(ticket.usedAt.getTime() / bucketSize) * bucketSize
+      arrivalCounts.set(bucket, (arrivalCounts.get(bucket) ?? 0) + 1)
+    }
+  }
+
+  const buckets = [...arrivalCounts.keys()]
+  const arrivals = []
+  if (buckets.length > 0) {
+    for (let bucket = Math.min(...buckets); bucket <= Math.max(...buckets); bucket += bucketSize) {
+      arrivals.push({ start: new Date(bucket).toISOString(), count: arrivalCounts.get(bucket) ?? 0 })
+    }
+  }
+
+  return {
+    totals: {
+      sold: tickets.length,
+      checkedIn: tickets.filter((ticket) => ticket.usedAt).length,
+    },
+    ticketTypes: byTicketType,
+    arrivals,
+    recentScans: recentScans.map((scan) => ({
+      id: scan.id,
+      ticketId: scan.ticketId,
+      result: scan.result,
+      scannedAt: scan.createdAt.toISOString(),
+      ticketNumber: scan.ticket?.ticketNumber ?? null,
+      ticketType: scan.ticket?.ticketType.name ?? null,
+      attendee: scan.ticket?.booking.name ?? null,
+      operator: scan.operator.name || scan.operator.email,
+      session: scan.session?.name ?? null,
+    })),
+    sessions: sessions.map((session) => ({
+      id: session.id,
+      name: session.name,
+      room: session.room,
+      startDate: session.startDate.toISOString(),
+      capacity: session.capacity,
+      checkedIn: session.checkedInCount,
+    })),
+    rejections: rejectedScans
+      .map((group) => ({ result: group.result, count: group._count._all }))
+      .sort((a, b) => b.count - a.count),
+  }
+}
+
+export type CheckInStats = Awaited<ReturnType<typeof getCheckInStats>>
+
+// Scanners send their device ID with each scan, anything else is ignored
+export function parseDeviceId(value: unknown) {
+  return typeof value === "string" && /^[A-Za-z0-9-]{1,64}$/.test(value) ? value : undefined
+}
@@ -0,0 +1,21 @@
+import type { EntryPolicy } from "@prisma/client"
+
+// Unset on ticket types created before entry policies existed
+export const DEFAULT_ENTRY_POLICY: EntryPolicy = "SINGLE"
+
+export const ENTRY_POLICY_LABELS: Record<EntryPolicy, string> = {
+  SINGLE: "Single entry",
+  REENTRY: "Re-entry allowed",
+  DAILY: "One entry per day",
+}
+
+// Printed on tickets so attendees know what to expect at the door
+export const ENTRY_POLICY_NOTES: Record<EntryPolicy, string> = {
+  SINGLE: "This ticket is valid for one-time entry only.",
+  REENTRY: "You may leave and come back. Have this ticket scanned each time you go out and come in.",
+  DAILY: "This ticket is valid for one entry on each day of the event.",
+}
+
+export function isEntryPolicy(value: unknown): value is EntryPolicy {
+  return typeof value === "string" && Object.keys(ENTRY_POLICY_LABELS).includes(value)
+}
@@ -0,0 +1,74 @@
+import { PrismaClient, type Prisma, type TicketType } from "@prisma/client"
+import { isObjectId } from "@/lib/object-id"
+
+const prisma = new PrismaClient()
+
+// Ticket types without any sessions chosen get into all of them
+export function grantsSession(ticketType: Pick<TicketType, "sessionIds">, sessionId: string) {
+  return ticketType.sessionIds.length === 0 || ticketType.sessionIds.includes(sessionId)
+}
+
+// Check a session sent from the agenda form; sessions have to take place during their event
+export function parseSessionInput(data: Record<string, unknown>, event: { startDate: Date; endDate: Date }) {
+  const name = typeof data.name === "string" ? data.name.trim() : ""
+
+  if (!name) {
+    return { error: "Session name is required" }
+  }
+
+  const startDate = new Date(String(data.startDate))
+  const endDate = new Date(String(data.endDate))
+
+  if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+    return { error: "Sessions need a start and end time" }
+  }
+
+  if (endDate <= startDate) {
+    return { error: "A session must end after it starts" }
+  }
+
+  if (startDate < event.startDate || endDate > event.endDate) {
+    return { error: "Sessions must take place during the event" }
+  }
+
+  const optionalText = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : null)
+  const capacity =
+    data.capacity === undefined || data.capacity === null || data.capacity === ""
+      ? null
+      : Number.parseInt(String(data.capacity))
+
+  if (capacity !== null && !(capacity > 0)) {
+    return { error: "Capacity must be at least 1" }
+  }
+
+  return {
+    data: {
+      name,
+      description: optionalText(data.description),
+      startDate,
+      endDate,
+      room: optionalText(data.room),
+      capacity,
+    } satisfies Omit<Prisma.EventSessionUncheckedCreateInput, "eventId">,
+  }
+}
+
+// Sessions picked for a ticket type, which must all belong to its event. Undefined when none were sent.
+export async function parseTicketTypeSessionIds(eventId: string, value: unknown) {
+  if (value === undefined) {
+    return { sessionIds: undefined }
+  }
+
+  if (!Array.isArray(value) || !value.every(isObjectId)) {
+    return { error: "Sessions must be a list of session IDs" }
+  }
+
+  const sessionIds = [...new Set(value as string[])]
+  const found = sessionIds.length > 0 ? await prisma.eventSession.count({ where: { eventId, id: { in: sessionIds } } }) : 0
+
+  if (found !== sessionIds.length) {
+    return { error: "Ticket types can only include this event's sessions" }
+  }
+
+  return { sessionIds }
+}
@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+// An in-memory stand-in for the parts of Prisma a guest import uses: the ticket type guests get, the
+// guests who already have complimentary tickets for the event, and the bookings an import makes
+const db = vi.hoisted(() => {
+  const state = {
+    ticketType: { id: "comp", name: "Complimentary", remaining: 5, eventId: "event-1" } as {
+      id: string
+      name: string
+      remaining: number
+      eventId: string
+    } | null,
+    issuedEmails: [] as string[],
+    bookings: [] as { id: string; expiresAt?: Date }[],
+  }
+
+  class FakePrismaClient {
+    user = {
+      async findFirst() {
+        return null
+      },
+    }
+
+    ticketType = {
+      async findUnique() {
+        return state.ticketType
+      },
+      async updateMany({ data }: { data: { remaining: { decrement: number } } }) {
+        state.ticketType!.remaining -= data.remaining.decrement
+        return { count: 1 }
+      },
+    }
+
+    booking = {
+      async findMany() {
+        return state.issuedEmails.map((email) => ({ email }))
+      },
+      async create({ data }: { data: { expiresAt?: Date } }) {
+        const booking = { id: `booking-${state.bookings.length + 1}`, ...data }
+        state.bookings.push(booking)
+        return booking
+      },
+    }
+
+    async $transaction<T>(callback: (tx: FakePrismaClient) => Promise<T>) {
+      return callback(this)
+    }
+  }
+
+  function reset() {
+    state.ticketType = { id: "comp", name: "Complimentary", remaining: 5, eventId: "event-1" }
+    state.issuedEmails = []
+    state.bookings = []
+  }
+
+  return { state, FakePrismaClient, reset }
+})
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: db.FakePrismaClient,
+}))
+vi.mock("@/lib/bookings/booking-service", () => ({ confirmBooking: vi.fn() }))
+
+import { confirmBooking } from "@/lib/bookings/booking-service"
+import { GuestImportError, importGuests, MAX_GUESTS_PER_IMPORT, readGuestCsv } from "@/lib/bookings/guest-list"
+
+function dryRun(guests: Record<string, unknown>[]) {
+  return importGuests({ eventId: "event-1", ticketTypeId: "comp", guests, dryRun: true, issuedById: "organiser" })
+}
+
+describe("readGuestCsv", () => {
+  it("reads guests by header name and numbers them by line in the file", () => {
+    const guests = readGuestCsv("\uFEFFEmail,Name,Quantity\r\nana@example.com, Ana ,2\r\n\r\nben@example.com,Ben,\r\n")
+
+    expect(guests).toEqual([
+      { row: 2, email: "ana@example.com", name: "Ana", quantity: "2" },
+      { row: 4, email: "ben@example.com", name: "Ben", quantity: "" },
+    ])
+  })
+
+  it("needs name and email columns", () => {
+    expect(() => readGuestCsv("name,phone\nAna,0712345678")).toThrow(GuestImportError)
+  })
+})
+
+describe("importGuests dry run", () => {
+  beforeEach(() => {
+    db.reset()
+  })
+
+  it("marks valid guests ready, defaulting to one ticket each", async () => {
+    const { rows, summary } = await dryRun([
+      { name: "Ana", email: "ana@example.com" },
+      { name: "Ben", email: "ben@example.com", phone: "0712345678", quantity: 2 },
+    ])
+
+    expect(rows.map((row) => [row.status, row.quantity])).toEqual([
+      ["READY", 1],
+      ["READY", 2],
+    ])
+    expect(summary).toEqual({ ready: 2, issued: 0, failed: 0 })
+  })
+
+  it.each([
+    [{ name: "", email: "ana@example.com" }, "Name is required"],
+    [{ name: "Ana", email: "ana@example" }, "Enter a valid email address"],
+    [{ name: "Ana", email: "ana@example.com", quantity: 0 }, "Quantity must be a whole number from 1 to 10"],
+    [{ name: "Ana", email: "ana@example.com", quantity: "1.5" }, "Quantity must be a whole number from 1 to 10"],
+  ])("reports %j", async (guest, error) => {
+    const { rows } = await dryRun([guest])
+
+    expect(rows[0]).toMatchObject({ status: "ERROR", error })
+  })
+
+  it("reports a guest listed twice, whatever the case of their email", async () => {
+    const { rows } = await dryRun([
+      { row: 2, name: "Ana", email: "ana@example.com" },
+      { row: 3, name: "Ana K", email: "ANA@example.com" },
+    ])
+
+    expect(rows[1]).toMatchObject({ status: "ERROR", error: "Same email as row 2" })
+  })
+
+  it("reports a guest who already has complimentary tickets", async () => {
+    db.state.issuedEmails = ["Ana@Example.com"]
+
+    const { rows } = await dryRun([{ name: "Ana", email: "ana@example.com" }])
+
+    expect(rows[0]).toMatchObject({ status: "ERROR", error: "Already has complimentary tickets for this event" })
+  })
+
+  it("reports the guests past the tickets that are left", async () => {
+    const { rows } = await dryRun([
+      { name: "Ana", email: "ana@example.com", quantity: 4 },
+      { name: "Ben", email: "ben@example.com", quantity: 2 },
+      { name: "Cy", email: "cy@example.com", quantity: 1 },
+    ])
+
+    expect(rows.map((row) => row.error)).toEqual([undefined, "Only 1 Complimentary tickets left", undefined])
+  })
+
+  it("refuses an empty list, an oversized one and a ticket type from another event", async () => {
+    await expect(dryRun([])).rejects.toThrow("Add at least one guest")
+    await expect(dryRun(Array.from({ length: MAX_GUESTS_PER_IMPORT + 1 }, () => ({})))).rejects.toThrow(
+      `Import at most ${MAX_GUESTS_PER_IMPORT} guests at a time`,
+    )
+
+    db.state.ticketType = { ...db.state.ticketType!, eventId: "event-2" }
+    await expect(dryRun([{ name: "Ana", email: "ana@example.com" }])).rejects.toMatchObject({ status: 404 })
+  })
+})
+
+describe("importGuests", () => {
+  beforeEach(() => {
+    db.reset()
+    vi.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  it("leaves a booking that couldn't be confirmed for the reservation sweep to release", async () => {
+    vi.mocked(confirmBooking).mockRejectedValueOnce(new Error("Connection lost"))
+
+    const { rows } = await importGuests({
+      eventId: "event-1",
+      ticketTypeId: "comp",
+      guests: [{ name: "Ana", email: "ana@example.com", quantity: 2 }],
+      dryRun: false,
+      issuedById: "organiser",
+    })
+
+    expect(rows[0]).toMatchObject({ status: "ERROR", error: "Tickets could not be issued" })
+    expect(db.state.ticketType?.remaining).toBe(3)
+    expect(db.state.bookings[0].expiresAt!.getTime()).toBeGreaterThan(Date.now())
+  })
+})
@@ -0,0 +1,213 @@
+import { PrismaClient } from "@prisma/client"
+import { confirmBooking } from "@/lib/bookings/booking-service"
+import { parseCsv } from "@/lib/csv"
+
+const prisma = new PrismaClient()
+
+export const MAX_GUESTS_PER_IMPORT = 500
+export const MAX_TICKETS_PER_GUEST = 10
+
+// A guest booking is confirmed straight after it's made. If that fails it's left PENDING, and the
+// reservation sweep releases its tickets once this has passed.
+const GUEST_BOOKING_EXPIRY_MINUTES = 15
+
+export class GuestImportError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "GuestImportError"
+  }
+}
+
+// READY rows would be issued, ISSUED rows were, and ERROR rows are skipped with the reason
+export type GuestRowStatus = "READY" | "ISSUED" | "ERROR"
+
+export interface GuestRow {
+  row: number // Line in the uploaded file, or position in the list for guests added by hand
+  name: string
+  email: string
+  phone: string
+  quantity: number
+  status: GuestRowStatus
+  error?: string
+  bookingId?: string
+}
+
+export interface GuestImportRequest {
+  eventId: string
+  ticketTypeId: string
+  guests: Record<string, unknown>[]
+  dryRun: boolean
+  issuedById: string
+}
+
+// Guests from an uploaded CSV. The header row needs name and email columns, phone and quantity are optional.
+export function readGuestCsv(text: string) {
+  const [header, ...lines] = parseCsv(text)
+  const columns = (header ?? []).map((cell) => cell.trim().toLowerCase())
+
+  if (!columns.includes("name") || !columns.includes("email")) {
+    throw new GuestImportError("The CSV needs a header row with name and email columns")
+  }
+
+  // Blank lines are skipped, but still counted so row numbers match the file
+  return lines.flatMap((cells, index) =>
+    cells.some((cell) => cell.trim())
+      ? [
+          {
+            row: index + 2,
+            ...Object.fromEntries(columns.map((column, position) => [column, cells[position]?.trim() ?? ""])),
+          },
+        ]
+      : [],
+  )
+}
+
+function toGuestRow(guest: Record<string, unknown>, index: number): GuestRow {
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "")
+  const quantityValue = guest.quantity === undefined || guest.quantity === "" ? 1 : Number(guest.quantity)
+
+  const row: GuestRow = {
+    row: typeof guest.row === "number" ? guest.row : index + 1,
+    name: text(guest.name),
+    email: text(guest.email),
+    phone: text(guest.phone),
+    quantity: quantityValue,
+    status: "READY",
+  }
+
+  const error = !row.name
+    ? "Name is required"
+    : !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(row.email)
+      ? "Enter a valid email address"
+      : !Number.isInteger(row.quantity) || row.quantity < 1 || row.quantity > MAX_TICKETS_PER_GUEST
+        ? `Quantity must be a whole number from 1 to ${MAX_TICKETS_PER_GUEST}`
+        : undefined
+
+  return error ? { ...row, status: "ERROR", error } : row
+}
+
+// Validate a guest list and, unless it's a dry run, issue complimentary tickets to every valid guest.
+// Guests repeated in the list, or who already have complimentary tickets for the event, are reported
+// rather than issued twice. Each issued guest gets the usual confirmation email with their tickets.
+export async function importGuests(request: GuestImportRequest) {
+  if (request.guests.length === 0) {
+    throw new GuestImportError("Add at least one guest")
+  }
+
+  if (request.guests.length > MAX_GUESTS_PER_IMPORT) {
+    throw new GuestImportError(`Import at most ${MAX_GUESTS_PER_IMPORT} guests at a time`)
+  }
+
+  const ticketType = await prisma.ticketType.findUnique({
+    where: { id: request.ticketTypeId },
+    select: { id: true, name: true, remaining: true, eventId: true },
+  })
+
+  if (!ticketType || ticketType.eventId !== request.eventId) {
+    throw new GuestImportError("Ticket type not found", 404)
+  }
+
+  const existing = await prisma.booking.findMany({
+    where: { eventId: request.eventId, status: "CONFIRMED", issuedById: { not: null } },
+    select: { email: true },
+  })
+  const issuedEmails = new Set(existing.map((booking) => booking.email.toLowerCase()))
+  const seenEmails = new Map<string, number>()
+  let remaining = ticketType.remaining
+
+  const rows = request.guests.map((guest, index) => {
+    const row = toGuestRow(guest, index)
+    if (row.status === "ERROR") return row
+
+    const email = row.email.toLowerCase()
+    const firstRow = seenEmails.get(email)
+
+    if (firstRow !== undefined) {
+      return { ...row, status: "ERROR" as const, error: `Same email as row ${firstRow}` }
+    }
+    seenEmails.set(email, row.row)
+
+    if (issuedEmails.has(email)) {
+      return { ...row, status: "ERROR" as const, error: "Already has complimentary tickets for this event" }
+    }
+
+    if (row.quantity > remaining) {
+      return { ...row, status: "ERROR" as const, error: `Only ${remaining} ${ticketType.name} tickets left` }
+    }
+    remaining -= row.quantity
+
+    return row
+  })
+
+  if (!request.dryRun) {
+    // One guest at a time, so a guest that can't be issued doesn't hold up the rest
+    for (const [index, row] of rows.entries()) {
+      if (row.status !== "READY") continue
+
+      try {
+        rows[index] = { ...row, status: "ISSUED", bookingId: await issueGuestTickets(request, ticketType, row) }
+      } catch (error) {
+        console.error(`Error issuing guest tickets for row ${row.row}:`, error)
+        rows[index] = {
+          ...row,
+          status: "ERROR",
+          error: error instanceof GuestImportError ? error.message : "Tickets could not be issued",
+        }
+      }
+    }
+  }
+
+  return {
+    rows,
+    summary: {
+      ready: rows.filter((row) => row.status === "READY").length,
+      issued: rows.filter((row) => row.status === "ISSUED").length,
+      failed: rows.filter((row) => row.status === "ERROR").length,
+    },
+  }
+}
+
+// Take the guest's tickets out of the pool and book them free of charge, then confirm the booking
+// the same way a paid one is, which issues the tickets and emails them
+async function issueGuestTickets(
+  request: GuestImportRequest,
+  ticketType: { id: string; name: string },
+  guest: GuestRow,
+) {
+  // Guests with an account see the booking in their dashboard, anyone else's belongs to no one
+  const user = await prisma.user.findFirst({
+    where: { email: { equals: guest.email, mode: "insensitive" } },
+    select: { id: true },
+  })
+
+  const booking = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.ticketType.updateMany({
+      where: { id: ticketType.id, remaining: { gte: guest.quantity } },
+      data: { remaining: { decrement: guest.quantity } },
+    })
+
+    if (count === 0) {
+      throw new GuestImportError(`Not enough ${ticketType.name} tickets left`)
+    }
+
+    return tx.booking.create({
+      data: {
+        name: guest.name,
+        email: guest.email,
+        phone: guest.phone,
+        totalAmount: 0,
+        items: [{ ticketTypeId: ticketType.id, name: ticketType.name, price: 0, quantity: guest.quantity }],
+        issuedById: request.issuedById,
+        userId: user?.id,
+        eventId: request.eventId,
+        expiresAt: new Date(Date.now() + GUEST_BOOKING_EXPIRY_MINUTES * 60 * 1000),
+      },
+    })
+  })
+
+  await confirmBooking(booking.id)
+  return booking.id
+}
@@ -0,0 +1,341 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+// An in-memory stand-in for the parts of Prisma the hold service uses. Every call yields before it runs,
+// so holds started together interleave the way concurrent requests do, while each conditional update
+// applies in one step like a single document update in MongoDB. A transaction that throws is undone.
+const db = vi.hoisted(() => {
+  interface FakeTicketType {
+    id: string
+    eventId: string
+    name: string
+    price: number
+    remaining: number
+    salesStartDate: Date | null
+    availableUntil: Date | null
+    rolloverToId: string | null
+  }
+
+  interface FakeHold {
+    id: string
+    userId: string
+    eventId: string
+    status: string
+    items: { ticketTypeId: string; quantity: number }[]
+  }
+
+  interface FakeWaitlistEntry {
+    holdId: string
+    status: string
+  }
+
+  interface FakeBooking {
+    id: string
+    status: string
+    paymentId: string | null
+    paymentProvider: string
+    expiresAt: Date
+  }
+
+  const state = {
+    ticketTypes: new Map<string, FakeTicketType>(),
+    holds: [] as FakeHold[],
+    bookings: [] as FakeBooking[],
+    waitlistEntries: [] as FakeWaitlistEntry[],
+    lowestRemaining: Infinity,
+  }
+
+  const tick = () => new Promise((resolve) => setImmediate(resolve))
+
+  function delegates(undo?: (() => void)[]) {
+    return {
+      ticketType: {
+        async findMany({ where }: { where: { eventId: string } }) {
+          await tick()
+          return [...state.ticketTypes.values()]
+            .filter((ticketType) => ticketType.eventId === where.eventId)
+            .map((ticketType) => ({ ...ticketType }))
+        },
+        async findUnique({ where }: { where: { id: string } }) {
+          await tick()
+          const ticketType = state.ticketTypes.get(where.id)
+          return ticketType ? { ...ticketType } : null
+        },
+        async updateMany({
+          where,
+          data,
+        }: {
+          where: { id: string; remaining: { gte: number } }
+          data: { remaining: { decrement: number } }
+        }) {
+          await tick()
+          const ticketType = state.ticketTypes.get(where.id)
+
+          if (!ticketType || ticketType.remaining < where.remaining.gte) {
+            return { count: 0 }
+          }
+
+          ticketType.remaining -= data.remaining.decrement
+          state.lowestRemaining = Math.min(state.lowestRemaining, ticketType.remaining)
+          undo?.push(() => {
+            ticketType.remaining += data.remaining.decrement
+          })
+          return { count: 1 }
+        },
+        async update({ where, data }: { where: { id: string }; data: { remaining: { increment: number } } }) {
+          await tick()
+          const ticketType = state.ticketTypes.get(where.id)!
+          ticketType.remaining += data.remaining.increment
+          undo?.push(() => {
+            ticketType.remaining -= data.remaining.increment
+          })
+          return { ...ticketType }
+        },
+      },
+      ticketHold: {
+        async findMany({ where }: { where: { userId?: string; eventId?: string; status: string } }) {
+          await tick()
+          return state.holds.filter(
+            (hold) =>
+              (!where.userId || hold.userId === where.userId) &&
+              (!where.eventId || hold.eventId === where.eventId) &&
+              hold.status === where.status,
+          )
+        },
+        async create({ data }: { data: Omit<FakeHold, "id" | "status"> }) {
+          await tick()
+          const hold = { id: `hold-${state.holds.length + 1}`, status: "ACTIVE", ...data }
+          state.holds.push(hold)
+          undo?.push(() => {
+            state.holds.splice(state.holds.indexOf(hold), 1)
+          })
+          return hold
+        },
+        async updateMany({ where, data }: { where: { id: string; status: string }; data: { status: string } }) {
+          await tick()
+          const hold = state.holds.find((hold) => hold.id === where.id && hold.status === where.status)
+
+          if (!hold) {
+            return { count: 0 }
+          }
+
+          const previousStatus = hold.status
+          hold.status = data.status
+          undo?.push(() => {
+            hold.status = previousStatus
+          })
+          return { count: 1 }
+        },
+        async findUniqueOrThrow({ where }: { where: { id: string } }) {
+          await tick()
+          return state.holds.find((hold) => hold.id === where.id)!
+        },
+      },
+      booking: {
+        async findMany({ where }: { where: { status: string; expiresAt: { lt: Date } } }) {
+          await tick()
+          return state.bookings.filter(
+            (booking) => booking.status === where.status && booking.expiresAt < where.expiresAt.lt,
+          )
+        },
+      },
+      waitlistEntry: {
+        async findMany({ where }: { where: { holdId: { in: string[] }; status: string } }) {
+          await tick()
+          return state.waitlistEntries.filter(
+            (entry) => where.holdId.in.includes(entry.holdId) && entry.status === where.status,
+          )
+        },
+      },
+    }
+  }
+
+  class FakePrismaClient {
+    ticketType = delegates().ticketType
+    ticketHold = delegates().ticketHold
+    booking = delegates().booking
+    waitlistEntry = delegates().waitlistEntry
+
+    async $transaction<T>(callback: (tx: ReturnType<typeof delegates>) => Promise<T>) {
+      const undo: (() => void)[] = []
+      try {
+        return await callback(delegates(undo))
+      } catch (error) {
+        undo.reverse().forEach((step) => step())
+        throw error
+      }
+    }
+  }
+
+  function addTicketType(id: string, name: string, remaining: number) {
+    state.ticketTypes.set(id, {
+      id,
+      eventId: "event-1",
+      name,
+      price: 1000,
+      remaining,
+      salesStartDate: null,
+      availableUntil: null,
+      rolloverToId: null,
+    })
+  }
+
+  function reset() {
+    state.ticketTypes.clear()
+    state.holds = []
+    state.bookings = []
+    state.waitlistEntries = []
+    state.lowestRemaining = Infinity
+  }
+
+  return { state, FakePrismaClient, addTicketType, reset }
+})
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: db.FakePrismaClient,
+}))
+vi.mock("@/lib/bookings/booking-service", () => ({ failBooking: vi.fn(), settlePayment: vi.fn() }))
+vi.mock("@/lib/payments/payments", () => ({ getPaymentProvider: vi.fn() }))
+vi.mock("@/lib/bookings/promo-codes", () => ({ getApplicablePromoCode: vi.fn(), redeemPromoCode: vi.fn() }))
+vi.mock("@/lib/bookings/waitlist-service", () => ({ expireWaitlistOffers: vi.fn(), offerWaitlistSpots: vi.fn() }))
+
+import { settlePayment } from "@/lib/bookings/booking-service"
+import { createHold, createOfferHold, releaseExpiredReservations, SoldOutError } from "@/lib/bookings/hold-service"
+import { mockPaymentProvider } from "@/lib/payments/mock-provider"
+import { getPaymentProvider } from "@/lib/payments/payments"
+
+// Start every hold at once and wait for them all to finish
+function holdConcurrently(count: number, tickets: { ticketTypeId: string; quantity: number }[]) {
+  return Promise.allSettled(Array.from({ length: count }, (_, i) => createHold(`user-${i}`, "event-1", tickets)))
+}
+
+function soldOutErrors(results: PromiseSettledResult<unknown>[]) {
+  return results.flatMap((result) => (result.status === "rejected" ? [result.reason] : []))
+}
+
+describe("createHold under concurrency", () => {
+  beforeEach(() => {
+    db.reset()
+  })
+
+  it("sells the last tickets once and turns everyone else away with SOLD_OUT", async () => {
+    db.addTicketType("regular", "Regular", 3)
+
+    const results = await holdConcurrently(10, [{ ticketTypeId: "regular", quantity: 1 }])
+    const errors = soldOutErrors(results)
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(3)
+    expect(errors).toHaveLength(7)
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(SoldOutError)
+      expect(error.status).toBe(409)
+      expect(error.toJSON()).toMatchObject({ code: "SOLD_OUT", ticketTypeId: "regular", remaining: 0 })
+    }
+    expect(db.state.ticketTypes.get("regular")?.remaining).toBe(0)
+    expect(db.state.lowestRemaining).toBeGreaterThanOrEqual(0)
+  })
+
+  it("refuses a quantity larger than what's left without taking any of it", async () => {
+    db.addTicketType("regular", "Regular", 3)
+
+    const results = await holdConcurrently(4, [{ ticketTypeId: "regular", quantity: 2 }])
+    const errors = soldOutErrors(results)
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1)
+    expect(errors).toHaveLength(3)
+    for (const error of errors) {
+      expect(error).toBeInstanceOf(SoldOutError)
+      expect(error.message).toBe("Only 1 Regular ticket is left")
+    }
+    expect(db.state.ticketTypes.get("regular")?.remaining).toBe(1)
+    expect(db.state.lowestRemaining).toBeGreaterThanOrEqual(0)
+  })
+
+  it("gives back the other ticket types in a selection when one of them sells out", async () => {
+    db.addTicketType("regular", "Regular", 5)
+    db.addTicketType("vip", "VIP", 1)
+
+    const results = await holdConcurrently(3, [
+      { ticketTypeId: "regular", quantity: 1 },
+      { ticketTypeId: "vip", quantity: 1 },
+    ])
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(1)
+    expect(soldOutErrors(results).every((error) => error instanceof SoldOutError)).toBe(true)
+    expect(db.state.ticketTypes.get("regular")?.remaining).toBe(4)
+    expect(db.state.ticketTypes.get("vip")?.remaining).toBe(0)
+    expect(db.state.holds).toHaveLength(1)
+  })
+})
+
+describe("createHold for a user who already holds tickets", () => {
+  beforeEach(() => {
+    db.reset()
+  })
+
+  it("gives back the previous selection but keeps tickets held for a waitlist offer", async () => {
+    db.addTicketType("regular", "Regular", 5)
+    const offer = await createOfferHold(
+      "user-1",
+      "event-1",
+      [{ ticketTypeId: "regular", quantity: 1, price: 1000, name: "Regular" }],
+      new Date(Date.now() + 60 * 60 * 1000),
+    )
+    db.state.waitlistEntries.push({ holdId: offer.id, status: "OFFERED" })
+    const selection = await createHold("user-1", "event-1", [{ ticketTypeId: "regular", quantity: 2 }])
+
+    await createHold("user-1", "event-1", [{ ticketTypeId: "regular", quantity: 1 }])
+
+    expect(db.state.holds.find((hold) => hold.id === selection.id)?.status).toBe("RELEASED")
+    expect(db.state.holds.find((hold) => hold.id === offer.id)?.status).toBe("ACTIVE")
+    expect(db.state.ticketTypes.get("regular")?.remaining).toBe(3)
+  })
+})
+
+describe("releaseExpiredReservations", () => {
+  beforeEach(() => {
+    db.reset()
+    vi.mocked(settlePayment).mockClear()
+    vi.mocked(getPaymentProvider).mockReturnValue(mockPaymentProvider)
+  })
+
+  async function addExpiredBooking(id: string) {
+    const payment = await mockPaymentProvider.initiatePayment({
+      bookingId: id,
+      amount: 1000,
+      currency: "KES",
+      name: "Test Attendee",
+      email: "attendee@example.com",
+      phone: "0712345678",
+    })
+
+    db.state.bookings.push({
+      id,
+      status: "PENDING",
+      paymentId: payment.paymentId,
+      paymentProvider: "mock",
+      expiresAt: new Date(Date.now() - 60 * 1000),
+    })
+
+    return payment.paymentId
+  }
+
+  it("cancels an abandoned checkout instead of treating the payment as made", async () => {
+    const paymentId = await addExpiredBooking("abandoned")
+
+    await releaseExpiredReservations()
+
+    expect(settlePayment).toHaveBeenCalledWith("abandoned", expect.objectContaining({ status: "FAILED" }))
+    // Looking the payment up didn't complete it
+    expect((await mockPaymentProvider.getPaymentStatus(paymentId)).status).toBe("PENDING")
+  })
+
+  it("confirms a booking whose payment went through unnoticed", async () => {
+    const paymentId = await addExpiredBooking("paid")
+    await mockPaymentProvider.confirmPayment(paymentId)
+
+    await releaseExpiredReservations()
+
+    expect(settlePayment).toHaveBeenCalledWith("paid", expect.objectContaining({ status: "SUCCEEDED" }))
+  })
+})
@@ -0,0 +1,334 @@
+import { Prisma, PrismaClient, type BookingItem } from "@prisma/client"
+import { failBooking, settlePayment } from "@/lib/bookings/booking-service"
+import { getPaymentProvider } from "@/lib/payments/payments"
+import { getApplicablePromoCode, redeemPromoCode } from "@/lib/bookings/promo-codes"
+import { getSalesStatus } from "@/lib/bookings/sales-window"
+import { expireWaitlistOffers } from "@/lib/bookings/waitlist-service"
+
+const prisma = new PrismaClient()
+
+// How long selected tickets stay reserved, and how long an unpaid booking keeps them
+export const HOLD_DURATION_MINUTES = 10
+
+export interface TicketSelection {
+  ticketTypeId: string
+  quantity: number
+}
+
+export interface BookingDetails {
+  name: string
+  email: string
+  phone: string
+  paymentProvider: string
+  promoCode?: string
+}
+
+// How often to retry a reservation that lost a write conflict to a concurrent one
+const MAX_RESERVATION_ATTEMPTS = 3
+
+export class HoldError extends Error {
+  code = "HOLD_ERROR"
+
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "HoldError"
+  }
+
+  toJSON() {
+    return { message: this.message, code: this.code }
+  }
+}
+
+export class SoldOutError extends HoldError {
+  code = "SOLD_OUT"
+
+  constructor(
+    public ticketTypeId: string,
+    ticketTypeName: string,
+    public remaining: number,
+  ) {
+    super(
+      remaining > 0
+        ? `Only ${remaining} ${ticketTypeName} ticket${remaining === 1 ? " is" : "s are"} left`
+        : `${ticketTypeName} is sold out`,
+      409,
+    )
+    this.name = "SoldOutError"
+  }
+
+  toJSON() {
+    return { ...super.toJSON(), ticketTypeId: this.ticketTypeId, remaining: this.remaining }
+  }
+}
+
+function holdExpiry() {
+  return new Date(Date.now() + HOLD_DURATION_MINUTES * 60 * 1000)
+}
+
+// Reserve tickets for a user, taking them out of the pool until the hold expires or is converted into a booking
+export async function createHold(userId: string, eventId: string, tickets: TicketSelection[]) {
+  if (!Array.isArray(tickets) || tickets.length === 0) {
+    throw new HoldError("Please select at least one ticket")
+  }
+
+  // A user only keeps one selection per event, so changing it gives the previous tickets back first.
+  // Tickets set aside by a waitlist offer stay theirs until the offer is claimed or runs out.
+  const previousHolds = await prisma.ticketHold.findMany({
+    where: { userId, eventId, status: "ACTIVE" },
+    select: { id: true },
+  })
+
+  for (const holdId of await withoutWaitlistOffers(previousHolds.map((hold) => hold.id))) {
+    await releaseHold(holdId)
+  }
+
+  const items: BookingItem[] = []
+  const eventTicketTypes = await prisma.ticketType.findMany({
+    where: { eventId },
+  })
+
+  for (const { ticketTypeId, quantity } of tickets) {
+    if (!ticketTypeId || !Number.isInteger(quantity) || quantity < 1) {
+      throw new HoldError("Invalid ticket information")
+    }
+
+    const ticketType = eventTicketTypes.find((type) => type.id === ticketTypeId)
+
+    if (!ticketType) {
+      throw new HoldError(`Ticket type not found: ${ticketTypeId}`, 404)
+    }
+
+    // Sold out types are left to the reservation itself, which checks stock atomically
+    const salesStatus = getSalesStatus(ticketType, eventTicketTypes)
+
+    if (salesStatus === "NOT_STARTED") {
+      throw new HoldError(`${ticketType.name} tickets are not on sale yet`)
+    }
+
+    if (salesStatus === "ENDED") {
+      throw new HoldError(`Sales for ${ticketType.name} tickets have ended`)
+    }
+
+    items.push({
+      ticketTypeId,
+      quantity,
+      price: ticketType.price,
+      name: ticketType.name,
+    })
+  }
+
+  return reserveItemsWithRetry(userId, eventId, items, holdExpiry())
+}
+
+// Set tickets aside for a waitlisted attendee until their offer runs out
+export async function createOfferHold(userId: string, eventId: string, items: BookingItem[], expiresAt: Date) {
+  return reserveItemsWithRetry(userId, eventId, items, expiresAt)
+}
+
+async function reserveItemsWithRetry(userId: string, eventId: string, items: BookingItem[], expiresAt: Date) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await reserveItems(userId, eventId, items, expiresAt)
+    } catch (error) {
+      const isWriteConflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2034"
+      if (!isWriteConflict || attempt >= MAX_RESERVATION_ATTEMPTS) {
+        throw error
+      }
+    }
+  }
+}
+
+// Take the tickets out of the pool and record the hold. Each decrement only applies while enough
+// tickets are left, so concurrent buyers can never push `remaining` below zero.
+async function reserveItems(userId: string, eventId: string, items: BookingItem[], expiresAt: Date) {
+  return prisma.$transaction(async (tx) => {
+    for (const item of items) {
+      const { count } = await tx.ticketType.updateMany({
+        where: {
+          id: item.ticketTypeId,
+          remaining: { gte: item.quantity },
+        },
+        data: {
+          remaining: {
+            decrement: item.quantity,
+          },
+        },
+      })
+
+      if (count === 0) {
+        // Throwing rolls back the tickets already taken for the other items
+        const ticketType = await tx.ticketType.findUnique({ where: { id: item.ticketTypeId } })
+        throw new SoldOutError(item.ticketTypeId, item.name, Math.max(0, ticketType?.remaining ?? 0))
+      }
+    }
+
+    return tx.ticketHold.create({
+      data: {
+        items,
+        expiresAt,
+        userId,
+        eventId,
+      },
+    })
+  })
+}
+
+// Give the tickets of an active hold back to the pool
+export async function releaseHold(holdId: string) {
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.ticketHold.updateMany({
+      where: { id: holdId, status: "ACTIVE" },
+      data: { status: "RELEASED" },
+    })
+
+    if (count === 0) {
+      return
+    }
+
+    const hold = await tx.ticketHold.findUniqueOrThrow({ where: { id: holdId } })
+
+    for (const item of hold.items) {
+      await tx.ticketType.update({
+        where: { id: item.ticketTypeId },
+        data: {
+          remaining: {
+            increment: item.quantity,
+          },
+        },
+      })
+    }
+  })
+}
+
+// Put an event's expired holds back on sale before checking its availability, without waiting for the
+// cron sweep. Unpaid bookings and waitlist offers are left to the sweep, as settling them can mean asking
+// the payment provider or emailing the next person in line.
+export async function releaseExpiredHolds(eventId: string) {
+  const expiredHolds = await prisma.ticketHold.findMany({
+    where: { eventId, status: "ACTIVE", expiresAt: { lt: new Date() } },
+    select: { id: true },
+  })
+
+  for (const holdId of await withoutWaitlistOffers(expiredHolds.map((hold) => hold.id))) {
+    await releaseHold(holdId)
+  }
+}
+
+// Drop the holds that keep tickets aside for a waitlist offer, which only the waitlist may give back
+async function withoutWaitlistOffers(holdIds: string[]) {
+  if (holdIds.length === 0) {
+    return []
+  }
+
+  const offers = await prisma.waitlistEntry.findMany({
+    where: { holdId: { in: holdIds }, status: "OFFERED" },
+    select: { holdId: true },
+  })
+  const offerHoldIds = new Set(offers.map((offer) => offer.holdId))
+
+  return holdIds.filter((holdId) => !offerHoldIds.has(holdId))
+}
+
+// Turn a user's unexpired hold into a pending booking. The tickets move with it, so inventory is untouched.
+export async function createBookingFromHold(
+  holdId: string,
+  userId: string,
+  eventId: string,
+  details: BookingDetails,
+) {
+  return prisma.$transaction(async (tx) => {
+    const hold = await tx.ticketHold.findUnique({ where: { id: holdId } })
+
+    if (!hold || hold.userId !== userId || hold.eventId !== eventId) {
+      throw new HoldError("Reservation not found", 404)
+    }
+
+    const subtotal = hold.items.reduce((total, item) => total + item.price * item.quantity, 0)
+
+    // Discounts are always worked out here from the reserved prices, never taken from the client
+    const discount = details.promoCode
+      ? await getApplicablePromoCode(tx, { eventId, code: details.promoCode, userId, items: hold.items })
+      : null
+
+    if (discount) {
+      await redeemPromoCode(tx, discount.promoCode)
+    }
+
+    const totalAmount = Math.round((subtotal - (discount?.discountAmount ?? 0)) * 100) / 100
+
+    const booking = await tx.booking.create({
+      data: {
+        name: details.name,
+        email: details.email,
+        phone: details.phone,
+        totalAmount,
+        status: "PENDING",
+        paymentProvider: details.paymentProvider,
+        items: hold.items,
+        promoCode: discount?.promoCode.code,
+        promoCodeId: discount?.promoCode.id,
+        discountAmount: discount?.discountAmount,
+        expiresAt: holdExpiry(),
+        userId,
+        eventId,
+      },
+    })
+
+    // Claim the hold; a concurrent sweep or a second checkout makes this match nothing and rolls the booking back
+    const { count } = await tx.ticketHold.updateMany({
+      where: { id: holdId, status: "ACTIVE", expiresAt: { gt: new Date() } },
+      data: { status: "CONVERTED", bookingId: booking.id },
+    })
+
+    if (count === 0) {
+      throw new HoldError("Your reservation has expired, please select your tickets again", 410)
+    }
+
+    return booking
+  })
+}
+
+// Release expired holds and cancel bookings that were never paid for
+export async function releaseExpiredReservations() {
+  const now = new Date()
+
+  const expiredHolds = await prisma.ticketHold.findMany({
+    where: { status: "ACTIVE", expiresAt: { lt: now } },
+    select: { id: true },
+  })
+
+  for (const hold of expiredHolds) {
+    await releaseHold(hold.id)
+  }
+
+  const expiredBookings = await prisma.booking.findMany({
+    where: { status: "PENDING", expiresAt: { lt: now } },
+  })
+
+  for (const booking of expiredBookings) {
+    if (!booking.paymentId) {
+      await failBooking(booking.id)
+      continue
+    }
+
+    // The payment may have gone through without us hearing about it, so ask the provider before giving up
+    try {
+      const payment = await getPaymentProvider(booking.paymentProvider).getPaymentStatus(booking.paymentId)
+      await settlePayment(booking.id, payment.status === "SUCCEEDED" ? payment : { ...payment, status: "FAILED" })
+    } catch (error) {
+      console.error(`Error checking payment for expired booking ${booking.id}:`, error)
+    }
+  }
+
+  // Tickets that came back may be owed to people on a waitlist
+  const waitlist = await expireWaitlistOffers()
+
+  return {
+    holds: expiredHolds.length,
+    bookings: expiredBookings.length,
+    waitlist,
+  }
+}
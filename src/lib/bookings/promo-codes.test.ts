@@ -0,0 +1,120 @@
+import type { PromoCode } from "@prisma/client"
+import { describe, expect, it } from "vitest"
+import {
+  calculateDiscount,
+  getApplicablePromoCode,
+  parsePromoCodeInput,
+  PromoCodeError,
+} from "@/lib/bookings/promo-codes"
+
+const items = [
+  { ticketTypeId: "regular", name: "Regular", price: 1500, quantity: 2 },
+  { ticketTypeId: "vip", name: "VIP", price: 4000, quantity: 1 },
+]
+
+function promoCode(overrides: Partial<PromoCode> = {}): PromoCode {
+  return {
+    id: "promo-1",
+    code: "SAVE10",
+    discountType: "PERCENTAGE",
+    discountValue: 10,
+    ticketTypeIds: [],
+    maxUses: null,
+    maxUsesPerUser: null,
+    usedCount: 0,
+    validFrom: null,
+    validUntil: null,
+    isActive: true,
+    eventId: "event-1",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  }
+}
+
+// Just enough of a Prisma client to look a code up and count the user's earlier bookings with it
+function fakeDb(code: PromoCode | null, previousUses = 0) {
+  return {
+    promoCode: { findUnique: async () => code },
+    booking: { count: async () => previousUses },
+  } as unknown as Parameters<typeof getApplicablePromoCode>[0]
+}
+
+describe("calculateDiscount", () => {
+  it("takes a percentage off every ticket when the code isn't limited", () => {
+    expect(calculateDiscount(promoCode(), items)).toBe(700)
+  })
+
+  it("only discounts the ticket types the code is limited to", () => {
+    expect(calculateDiscount(promoCode({ ticketTypeIds: ["vip"] }), items)).toBe(400)
+  })
+
+  it("never takes off more than the eligible tickets are worth", () => {
+    const fixed = promoCode({ discountType: "FIXED", discountValue: 5000, ticketTypeIds: ["regular"] })
+    expect(calculateDiscount(fixed, items)).toBe(3000)
+  })
+
+  it("rounds to the cent", () => {
+    const third = promoCode({ discountValue: 33.333 })
+    expect(calculateDiscount(third, [{ ticketTypeId: "regular", price: 10, quantity: 1 }])).toBe(3.33)
+  })
+
+  it("gives nothing when none of the tickets are eligible", () => {
+    expect(calculateDiscount(promoCode({ ticketTypeIds: ["student"] }), items)).toBe(0)
+  })
+})
+
+describe("getApplicablePromoCode", () => {
+  const lookup = { eventId: "event-1", code: " save10 ", userId: "user-1", items }
+
+  it("returns the code with the discount it gives", async () => {
+    const result = await getApplicablePromoCode(fakeDb(promoCode()), lookup)
+
+    expect(result.discountAmount).toBe(700)
+    expect(result.promoCode.code).toBe("SAVE10")
+  })
+
+  it.each([
+    ["an unknown code", null, 0, "This promo code is not valid"],
+    ["a switched off code", promoCode({ isActive: false }), 0, "This promo code is not valid"],
+    ["a code that isn't valid yet", promoCode({ validFrom: new Date(Date.now() + 60_000) }), 0, "not active yet"],
+    ["an expired code", promoCode({ validUntil: new Date(Date.now() - 60_000) }), 0, "has expired"],
+    ["a fully redeemed code", promoCode({ maxUses: 5, usedCount: 5 }), 0, "fully redeemed"],
+    ["a code the user already used", promoCode({ maxUsesPerUser: 1 }), 1, "already used"],
+    ["a code for other tickets", promoCode({ ticketTypeIds: ["student"] }), 0, "does not apply"],
+  ])("refuses %s", async (_, code, previousUses, message) => {
+    const result = getApplicablePromoCode(fakeDb(code, previousUses), lookup)
+
+    await expect(result).rejects.toBeInstanceOf(PromoCodeError)
+    await expect(result).rejects.toThrow(message)
+  })
+})
+
+describe("parsePromoCodeInput", () => {
+  it("normalises the code and fills in the defaults", () => {
+    const { data } = parsePromoCodeInput({ code: " early-bird ", discountType: "FIXED", discountValue: "250" })
+
+    expect(data).toMatchObject({
+      code: "EARLY-BIRD",
+      discountValue: 250,
+      ticketTypeIds: [],
+      maxUses: null,
+      maxUsesPerUser: null,
+      isActive: true,
+    })
+  })
+
+  it.each([
+    [{ code: "AB", discountType: "FIXED", discountValue: 10 }, "Codes must be"],
+    [{ code: "SAVE", discountType: "FREE", discountValue: 10 }, "Discount type must be"],
+    [{ code: "SAVE", discountType: "PERCENTAGE", discountValue: 120 }, "at most 100 for percentages"],
+    [{ code: "SAVE", discountType: "FIXED", discountValue: 0 }, "greater than zero"],
+    [{ code: "SAVE", discountType: "FIXED", discountValue: 10, maxUses: "0" }, "Usage limits must be"],
+    [
+      { code: "SAVE", discountType: "FIXED", discountValue: 10, validFrom: "2026-05-02", validUntil: "2026-05-01" },
+      "must expire after",
+    ],
+  ])("refuses %j", (input, error) => {
+    expect(parsePromoCodeInput(input).error).toContain(error)
+  })
+})
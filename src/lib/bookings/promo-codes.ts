@@ -0,0 +1,166 @@
+import { Prisma, PrismaClient, type BookingItem, type PromoCode } from "@prisma/client"
+
+type PrismaExecutor = PrismaClient | Prisma.TransactionClient
+
+export class PromoCodeError extends Error {
+  code = "INVALID_PROMO_CODE"
+
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "PromoCodeError"
+  }
+
+  toJSON() {
+    return { message: this.message, code: this.code }
+  }
+}
+
+export function normalizePromoCode(code: string) {
+  return code.trim().toUpperCase()
+}
+
+// Amount a code takes off the given items; never more than the items it applies to are worth
+export function calculateDiscount(
+  promoCode: Pick<PromoCode, "discountType" | "discountValue" | "ticketTypeIds">,
+  items: Pick<BookingItem, "ticketTypeId" | "price" | "quantity">[],
+) {
+  const eligibleTotal = items
+    .filter((item) => promoCode.ticketTypeIds.length === 0 || promoCode.ticketTypeIds.includes(item.ticketTypeId))
+    .reduce((total, item) => total + item.price * item.quantity, 0)
+
+  const discount =
+    promoCode.discountType === "PERCENTAGE" ? (eligibleTotal * promoCode.discountValue) / 100 : promoCode.discountValue
+
+  return Math.round(Math.min(discount, eligibleTotal) * 100) / 100
+}
+
+// Look up a code for an event and check that this user can apply it to these tickets
+export async function getApplicablePromoCode(
+  db: PrismaExecutor,
+  { eventId, code, userId, items }: { eventId: string; code: string; userId: string; items: BookingItem[] },
+) {
+  const promoCode = await db.promoCode.findUnique({
+    where: { eventId_code: { eventId, code: normalizePromoCode(code) } },
+  })
+
+  if (!promoCode || !promoCode.isActive) {
+    throw new PromoCodeError("This promo code is not valid")
+  }
+
+  const now = new Date()
+
+  if (promoCode.validFrom && promoCode.validFrom > now) {
+    throw new PromoCodeError("This promo code is not active yet")
+  }
+
+  if (promoCode.validUntil && promoCode.validUntil < now) {
+    throw new PromoCodeError("This promo code has expired")
+  }
+
+  if (promoCode.maxUses !== null && promoCode.usedCount >= promoCode.maxUses) {
+    throw new PromoCodeError("This promo code has been fully redeemed")
+  }
+
+  if (promoCode.maxUsesPerUser !== null) {
+    const uses = await db.booking.count({
+      where: { promoCodeId: promoCode.id, userId, status: { not: "CANCELLED" } },
+    })
+
+    if (uses >= promoCode.maxUsesPerUser) {
+      throw new PromoCodeError("You have already used this promo code")
+    }
+  }
+
+  const discountAmount = calculateDiscount(promoCode, items)
+
+  if (discountAmount <= 0) {
+    throw new PromoCodeError("This promo code does not apply to the selected tickets")
+  }
+
+  return { promoCode, discountAmount }
+}
+
+// Count a redemption. The cap is checked in the same write, so the last use can't be taken twice.
+export async function redeemPromoCode(db: PrismaExecutor, promoCode: PromoCode) {
+  const { count } = await db.promoCode.updateMany({
+    where: {
+      id: promoCode.id,
+      ...(promoCode.maxUses !== null ? { usedCount: { lt: promoCode.maxUses } } : {}),
+    },
+    data: {
+      usedCount: {
+        increment: 1,
+      },
+    },
+  })
+
+  if (count === 0) {
+    throw new PromoCodeError("This promo code has been fully redeemed", 409)
+  }
+}
+
+// Give the redemption back when its booking is cancelled before it was paid for
+export async function releasePromoCode(db: PrismaExecutor, promoCodeId: string) {
+  await db.promoCode.updateMany({
+    where: { id: promoCodeId, usedCount: { gt: 0 } },
+    data: {
+      usedCount: {
+        decrement: 1,
+      },
+    },
+  })
+}
+
+// Validate the fields an organiser sends when creating or updating a code
+export function parsePromoCodeInput(data: Record<string, unknown>) {
+  const code = typeof data.code === "string" ? normalizePromoCode(data.code) : ""
+  const discountType = data.discountType
+  const discountValue = Number(data.discountValue)
+
+  if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+    return { error: "Codes must be 3 to 32 letters, numbers, dashes or underscores" }
+  }
+
+  if (discountType !== "PERCENTAGE" && discountType !== "FIXED") {
+    return { error: "Discount type must be PERCENTAGE or FIXED" }
+  }
+
+  if (!(discountValue > 0) || (discountType === "PERCENTAGE" && discountValue > 100)) {
+    return { error: "Discount must be greater than zero, and at most 100 for percentages" }
+  }
+
+  const optionalInt = (value: unknown) =>
+    value === undefined || value === null || value === "" ? null : Number.parseInt(String(value))
+  const optionalDate = (value: unknown) => (value ? new Date(String(value)) : null)
+
+  const maxUses = optionalInt(data.maxUses)
+  const maxUsesPerUser = optionalInt(data.maxUsesPerUser)
+
+  if ((maxUses !== null && !(maxUses > 0)) || (maxUsesPerUser !== null && !(maxUsesPerUser > 0))) {
+    return { error: "Usage limits must be at least 1" }
+  }
+
+  const validFrom = optionalDate(data.validFrom)
+  const validUntil = optionalDate(data.validUntil)
+
+  if (validFrom && validUntil && validUntil <= validFrom) {
+    return { error: "The code must expire after it becomes valid" }
+  }
+
+  return {
+    data: {
+      code,
+      discountType,
+      discountValue,
+      ticketTypeIds: Array.isArray(data.ticketTypeIds) ? data.ticketTypeIds.map(String) : [],
+      maxUses,
+      maxUsesPerUser,
+      validFrom,
+      validUntil,
+      isActive: data.isActive === undefined ? true : Boolean(data.isActive),
+    } satisfies Omit<Prisma.PromoCodeUncheckedCreateInput, "eventId">,
+  }
+}
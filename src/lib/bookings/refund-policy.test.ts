@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_REFUND_POLICY,
+  getRefundPercentage,
+  getRefundTierDeadline,
+  parseRefundPolicy,
+} from "@/lib/bookings/refund-policy"
+
+const eventStart = new Date("2026-06-10T18:00:00Z")
+
+function hoursBefore(hours: number) {
+  return new Date(eventStart.getTime() - hours * 60 * 60 * 1000)
+}
+
+describe("getRefundPercentage", () => {
+  const policy = {
+    enabled: true,
+    tiers: [
+      { hoursBeforeStart: 168, percentage: 100 },
+      { hoursBeforeStart: 48, percentage: 50 },
+    ],
+  }
+
+  it("gives the best tier whose deadline hasn't passed", () => {
+    expect(getRefundPercentage(policy, eventStart, hoursBefore(200))).toBe(100)
+    expect(getRefundPercentage(policy, eventStart, hoursBefore(100))).toBe(50)
+    expect(getRefundPercentage(policy, eventStart, hoursBefore(10))).toBe(0)
+  })
+
+  it("still pays a tier at the exact moment of its deadline", () => {
+    expect(getRefundPercentage(policy, eventStart, hoursBefore(168))).toBe(100)
+    expect(getRefundPercentage(policy, eventStart, hoursBefore(48))).toBe(50)
+  })
+
+  it("falls back to a full refund up to a day before when the event has no policy", () => {
+    expect(getRefundPercentage(null, eventStart, hoursBefore(25))).toBe(100)
+    expect(getRefundPercentage(undefined, eventStart, hoursBefore(23))).toBe(0)
+  })
+
+  it("gives nothing back when the organiser turned refunds off", () => {
+    expect(getRefundPercentage({ ...policy, enabled: false }, eventStart, hoursBefore(500))).toBe(0)
+  })
+})
+
+describe("getRefundTierDeadline", () => {
+  it("counts the tier's hours back from the start of the event", () => {
+    expect(getRefundTierDeadline(DEFAULT_REFUND_POLICY.tiers[0], eventStart)).toEqual(
+      new Date("2026-06-09T18:00:00Z"),
+    )
+  })
+})
+
+describe("parseRefundPolicy", () => {
+  it("keeps only the tier fields and orders tiers from the earliest deadline", () => {
+    const { policy } = parseRefundPolicy({
+      enabled: true,
+      tiers: [
+        { hoursBeforeStart: 24, percentage: 25, label: "late" },
+        { hoursBeforeStart: 72, percentage: 75 },
+      ],
+    })
+
+    expect(policy).toEqual({
+      enabled: true,
+      tiers: [
+        { hoursBeforeStart: 72, percentage: 75 },
+        { hoursBeforeStart: 24, percentage: 25 },
+      ],
+    })
+  })
+
+  it.each([
+    [null, "Refund policy is invalid"],
+    [{ enabled: "yes", tiers: [] }, "Refund policy is invalid"],
+    [{ enabled: true, tiers: [{ hoursBeforeStart: 1.5, percentage: 50 }] }, "Refund deadlines must be"],
+    [{ enabled: true, tiers: [{ hoursBeforeStart: -1, percentage: 50 }] }, "Refund deadlines must be"],
+    [{ enabled: true, tiers: [{ hoursBeforeStart: 24, percentage: 120 }] }, "Refund percentages must be"],
+    [{ enabled: true, tiers: [null] }, "Refund deadlines must be"],
+  ])("refuses %j", (input, error) => {
+    expect(parseRefundPolicy(input).error).toContain(error)
+  })
+})
@@ -0,0 +1,66 @@
+export interface RefundTier {
+  hoursBeforeStart: number
+  percentage: number
+}
+
+export interface RefundPolicy {
+  enabled: boolean
+  tiers: RefundTier[]
+}
+
+// Applies to events whose organiser has not set a policy: full refund up to a day before the event
+export const DEFAULT_REFUND_POLICY: RefundPolicy = {
+  enabled: true,
+  tiers: [{ hoursBeforeStart: 24, percentage: 100 }],
+}
+
+// Share of the ticket price an attendee gets back when refunding at the given time, 0 when refunds are closed
+export function getRefundPercentage(policy: RefundPolicy | null | undefined, eventStart: Date, at = new Date()) {
+  const { enabled, tiers } = policy ?? DEFAULT_REFUND_POLICY
+
+  if (!enabled) {
+    return 0
+  }
+
+  const hoursLeft = (eventStart.getTime() - at.getTime()) / (60 * 60 * 1000)
+
+  return tiers
+    .filter((tier) => hoursLeft >= tier.hoursBeforeStart)
+    .reduce((best, tier) => Math.max(best, tier.percentage), 0)
+}
+
+// Last moment at which the given tier can still be claimed
+export function getRefundTierDeadline(tier: RefundTier, eventStart: Date) {
+  return new Date(eventStart.getTime() - tier.hoursBeforeStart * 60 * 60 * 1000)
+}
+
+// Validate a policy sent by an organiser, returning an error message for invalid input
+export function parseRefundPolicy(input: unknown): { policy?: RefundPolicy; error?: string } {
+  if (!input || typeof input !== "object") {
+    return { error: "Refund policy is invalid" }
+  }
+
+  const { enabled, tiers } = input as Partial<RefundPolicy>
+
+  if (typeof enabled !== "boolean" || !Array.isArray(tiers)) {
+    return { error: "Refund policy is invalid" }
+  }
+
+  for (const tier of tiers) {
+    if (!Number.isInteger(tier?.hoursBeforeStart) || tier.hoursBeforeStart < 0) {
+      return { error: "Refund deadlines must be a whole number of hours before the event" }
+    }
+    if (!Number.isInteger(tier.percentage) || tier.percentage < 0 || tier.percentage > 100) {
+      return { error: "Refund percentages must be between 0 and 100" }
+    }
+  }
+
+  return {
+    policy: {
+      enabled,
+      tiers: tiers
+        .map(({ hoursBeforeStart, percentage }) => ({ hoursBeforeStart, percentage }))
+        .sort((a, b) => b.hoursBeforeStart - a.hoursBeforeStart),
+    },
+  }
+}
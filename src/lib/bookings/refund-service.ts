@@ -0,0 +1,337 @@
+import { Prisma, PrismaClient } from "@prisma/client"
+import { getPaymentProvider } from "@/lib/payments/payments"
+import type { RefundWebhookEvent } from "@/lib/payments/payment-provider"
+import { getRefundPercentage } from "@/lib/bookings/refund-policy"
+import { offerWaitlistSpots } from "@/lib/bookings/waitlist-service"
+
+const prisma = new PrismaClient()
+
+// "booking" refunds every unused ticket, "tickets" the selected ones and "amount" returns money without releasing tickets
+export type RefundScope = "booking" | "tickets" | "amount"
+
+export interface RefundRequest {
+  bookingId: string
+  scope: RefundScope
+  ticketIds?: string[]
+  // Overrides the amount worked out from the tickets, only honoured for staff refunds
+  amount?: number
+  reason?: string
+  requestedById: string
+  // Attendee refunds follow the event's refund policy, staff refunds don't
+  enforcePolicy: boolean
+}
+
+export class RefundError extends Error {
+  constructor(
+    message: string,
+    public status = 400,
+  ) {
+    super(message)
+    this.name = "RefundError"
+  }
+}
+
+export const notRefunded = {
+  OR: [{ refundedAt: null }, { refundedAt: { isSet: false } }],
+} satisfies Prisma.TicketWhereInput
+
+export const notUsed = {
+  OR: [{ usedAt: null }, { usedAt: { isSet: false } }],
+} satisfies Prisma.TicketWhereInput
+
+const refundBookingInclude = {
+  tickets: {
+    include: {
+      ticketType: true,
+    },
+  },
+  event: {
+    select: {
+      startDate: true,
+      refundPolicy: true,
+    },
+  },
+} satisfies Prisma.BookingInclude
+
+type RefundableBooking = Prisma.BookingGetPayload<{ include: typeof refundBookingInclude }>
+
+function roundAmount(amount: number) {
+  return Math.round(amount * 100) / 100
+}
+
+// Price the attendee paid for a ticket, from the booking's snapshot when it has one.
+// Any promo code discount is spread over the tickets in proportion to their price.
+function ticketPrice(booking: RefundableBooking, ticket: RefundableBooking["tickets"][number]) {
+  const price = booking.items.find((item) => item.ticketTypeId === ticket.ticketTypeId)?.price ?? ticket.ticketType.price
+  const subtotal = booking.totalAmount + (booking.discountAmount ?? 0)
+
+  return subtotal > 0 ? (price * booking.totalAmount) / subtotal : 0
+}
+
+// Work out what an attendee would get back for refunding the given tickets (all unused ones by default)
+export function quoteRefund(booking: RefundableBooking, ticketIds?: string[], at = new Date()) {
+  const tickets = booking.tickets.filter(
+    (ticket) => !ticket.refundedAt && !ticket.usedAt && (!ticketIds || ticketIds.includes(ticket.id)),
+  )
+  const percentage = getRefundPercentage(booking.event.refundPolicy, booking.event.startDate, at)
+  const refundable = roundAmount(booking.totalAmount - (booking.refundedAmount ?? 0))
+  const ticketTotal = tickets.reduce((total, ticket) => total + ticketPrice(booking, ticket), 0)
+
+  return {
+    tickets,
+    percentage,
+    refundable,
+    ticketTotal: roundAmount(ticketTotal),
+    amount: Math.min(roundAmount((ticketTotal * percentage) / 100), refundable),
+  }
+}
+
+export async function getRefundableBooking(bookingId: string) {
+  return prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: refundBookingInclude,
+  })
+}
+
+// Refund a confirmed booking, in full or in part, and give released tickets back to the pool
+export async function refundBooking(request: RefundRequest) {
+  const booking = await getRefundableBooking(request.bookingId)
+
+  if (!booking) {
+    throw new RefundError("Booking not found", 404)
+  }
+
+  if (booking.status !== "CONFIRMED") {
+    throw new RefundError(`Only confirmed bookings can be refunded, this one is ${booking.status.toLowerCase()}`)
+  }
+
+  if (request.scope === "amount" && request.enforcePolicy) {
+    throw new RefundError("Only organisers can refund an amount without returning tickets", 403)
+  }
+
+  if (request.scope === "tickets" && !request.ticketIds?.length) {
+    throw new RefundError("Select the tickets to refund")
+  }
+
+  const quote = quoteRefund(booking, request.scope === "tickets" ? request.ticketIds : undefined)
+  const tickets = request.scope === "amount" ? [] : quote.tickets
+
+  if (request.scope === "tickets" && tickets.length !== request.ticketIds?.length) {
+    throw new RefundError("Some of the selected tickets have already been used or refunded")
+  }
+
+  if (request.scope === "booking" && tickets.length === 0) {
+    throw new RefundError("There are no unused tickets left to refund")
+  }
+
+  if (request.enforcePolicy && quote.percentage === 0) {
+    throw new RefundError("Refunds are no longer available for this event")
+  }
+
+  let amount: number
+
+  if (request.enforcePolicy) {
+    amount = quote.amount
+  } else if (request.amount !== undefined) {
+    if (!Number.isFinite(request.amount) || request.amount < 0) {
+      throw new RefundError("Refund amount is invalid")
+    }
+    amount = roundAmount(request.amount)
+  } else {
+    // Staff refunds return the full ticket price whatever the policy says
+    amount = Math.min(quote.ticketTotal, quote.refundable)
+  }
+
+  if (request.scope === "amount" && amount <= 0) {
+    throw new RefundError("Refund amount must be greater than zero")
+  }
+
+  if (amount > quote.refundable) {
+    throw new RefundError(`At most Kshs ${quote.refundable.toFixed(2)} can still be refunded on this booking`)
+  }
+
+  const ticketIds = tickets.map((ticket) => ticket.id)
+
+  // Claim the tickets and the amount first so two refunds can't be paid out for the same tickets
+  const refund = await prisma.$transaction(async (tx) => {
+    if (ticketIds.length > 0) {
+      const { count } = await tx.ticket.updateMany({
+        where: { id: { in: ticketIds }, bookingId: booking.id, AND: [notRefunded, notUsed] },
+        data: { refundedAt: new Date() },
+      })
+
+      if (count !== ticketIds.length) {
+        throw new RefundError("Some of the selected tickets have already been used or refunded", 409)
+      }
+    }
+
+    const current = await tx.booking.findUniqueOrThrow({ where: { id: booking.id } })
+    const refundedAmount = roundAmount((current.refundedAmount ?? 0) + amount)
+
+    if (refundedAmount > current.totalAmount) {
+      throw new RefundError("Refund exceeds the amount paid for this booking", 409)
+    }
+
+    await tx.booking.update({
+      where: { id: booking.id },
+      data: { refundedAmount },
+    })
+
+    return tx.refund.create({
+      data: {
+        amount,
+        reason: request.reason,
+        ticketIds,
+        requestedById: request.requestedById,
+        bookingId: booking.id,
+      },
+    })
+  })
+
+  let status: "PENDING" | "SUCCEEDED" | "FAILED" = "SUCCEEDED"
+  let providerRefundId: string | undefined
+  let failureMessage: string | undefined
+
+  // Free tickets and amounts that round to nothing don't need the payment provider
+  if (amount > 0 && booking.paymentId) {
+    try {
+      const result = await getPaymentProvider(booking.paymentProvider).refundPayment({
+        paymentId: booking.paymentId,
+        reference: booking.paymentReference ?? undefined,
+        amount,
+        reason: request.reason,
+      })
+      status = result.status
+      providerRefundId = result.refundId
+      failureMessage = result.message
+    } catch (error) {
+      console.error(`Error refunding booking ${booking.id}:`, error)
+      status = "FAILED"
+    }
+  }
+
+  if (status === "FAILED") {
+    await rollBackRefund(refund.id, providerRefundId)
+    throw new RefundError(failureMessage || "The payment provider could not process the refund", 502)
+  }
+
+  // Refunds the provider settles later keep their tickets off sale until it reports back
+  if (status === "PENDING") {
+    return prisma.$transaction(async (tx) => ({
+      refund: await tx.refund.update({ where: { id: refund.id }, data: { providerRefundId } }),
+      booking: await tx.booking.findUniqueOrThrow({ where: { id: booking.id } }),
+    }))
+  }
+
+  const result = await completeRefund(refund.id, providerRefundId)
+
+  if (!result) {
+    throw new RefundError("This refund has already been settled", 409)
+  }
+
+  return result
+}
+
+// Settle a refund the payment provider reported on later. Returns null for refunds we don't know about.
+export async function applyRefundEvent(event: RefundWebhookEvent) {
+  const refund = await prisma.refund.findFirst({ where: { providerRefundId: event.refundId } })
+
+  if (!refund) {
+    return null
+  }
+
+  if (event.status === "SUCCEEDED") {
+    await completeRefund(refund.id)
+  } else if (event.status === "FAILED") {
+    console.error(`Refund ${refund.id} failed at the payment provider:`, event.message)
+    await rollBackRefund(refund.id)
+  }
+
+  return prisma.refund.findUniqueOrThrow({ where: { id: refund.id } })
+}
+
+// Hand a failed refund's tickets and amount back so the refund can be tried again. Only pending refunds
+// are rolled back, so a repeated notification changes nothing.
+async function rollBackRefund(refundId: string, providerRefundId?: string) {
+  await prisma.$transaction(async (tx) => {
+    const { count } = await tx.refund.updateMany({
+      where: { id: refundId, status: "PENDING" },
+      data: { status: "FAILED", providerRefundId },
+    })
+
+    if (count === 0) {
+      return
+    }
+
+    const refund = await tx.refund.findUniqueOrThrow({ where: { id: refundId } })
+
+    if (refund.ticketIds.length > 0) {
+      await tx.ticket.updateMany({
+        where: { id: { in: refund.ticketIds } },
+        data: { refundedAt: null },
+      })
+    }
+
+    const current = await tx.booking.findUniqueOrThrow({ where: { id: refund.bookingId } })
+    await tx.booking.update({
+      where: { id: refund.bookingId },
+      data: { refundedAmount: roundAmount((current.refundedAmount ?? 0) - refund.amount) },
+    })
+  })
+}
+
+// Mark a pending refund as paid out and put its tickets back on sale. Returns null when the refund was
+// already settled.
+async function completeRefund(refundId: string, providerRefundId?: string) {
+  const result = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.refund.updateMany({
+      where: { id: refundId, status: "PENDING" },
+      data: { status: "SUCCEEDED", providerRefundId },
+    })
+
+    if (count === 0) {
+      return null
+    }
+
+    const completedRefund = await tx.refund.findUniqueOrThrow({ where: { id: refundId } })
+    const tickets = await tx.ticket.findMany({
+      where: { id: { in: completedRefund.ticketIds } },
+      select: { ticketTypeId: true },
+    })
+
+    // Released tickets go back on sale
+    for (const ticket of tickets) {
+      await tx.ticketType.update({
+        where: { id: ticket.ticketTypeId },
+        data: {
+          remaining: {
+            increment: 1,
+          },
+        },
+      })
+    }
+
+    const outstandingTickets = await tx.ticket.count({
+      where: { bookingId: completedRefund.bookingId, ...notRefunded },
+    })
+
+    const updatedBooking = await tx.booking.update({
+      where: { id: completedRefund.bookingId },
+      data: outstandingTickets === 0 ? { status: "REFUNDED" } : {},
+    })
+
+    return {
+      refund: completedRefund,
+      booking: updatedBooking,
+      ticketTypeIds: tickets.map((ticket) => ticket.ticketTypeId),
+    }
+  })
+
+  if (!result) {
+    return null
+  }
+
+  await offerWaitlistSpots(result.ticketTypeIds)
+
+  return { refund: result.refund, booking: result.booking }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest"
+import { getRolloverError, getSalesStatus, parseSalesWindow } from "@/lib/bookings/sales-window"
+
+const now = new Date("2026-04-01T12:00:00Z")
+const yesterday = new Date("2026-03-31T12:00:00Z")
+const tomorrow = new Date("2026-04-02T12:00:00Z")
+
+const regular = { id: "regular", remaining: 100 }
+
+describe("getSalesStatus", () => {
+  it("follows the ticket type's own window and stock", () => {
+    expect(getSalesStatus(regular, [regular], now)).toBe("ON_SALE")
+    expect(getSalesStatus({ ...regular, salesStartDate: tomorrow }, [], now)).toBe("NOT_STARTED")
+    expect(getSalesStatus({ ...regular, availableUntil: yesterday }, [], now)).toBe("ENDED")
+    expect(getSalesStatus({ ...regular, remaining: 0 }, [], now)).toBe("SOLD_OUT")
+  })
+
+  it("closes sales at the exact end of the window", () => {
+    expect(getSalesStatus({ ...regular, availableUntil: now }, [], now)).toBe("ENDED")
+    expect(getSalesStatus({ ...regular, salesStartDate: now }, [], now)).toBe("ON_SALE")
+  })
+
+  it("reads dates sent as strings", () => {
+    expect(getSalesStatus({ ...regular, availableUntil: yesterday.toISOString() }, [], now)).toBe("ENDED")
+  })
+
+  describe("with an early bird rolling over into it", () => {
+    const earlyBird = { id: "early", remaining: 20, rolloverToId: "regular" }
+
+    it("waits while the early bird is on sale or yet to start", () => {
+      expect(getSalesStatus(regular, [earlyBird, regular], now)).toBe("NOT_STARTED")
+      expect(getSalesStatus(regular, [{ ...earlyBird, salesStartDate: tomorrow }, regular], now)).toBe("NOT_STARTED")
+    })
+
+    it("goes on sale once the early bird sells out", () => {
+      expect(getSalesStatus(regular, [{ ...earlyBird, remaining: 0 }, regular], now)).toBe("ON_SALE")
+    })
+
+    it("goes on sale once the early bird's window closes", () => {
+      expect(getSalesStatus(regular, [{ ...earlyBird, availableUntil: yesterday }, regular], now)).toBe("ON_SALE")
+    })
+
+    it("still reports its own window first", () => {
+      expect(getSalesStatus({ ...regular, availableUntil: yesterday }, [earlyBird], now)).toBe("ENDED")
+    })
+  })
+})
+
+describe("parseSalesWindow", () => {
+  it("turns the dates sent into Dates and leaves missing ones open", () => {
+    expect(parseSalesWindow({ salesStartDate: "2026-04-01T00:00:00Z" })).toEqual({
+      window: { salesStartDate: new Date("2026-04-01T00:00:00Z"), availableUntil: null },
+    })
+  })
+
+  it("refuses dates it can't read", () => {
+    expect(parseSalesWindow({ availableUntil: "next week" }).error).toBe("Sales dates are invalid")
+  })
+
+  it("refuses a window that ends before it starts", () => {
+    expect(parseSalesWindow({ salesStartDate: tomorrow, availableUntil: yesterday }).error).toBe(
+      "Sales must end after they start",
+    )
+  })
+})
+
+describe("getRolloverError", () => {
+  const ticketTypes = [
+    { id: "early", rolloverToId: "regular" },
+    { id: "regular", rolloverToId: "late" },
+    { id: "late", rolloverToId: null },
+  ]
+
+  it("allows a chain of rollovers", () => {
+    expect(getRolloverError("early", "regular", ticketTypes)).toBeNull()
+    expect(getRolloverError(null, "early", ticketTypes)).toBeNull()
+  })
+
+  it("refuses rolling over into itself", () => {
+    expect(getRolloverError("regular", "regular", ticketTypes)).toBe("A ticket type cannot roll over into itself")
+  })
+
+  it("refuses a ticket type from another event", () => {
+    expect(getRolloverError("early", "elsewhere", ticketTypes)).toBe(
+      "The rollover ticket type must belong to the same event",
+    )
+  })
+
+  it("refuses a loop", () => {
+    expect(getRolloverError("late", "early", ticketTypes)).toBe("Ticket types cannot roll over into each other in a loop")
+  })
+})
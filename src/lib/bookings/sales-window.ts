@@ -0,0 +1,102 @@
+export type SalesStatus = "ON_SALE" | "NOT_STARTED" | "ENDED" | "SOLD_OUT"
+
+export interface SalesWindowTicketType {
+  id: string
+  remaining: number
+  salesStartDate?: string | Date | null
+  availableUntil?: string | Date | null
+  rolloverToId?: string | null
+}
+
+export const SALES_STATUS_LABELS: Record<SalesStatus, string> = {
+  ON_SALE: "On sale",
+  NOT_STARTED: "On sale soon",
+  ENDED: "Sales ended",
+  SOLD_OUT: "Sold out",
+}
+
+// State of a ticket type judged by its own window and stock
+function getOwnSalesStatus(ticketType: SalesWindowTicketType, at: Date): SalesStatus {
+  if (ticketType.salesStartDate && at < new Date(ticketType.salesStartDate)) {
+    return "NOT_STARTED"
+  }
+
+  if (ticketType.availableUntil && at >= new Date(ticketType.availableUntil)) {
+    return "ENDED"
+  }
+
+  return ticketType.remaining > 0 ? "ON_SALE" : "SOLD_OUT"
+}
+
+// Whether a ticket type can be bought at the given time. A type that an early bird rolls over into
+// only goes on sale once every such early bird has sold out or closed.
+export function getSalesStatus(
+  ticketType: SalesWindowTicketType,
+  eventTicketTypes: SalesWindowTicketType[],
+  at = new Date(),
+): SalesStatus {
+  const status = getOwnSalesStatus(ticketType, at)
+
+  if (status === "NOT_STARTED" || status === "ENDED") {
+    return status
+  }
+
+  const isWaitingForEarlyBird = eventTicketTypes.some(
+    (other) =>
+      other.id !== ticketType.id &&
+      other.rolloverToId === ticketType.id &&
+      ["ON_SALE", "NOT_STARTED"].includes(getOwnSalesStatus(other, at)),
+  )
+
+  return isWaitingForEarlyBird ? "NOT_STARTED" : status
+}
+
+// Validate the sales window sent for a ticket type, returning an error message for invalid input
+export function parseSalesWindow(data: Record<string, unknown>): {
+  window?: { salesStartDate: Date | null; availableUntil: Date | null }
+  error?: string
+} {
+  const toDate = (value: unknown) => (value ? new Date(String(value)) : null)
+
+  const salesStartDate = toDate(data.salesStartDate)
+  const availableUntil = toDate(data.availableUntil)
+
+  if ((salesStartDate && Number.isNaN(salesStartDate.getTime())) || (availableUntil && Number.isNaN(availableUntil.getTime()))) {
+    return { error: "Sales dates are invalid" }
+  }
+
+  if (salesStartDate && availableUntil && availableUntil <= salesStartDate) {
+    return { error: "Sales must end after they start" }
+  }
+
+  return { window: { salesStartDate, availableUntil } }
+}
+
+// Check an early bird points at another ticket type of the same event without rolling over in a circle
+export function getRolloverError(
+  ticketTypeId: string | null,
+  rolloverToId: string,
+  eventTicketTypes: Pick<SalesWindowTicketType, "id" | "rolloverToId">[],
+) {
+  if (rolloverToId === ticketTypeId) {
+    return "A ticket type cannot roll over into itself"
+  }
+
+  let next = eventTicketTypes.find((type) => type.id === rolloverToId)
+
+  if (!next) {
+    return "The rollover ticket type must belong to the same event"
+  }
+
+  const visited = new Set<string>()
+
+  while (next?.rolloverToId && !visited.has(next.id)) {
+    if (next.rolloverToId === ticketTypeId) {
+      return "Ticket types cannot roll over into each other in a loop"
+    }
+    visited.add(next.id)
+    next = eventTicketTypes.find((type) => type.id === next?.rolloverToId)
+  }
+
+  return null
+}
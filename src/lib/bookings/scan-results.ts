@@ -0,0 +1,34 @@
+import type { ScanResult } from "@prisma/client"
+
+// Shared by the check-in dashboard and the scan history
+export const SCAN_RESULT_LABELS: Record<ScanResult, string> = {
+  CHECKED_IN: "Checked in",
+  VERIFIED: "Verified",
+  ALREADY_USED: "Already used",
+  WRONG_EVENT: "Wrong event",
+  NOT_GENUINE: "Forged or damaged code",
+  NOT_FOUND: "Ticket not found",
+  NOT_CONFIRMED: "Booking not confirmed",
+  REFUNDED: "Refunded",
+  EVENT_PASSED: "Event has passed",
+  ENTERED_TODAY: "Already entered today",
+  ALREADY_INSIDE: "Already inside",
+  NOT_INSIDE: "Not checked in",
+  NO_REENTRY: "Re-entry not allowed",
+  CHECKED_OUT: "Checked out",
+  CHECK_IN_UNDONE: "Check-in undone",
+  NO_SESSION_ACCESS: "Session not included",
+  SESSION_FULL: "Session full",
+  SESSION_ENDED: "Session has ended",
+}
+
+// Scans that let the attendee in or out, or would have
+export const SUCCESSFUL_SCAN_RESULTS: ScanResult[] = ["CHECKED_IN", "CHECKED_OUT", "VERIFIED"]
+
+// Entries in the scan log that weren't a ticket being scanned
+export const SUPERVISOR_SCAN_RESULTS: ScanResult[] = ["CHECK_IN_UNDONE"]
+
+export function getScanResultVariant(result: ScanResult) {
+  if (SUCCESSFUL_SCAN_RESULTS.includes(result)) return "default"
+  return SUPERVISOR_SCAN_RESULTS.includes(result) ? "secondary" : "destructive"
+}
@@ -0,0 +1,219 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+// An in-memory stand-in for the parts of Prisma that offering and claiming waitlist spots use. Holds
+// come from the mocked hold service, so only their ids and statuses are kept here.
+const db = vi.hoisted(() => {
+  interface FakeEntry {
+    id: string
+    userId: string
+    eventId: string
+    ticketTypeId: string
+    quantity: number
+    status: string
+    createdAt: Date
+    claimToken: string | null
+    offerExpiresAt: Date | null
+    holdId: string | null
+  }
+
+  const state = {
+    entries: [] as FakeEntry[],
+    holds: [] as { id: string; status: string }[],
+  }
+
+  class FakePrismaClient {
+    waitlistEntry = {
+      async findFirst({ where }: { where: { ticketTypeId?: string; status?: string; claimToken?: string } }) {
+        const entry = state.entries
+          .filter(
+            (entry) =>
+              (!where.ticketTypeId || entry.ticketTypeId === where.ticketTypeId) &&
+              (!where.status || entry.status === where.status) &&
+              (!where.claimToken || entry.claimToken === where.claimToken),
+          )
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0]
+
+        return entry
+          ? {
+              ...entry,
+              user: { name: "Wanjiru", email: "wanjiru@example.com" },
+              ticketType: { name: "Regular", price: 1000 },
+              event: { name: "Launch Night", startDate: new Date("2026-05-01T18:00:00Z") },
+            }
+          : null
+      },
+      async updateMany({ where, data }: { where: { id: string; status: string }; data: Partial<FakeEntry> }) {
+        const entry = state.entries.find((entry) => entry.id === where.id && entry.status === where.status)
+
+        if (!entry) {
+          return { count: 0 }
+        }
+
+        Object.assign(entry, data)
+        return { count: 1 }
+      },
+    }
+
+    ticketHold = {
+      async findFirst({ where }: { where: { id: string; status: string } }) {
+        return state.holds.find((hold) => hold.id === where.id && hold.status === where.status) ?? null
+      },
+    }
+  }
+
+  function addEntry(id: string, quantity: number, minutesAgo: number, userId = `user-${id}`) {
+    state.entries.push({
+      id,
+      userId,
+      eventId: "event-1",
+      ticketTypeId: "regular",
+      quantity,
+      status: "WAITING",
+      createdAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+      claimToken: null,
+      offerExpiresAt: null,
+      holdId: null,
+    })
+  }
+
+  function reset() {
+    state.entries = []
+    state.holds = []
+  }
+
+  return { state, FakePrismaClient, addEntry, reset }
+})
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: db.FakePrismaClient,
+}))
+vi.mock("@/lib/bookings/hold-service", () => ({
+  createOfferHold: vi.fn(),
+  releaseHold: vi.fn(),
+  SoldOutError: class SoldOutError extends Error {},
+}))
+vi.mock("@/lib/email/email", () => ({
+  sendEmail: vi.fn(),
+  getWaitlistOfferEmailTemplate: vi.fn(() => ({ subject: "", html: "", text: "" })),
+}))
+
+import { createOfferHold, releaseHold, SoldOutError } from "@/lib/bookings/hold-service"
+import { claimWaitlistOffer, joinWaitlist, offerWaitlistSpots, WaitlistError } from "@/lib/bookings/waitlist-service"
+import { sendEmail } from "@/lib/email/email"
+
+// Hold tickets for everyone while `available` lasts, like the real hold service would
+function holdFromStock(available: number) {
+  vi.mocked(createOfferHold).mockImplementation(async (_userId, _eventId, items) => {
+    if (items[0].quantity > available) {
+      throw new SoldOutError(items[0].ticketTypeId, items[0].name, available)
+    }
+
+    available -= items[0].quantity
+    const hold = { id: `hold-${db.state.holds.length + 1}`, status: "ACTIVE" }
+    db.state.holds.push(hold)
+    return hold as Awaited<ReturnType<typeof createOfferHold>>
+  })
+}
+
+describe("offerWaitlistSpots", () => {
+  beforeEach(() => {
+    db.reset()
+    vi.mocked(createOfferHold).mockReset()
+    vi.mocked(releaseHold).mockClear()
+    vi.mocked(sendEmail).mockClear()
+  })
+
+  it("holds tickets for the people who joined first and emails them a claim link", async () => {
+    db.addEntry("first", 2, 30)
+    db.addEntry("second", 1, 20)
+    db.addEntry("third", 1, 10)
+    holdFromStock(3)
+
+    const offered = await offerWaitlistSpots(["regular", "regular"])
+
+    expect(offered).toBe(2)
+    expect(db.state.entries.map((entry) => entry.status)).toEqual(["OFFERED", "OFFERED", "WAITING"])
+    expect(db.state.entries[0]).toMatchObject({
+      holdId: "hold-1",
+      claimToken: expect.stringMatching(/^[a-f0-9]{64}$/),
+    })
+    expect(db.state.entries[0].offerExpiresAt!.getTime()).toBeGreaterThan(Date.now() + 23 * 60 * 60 * 1000)
+    expect(sendEmail).toHaveBeenCalledTimes(2)
+  })
+
+  it("doesn't skip the front of the line for someone further back who wants fewer tickets", async () => {
+    db.addEntry("first", 3, 30)
+    db.addEntry("second", 1, 20)
+    holdFromStock(2)
+
+    expect(await offerWaitlistSpots(["regular"])).toBe(0)
+    expect(db.state.entries.every((entry) => entry.status === "WAITING")).toBe(true)
+  })
+
+  it("gives the tickets back and moves on when someone leaves the line while their hold is made", async () => {
+    db.addEntry("leaving", 1, 30)
+    db.addEntry("staying", 1, 20)
+    holdFromStock(1)
+    vi.mocked(createOfferHold).mockImplementationOnce(async () => {
+      db.state.entries[0].status = "CANCELLED"
+      return { id: "hold-left" } as Awaited<ReturnType<typeof createOfferHold>>
+    })
+
+    expect(await offerWaitlistSpots(["regular"])).toBe(1)
+    expect(releaseHold).toHaveBeenCalledWith("hold-left")
+    expect(db.state.entries[1]).toMatchObject({ status: "OFFERED", holdId: "hold-1" })
+  })
+})
+
+describe("claimWaitlistOffer", () => {
+  beforeEach(async () => {
+    db.reset()
+    db.addEntry("first", 1, 30, "user-1")
+    holdFromStock(1)
+    await offerWaitlistSpots(["regular"])
+  })
+
+  it("hands back the held tickets to check out with", async () => {
+    const { claimToken } = db.state.entries[0]
+
+    const { eventId, hold } = await claimWaitlistOffer(claimToken!, "user-1")
+
+    expect(eventId).toBe("event-1")
+    expect(hold.id).toBe("hold-1")
+    expect(db.state.entries[0].status).toBe("CLAIMED")
+  })
+
+  it("only works for the person the offer was made to", async () => {
+    const claim = claimWaitlistOffer(db.state.entries[0].claimToken!, "user-2")
+
+    await expect(claim).rejects.toBeInstanceOf(WaitlistError)
+    await expect(claim).rejects.toMatchObject({ status: 404 })
+  })
+
+  it("refuses an offer whose time ran out", async () => {
+    db.state.entries[0].offerExpiresAt = new Date(Date.now() - 1000)
+
+    await expect(claimWaitlistOffer(db.state.entries[0].claimToken!, "user-1")).rejects.toMatchObject({
+      status: 410,
+      message: "This offer has expired",
+    })
+  })
+
+  it("refuses an offer whose hold has been released", async () => {
+    db.state.holds[0].status = "RELEASED"
+
+    await expect(claimWaitlistOffer(db.state.entries[0].claimToken!, "user-1")).rejects.toMatchObject({
+      status: 410,
+      message: "This offer is no longer available",
+    })
+  })
+})
+
+describe("joinWaitlist", () => {
+  it.each([0, 11, 1.5])("refuses waiting for %s tickets", async (quantity) => {
+    await expect(joinWaitlist("user-1", "regular", quantity)).rejects.toThrow(
+      "You can wait for between 1 and 10 tickets",
+    )
+  })
+})
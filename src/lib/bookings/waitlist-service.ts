@@ -0,0 +1,273 @@
+import { PrismaClient } from "@prisma/client"
+import crypto from "crypto"
+import { format } from "date-fns"
+import { createOfferHold, releaseHold, SoldOutError } from "@/lib/bookings/hold-service"
+import { getSalesStatus } from "@/lib/bookings/sales-window"
+import { sendEmail, getWaitlistOfferEmailTemplate } from "@/lib/email/email"
+
+const prisma = new PrismaClient()
+
+// How long a waitlisted attendee has to claim the tickets set aside for them
+export const WAITLIST_OFFER_HOURS = 24
+
+// Most tickets one attendee can wait for in a single entry
+const MAX_WAITLIST_QUANTITY = 10
+
+export class WaitlistError extends Error {
+  status: number
+  code = "WAITLIST_ERROR"
+
+  constructor(message: string, status = 400) {
+    super(message)
+    this.name = "WaitlistError"
+    this.status = status
+  }
+
+  toJSON() {
+    return { message: this.message, code: this.code }
+  }
+}
+
+// Put a user in line for a sold out ticket type
+export async function joinWaitlist(userId: string, ticketTypeId: string, quantity: number) {
+  if (!Number.isInteger(quantity) || quantity < 1 || quantity > MAX_WAITLIST_QUANTITY) {
+    throw new WaitlistError(`You can wait for between 1 and ${MAX_WAITLIST_QUANTITY} tickets`)
+  }
+
+  const ticketType = await prisma.ticketType.findUnique({
+    where: { id: ticketTypeId },
+    include: {
+      event: {
+        include: { ticketTypes: true },
+      },
+    },
+  })
+
+  if (!ticketType || !ticketType.event.isPublished) {
+    throw new WaitlistError("Ticket type not found", 404)
+  }
+
+  // The waitlist is only for tickets that would be on sale if any were left
+  if (getSalesStatus(ticketType, ticketType.event.ticketTypes) !== "SOLD_OUT") {
+    throw new WaitlistError(`${ticketType.name} tickets are not sold out`)
+  }
+
+  const existing = await prisma.waitlistEntry.findFirst({
+    where: { userId, ticketTypeId, status: { in: ["WAITING", "OFFERED"] } },
+  })
+
+  if (existing) {
+    throw new WaitlistError(`You are already on the waitlist for ${ticketType.name}`, 409)
+  }
+
+  return prisma.waitlistEntry.create({
+    data: {
+      quantity,
+      userId,
+      ticketTypeId,
+      eventId: ticketType.eventId,
+    },
+  })
+}
+
+// Take a user off the waitlist, handing any tickets offered to them to the next person
+export async function leaveWaitlist(entryId: string) {
+  const { count } = await prisma.waitlistEntry.updateMany({
+    where: { id: entryId, status: { in: ["WAITING", "OFFERED"] } },
+    data: { status: "CANCELLED" },
+  })
+
+  if (count === 0) {
+    return
+  }
+
+  const entry = await prisma.waitlistEntry.findUniqueOrThrow({ where: { id: entryId } })
+
+  if (entry.holdId) {
+    await releaseHold(entry.holdId)
+    await offerWaitlistSpots([entry.ticketTypeId])
+  }
+}
+
+// Number of people ahead of a waiting entry, plus one
+export async function getWaitlistPosition(entry: { ticketTypeId: string; createdAt: Date }) {
+  const ahead = await prisma.waitlistEntry.count({
+    where: {
+      ticketTypeId: entry.ticketTypeId,
+      status: "WAITING",
+      createdAt: { lt: entry.createdAt },
+    },
+  })
+
+  return ahead + 1
+}
+
+// Offer returned tickets to the people waiting for them, strictly in the order they joined.
+// The tickets are held for the attendee, so nobody else can take them while the offer stands.
+export async function offerWaitlistSpots(ticketTypeIds: string[]) {
+  let offered = 0
+
+  for (const ticketTypeId of new Set(ticketTypeIds)) {
+    for (;;) {
+      const entry = await prisma.waitlistEntry.findFirst({
+        where: { ticketTypeId, status: "WAITING" },
+        orderBy: { createdAt: "asc" },
+        include: {
+          user: { select: { name: true, email: true } },
+          ticketType: { select: { name: true, price: true } },
+          event: { select: { name: true, startDate: true } },
+        },
+      })
+
+      if (!entry) {
+        break
+      }
+
+      const expiresAt = new Date(Date.now() + WAITLIST_OFFER_HOURS * 60 * 60 * 1000)
+
+      let hold
+      try {
+        hold = await createOfferHold(
+          entry.userId,
+          entry.eventId,
+          [{ ticketTypeId, name: entry.ticketType.name, price: entry.ticketType.price, quantity: entry.quantity }],
+          expiresAt,
+        )
+      } catch (error) {
+        // Not enough tickets back for the person at the front yet
+        if (error instanceof SoldOutError) break
+        throw error
+      }
+
+      const claimToken = crypto.randomBytes(32).toString("hex")
+
+      // The attendee may have left the line in the meantime
+      const { count } = await prisma.waitlistEntry.updateMany({
+        where: { id: entry.id, status: "WAITING" },
+        data: {
+          status: "OFFERED",
+          claimToken,
+          offerExpiresAt: expiresAt,
+          holdId: hold.id,
+        },
+      })
+
+      if (count === 0) {
+        await releaseHold(hold.id)
+        continue
+      }
+
+      offered++
+      await sendWaitlistOfferEmail(entry, claimToken, expiresAt)
+    }
+  }
+
+  return offered
+}
+
+// Close offers nobody claimed in time and move on to the next people in line. Their holds
+// run out at the same moment, so the tickets are already back on sale.
+export async function expireWaitlistOffers() {
+  const now = new Date()
+
+  const expired = await prisma.waitlistEntry.findMany({
+    where: { status: "OFFERED", offerExpiresAt: { lt: now } },
+    select: { id: true, ticketTypeId: true, holdId: true },
+  })
+
+  for (const entry of expired) {
+    const hold = entry.holdId ? await prisma.ticketHold.findUnique({ where: { id: entry.holdId } }) : null
+
+    // Attendees who booked straight from the booking page never opened the claim link
+    await prisma.waitlistEntry.updateMany({
+      where: { id: entry.id, status: "OFFERED" },
+      data: { status: hold?.status === "CONVERTED" ? "CLAIMED" : "EXPIRED" },
+    })
+
+    if (hold) {
+      await releaseHold(hold.id)
+    }
+  }
+
+  // Any ticket type people are waiting for may have stock back from other expired reservations too
+  const waiting = await prisma.waitlistEntry.findMany({
+    where: { status: "WAITING" },
+    distinct: ["ticketTypeId"],
+    select: { ticketTypeId: true },
+  })
+
+  const offered = await offerWaitlistSpots(waiting.map((entry) => entry.ticketTypeId))
+
+  return { expired: expired.length, offered }
+}
+
+// Accept an emailed offer, handing back the hold to check out with
+export async function claimWaitlistOffer(claimToken: string, userId: string) {
+  const entry = await prisma.waitlistEntry.findFirst({
+    where: { claimToken },
+  })
+
+  if (!entry || entry.userId !== userId) {
+    throw new WaitlistError("This claim link is invalid", 404)
+  }
+
+  if (entry.status === "EXPIRED" || (entry.offerExpiresAt && entry.offerExpiresAt < new Date())) {
+    throw new WaitlistError("This offer has expired", 410)
+  }
+
+  const hold = entry.holdId
+    ? await prisma.ticketHold.findFirst({
+        where: { id: entry.holdId, status: "ACTIVE" },
+      })
+    : null
+
+  if ((entry.status !== "OFFERED" && entry.status !== "CLAIMED") || !hold) {
+    throw new WaitlistError("This offer is no longer available", 410)
+  }
+
+  await prisma.waitlistEntry.updateMany({
+    where: { id: entry.id, status: "OFFERED" },
+    data: { status: "CLAIMED" },
+  })
+
+  return { eventId: entry.eventId, hold }
+}
+
+async function sendWaitlistOfferEmail(
+  entry: {
+    eventId: string
+    quantity: number
+    user: { name: string | null; email: string | null }
+    ticketType: { name: string }
+    event: { name: string; startDate: Date }
+  },
+  claimToken: string,
+  expiresAt: Date,
+) {
+  if (!entry.user.email) {
+    return
+  }
+
+  try {
+    const claimUrl = `${process.env.NEXT_PUBLIC_APP_URL}/dashboard/events/${entry.eventId}/book?claim=${claimToken}`
+
+    const { subject, html, text } = getWaitlistOfferEmailTemplate(
+      entry.user.name || "",
+      entry.event.name,
+      format(entry.event.startDate, "EEEE, MMMM d, yyyy 'at' h:mm a"),
+      `${entry.quantity} x ${entry.ticketType.name}`,
+      claimUrl,
+      format(expiresAt, "MMMM d 'at' h:mm a"),
+    )
+
+    await sendEmail({
+      to: entry.user.email,
+      subject,
+      html,
+      text,
+    })
+  } catch (emailError) {
+    console.error("Error sending waitlist offer email:", emailError)
+    // The offer stands even if the email fails, the attendee can still claim it from the booking page
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest"
+import { parseCsv, toCsv } from "@/lib/csv"
+
+describe("toCsv", () => {
+  it("joins rows with CRLF under the header row", () => {
+    expect(toCsv(["Ticket", "Scans"], [["TKT-1", 2], ["TKT-2", 0]])).toBe("Ticket,Scans\r\nTKT-1,2\r\nTKT-2,0")
+  })
+
+  it("writes dates as ISO strings and leaves missing values empty", () => {
+    expect(toCsv(["At", "Device", "Valid"], [[new Date("2026-05-01T18:00:00Z"), null, true]])).toBe(
+      "At,Device,Valid\r\n2026-05-01T18:00:00.000Z,,true",
+    )
+  })
+
+  it("quotes values with commas, quotes or line breaks", () => {
+    expect(toCsv(["Name"], [['Wanjiru "Shiru", Kamau'], ["Line one\nline two"]])).toBe(
+      'Name\r\n"Wanjiru ""Shiru"", Kamau"\r\n"Line one\nline two"',
+    )
+  })
+
+  it("keeps text that looks like a formula from running in a spreadsheet", () => {
+    expect(toCsv(["Name"], [["=HYPERLINK(\"http://evil\")"], ["+254700000000"], ["@admin"]])).toBe(
+      'Name\r\n"\'=HYPERLINK(""http://evil"")"\r\n\'+254700000000\r\n\'@admin',
+    )
+  })
+
+  it("leaves negative numbers alone", () => {
+    expect(toCsv(["Refund"], [[-500]])).toBe("Refund\r\n-500")
+  })
+})
+
+describe("parseCsv", () => {
+  it("reads quoted cells with commas, doubled quotes and line breaks", () => {
+    expect(parseCsv('name,notes\r\n"Kamau, Shiru","Says ""hi""\nat the door"\r\n')).toEqual([
+      ["name", "notes"],
+      ["Kamau, Shiru", 'Says "hi"\nat the door'],
+    ])
+  })
+
+  it("keeps blank lines so row numbers match the file", () => {
+    expect(parseCsv("a\n\nb")).toEqual([["a"], [""], ["b"]])
+  })
+
+  it("drops a byte order mark and reads a last line without a line break", () => {
+    expect(parseCsv("\uFEFFname,email\nAna,ana@example.com")).toEqual([
+      ["name", "email"],
+      ["Ana", "ana@example.com"],
+    ])
+  })
+
+  it("reads back what toCsv writes", () => {
+    const rows = [["Kamau, Shiru", 'Says "hi"', "two\nlines"]]
+
+    expect(parseCsv(toCsv(["a", "b", "c"], rows))).toEqual([["a", "b", "c"], ...rows])
+  })
+})
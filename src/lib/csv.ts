@@ -0,0 +1,64 @@
+type CsvValue = string | number | boolean | Date | null | undefined
+
+function formatCsvValue(value: CsvValue) {
+  if (value === null || value === undefined) return ""
+
+  let text = value instanceof Date ? value.toISOString() : String(value)
+
+  // Names and other text typed in by users must not run as spreadsheet formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+
+  // Quote anything that would otherwise break the row, doubling any quotes inside
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// Build a CSV document from a header row and data rows
+export function toCsv(headers: string[], rows: CsvValue[][]) {
+  return [headers, ...rows].map((row) => row.map(formatCsvValue).join(",")).join("\r\n")
+}
+
+// Read a CSV document into rows of cells, keeping blank lines so row numbers match the file
+export function parseCsv(text: string) {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, "")
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  return rows
+}
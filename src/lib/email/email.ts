@@ -116,7 +116,7 @@ export function getTicketConfirmationEmailTemplate(
   eventDate: string,
   eventLocation: string,
   ticketDetails: Array<{ name: string; quantity: number }>,
-  qrCodeDataUrl: string,
+  ticketCodes: Array<{ ticketNumber: string; ticketType: string; qrCodeDataUrl: string }>,
   ticketUrl: string,
 ) {
   return {
@@ -140,10 +140,18 @@ export function getTicketConfirmationEmailTemplate(
         </div>
         
         <div style="text-align: center; margin: 30px 0;">
-          <p>Scan this QR code at the event entrance:</p>
-          <img src="${qrCodeDataUrl}" alt="Ticket QR Code" style="max-width: 200px; height: auto;" />
+          <p>Each ticket has its own QR code. Scan one per person at the event entrance:</p>
+          ${ticketCodes
+            .map(
+              (ticket) => `
+          <div style="margin: 20px 0;">
+            <img src="${ticket.qrCodeDataUrl}" alt="QR Code for ticket ${ticket.ticketNumber}" style="max-width: 200px; height: auto;" />
+            <p style="margin: 5px 0;"><strong>${ticket.ticketType}</strong> &middot; ${ticket.ticketNumber}</p>
+          </div>`,
+            )
+            .join("")}
           <p style="font-size: 12px; color: #666; margin-top: 5px;">
-            (If the QR code is not visible, please view your tickets in the dashboard)
+            (If the QR codes are not visible, please view your tickets in the dashboard)
           </p>
         </div>
         
@@ -171,7 +179,10 @@ export function getTicketConfirmationEmailTemplate(
       Ticket Details:
       ${ticketDetails.map((ticket) => `- ${ticket.quantity}x ${ticket.name}`).join("\n")}
       
-      Please download your ticket or save the QR code to present at the event entrance.
+      Ticket Numbers:
+      ${ticketCodes.map((ticket) => `- ${ticket.ticketNumber} (${ticket.ticketType})`).join("\n")}
+      
+      Please download your tickets or save their QR codes to present at the event entrance.
       
       Download your ticket here: ${ticketUrl}
       
@@ -185,3 +196,47 @@ export function getTicketConfirmationEmailTemplate(
   }
 }
 
+
+// Waitlist offer email template
+export function getWaitlistOfferEmailTemplate(
+  userName: string,
+  eventName: string,
+  eventDate: string,
+  ticketDetails: string,
+  claimUrl: string,
+  expiresAt: string,
+) {
+  return {
+    subject: `Tickets are available for ${eventName}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2 style="color: #333;">Your Tickets Are Waiting</h2>
+        <p>Hello ${userName || "there"},</p>
+        <p>Good news! Tickets you were waiting for have become available for <strong>${eventName}</strong> on ${eventDate}.</p>
+        <p>We have set aside <strong>${ticketDetails}</strong> for you until <strong>${expiresAt}</strong>.</p>
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${claimUrl}" style="background-color: #4F46E5; color: white; padding: 12px 24px; text-decoration: none; border-radius: 4px; font-weight: bold;">Claim Tickets</a>
+        </div>
+        <p>Or copy and paste this link into your browser:</p>
+        <p style="word-break: break-all; color: #4F46E5;">${claimUrl}</p>
+        <p>If you don't complete your booking in time, the tickets will be offered to the next person on the waitlist.</p>
+        <p>Thank you,<br>Events Hive Team</p>
+      </div>
+    `,
+    text: `
+      Your Tickets Are Waiting
+      
+      Hello ${userName || "there"},
+      
+      Good news! Tickets you were waiting for have become available for ${eventName} on ${eventDate}.
+      
+      We have set aside ${ticketDetails} for you until ${expiresAt}. Claim them here:
+      ${claimUrl}
+      
+      If you don't complete your booking in time, the tickets will be offered to the next person on the waitlist.
+      
+      Thank you,
+      Events Hive Team
+    `,
+  }
+}
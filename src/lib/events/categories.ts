@@ -0,0 +1,44 @@
+import type { EventCategory } from "@prisma/client"
+
+export const EVENT_CATEGORY_LABELS: Record<EventCategory, string> = {
+  MUSIC: "Music",
+  BUSINESS: "Business",
+  TECHNOLOGY: "Technology",
+  SPORTS: "Sports",
+  ARTS: "Arts & Culture",
+  FOOD_AND_DRINK: "Food & Drink",
+  COMMUNITY: "Community",
+  EDUCATION: "Education",
+  OTHER: "Other",
+}
+
+export const MAX_TAGS = 10
+const MAX_TAG_LENGTH = 30
+
+export function isEventCategory(value: unknown): value is EventCategory {
+  return typeof value === "string" && Object.keys(EVENT_CATEGORY_LABELS).includes(value)
+}
+
+// Tags are matched case-insensitively, so they're kept trimmed, lower case and without repeats
+export function normalizeTags(tags: string[]) {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))]
+}
+
+// Validate the tags sent for an event, returning an error message for invalid input
+export function parseTags(value: unknown): { tags?: string[]; error?: string } {
+  if (!Array.isArray(value) || !value.every((tag) => typeof tag === "string")) {
+    return { error: "Tags must be a list of words" }
+  }
+
+  const tags = normalizeTags(value)
+
+  if (tags.length > MAX_TAGS) {
+    return { error: `Events can have at most ${MAX_TAGS} tags` }
+  }
+
+  if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    return { error: `Tags can be at most ${MAX_TAG_LENGTH} characters long` }
+  }
+
+  return { tags }
+}
@@ -0,0 +1,208 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+// An in-memory stand-in for the parts of Prisma duplicating an event uses. The event to copy is set up
+// directly, and every row the copy creates is kept so the tests can look at what was copied.
+const db = vi.hoisted(() => {
+  interface Row {
+    id: string
+    [field: string]: unknown
+  }
+
+  const state = {
+    event: null as Row | null,
+    created: {
+      event: [] as Row[],
+      eventSession: [] as Row[],
+      ticketType: [] as Row[],
+      promoCode: [] as Row[],
+      eventStaff: [] as Row[],
+    },
+  }
+
+  function creator(model: keyof typeof state.created) {
+    return async ({ data }: { data: Omit<Row, "id"> }) => {
+      const row = { id: `${model}-copy-${state.created[model].length + 1}`, ...data }
+      state.created[model].push(row)
+      return row
+    }
+  }
+
+  function manyCreator(model: keyof typeof state.created) {
+    return async ({ data }: { data: Omit<Row, "id">[] }) => {
+      for (const row of data) {
+        await creator(model)({ data: row })
+      }
+      return { count: data.length }
+    }
+  }
+
+  const delegates = {
+    event: {
+      async findUnique({ where }: { where: { id: string } }) {
+        return state.event?.id === where.id ? state.event : null
+      },
+      create: creator("event"),
+    },
+    eventSession: { create: creator("eventSession") },
+    ticketType: {
+      create: creator("ticketType"),
+      async update({ where, data }: { where: { id: string }; data: Partial<Row> }) {
+        const ticketType = state.created.ticketType.find((row) => row.id === where.id)!
+        Object.assign(ticketType, data)
+        return ticketType
+      },
+    },
+    promoCode: { createMany: manyCreator("promoCode") },
+    eventStaff: { createMany: manyCreator("eventStaff") },
+  }
+
+  class FakePrismaClient {
+    event = delegates.event
+
+    async $transaction<T>(callback: (tx: typeof delegates) => Promise<T>) {
+      return callback(delegates)
+    }
+  }
+
+  function setEvent(event: { sessions?: Row[]; ticketTypes?: Row[]; promoCodes?: Row[] }) {
+    state.event = {
+      id: "event-1",
+      name: "Launch Night",
+      description: null,
+      startDate: new Date("2026-03-01T18:00:00Z"),
+      endDate: new Date("2026-03-01T23:00:00Z"),
+      location: "Nairobi",
+      imageUrl: null,
+      refundPolicy: null,
+      category: null,
+      tags: [],
+      sessions: [],
+      ticketTypes: [],
+      promoCodes: [],
+      staff: [],
+      ...event,
+    }
+  }
+
+  function reset() {
+    state.event = null
+    for (const rows of Object.values(state.created)) {
+      rows.length = 0
+    }
+  }
+
+  return { state, FakePrismaClient, setEvent, reset }
+})
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: db.FakePrismaClient,
+}))
+
+import { duplicateEvent } from "@/lib/events/duplicate-event"
+
+function session(id: string) {
+  return {
+    id,
+    name: `Session ${id}`,
+    description: null,
+    startDate: new Date("2026-03-01T18:00:00Z"),
+    endDate: new Date("2026-03-01T19:00:00Z"),
+    room: null,
+    capacity: null,
+  }
+}
+
+function ticketType(id: string, extra: { sessionIds?: string[]; rolloverToId?: string | null } = {}) {
+  return {
+    id,
+    name: `Ticket ${id}`,
+    description: null,
+    price: 1000,
+    quantity: 50,
+    remaining: 10,
+    salesStartDate: null,
+    availableUntil: null,
+    entryPolicy: "SINGLE",
+    sessionIds: [],
+    rolloverToId: null,
+    ...extra,
+  }
+}
+
+function promoCode(code: string, ticketTypeIds: string[]) {
+  return {
+    id: `promo-${code}`,
+    code,
+    discountType: "PERCENTAGE",
+    discountValue: 10,
+    ticketTypeIds,
+    maxUses: null,
+    maxUsesPerUser: null,
+    validFrom: new Date("2026-02-01T00:00:00Z"),
+    validUntil: null,
+    isActive: true,
+  }
+}
+
+describe("duplicateEvent", () => {
+  beforeEach(() => {
+    db.reset()
+  })
+
+  it("points ticket types and promo codes at the copies and shifts the dates", async () => {
+    db.setEvent({
+      sessions: [session("morning")],
+      ticketTypes: [ticketType("early", { sessionIds: ["morning"], rolloverToId: "regular" }), ticketType("regular")],
+      promoCodes: [promoCode("EARLY10", ["early"]), promoCode("ALL10", [])],
+    })
+
+    const copy = await duplicateEvent("event-1", "user-1", 7)
+
+    const [early, regular] = db.state.created.ticketType
+    expect(copy?.startDate).toEqual(new Date("2026-03-08T18:00:00Z"))
+    expect(copy?.isPublished).toBe(false)
+    expect(early).toMatchObject({ sessionIds: ["eventSession-copy-1"], rolloverToId: regular.id, remaining: 50 })
+    expect(regular).toMatchObject({ sessionIds: [] })
+    expect(db.state.created.promoCode).toMatchObject([
+      { code: "EARLY10", ticketTypeIds: [early.id], validFrom: new Date("2026-02-08T00:00:00Z") },
+      { code: "ALL10", ticketTypeIds: [] },
+    ])
+  })
+
+  it("leaves out a promo code whose ticket types no longer exist instead of opening it to every ticket", async () => {
+    db.setEvent({
+      ticketTypes: [ticketType("regular")],
+      promoCodes: [promoCode("GONE10", ["deleted"]), promoCode("SOME10", ["deleted", "regular"])],
+    })
+
+    await duplicateEvent("event-1", "user-1", 7)
+
+    expect(db.state.created.promoCode).toMatchObject([
+      { code: "SOME10", ticketTypeIds: [db.state.created.ticketType[0].id] },
+    ])
+  })
+
+  it("leaves out a ticket type whose sessions no longer exist instead of letting it into every session", async () => {
+    db.setEvent({
+      sessions: [session("morning")],
+      ticketTypes: [
+        ticketType("orphaned", { sessionIds: ["deleted"] }),
+        ticketType("regular", { rolloverToId: "orphaned" }),
+      ],
+      promoCodes: [promoCode("ORPHAN10", ["orphaned"])],
+    })
+
+    await duplicateEvent("event-1", "user-1", 7)
+
+    expect(db.state.created.ticketType).toHaveLength(1)
+    expect(db.state.created.ticketType[0]).toMatchObject({ name: "Ticket regular" })
+    expect(db.state.created.ticketType[0].rolloverToId).toBeUndefined()
+    expect(db.state.created.promoCode).toHaveLength(0)
+  })
+
+  it("returns null for an event that doesn't exist", async () => {
+    expect(await duplicateEvent("missing", "user-1", 7)).toBeNull()
+    expect(db.state.created.event).toHaveLength(0)
+  })
+})
@@ -0,0 +1,145 @@
+import { PrismaClient } from "@prisma/client"
+import { addDays } from "date-fns"
+
+const prisma = new PrismaClient()
+
+// Point a list of ids at their copies. An empty list means "all of them", so a list whose ids were all
+// left behind gives null rather than widening to everything.
+function remapIds(ids: string[], copies: Map<string, string>) {
+  const remapped = ids.flatMap((id) => copies.get(id) ?? [])
+  return ids.length > 0 && remapped.length === 0 ? null : remapped
+}
+
+// Copy an event into a new unpublished draft owned by creatorId, with every date moved by offsetDays.
+// Ticket types start with full stock, and the agenda, promo codes and door staff come along, pointing
+// at the copied ticket types and sessions. Ticket types and promo codes limited to sessions or ticket
+// types that no longer exist aren't copied. Bookings, tickets and scans stay with the original.
+export async function duplicateEvent(eventId: string, creatorId: string, offsetDays: number) {
+  const event = await prisma.event.findUnique({
+    where: { id: eventId },
+    include: {
+      ticketTypes: true,
+      sessions: true,
+      promoCodes: true,
+      staff: true,
+    },
+  })
+
+  if (!event) {
+    return null
+  }
+
+  const shift = (date: Date | null) => (date ? addDays(date, offsetDays) : null)
+
+  return prisma.$transaction(
+    async (tx) => {
+      const copy = await tx.event.create({
+        data: {
+          name: `${event.name} (Copy)`,
+          description: event.description,
+          startDate: addDays(event.startDate, offsetDays),
+          endDate: addDays(event.endDate, offsetDays),
+          location: event.location,
+          imageUrl: event.imageUrl,
+          isPublished: false,
+          refundPolicy: event.refundPolicy,
+          category: event.category,
+          tags: event.tags,
+          timezoneOffset: event.timezoneOffset,
+          creatorId,
+        },
+      })
+
+      const sessionIds = new Map<string, string>()
+
+      for (const session of event.sessions) {
+        const { id } = await tx.eventSession.create({
+          data: {
+            name: session.name,
+            description: session.description,
+            startDate: addDays(session.startDate, offsetDays),
+            endDate: addDays(session.endDate, offsetDays),
+            room: session.room,
+            capacity: session.capacity,
+            eventId: copy.id,
+          },
+        })
+        sessionIds.set(session.id, id)
+      }
+
+      const ticketTypeIds = new Map<string, string>()
+
+      for (const ticketType of event.ticketTypes) {
+        const ticketTypeSessionIds = remapIds(ticketType.sessionIds, sessionIds)
+
+        if (!ticketTypeSessionIds) {
+          continue
+        }
+
+        const { id } = await tx.ticketType.create({
+          data: {
+            name: ticketType.name,
+            description: ticketType.description,
+            price: ticketType.price,
+            quantity: ticketType.quantity,
+            remaining: ticketType.quantity,
+            salesStartDate: shift(ticketType.salesStartDate),
+            availableUntil: shift(ticketType.availableUntil),
+            entryPolicy: ticketType.entryPolicy,
+            sessionIds: ticketTypeSessionIds,
+            eventId: copy.id,
+          },
+        })
+        ticketTypeIds.set(ticketType.id, id)
+      }
+
+      // Early birds can only point at their rollover once every copy exists
+      for (const ticketType of event.ticketTypes) {
+        const copyId = ticketTypeIds.get(ticketType.id)
+        const rolloverToId = ticketType.rolloverToId && ticketTypeIds.get(ticketType.rolloverToId)
+
+        if (copyId && rolloverToId) {
+          await tx.ticketType.update({
+            where: { id: copyId },
+            data: { rolloverToId },
+          })
+        }
+      }
+
+      const promoCodes = event.promoCodes.flatMap((promoCode) => {
+        const promoCodeTicketTypeIds = remapIds(promoCode.ticketTypeIds, ticketTypeIds)
+
+        return promoCodeTicketTypeIds
+          ? [
+              {
+                code: promoCode.code,
+                discountType: promoCode.discountType,
+                discountValue: promoCode.discountValue,
+                ticketTypeIds: promoCodeTicketTypeIds,
+                maxUses: promoCode.maxUses,
+                maxUsesPerUser: promoCode.maxUsesPerUser,
+                validFrom: shift(promoCode.validFrom),
+                validUntil: shift(promoCode.validUntil),
+                isActive: promoCode.isActive,
+                eventId: copy.id,
+              },
+            ]
+          : []
+      })
+
+      if (promoCodes.length > 0) {
+        await tx.promoCode.createMany({ data: promoCodes })
+      }
+
+      if (event.staff.length > 0) {
+        await tx.eventStaff.createMany({
+          data: event.staff.map((staff) => ({ role: staff.role, userId: staff.userId, eventId: copy.id })),
+        })
+      }
+
+      return copy
+    },
+    // Large events copy a lot of rows in one transaction
+    { timeout: 30000 },
+  )
+}
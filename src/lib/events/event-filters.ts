@@ -0,0 +1,196 @@
+import type { Event, EventCategory, Prisma } from "@prisma/client"
+import type { EventFilters } from "@/types/event"
+import { isEventCategory, normalizeTags } from "@/lib/events/categories"
+
+// What the events listing shows for each event, shared with search so results render the same way
+export const EVENT_LISTING_INCLUDE = {
+  creator: {
+    select: {
+      id: true,
+      name: true,
+      email: true,
+      image: true,
+    },
+  },
+  ticketTypes: {
+    select: {
+      id: true,
+      name: true,
+      price: true,
+      remaining: true,
+      salesStartDate: true,
+      availableUntil: true,
+      rolloverToId: true,
+    },
+  },
+  series: {
+    select: {
+      id: true,
+      name: true,
+      rule: true,
+    },
+  },
+  _count: {
+    select: {
+      bookings: true,
+    },
+  },
+} satisfies Prisma.EventInclude
+
+// Fields the events listing can be sorted by
+export const EVENT_SORT_FIELDS = ["startDate", "createdAt", "name"] as const
+
+export interface EventFacets {
+  categories: { category: EventCategory; count: number }[]
+  tags: { tag: string; count: number }[]
+}
+
+// Write filters as the query string both events APIs read
+export function toEventFilterParams(filters: EventFilters) {
+  const params = new URLSearchParams()
+  const toDateParam = (date: string | Date) => (typeof date === "string" ? date : date.toISOString())
+
+  if (filters.category) params.set("category", filters.category)
+  if (filters.tags?.length) params.set("tags", filters.tags.join(","))
+  if (filters.startDate) params.set("startDate", toDateParam(filters.startDate))
+  if (filters.endDate) params.set("endDate", toDateParam(filters.endDate))
+  if (filters.priceRange) {
+    params.set("minPrice", String(filters.priceRange.min))
+    if (Number.isFinite(filters.priceRange.max)) params.set("maxPrice", String(filters.priceRange.max))
+  }
+  if (filters.searchTerm?.trim()) params.set("search", filters.searchTerm.trim())
+
+  return params
+}
+
+// Read filters from an events API query string, returning an error message for invalid input
+export function parseEventFilters(searchParams: URLSearchParams): { filters?: EventFilters; error?: string } {
+  const category = searchParams.get("category")
+
+  if (category && !isEventCategory(category)) {
+    return { error: "Unknown event category" }
+  }
+
+  const toDate = (name: string) => {
+    const value = searchParams.get(name)
+    return value ? new Date(value) : undefined
+  }
+  const startDate = toDate("startDate")
+  const endDate = toDate("endDate")
+
+  if ((startDate && Number.isNaN(startDate.getTime())) || (endDate && Number.isNaN(endDate.getTime()))) {
+    return { error: "Date filters are invalid" }
+  }
+
+  const minPrice = searchParams.get("minPrice")
+  const maxPrice = searchParams.get("maxPrice")
+  const priceRange =
+    minPrice || maxPrice
+      ? { min: minPrice ? Number(minPrice) : 0, max: maxPrice ? Number(maxPrice) : Number.POSITIVE_INFINITY }
+      : undefined
+
+  if (priceRange && (Number.isNaN(priceRange.min) || Number.isNaN(priceRange.max) || priceRange.min > priceRange.max)) {
+    return { error: "Price filters are invalid" }
+  }
+
+  const tags = normalizeTags(searchParams.get("tags")?.split(",") ?? [])
+
+  return {
+    filters: {
+      category: isEventCategory(category) ? category : undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      startDate,
+      endDate,
+      priceRange,
+      searchTerm: searchParams.get("search")?.trim() || undefined,
+    },
+  }
+}
+
+// Prisma conditions for a set of filters. Events match a date range they overlap, and a price range
+// when any of their ticket types is priced within it.
+export function getEventFilterWhere(filters: EventFilters): Prisma.EventWhereInput {
+  const conditions: Prisma.EventWhereInput[] = []
+
+  if (filters.category) {
+    conditions.push({ category: filters.category })
+  }
+
+  if (filters.tags?.length) {
+    conditions.push({ tags: { hasEvery: filters.tags } })
+  }
+
+  if (filters.startDate) {
+    conditions.push({ endDate: { gte: new Date(filters.startDate) } })
+  }
+
+  if (filters.endDate) {
+    conditions.push({ startDate: { lte: new Date(filters.endDate) } })
+  }
+
+  if (filters.priceRange) {
+    const { min, max } = filters.priceRange
+    conditions.push({
+      ticketTypes: { some: { price: { gte: min, ...(Number.isFinite(max) && { lte: max }) } } },
+    })
+  }
+
+  if (filters.searchTerm) {
+    const contains = { contains: filters.searchTerm, mode: "insensitive" as const }
+    conditions.push({
+      OR: [
+        { name: contains },
+        { description: contains },
+        { location: contains },
+        { tags: { has: filters.searchTerm.toLowerCase() } },
+      ],
+    })
+  }
+
+  return { AND: conditions }
+}
+
+// Narrow a listing to one of its ?scope= views: "mine" for events the user created, "upcoming" for events
+// still to start, and "public" for the published upcoming events the landing page shows
+export function getEventScopeWhere(scope: string | null, userId?: string): Prisma.EventWhereInput {
+  switch (scope) {
+    case "mine":
+      return userId ? { creatorId: userId } : { id: { in: [] } }
+    case "upcoming":
+      return { startDate: { gte: new Date() } }
+    case "public":
+      return { isPublished: true, startDate: { gte: new Date() } }
+    default:
+      return {}
+  }
+}
+
+// Count categories and tags across events, most common first. Facets are counted without the category
+// and tag filters so the other choices still show how many events they would find. Each entry counts
+// once, or `count` times when it stands for a group of events with the same category and tags.
+export function countEventFacets(
+  events: (Pick<Event, "category" | "tags"> & { count?: number })[],
+  tagLimit = 12,
+): EventFacets {
+  const categories = new Map<EventCategory, number>()
+  const tags = new Map<string, number>()
+
+  for (const { category, tags: eventTags, count = 1 } of events) {
+    if (category) {
+      categories.set(category, (categories.get(category) ?? 0) + count)
+    }
+    for (const tag of eventTags) {
+      tags.set(tag, (tags.get(tag) ?? 0) + count)
+    }
+  }
+
+  return {
+    categories: [...categories]
+      .map(([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count),
+    tags: [...tags]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, tagLimit),
+  }
+}
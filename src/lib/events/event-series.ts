@@ -0,0 +1,226 @@
+import { PrismaClient, type Event, type Prisma } from "@prisma/client"
+import { formatRecurrenceRule, type RecurrenceRule } from "@/lib/events/recurrence"
+import type { EVENT_SORT_FIELDS } from "@/lib/events/event-filters"
+import { toOrderBy, type Sort } from "@/lib/pagination"
+
+const prisma = new PrismaClient()
+
+type OccurrenceTemplate = Omit<Prisma.EventUncheckedCreateInput, "startDate" | "endDate" | "ticketTypes" | "seriesId"> & {
+  startDate: Date
+  endDate: Date
+}
+
+type OccurrenceChanges = Omit<Prisma.EventUncheckedUpdateInput, "startDate" | "endDate"> & {
+  startDate?: Date
+  endDate?: Date
+}
+
+function shiftDate(date: Date | string | null | undefined, milliseconds: number) {
+  return date ? new Date(new Date(date).getTime() + milliseconds) : null
+}
+
+// Create a series and one event per start time. Every occurrence lasts as long as the template and gets
+// its own copy of the template ticket types, with sales windows moved along with the event.
+export async function createEventSeries(
+  rule: RecurrenceRule,
+  starts: Date[],
+  template: OccurrenceTemplate,
+  ticketTypes: Prisma.TicketTypeCreateWithoutEventInput[],
+) {
+  return prisma.$transaction(
+    async (tx) => {
+      const series = await tx.eventSeries.create({
+        data: {
+          name: template.name,
+          rule: formatRecurrenceRule(rule),
+          creatorId: template.creatorId,
+        },
+      })
+
+      const events = []
+
+      for (const start of starts) {
+        const offset = start.getTime() - template.startDate.getTime()
+
+        events.push(
+          await tx.event.create({
+            data: {
+              ...template,
+              startDate: start,
+              endDate: new Date(template.endDate.getTime() + offset),
+              seriesId: series.id,
+              ticketTypes: {
+                create: ticketTypes.map((ticketType) => ({
+                  ...ticketType,
+                  salesStartDate: shiftDate(ticketType.salesStartDate, offset),
+                  availableUntil: shiftDate(ticketType.availableUntil, offset),
+                })),
+              },
+            },
+            include: {
+              ticketTypes: true,
+            },
+          }),
+        )
+      }
+
+      return { series, events }
+    },
+    // A long series is a lot of writes for one transaction
+    { timeout: 30000 },
+  )
+}
+
+// Apply an edit to an occurrence and every later one in its series. Date changes move each occurrence
+// by the same amount rather than putting them all on the same day, and its ticket sales windows with it.
+export async function updateFutureOccurrences(
+  occurrence: Pick<Event, "seriesId" | "startDate" | "endDate">,
+  changes: OccurrenceChanges,
+) {
+  if (!occurrence.seriesId) {
+    return
+  }
+
+  const { startDate, endDate, ...rest } = changes
+  const startShift = startDate ? startDate.getTime() - occurrence.startDate.getTime() : 0
+  const endShift = endDate ? endDate.getTime() - occurrence.endDate.getTime() : 0
+
+  const occurrences = await prisma.event.findMany({
+    where: {
+      seriesId: occurrence.seriesId,
+      startDate: { gte: occurrence.startDate },
+    },
+    select: {
+      id: true,
+      startDate: true,
+      endDate: true,
+      ticketTypes: { select: { id: true, salesStartDate: true, availableUntil: true } },
+    },
+  })
+
+  // Sales windows are set relative to the start, so they follow it
+  const ticketTypes = startShift === 0 ? [] : occurrences.flatMap((future) => future.ticketTypes)
+
+  await prisma.$transaction([
+    ...occurrences.map((future) =>
+      prisma.event.update({
+        where: { id: future.id },
+        data: {
+          ...rest,
+          startDate: new Date(future.startDate.getTime() + startShift),
+          endDate: new Date(future.endDate.getTime() + endShift),
+        },
+      }),
+    ),
+    ...ticketTypes
+      .filter((ticketType) => ticketType.salesStartDate || ticketType.availableUntil)
+      .map((ticketType) =>
+        prisma.ticketType.update({
+          where: { id: ticketType.id },
+          data: {
+            salesStartDate: shiftDate(ticketType.salesStartDate, startShift),
+            availableUntil: shiftDate(ticketType.availableUntil, startShift),
+          },
+        }),
+      ),
+    ...(typeof changes.name === "string"
+      ? [prisma.eventSeries.update({ where: { id: occurrence.seriesId }, data: { name: changes.name } })]
+      : []),
+  ])
+}
+
+export interface SeriesDate {
+  id: string
+  startDate: Date
+}
+
+type EventSortField = (typeof EVENT_SORT_FIELDS)[number]
+type SeriesGroupOrderBy = Pick<Prisma.EventOrderByWithAggregationInput, "seriesId" | "_min" | "_max">
+
+const standaloneEvent = {
+  OR: [{ seriesId: null }, { seriesId: { isSet: false } }],
+} satisfies Prisma.EventWhereInput
+
+function compareListingRows<T extends { key: string; value: Date | string }>(order: "asc" | "desc") {
+  return (a: T, b: T) => {
+    const byValue = a.value < b.value ? -1 : a.value > b.value ? 1 : 0
+    return (order === "asc" ? byValue : -byValue) || (a.key < b.key ? -1 : a.key > b.key ? 1 : 0)
+  }
+}
+
+// Page through an events listing with each series collapsed into its first occurrence in the listing's
+// order, so a series takes one row and is never split across pages. Series are grouped and sorted by the
+// database, and neither they nor standalone events are read past the end of the page. Returns the ids of
+// the events to show, and for each of them the series' other dates that match the listing.
+export async function pageEventsBySeries(
+  where: Prisma.EventWhereInput,
+  sort: Sort<EventSortField>,
+  page: { skip: number; take: number },
+) {
+  const limit = page.skip + page.take
+  const aggregate = sort.order === "asc" ? "_min" : "_max"
+
+  const [standalone, seriesGroups] = await Promise.all([
+    prisma.event.findMany({
+      where: { AND: [where, standaloneEvent] },
+      select: { id: true, startDate: true, createdAt: true, name: true },
+      orderBy: toOrderBy(sort),
+      take: limit,
+    }),
+    prisma.event.groupBy({
+      by: ["seriesId"],
+      where: { AND: [where, { seriesId: { not: null } }] },
+      _min: { startDate: true, createdAt: true, name: true },
+      _max: { startDate: true, createdAt: true, name: true },
+      orderBy: [{ [aggregate]: { [sort.field]: sort.order } }, { seriesId: "asc" }] as SeriesGroupOrderBy[],
+      take: limit,
+    }),
+  ])
+
+  const rows = [
+    ...standalone.map((event) => ({ key: event.id, value: event[sort.field], seriesId: null })),
+    ...seriesGroups.flatMap((group) =>
+      group.seriesId ? [{ key: group.seriesId, value: group[aggregate][sort.field]!, seriesId: group.seriesId }] : [],
+    ),
+  ]
+    .sort(compareListingRows(sort.order))
+    .slice(page.skip, limit)
+
+  const pageSeriesIds = rows.flatMap((row) => (row.seriesId ? [row.seriesId] : []))
+  const occurrences =
+    pageSeriesIds.length > 0
+      ? await prisma.event.findMany({
+          where: { AND: [where, { seriesId: { in: pageSeriesIds } }] },
+          select: { id: true, seriesId: true, startDate: true },
+          orderBy: toOrderBy(sort),
+        })
+      : []
+
+  // Each series is shown by its first occurrence in the listing's order, with the rest by date
+  const eventIds = rows.map((row) =>
+    row.seriesId ? occurrences.find((event) => event.seriesId === row.seriesId)!.id : row.key,
+  )
+  const byDate = [...occurrences].sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
+
+  return {
+    eventIds,
+    otherDates: Object.fromEntries(
+      rows.map((row, index) => [
+        eventIds[index],
+        byDate
+          .filter((event) => row.seriesId && event.seriesId === row.seriesId && event.id !== eventIds[index])
+          .map((event) => ({ id: event.id, startDate: event.startDate })),
+      ]),
+    ) as Record<string, SeriesDate[]>,
+  }
+}
+
+// How many rows a listing grouped by series has, counting each series with a matching occurrence once
+export async function countEventsBySeries(where: Prisma.EventWhereInput) {
+  const [standalone, series] = await Promise.all([
+    prisma.event.count({ where: { AND: [where, standaloneEvent] } }),
+    prisma.eventSeries.count({ where: { events: { some: where } } }),
+  ])
+
+  return standalone + series
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest"
+import {
+  describeRecurrenceRule,
+  formatRecurrenceRule,
+  getOccurrenceStarts,
+  MAX_OCCURRENCES,
+  parseRecurrenceRule,
+  type RecurrenceRule,
+} from "@/lib/events/recurrence"
+
+function rule(value: string) {
+  const { rule, error } = parseRecurrenceRule(value)
+
+  if (!rule) {
+    throw new Error(error)
+  }
+
+  return rule
+}
+
+function isoStrings(dates: Date[]) {
+  return dates.map((date) => date.toISOString())
+}
+
+describe("parseRecurrenceRule", () => {
+  it("reads the supported parts in any case, with or without the RRULE: prefix", () => {
+    expect(parseRecurrenceRule("RRULE:freq=weekly;interval=2;byday=th,tu,th;count=6")).toEqual({
+      rule: { frequency: "WEEKLY", interval: 2, byDay: [2, 4], count: 6, until: undefined },
+    })
+  })
+
+  it("reads UNTIL as a date, ending on its last second, or as a UTC date-time", () => {
+    expect(rule("FREQ=DAILY;UNTIL=20260531").until).toEqual(new Date("2026-05-31T23:59:59Z"))
+    expect(rule("FREQ=DAILY;UNTIL=20260531T180000Z").until).toEqual(new Date("2026-05-31T18:00:00Z"))
+  })
+
+  it.each([
+    ["", "Recurrence rule is required"],
+    ["FREQ=WEEKLY;COUNT", "Recurrence rule is invalid"],
+    ["FREQ=YEARLY;COUNT=2", "Events can repeat daily, weekly or monthly"],
+    ["FREQ=WEEKLY;BYMONTH=3;COUNT=2", "Recurrence rules don't support BYMONTH"],
+    ["FREQ=WEEKLY;INTERVAL=0;COUNT=2", "Recurrence interval must be"],
+    ["FREQ=WEEKLY;BYDAY=XX;COUNT=2", "Recurrence days must be weekdays"],
+    ["FREQ=DAILY;BYDAY=MO;COUNT=2", "Only weekly events can repeat on chosen days"],
+    [`FREQ=DAILY;COUNT=${MAX_OCCURRENCES + 1}`, "A series can have between 1 and"],
+    ["FREQ=DAILY;UNTIL=2026-05-31", "Recurrence end date is invalid"],
+    ["FREQ=DAILY", "must end after a number of occurrences or on a date"],
+    ["FREQ=DAILY;COUNT=2;UNTIL=20260531", "must end after a number of occurrences or on a date"],
+  ])("refuses %j", (value, error) => {
+    expect(parseRecurrenceRule(value).error).toContain(error)
+  })
+})
+
+describe("formatRecurrenceRule", () => {
+  it("writes out only the parts that differ from the defaults", () => {
+    const weekly: RecurrenceRule = { frequency: "WEEKLY", interval: 1, byDay: [1, 3], count: 4 }
+
+    expect(formatRecurrenceRule(weekly)).toBe("FREQ=WEEKLY;BYDAY=MO,WE;COUNT=4")
+  })
+
+  it("writes a rule that reads back the same", () => {
+    const value = "FREQ=MONTHLY;INTERVAL=3;UNTIL=20261231T235959Z"
+
+    expect(formatRecurrenceRule(rule(value))).toBe(value)
+  })
+})
+
+describe("describeRecurrenceRule", () => {
+  it("summarises a stored rule", () => {
+    expect(describeRecurrenceRule("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=6")).toBe("Every 2 weeks on Tue, Thu")
+    expect(describeRecurrenceRule("FREQ=DAILY;COUNT=3")).toBe("Every day")
+  })
+
+  it("falls back to a plain label for a rule it can't read", () => {
+    expect(describeRecurrenceRule("FREQ=HOURLY")).toBe("Repeats")
+  })
+})
+
+describe("getOccurrenceStarts", () => {
+  it("repeats weekly on the chosen days, counting the first occurrence", () => {
+    const starts = getOccurrenceStarts(rule("FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4"), new Date("2026-05-05T16:00:00Z"))
+
+    expect(isoStrings(starts)).toEqual([
+      "2026-05-05T16:00:00.000Z",
+      "2026-05-07T16:00:00.000Z",
+      "2026-05-12T16:00:00.000Z",
+      "2026-05-14T16:00:00.000Z",
+    ])
+  })
+
+  it("counts weekdays on the organiser's clock", () => {
+    // Tuesday 00:30 in Nairobi is still Monday in UTC
+    const starts = getOccurrenceStarts(rule("FREQ=WEEKLY;BYDAY=TU,TH;COUNT=3"), new Date("2026-05-04T21:30:00Z"), -180)
+
+    expect(isoStrings(starts)).toEqual([
+      "2026-05-04T21:30:00.000Z",
+      "2026-05-06T21:30:00.000Z",
+      "2026-05-11T21:30:00.000Z",
+    ])
+  })
+
+  it("skips months without the first occurrence's day", () => {
+    const starts = getOccurrenceStarts(rule("FREQ=MONTHLY;COUNT=3"), new Date("2026-01-31T18:00:00Z"))
+
+    expect(isoStrings(starts)).toEqual([
+      "2026-01-31T18:00:00.000Z",
+      "2026-03-31T18:00:00.000Z",
+      "2026-05-31T18:00:00.000Z",
+    ])
+  })
+
+  it("stops at the end date, including an occurrence on that day", () => {
+    const starts = getOccurrenceStarts(rule("FREQ=DAILY;INTERVAL=2;UNTIL=20260507"), new Date("2026-05-01T10:00:00Z"))
+
+    expect(isoStrings(starts)).toEqual([
+      "2026-05-01T10:00:00.000Z",
+      "2026-05-03T10:00:00.000Z",
+      "2026-05-05T10:00:00.000Z",
+      "2026-05-07T10:00:00.000Z",
+    ])
+  })
+
+  it("returns one occurrence too many for a rule that runs past the limit", () => {
+    const starts = getOccurrenceStarts(rule("FREQ=DAILY;UNTIL=20301231"), new Date("2026-05-01T10:00:00Z"))
+
+    expect(starts).toHaveLength(MAX_OCCURRENCES + 1)
+  })
+})
@@ -0,0 +1,176 @@
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY"
+
+// The subset of RFC 5545 RRULEs that event series support
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency
+  interval: number
+  byDay: number[] // Weekdays for weekly rules, 0 is Sunday
+  count?: number
+  until?: Date
+}
+
+// Occurrences are created up front, so a series needs an end and a sensible size
+export const MAX_OCCURRENCES = 52
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"]
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+}
+
+const DAY = 24 * 60 * 60 * 1000
+
+// UNTIL is either a date (20250131) or a UTC date-time (20250131T180000Z)
+function parseUntil(value: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z)?$/.exec(value)
+
+  if (!match) {
+    return null
+  }
+
+  const [, year, month, day, hours = "23", minutes = "59", seconds = "59"] = match
+  return new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds))
+}
+
+// Parse an RRULE such as FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10, returning an error message for anything unsupported
+export function parseRecurrenceRule(value: unknown): { rule?: RecurrenceRule; error?: string } {
+  if (typeof value !== "string" || !value.trim()) {
+    return { error: "Recurrence rule is required" }
+  }
+
+  const parts = new Map<string, string>()
+
+  for (const part of value.trim().replace(/^RRULE:/i, "").split(";")) {
+    const [key, partValue] = part.split("=")
+    if (!key || !partValue) {
+      return { error: "Recurrence rule is invalid" }
+    }
+    parts.set(key.toUpperCase(), partValue.toUpperCase())
+  }
+
+  const unsupported = [...parts.keys()].find((key) => !["FREQ", "INTERVAL", "BYDAY", "COUNT", "UNTIL"].includes(key))
+  if (unsupported) {
+    return { error: `Recurrence rules don't support ${unsupported}` }
+  }
+
+  const frequency = parts.get("FREQ")
+  if (frequency !== "DAILY" && frequency !== "WEEKLY" && frequency !== "MONTHLY") {
+    return { error: "Events can repeat daily, weekly or monthly" }
+  }
+
+  const interval = parts.has("INTERVAL") ? Number(parts.get("INTERVAL")) : 1
+  if (!Number.isInteger(interval) || interval < 1) {
+    return { error: "Recurrence interval must be a whole number of at least 1" }
+  }
+
+  const byDay = (parts.get("BYDAY")?.split(",") ?? []).map((day) => WEEKDAYS.indexOf(day))
+  if (byDay.includes(-1)) {
+    return { error: "Recurrence days must be weekdays such as MO or TU" }
+  }
+  if (byDay.length > 0 && frequency !== "WEEKLY") {
+    return { error: "Only weekly events can repeat on chosen days" }
+  }
+
+  const count = parts.has("COUNT") ? Number(parts.get("COUNT")) : undefined
+  if (count !== undefined && (!Number.isInteger(count) || count < 1 || count > MAX_OCCURRENCES)) {
+    return { error: `A series can have between 1 and ${MAX_OCCURRENCES} occurrences` }
+  }
+
+  const untilValue = parts.get("UNTIL")
+  const until = untilValue ? parseUntil(untilValue) : undefined
+  if (until === null) {
+    return { error: "Recurrence end date is invalid" }
+  }
+
+  if ((count === undefined) === (until === undefined)) {
+    return { error: "A series must end after a number of occurrences or on a date, but not both" }
+  }
+
+  return {
+    rule: {
+      frequency,
+      interval,
+      byDay: [...new Set(byDay)].sort((a, b) => a - b),
+      count,
+      until,
+    },
+  }
+}
+
+// Write a rule back out in RRULE form, as stored on the series
+export function formatRecurrenceRule(rule: RecurrenceRule) {
+  const parts = [`FREQ=${rule.frequency}`]
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`)
+  }
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((day) => WEEKDAYS[day]).join(",")}`)
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`)
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`)
+  }
+
+  return parts.join(";")
+}
+
+// Human readable summary of a stored rule, e.g. "Every 2 weeks on Tue, Thu"
+export function describeRecurrenceRule(value: string) {
+  const { rule } = parseRecurrenceRule(value)
+
+  if (!rule) {
+    return "Repeats"
+  }
+
+  const unit = FREQUENCY_UNITS[rule.frequency]
+  const every = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`
+  const days = rule.byDay.length > 0 ? ` on ${rule.byDay.map((day) => WEEKDAY_NAMES[day]).join(", ")}` : ""
+
+  return every + days
+}
+
+// Start times of every occurrence, beginning with the first. Weekdays and months are counted on the
+// organiser's wall clock, given as a Date#getTimezoneOffset value, rather than the server's. At most
+// one more than MAX_OCCURRENCES is returned, so callers can tell when a rule runs too long.
+export function getOccurrenceStarts(rule: RecurrenceRule, firstStart: Date, timezoneOffset = 0) {
+  const offset = timezoneOffset * 60 * 1000
+  const local = new Date(firstStart.getTime() - offset)
+  const limit = Math.min(rule.count ?? Infinity, MAX_OCCURRENCES + 1)
+  const starts: Date[] = [firstStart]
+  let isPastUntil = false
+
+  const add = (candidate: Date) => {
+    const start = new Date(candidate.getTime() + offset)
+
+    if (rule.until && start > rule.until) {
+      isPastUntil = true
+    } else if (start > firstStart && starts.length < limit) {
+      starts.push(start)
+    }
+  }
+
+  // Months that lack the first occurrence's day are skipped, as RFC 5545 does
+  for (let step = 1; starts.length < limit && !isPastUntil && step <= (MAX_OCCURRENCES + 1) * 2; step++) {
+    if (rule.frequency === "DAILY") {
+      add(new Date(local.getTime() + step * rule.interval * DAY))
+    } else if (rule.frequency === "MONTHLY") {
+      const candidate = new Date(local)
+      candidate.setUTCMonth(local.getUTCMonth() + step * rule.interval)
+      if (candidate.getUTCDate() === local.getUTCDate()) {
+        add(candidate)
+      }
+    } else {
+      // Each step is one week of the rule, starting with the first occurrence's own week
+      const weekStart = new Date(local.getTime() + ((step - 1) * rule.interval * 7 - local.getUTCDay()) * DAY)
+      const days = rule.byDay.length > 0 ? rule.byDay : [local.getUTCDay()]
+      days.forEach((day) => add(new Date(weekStart.getTime() + day * DAY)))
+    }
+  }
+
+  return starts
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest"
+import { rankEvent } from "@/lib/events/search"
+
+const jazzFestival = {
+  name: "Nairobi Jazz Festival",
+  description: "Two days of live music at the Arboretum.",
+  location: "Nairobi Arboretum",
+  tags: ["music", "outdoor"],
+}
+
+const techMeetup = {
+  name: "Developer Meetup",
+  description: "Monthly talks, with a jazz trio playing during the break.",
+  location: "iHub",
+  tags: ["tech"],
+}
+
+describe("rankEvent", () => {
+  it("ranks a match in the name above one in the description", () => {
+    const inName = rankEvent(jazzFestival, "jazz")
+    const inDescription = rankEvent(techMeetup, "jazz")
+
+    expect(inName!.score).toBeGreaterThan(inDescription!.score)
+  })
+
+  it("needs every word of the query to match somewhere", () => {
+    expect(rankEvent(jazzFestival, "jazz arboretum")).not.toBeNull()
+    expect(rankEvent(jazzFestival, "jazz tech")).toBeNull()
+  })
+
+  it("forgives a typo in a longer word, counting swapped letters as one", () => {
+    expect(rankEvent(jazzFestival, "festivl")).not.toBeNull()
+    expect(rankEvent(jazzFestival, "festvial")).not.toBeNull()
+  })
+
+  it("ranks an exact match above a misspelt one", () => {
+    expect(rankEvent(jazzFestival, "festival")!.score).toBeGreaterThan(rankEvent(jazzFestival, "festivl")!.score)
+  })
+
+  it("needs short words spelt right", () => {
+    expect(rankEvent(jazzFestival, "jaz music")).toBeNull()
+  })
+
+  it("treats the last word as possibly unfinished", () => {
+    expect(rankEvent(jazzFestival, "music fest")).not.toBeNull()
+    expect(rankEvent(jazzFestival, "fest music")).toBeNull()
+  })
+
+  it("finds nothing for a query without words", () => {
+    expect(rankEvent(jazzFestival, " - ")).toBeNull()
+  })
+
+  it("highlights the matched words in each field", () => {
+    const { highlights } = rankEvent(jazzFestival, "nairobi music")!
+
+    expect(highlights).toEqual([
+      { field: "name", text: "Nairobi Jazz Festival", ranges: [[0, 7]] },
+      { field: "tags", text: "music, outdoor", ranges: [[0, 5]] },
+      { field: "location", text: "Nairobi Arboretum", ranges: [[0, 7]] },
+      { field: "description", text: "Two days of live music at the Arboretum.", ranges: [[17, 22]] },
+    ])
+  })
+
+  it("only returns the part of a long description around the match", () => {
+    const event = { ...techMeetup, description: `${"Talks and demos. ".repeat(20)}Then a jazz trio plays.` }
+
+    const description = rankEvent(event, "jazz")!.highlights.find((highlight) => highlight.field === "description")!
+    const [[start, end]] = description.ranges
+
+    expect(description.text.startsWith("…")).toBe(true)
+    expect(description.text.length).toBeLessThanOrEqual(162)
+    expect(description.text.slice(start, end)).toBe("jazz")
+  })
+})
@@ -0,0 +1,280 @@
+import { PrismaClient, type Prisma } from "@prisma/client"
+import { EVENT_LISTING_INCLUDE } from "@/lib/events/event-filters"
+
+const prisma = new PrismaClient()
+
+export type SearchField = "name" | "tags" | "location" | "description"
+
+export interface SearchHighlight {
+  field: SearchField
+  text: string
+  ranges: [number, number][] // Matched characters of text, end exclusive
+}
+
+export interface SearchResult {
+  event: Prisma.EventGetPayload<{ include: typeof EVENT_LISTING_INCLUDE }>
+  score: number
+  highlights: SearchHighlight[]
+}
+
+interface Word {
+  text: string
+  start: number
+  end: number
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 4,
+  tags: 3,
+  location: 2,
+  description: 1,
+}
+
+const SNIPPET_LENGTH = 160
+const TEXT_INDEX_CANDIDATES = 200
+const TEXT_INDEX_BATCHES = 5
+const FUZZY_CANDIDATES = 500
+const FUZZY_PREFIX_LENGTH = 3
+
+function tokenize(text: string): Word[] {
+  return [...text.matchAll(/[\p{L}\p{N}]+/gu)].map((match) => ({
+    text: match[0].toLowerCase(),
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }))
+}
+
+// Short words have to be spelt right, longer ones may have one or two typos
+function allowedTypos(term: string) {
+  return term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0
+}
+
+// Optimal string alignment distance, so a swapped pair of letters counts as one typo. Gives up
+// with max + 1 as soon as the words are known to be further apart than max.
+function editDistance(a: string, b: string, max: number) {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1
+  }
+
+  let previousRow: number[] = []
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= a.length; i++) {
+    const nextRow = [i]
+
+    for (let j = 1; j <= b.length; j++) {
+      let distance = Math.min(row[j] + 1, nextRow[j - 1] + 1, row[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, previousRow[j - 2] + 1)
+      }
+      nextRow.push(distance)
+    }
+
+    if (Math.min(...nextRow) > max) {
+      return max + 1
+    }
+    previousRow = row
+    row = nextRow
+  }
+
+  return row[b.length]
+}
+
+// How well a word of the query matches a word of the event, from 0 for not at all to 1 for exactly.
+// The last word of the query may be unfinished, so it also matches the start of longer words.
+function matchQuality(term: string, word: string, allowPrefix: boolean) {
+  if (word === term) {
+    return 1
+  }
+
+  if (allowPrefix && term.length >= 2 && word.startsWith(term)) {
+    return 0.8
+  }
+
+  const typos = allowedTypos(term)
+
+  if (typos === 0) {
+    return 0
+  }
+
+  const distance = editDistance(term, word, typos)
+  if (distance <= typos) {
+    return 0.7 - (distance - 1) * 0.2
+  }
+
+  if (allowPrefix && word.length > term.length && editDistance(term, word.slice(0, term.length), typos) <= typos) {
+    return 0.4
+  }
+
+  return 0
+}
+
+function mergeRanges(ranges: [number, number][]) {
+  const merged: [number, number][] = []
+
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  }
+
+  return merged
+}
+
+// Descriptions can be long, so only the part around the first match is returned
+function toSnippet(text: string, ranges: [number, number][]): SearchHighlight {
+  const start = Math.max(0, ranges[0][0] - 40)
+  const end = Math.min(text.length, start + SNIPPET_LENGTH)
+  const prefix = start > 0 ? "…" : ""
+
+  return {
+    field: "description",
+    text: prefix + text.slice(start, end) + (end < text.length ? "…" : ""),
+    ranges: ranges
+      .filter(([rangeStart, rangeEnd]) => rangeStart >= start && rangeEnd <= end)
+      .map(([rangeStart, rangeEnd]) => [rangeStart - start + prefix.length, rangeEnd - start + prefix.length]),
+  }
+}
+
+// Score an event against a query and find what to highlight. Every word of the query has to match
+// somewhere, and matches in the name count for more than matches in the description.
+export function rankEvent(
+  event: { name: string; description: string | null; location: string; tags: string[] },
+  query: string,
+) {
+  const terms = tokenize(query).map((word) => word.text)
+
+  if (terms.length === 0) {
+    return null
+  }
+
+  const fields: [SearchField, string][] = [
+    ["name", event.name],
+    ["tags", event.tags.join(", ")],
+    ["location", event.location],
+    ["description", event.description ?? ""],
+  ]
+  const matchedTerms = new Set<number>()
+  const highlights: SearchHighlight[] = []
+  let score = 0
+
+  for (const [field, text] of fields) {
+    const words = tokenize(text)
+    const ranges: [number, number][] = []
+
+    terms.forEach((term, index) => {
+      let best = 0
+
+      for (const word of words) {
+        const quality = matchQuality(term, word.text, index === terms.length - 1)
+        if (quality > 0) {
+          ranges.push([word.start, word.end])
+          best = Math.max(best, quality)
+        }
+      }
+
+      if (best > 0) {
+        matchedTerms.add(index)
+        score += FIELD_WEIGHTS[field] * best
+      }
+    })
+
+    if (ranges.length > 0) {
+      const merged = mergeRanges(ranges)
+      highlights.push(field === "description" ? toSnippet(text, merged) : { field, text, ranges: merged })
+    }
+  }
+
+  return matchedTerms.size === terms.length ? { score, highlights } : null
+}
+
+// Ids and relevance of the events the MongoDB text index matches, best first. The index can't apply
+// `where`, so candidates are read a batch at a time and checked against it, until enough of them are
+// left or the index has no more.
+async function searchTextIndex(query: string, where: Prisma.EventWhereInput) {
+  const textScores = new Map<string, number>()
+
+  for (let batch = 0; batch < TEXT_INDEX_BATCHES && textScores.size < TEXT_INDEX_CANDIDATES; batch++) {
+    const matches = (await prisma.event.findRaw({
+      filter: { $text: { $search: query } },
+      options: {
+        projection: { _id: 1, score: { $meta: "textScore" } },
+        sort: { score: { $meta: "textScore" } },
+        skip: batch * TEXT_INDEX_CANDIDATES,
+        limit: TEXT_INDEX_CANDIDATES,
+      },
+    })) as unknown as { _id: { $oid: string }; score: number }[]
+
+    const scores = new Map(matches.map((match) => [match._id.$oid, match.score]))
+    const allowed = await prisma.event.findMany({
+      where: { AND: [where, { id: { in: [...scores.keys()] } }] },
+      select: { id: true },
+    })
+
+    for (const { id } of allowed) {
+      textScores.set(id, scores.get(id) ?? 0)
+    }
+
+    if (matches.length < TEXT_INDEX_CANDIDATES) {
+      break
+    }
+  }
+
+  return textScores
+}
+
+// Typos past the first few letters of a word are forgiven in memory, so only events with the start of
+// every word of the query somewhere in them are worth ranking
+function getFuzzyCandidatesWhere(query: string): Prisma.EventWhereInput {
+  return {
+    AND: tokenize(query).map(({ text }) => {
+      const contains = { contains: text.slice(0, FUZZY_PREFIX_LENGTH), mode: "insensitive" as const }
+      return {
+        OR: [{ name: contains }, { location: contains }, { description: contains }, { tags: { has: text } }],
+      }
+    }),
+  }
+}
+
+// Search the events matching `where`. Production uses the text index from the schema, which needs
+// `prisma db push` to exist. The index doesn't forgive typos, so when it finds nothing, and in local
+// development, events are ranked in memory instead. EVENT_SEARCH_BACKEND=mongo|memory overrides this.
+export async function searchEvents(query: string, where: Prisma.EventWhereInput): Promise<SearchResult[]> {
+  const backend = process.env.EVENT_SEARCH_BACKEND ?? (process.env.NODE_ENV === "production" ? "mongo" : "memory")
+
+  if (backend === "mongo") {
+    const textScores = await searchTextIndex(query, where)
+
+    if (textScores.size > 0) {
+      const events = await prisma.event.findMany({
+        where: { id: { in: [...textScores.keys()].slice(0, TEXT_INDEX_CANDIDATES) } },
+        include: EVENT_LISTING_INCLUDE,
+      })
+
+      return events
+        .map((event) => ({
+          event,
+          score: textScores.get(event.id) ?? 0,
+          highlights: rankEvent(event, query)?.highlights ?? [],
+        }))
+        .sort((a, b) => b.score - a.score)
+    }
+  }
+
+  const events = await prisma.event.findMany({
+    where: { AND: [where, getFuzzyCandidatesWhere(query)] },
+    include: EVENT_LISTING_INCLUDE,
+    orderBy: { startDate: "asc" },
+    take: FUZZY_CANDIDATES,
+  })
+
+  return events
+    .flatMap((event) => {
+      const match = rankEvent(event, query)
+      return match ? [{ event, ...match }] : []
+    })
+    .sort((a, b) => b.score - a.score)
+}
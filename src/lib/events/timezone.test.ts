@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest"
+import { parseTimezoneOffset, startOfDayInTimezone } from "@/lib/events/timezone"
+
+describe("startOfDayInTimezone", () => {
+  it("finds midnight on a clock ahead of UTC", () => {
+    // 01:30 on 2 May in Nairobi
+    expect(startOfDayInTimezone(new Date("2026-05-01T22:30:00Z"), -180)).toEqual(new Date("2026-05-01T21:00:00Z"))
+  })
+
+  it("finds midnight on a clock behind UTC", () => {
+    // 21:00 on 1 May in New York
+    expect(startOfDayInTimezone(new Date("2026-05-02T01:00:00Z"), 240)).toEqual(new Date("2026-05-01T04:00:00Z"))
+  })
+
+  it("keeps midnight itself in the day it starts", () => {
+    expect(startOfDayInTimezone(new Date("2026-05-01T21:00:00Z"), -180)).toEqual(new Date("2026-05-01T21:00:00Z"))
+  })
+
+  it("uses UTC days without an offset", () => {
+    expect(startOfDayInTimezone(new Date("2026-05-01T23:59:59Z"), 0)).toEqual(new Date("2026-05-01T00:00:00Z"))
+  })
+})
+
+describe("parseTimezoneOffset", () => {
+  it("leaves the offset unset when none is sent", () => {
+    expect(parseTimezoneOffset(undefined)).toEqual({})
+    expect(parseTimezoneOffset(null)).toEqual({})
+  })
+
+  it("accepts offsets from UTC+14:00 to UTC-12:00", () => {
+    expect(parseTimezoneOffset(-840)).toEqual({ offset: -840 })
+    expect(parseTimezoneOffset(720)).toEqual({ offset: 720 })
+  })
+
+  it.each([-841, 721, 1.5, "-180"])("refuses %j", (value) => {
+    expect(parseTimezoneOffset(value).error).toBeDefined()
+  })
+})
@@ -0,0 +1,22 @@
+const MINUTE = 60 * 1000
+const DAY = 24 * 60 * MINUTE
+
+// Events keep the organiser's clock as a Date#getTimezoneOffset value, minutes behind UTC, so days at
+// the venue don't depend on the server's time zone. Offsets run from UTC-12:00 to UTC+14:00.
+export function parseTimezoneOffset(value: unknown): { offset?: number; error?: string } {
+  if (value === undefined || value === null) {
+    return {}
+  }
+
+  if (typeof value !== "number" || !Number.isInteger(value) || value < -14 * 60 || value > 12 * 60) {
+    return { error: "Time zone offset must be a whole number of minutes between -840 and 720" }
+  }
+
+  return { offset: value }
+}
+
+// Midnight at the start of the day `date` falls on, on a clock `timezoneOffset` minutes behind UTC
+export function startOfDayInTimezone(date: Date, timezoneOffset: number) {
+  const local = date.getTime() - timezoneOffset * MINUTE
+  return new Date(local - (((local % DAY) + DAY) % DAY) + timezoneOffset * MINUTE)
+}
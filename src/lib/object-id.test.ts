@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest"
+import { isObjectId } from "@/lib/object-id"
+
+describe("isObjectId", () => {
+  it("accepts 24 lower case hex digits", () => {
+    expect(isObjectId("65f0c0ffee0000000000a001")).toBe(true)
+  })
+
+  it.each([
+    ["upper case hex", "65F0C0FFEE0000000000A001"],
+    ["too short", "65f0c0ffee0000000000a00"],
+    ["too long", "65f0c0ffee0000000000a0011"],
+    ["not hex", "65f0c0ffee0000000000a00g"],
+    ["a ticket number", "TKT-AB12CD34"],
+    ["a number", 1234],
+    ["nothing", undefined],
+  ])("refuses %s", (_, value) => {
+    expect(isObjectId(value)).toBe(false)
+  })
+})
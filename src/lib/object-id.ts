@@ -0,0 +1,5 @@
+// MongoDB ids as they appear in URLs and request bodies. Prisma throws on anything else, so ids sent by
+// clients are checked with this before they reach a query.
+export function isObjectId(value: unknown): value is string {
+  return typeof value === "string" && /^[a-f0-9]{24}$/.test(value)
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, parsePagination, parseSort, toOrderBy } from "@/lib/pagination"
+
+const SORT_FIELDS = ["startDate", "createdAt", "name"] as const
+const DEFAULT_SORT = { field: "startDate", order: "desc" } as const
+
+function query(params: Record<string, string> = {}) {
+  return new URLSearchParams(params)
+}
+
+describe("parsePagination", () => {
+  it("starts on the first page at the default size", () => {
+    expect(parsePagination(query())).toEqual({
+      pagination: { page: 1, pageSize: DEFAULT_PAGE_SIZE, skip: 0, take: DEFAULT_PAGE_SIZE },
+    })
+  })
+
+  it("skips the pages before the one asked for", () => {
+    expect(parsePagination(query({ page: "3", pageSize: "25" })).pagination).toEqual({
+      page: 3,
+      pageSize: 25,
+      skip: 50,
+      take: 25,
+    })
+  })
+
+  it("lets each list choose its own default size", () => {
+    expect(parsePagination(query(), 50).pagination?.take).toBe(50)
+  })
+
+  it.each([
+    [{ page: "0" }, "Page must be a whole number from 1"],
+    [{ page: "1.5" }, "Page must be a whole number from 1"],
+    [{ page: "two" }, "Page must be a whole number from 1"],
+    [{ pageSize: "0" }, "Page size must be a whole number from 1"],
+    [{ pageSize: String(MAX_PAGE_SIZE + 1) }, "Page size must be a whole number from 1"],
+  ])("refuses %j", (params, error) => {
+    expect(parsePagination(query(params)).error).toContain(error)
+  })
+})
+
+describe("parseSort", () => {
+  it("uses the list's default sort when none is asked for", () => {
+    expect(parseSort(query(), SORT_FIELDS, DEFAULT_SORT)).toEqual({ sort: DEFAULT_SORT })
+  })
+
+  it("keeps the default field's own order but sorts other fields ascending", () => {
+    expect(parseSort(query({ sort: "startDate" }), SORT_FIELDS, DEFAULT_SORT).sort?.order).toBe("desc")
+    expect(parseSort(query({ sort: "name" }), SORT_FIELDS, DEFAULT_SORT).sort).toEqual({ field: "name", order: "asc" })
+  })
+
+  it("takes the order asked for", () => {
+    expect(parseSort(query({ sort: "name", order: "desc" }), SORT_FIELDS, DEFAULT_SORT).sort?.order).toBe("desc")
+  })
+
+  it("refuses fields the list can't sort by", () => {
+    expect(parseSort(query({ sort: "password" }), SORT_FIELDS, DEFAULT_SORT).error).toBe(
+      "Sort must be one of startDate, createdAt, name",
+    )
+  })
+
+  it("refuses orders other than asc and desc", () => {
+    expect(parseSort(query({ order: "up" }), SORT_FIELDS, DEFAULT_SORT).error).toBe("Order must be asc or desc")
+  })
+})
+
+describe("toOrderBy", () => {
+  it("breaks ties by id so pages don't overlap", () => {
+    expect(toOrderBy({ field: "name", order: "desc" })).toEqual([{ name: "desc" }, { id: "asc" }])
+  })
+})
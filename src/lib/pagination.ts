@@ -0,0 +1,61 @@
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+export type SortOrder = "asc" | "desc"
+
+export interface Pagination {
+  page: number
+  pageSize: number
+  skip: number
+  take: number
+}
+
+export interface Sort<TField extends string> {
+  field: TField
+  order: SortOrder
+}
+
+// Read ?page= (counting from 1) and ?pageSize= from a list endpoint's query string
+export function parsePagination(
+  searchParams: URLSearchParams,
+  defaultPageSize = DEFAULT_PAGE_SIZE,
+): { pagination?: Pagination; error?: string } {
+  const page = Number(searchParams.get("page") ?? 1)
+  const pageSize = Number(searchParams.get("pageSize") ?? defaultPageSize)
+
+  if (!Number.isInteger(page) || page < 1) {
+    return { error: "Page must be a whole number from 1" }
+  }
+
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return { error: `Page size must be a whole number from 1 to ${MAX_PAGE_SIZE}` }
+  }
+
+  return { pagination: { page, pageSize, skip: (page - 1) * pageSize, take: pageSize } }
+}
+
+// Read ?sort= and ?order= from a list endpoint's query string, allowing only the fields it can sort by.
+// Without ?order=, the default field keeps its default order and other fields sort ascending.
+export function parseSort<TField extends string>(
+  searchParams: URLSearchParams,
+  fields: readonly TField[],
+  defaultSort: Sort<TField>,
+): { sort?: Sort<TField>; error?: string } {
+  const field = searchParams.get("sort") ?? defaultSort.field
+  const order = searchParams.get("order") ?? (field === defaultSort.field ? defaultSort.order : "asc")
+
+  if (!fields.some((allowed) => allowed === field)) {
+    return { error: `Sort must be one of ${fields.join(", ")}` }
+  }
+
+  if (order !== "asc" && order !== "desc") {
+    return { error: "Order must be asc or desc" }
+  }
+
+  return { sort: { field: field as TField, order } }
+}
+
+// Prisma orderBy for a sort. Ties are broken by id so records don't move between pages.
+export function toOrderBy<TField extends string>(sort: Sort<TField>) {
+  return [{ [sort.field]: sort.order } as Partial<Record<TField, SortOrder>>, { id: "asc" as const }]
+}
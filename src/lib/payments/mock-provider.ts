@@ -0,0 +1,126 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import { nanoid } from "nanoid"
+import type {
+  InitiatePaymentRequest,
+  PaymentProvider,
+  PaymentResult,
+  PaymentStatus,
+  PaymentWebhookEvent,
+  RefundPaymentRequest,
+  RefundResult,
+} from "./payment-provider"
+
+interface MockPayment {
+  bookingId: string
+  amount: number
+  refunded: number
+  status: PaymentStatus
+}
+
+// Keep mock payments across hot reloads in development
+const globalForMockPayments = globalThis as unknown as { mockPayments: Map<string, MockPayment> }
+
+const payments = globalForMockPayments.mockPayments || new Map<string, MockPayment>()
+
+if (process.env.NODE_ENV !== "production") globalForMockPayments.mockPayments = payments
+
+// The built-in secret is public, so production deployments have to set their own
+function getWebhookSecret() {
+  return process.env.MOCK_PAYMENT_WEBHOOK_SECRET || (process.env.NODE_ENV !== "production" ? "mock-webhook-secret" : "")
+}
+
+// Signs a webhook body the same way the mock provider expects to receive it
+export function signMockWebhook(body: string) {
+  return createHmac("sha256", getWebhookSecret()).update(body).digest("hex")
+}
+
+// Local provider for development and tests. Set MOCK_PAYMENT_OUTCOME=failure to simulate declined payments.
+export const mockPaymentProvider: PaymentProvider = {
+  name: "mock",
+  label: "Test payment",
+
+  isEnabled() {
+    return process.env.NODE_ENV !== "production" || process.env.PAYMENT_PROVIDER === "mock"
+  },
+
+  async initiatePayment({ bookingId, amount }: InitiatePaymentRequest): Promise<PaymentResult> {
+    const paymentId = `MOCK-${nanoid(10)}`
+    payments.set(paymentId, { bookingId, amount, refunded: 0, status: "PENDING" })
+
+    return { paymentId, status: "PENDING", message: "Payment initiated" }
+  },
+
+  async confirmPayment(paymentId: string): Promise<PaymentResult> {
+    const payment = payments.get(paymentId)
+
+    if (!payment) {
+      return { paymentId, status: "FAILED", message: "Payment not found" }
+    }
+
+    if (payment.status === "PENDING") {
+      payment.status = process.env.MOCK_PAYMENT_OUTCOME === "failure" ? "FAILED" : "SUCCEEDED"
+    }
+
+    return {
+      paymentId,
+      status: payment.status,
+      message: payment.status === "SUCCEEDED" ? "Payment successful" : "Payment declined",
+    }
+  },
+
+  // Unlike confirmPayment, a payment nobody has completed stays PENDING
+  async getPaymentStatus(paymentId: string): Promise<PaymentResult> {
+    const payment = payments.get(paymentId)
+
+    if (!payment) {
+      return { paymentId, status: "FAILED", message: "Payment not found" }
+    }
+
+    return { paymentId, status: payment.status }
+  },
+
+  async refundPayment({ paymentId, amount }: RefundPaymentRequest): Promise<RefundResult> {
+    const payment = payments.get(paymentId)
+    const refundId = `MOCK-REF-${nanoid(10)}`
+
+    // Payments made before a server restart are unknown to the mock, so refund them blindly
+    if (!payment) {
+      return { refundId, status: "SUCCEEDED" }
+    }
+
+    if (payment.status !== "SUCCEEDED" || payment.refunded + amount > payment.amount) {
+      return { refundId, status: "FAILED", message: "Refund exceeds the captured amount" }
+    }
+
+    payment.refunded += amount
+    return { refundId, status: "SUCCEEDED" }
+  },
+
+  async verifyWebhook(request: Request): Promise<PaymentWebhookEvent | null> {
+    if (!getWebhookSecret()) {
+      return null
+    }
+
+    const body = await request.text()
+    const signature = request.headers.get("x-mock-signature") || ""
+    const expected = signMockWebhook(body)
+
+    if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      return null
+    }
+
+    try {
+      const event = JSON.parse(body)
+      if (!event.paymentId || !["PENDING", "SUCCEEDED", "FAILED"].includes(event.status)) {
+        return null
+      }
+
+      const payment = payments.get(event.paymentId)
+      if (payment) payment.status = event.status
+
+      return { paymentId: event.paymentId, status: event.status, message: event.message }
+    } catch {
+      return null
+    }
+  },
+}
@@ -0,0 +1,292 @@
+import { createHash, timingSafeEqual } from "crypto"
+import { format } from "date-fns"
+import type {
+  InitiatePaymentRequest,
+  PaymentProvider,
+  PaymentResult,
+  PaymentWebhookEvent,
+  RefundPaymentRequest,
+  RefundResult,
+  RefundWebhookEvent,
+} from "./payment-provider"
+
+// Daraja result codes that mean the customer has not answered the STK prompt yet
+const PENDING_QUERY_ERROR = "500.001.1001"
+
+interface DarajaConfig {
+  baseUrl: string
+  consumerKey: string
+  consumerSecret: string
+  shortCode: string
+  passkey: string
+  callbackUrl: string
+  reversalCallbackUrl: string
+  callbackSecret: string
+}
+
+interface StkCallbackItem {
+  Name: string
+  Value?: string | number
+}
+
+let cachedToken: { value: string; expiresAt: number } | null = null
+let warnedAboutCallbackSecret = false
+
+function getConfig(): DarajaConfig {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000"
+
+  return {
+    baseUrl: process.env.MPESA_BASE_URL || "https://sandbox.safaricom.co.ke",
+    consumerKey: process.env.MPESA_CONSUMER_KEY || "",
+    consumerSecret: process.env.MPESA_CONSUMER_SECRET || "",
+    shortCode: process.env.MPESA_SHORTCODE || "",
+    passkey: process.env.MPESA_PASSKEY || "",
+    callbackUrl: process.env.MPESA_CALLBACK_URL || `${appUrl}/api/payments/mpesa/callback`,
+    reversalCallbackUrl: process.env.MPESA_REVERSAL_CALLBACK_URL || `${appUrl}/api/payments/mpesa/reversal`,
+    callbackSecret: process.env.MPESA_CALLBACK_SECRET || "",
+  }
+}
+
+// M-Pesa only accepts whole shillings, so amounts are rounded up
+export function toMpesaAmount(amount: number) {
+  return Math.ceil(amount)
+}
+
+// Convert local formats such as 0712 345 678 or +254712345678 to the 2547XXXXXXXX form Daraja expects
+export function normalizeMpesaPhone(phone: string): string | null {
+  const digits = phone.replace(/\D/g, "")
+  const normalized = digits.startsWith("0") ? `254${digits.slice(1)}` : digits
+
+  return /^254(7|1)\d{8}$/.test(normalized) ? normalized : null
+}
+
+async function getAccessToken(config: DarajaConfig) {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.value
+  }
+
+  const credentials = Buffer.from(`${config.consumerKey}:${config.consumerSecret}`).toString("base64")
+  const response = await fetch(`${config.baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { Authorization: `Basic ${credentials}` },
+  })
+
+  if (!response.ok) {
+    throw new Error(`M-Pesa authentication failed with status ${response.status}`)
+  }
+
+  const data = await response.json()
+  // Refresh a minute before Daraja expires the token
+  cachedToken = {
+    value: data.access_token,
+    expiresAt: Date.now() + (Number(data.expires_in) - 60) * 1000,
+  }
+
+  return cachedToken.value
+}
+
+function getPassword(config: DarajaConfig) {
+  const timestamp = format(new Date(), "yyyyMMddHHmmss")
+  const password = Buffer.from(`${config.shortCode}${config.passkey}${timestamp}`).toString("base64")
+  return { password, timestamp }
+}
+
+async function darajaRequest(config: DarajaConfig, path: string, body: Record<string, unknown>) {
+  const token = await getAccessToken(config)
+  const response = await fetch(`${config.baseUrl}${path}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  })
+
+  return { ok: response.ok, data: await response.json() }
+}
+
+// Daraja does not sign callbacks, so a shared secret in the URL is what identifies genuine ones
+function getCallbackUrl(config: DarajaConfig, callbackUrl = config.callbackUrl) {
+  const url = new URL(callbackUrl)
+  url.searchParams.set("token", config.callbackSecret)
+  return url.toString()
+}
+
+// Without a secret anyone could post a callback, so none are accepted. Comparing digests keeps the
+// comparison constant time whatever the token's length.
+function isValidCallbackToken(token: string | null, secret: string) {
+  if (!secret || !token) {
+    return false
+  }
+
+  const digest = (value: string) => createHash("sha256").update(value).digest()
+  return timingSafeEqual(digest(token), digest(secret))
+}
+
+export const mpesaPaymentProvider: PaymentProvider = {
+  name: "mpesa",
+  label: "M-Pesa",
+
+  // Payments can't be confirmed without callbacks, so the callback secret is required too
+  isEnabled() {
+    const config = getConfig()
+    const hasCredentials = !!(config.consumerKey && config.consumerSecret && config.shortCode && config.passkey)
+
+    if (hasCredentials && !config.callbackSecret && !warnedAboutCallbackSecret) {
+      console.warn("M-Pesa is disabled until MPESA_CALLBACK_SECRET is set")
+      warnedAboutCallbackSecret = true
+    }
+
+    return hasCredentials && !!config.callbackSecret
+  },
+
+  async initiatePayment({ bookingId, amount, phone, description }: InitiatePaymentRequest): Promise<PaymentResult> {
+    const config = getConfig()
+    const phoneNumber = normalizeMpesaPhone(phone)
+
+    if (!phoneNumber) {
+      return { paymentId: "", status: "FAILED", message: "Please enter a valid Safaricom phone number" }
+    }
+
+    const { password, timestamp } = getPassword(config)
+    const { ok, data } = await darajaRequest(config, "/mpesa/stkpush/v1/processrequest", {
+      BusinessShortCode: config.shortCode,
+      Password: password,
+      Timestamp: timestamp,
+      TransactionType: "CustomerPayBillOnline",
+      Amount: toMpesaAmount(amount),
+      PartyA: phoneNumber,
+      PartyB: config.shortCode,
+      PhoneNumber: phoneNumber,
+      CallBackURL: getCallbackUrl(config),
+      AccountReference: bookingId.slice(-12),
+      TransactionDesc: (description || "Event tickets").slice(0, 13),
+    })
+
+    if (!ok || data.ResponseCode !== "0") {
+      return {
+        paymentId: data.CheckoutRequestID || "",
+        status: "FAILED",
+        message: data.errorMessage || data.ResponseDescription || "M-Pesa request failed",
+      }
+    }
+
+    return {
+      paymentId: data.CheckoutRequestID,
+      status: "PENDING",
+      message: data.CustomerMessage || "Check your phone to complete the payment",
+    }
+  },
+
+  // The customer completes the payment on their phone, so confirming it only asks M-Pesa how it went
+  async confirmPayment(paymentId: string): Promise<PaymentResult> {
+    return mpesaPaymentProvider.getPaymentStatus(paymentId)
+  },
+
+  async getPaymentStatus(paymentId: string): Promise<PaymentResult> {
+    const config = getConfig()
+    const { password, timestamp } = getPassword(config)
+    const { data } = await darajaRequest(config, "/mpesa/stkpushquery/v1/query", {
+      BusinessShortCode: config.shortCode,
+      Password: password,
+      Timestamp: timestamp,
+      CheckoutRequestID: paymentId,
+    })
+
+    if (data.errorCode === PENDING_QUERY_ERROR || data.ResultCode === undefined) {
+      return { paymentId, status: "PENDING", message: "Waiting for the M-Pesa payment" }
+    }
+
+    return {
+      paymentId,
+      status: String(data.ResultCode) === "0" ? "SUCCEEDED" : "FAILED",
+      message: data.ResultDesc,
+    }
+  },
+
+  async refundPayment({ paymentId, reference, amount, reason }: RefundPaymentRequest): Promise<RefundResult> {
+    const config = getConfig()
+
+    if (!reference) {
+      return { refundId: "", status: "FAILED", message: "The M-Pesa receipt for this payment is unknown" }
+    }
+
+    // Reversals complete asynchronously, so the refund is reported as pending
+    const { ok, data } = await darajaRequest(config, "/mpesa/reversal/v1/request", {
+      Initiator: process.env.MPESA_INITIATOR_NAME,
+      SecurityCredential: process.env.MPESA_SECURITY_CREDENTIAL,
+      CommandID: "TransactionReversal",
+      TransactionID: reference,
+      Amount: toMpesaAmount(amount),
+      ReceiverParty: config.shortCode,
+      RecieverIdentifierType: "11",
+      ResultURL: getCallbackUrl(config, config.reversalCallbackUrl),
+      QueueTimeOutURL: getCallbackUrl(config, `${config.reversalCallbackUrl}/timeout`),
+      Remarks: (reason || "Ticket refund").slice(0, 100),
+      Occasion: paymentId.slice(0, 100),
+    })
+
+    if (!ok || data.ResponseCode !== "0") {
+      return { refundId: "", status: "FAILED", message: data.errorMessage || "M-Pesa reversal failed" }
+    }
+
+    return { refundId: data.ConversationID, status: "PENDING", message: data.ResponseDescription }
+  },
+
+  async verifyWebhook(request: Request): Promise<PaymentWebhookEvent | null> {
+    const { searchParams } = new URL(request.url)
+
+    if (!isValidCallbackToken(searchParams.get("token"), getConfig().callbackSecret)) {
+      return null
+    }
+
+    try {
+      const body = await request.json()
+      const callback = body?.Body?.stkCallback
+
+      if (!callback?.CheckoutRequestID) {
+        return null
+      }
+
+      const items: StkCallbackItem[] = callback.CallbackMetadata?.Item || []
+      const receipt = items.find((item) => item.Name === "MpesaReceiptNumber")?.Value
+      const amount = items.find((item) => item.Name === "Amount")?.Value
+
+      return {
+        paymentId: callback.CheckoutRequestID,
+        status: Number(callback.ResultCode) === 0 ? "SUCCEEDED" : "FAILED",
+        message: callback.ResultDesc,
+        reference: receipt ? String(receipt) : undefined,
+        amount: amount === undefined ? undefined : Number(amount),
+      }
+    } catch {
+      return null
+    }
+  },
+}
+
+// Read the result Daraja posts once a reversal has been processed. The refund is identified by the
+// ConversationID returned when the reversal was requested. Returns null for requests that aren't genuine.
+export async function verifyReversalCallback(request: Request): Promise<RefundWebhookEvent | null> {
+  const { searchParams } = new URL(request.url)
+
+  if (!isValidCallbackToken(searchParams.get("token"), getConfig().callbackSecret)) {
+    return null
+  }
+
+  try {
+    const body = await request.json()
+    const result = body?.Result
+
+    if (!result?.ConversationID) {
+      return null
+    }
+
+    return {
+      refundId: result.ConversationID,
+      status: Number(result.ResultCode) === 0 ? "SUCCEEDED" : "FAILED",
+      message: result.ResultDesc,
+    }
+  } catch {
+    return null
+  }
+}
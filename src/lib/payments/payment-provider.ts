@@ -0,0 +1,69 @@
+export type PaymentStatus = "PENDING" | "SUCCEEDED" | "FAILED"
+
+export interface InitiatePaymentRequest {
+  bookingId: string
+  amount: number
+  currency: string
+  name: string
+  email: string
+  phone: string
+  description?: string
+}
+
+export interface PaymentResult {
+  paymentId: string
+  status: PaymentStatus
+  message?: string
+  // Provider receipt for a completed payment, e.g. the M-Pesa receipt number
+  reference?: string
+  // Set when the customer has to finish the payment on a page hosted by the provider
+  redirectUrl?: string
+}
+
+export interface RefundPaymentRequest {
+  paymentId: string
+  reference?: string
+  amount: number
+  reason?: string
+}
+
+export interface RefundResult {
+  refundId: string
+  status: PaymentStatus
+  message?: string
+}
+
+// Outcome of a refund that the provider reported on after the request, e.g. an M-Pesa reversal
+export interface RefundWebhookEvent {
+  refundId: string
+  status: PaymentStatus
+  message?: string
+}
+
+export interface PaymentWebhookEvent {
+  paymentId: string
+  status: PaymentStatus
+  message?: string
+  reference?: string
+  // What the customer paid, for providers whose notifications say so
+  amount?: number
+}
+
+/**
+ * Contract every payment integration has to implement.
+ * Bookings stay PENDING until a provider reports a SUCCEEDED payment,
+ * either synchronously from initiate/confirm or through its webhook.
+ */
+export interface PaymentProvider {
+  name: string
+  label: string
+  // Whether the provider is configured and can be offered at checkout
+  isEnabled(): boolean
+  initiatePayment(request: InitiatePaymentRequest): Promise<PaymentResult>
+  confirmPayment(paymentId: string): Promise<PaymentResult>
+  // Look up where a payment stands without acting on it, e.g. before giving up on an unpaid booking
+  getPaymentStatus(paymentId: string): Promise<PaymentResult>
+  refundPayment(request: RefundPaymentRequest): Promise<RefundResult>
+  // Returns null when the request is not a genuine notification from the provider
+  verifyWebhook(request: Request): Promise<PaymentWebhookEvent | null>
+}
@@ -0,0 +1,29 @@
+import type { PaymentProvider } from "./payment-provider"
+import { mockPaymentProvider } from "./mock-provider"
+import { mpesaPaymentProvider } from "./mpesa-provider"
+
+const providers: Record<string, PaymentProvider> = {
+  [mockPaymentProvider.name]: mockPaymentProvider,
+  [mpesaPaymentProvider.name]: mpesaPaymentProvider,
+}
+
+export const PAYMENT_CURRENCY = "KES"
+
+// Providers a booking can currently be paid with
+export function getAvailablePaymentProviders() {
+  return Object.values(providers)
+    .filter((provider) => provider.isEnabled())
+    .map((provider) => ({ name: provider.name, label: provider.label }))
+}
+
+// Resolve a provider by name, falling back to PAYMENT_PROVIDER and then the mock provider
+export function getPaymentProvider(name?: string | null): PaymentProvider {
+  const providerName = name || process.env.PAYMENT_PROVIDER || mockPaymentProvider.name
+  const provider = providers[providerName]
+
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${providerName}`)
+  }
+
+  return provider
+}
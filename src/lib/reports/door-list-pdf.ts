@@ -0,0 +1,43 @@
+import { format } from "date-fns"
+import { createReportPDF } from "@/lib/reports/pdf-report"
+import { ATTENDEE_STATUS_LABELS } from "@/lib/bookings/attendee-status"
+import type { Attendee } from "@/lib/bookings/attendee-list"
+
+interface DoorListEvent {
+  name: string
+  startDate: Date
+  location: string
+}
+
+// A printable list of ticket holders by name, with a box to tick as each one arrives
+export async function generateDoorListPDF(event: DoorListEvent, attendees: Attendee[]): Promise<Buffer> {
+  const pdf = await createReportPDF("Door List")
+
+  pdf.drawHeading(event.name, [
+    `Date: ${format(event.startDate, "MMMM d, yyyy - h:mm a")}`,
+    `Location: ${event.location}`,
+    `Generated ${format(new Date(), "MMMM d, yyyy - h:mm a")}`,
+  ])
+
+  pdf.drawTable(
+    `Attendees (${attendees.length})`,
+    [
+      { header: "In", width: 25, checkbox: true },
+      { header: "Name", width: 135 },
+      { header: "Phone", width: 90 },
+      { header: "Ticket Type", width: 90 },
+      { header: "Ticket Number", width: 80 },
+      { header: "Status", width: 75 },
+    ],
+    attendees.map((attendee) => [
+      "",
+      attendee.booking.name,
+      attendee.booking.phone,
+      attendee.ticketType.name,
+      attendee.ticketNumber,
+      ATTENDEE_STATUS_LABELS[attendee.status],
+    ]),
+  )
+
+  return pdf.save()
+}
@@ -0,0 +1,168 @@
+import { PDFDocument, rgb, StandardFonts, type PDFFont, type RGB } from "pdf-lib"
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89] // A4 size
+const MARGIN = 50
+const ROW_HEIGHT = 20
+
+const BRAND_COLOR = rgb(0.31, 0.27, 0.9)
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1)
+const MUTED_COLOR = rgb(0.5, 0.5, 0.5)
+const RULE_COLOR = rgb(0.85, 0.85, 0.85)
+
+// Tables are laid out across the page width less margins, 495 points
+export interface PdfColumn {
+  header: string
+  width: number
+  align?: "right"
+  checkbox?: boolean // An empty box to tick on paper instead of a value
+}
+
+export const formatPdfAmount = (amount: number) =>
+  `Kshs ${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+// The standard fonts only cover Western European text, anything else would stop the PDF from being written
+const toPdfText = (text: string) => text.replace(/[^\x20-\x7e\xa0-\xff–—‘’“”•…€]/g, "?")
+
+// A branded A4 report: the Events Hive header and a title, then sections drawn top to bottom
+// that carry on over as many pages as they need
+export async function createReportPDF(title: string) {
+  const pdfDoc = await PDFDocument.create()
+  const helveticaFont = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const helveticaBold = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+
+  let page = pdfDoc.addPage(PAGE_SIZE)
+  const { width, height } = page.getSize()
+
+  // Brand header
+  page.drawRectangle({ x: 0, y: height - 80, width, height: 80, color: BRAND_COLOR })
+  page.drawText("Events Hive", { x: MARGIN, y: height - 45, size: 22, font: helveticaBold, color: rgb(1, 1, 1) })
+  page.drawText(toPdfText(title), { x: MARGIN, y: height - 65, size: 12, font: helveticaFont, color: rgb(1, 1, 1) })
+  let y = height - 120
+
+  // Shorten text with an ellipsis until it fits the space it has
+  const fitText = (text: string, font: PDFFont, size: number, maxWidth: number) => {
+    const safeText = toPdfText(text)
+    if (font.widthOfTextAtSize(safeText, size) <= maxWidth) return safeText
+
+    let end = safeText.length
+    while (end > 0 && font.widthOfTextAtSize(`${safeText.slice(0, end)}...`, size) > maxWidth) end--
+    return `${safeText.slice(0, end)}...`
+  }
+
+  const drawText = (
+    text: string,
+    x: number,
+    options: { size?: number; font?: PDFFont; color?: RGB; maxWidth?: number } = {},
+  ) => {
+    const size = options.size ?? 10
+    const font = options.font ?? helveticaFont
+    page.drawText(fitText(text, font, size, options.maxWidth ?? width - MARGIN - x), {
+      x,
+      y,
+      size,
+      font,
+      color: options.color ?? TEXT_COLOR,
+    })
+  }
+
+  const addPage = () => {
+    page = pdfDoc.addPage(PAGE_SIZE)
+    y = height - MARGIN
+  }
+
+  return {
+    // The report's subject in large type, with a line for each detail under it
+    drawHeading(name: string, details: string[]) {
+      drawText(name, MARGIN, { size: 18, font: helveticaBold })
+      y -= 22
+      details.forEach((detail, index) => {
+        const isLast = index === details.length - 1
+        drawText(detail, MARGIN, isLast ? { color: MUTED_COLOR } : { size: 12 })
+        y -= 18
+      })
+      y -= 18
+    },
+
+    // Labelled figures, two to a row
+    drawSummary(title: string, figures: [string, string][]) {
+      const columnWidth = (width - 2 * MARGIN) / 2
+
+      drawText(title, MARGIN, { size: 14, font: helveticaBold })
+      y -= ROW_HEIGHT + 6
+      for (let index = 0; index < figures.length; index += 2) {
+        figures.slice(index, index + 2).forEach(([label, value], column) => {
+          const x = MARGIN + column * columnWidth
+          drawText(label, x, { color: MUTED_COLOR, maxWidth: 105 })
+          drawText(value, x + 110, { font: helveticaBold, maxWidth: columnWidth - 115 })
+        })
+        y -= ROW_HEIGHT
+      }
+      y -= ROW_HEIGHT
+    },
+
+    // A table that carries on over new pages with the header row repeated
+    drawTable(title: string, columns: PdfColumn[], rows: string[][]) {
+      if (y < MARGIN + ROW_HEIGHT * 4) addPage()
+
+      drawText(title, MARGIN, { size: 14, font: helveticaBold })
+      y -= ROW_HEIGHT + 6
+
+      const drawRow = (cells: string[], font: PDFFont, isHeader: boolean) => {
+        let x = MARGIN
+        columns.forEach((column, index) => {
+          if (column.checkbox && !isHeader) {
+            page.drawRectangle({ x, y: y - 2, width: 10, height: 10, borderColor: TEXT_COLOR, borderWidth: 0.75 })
+          } else {
+            const text = fitText(cells[index] ?? "", font, 10, column.width - 8)
+            const offset = column.align === "right" ? column.width - 8 - font.widthOfTextAtSize(text, 10) : 0
+            page.drawText(text, { x: x + offset, y, size: 10, font, color: TEXT_COLOR })
+          }
+          x += column.width
+        })
+
+        page.drawLine({
+          start: { x: MARGIN, y: y - 6 },
+          end: { x: width - MARGIN, y: y - 6 },
+          thickness: 0.5,
+          color: RULE_COLOR,
+        })
+        y -= ROW_HEIGHT
+      }
+
+      const headers = columns.map((column) => column.header)
+      drawRow(headers, helveticaBold, true)
+
+      if (rows.length === 0) {
+        drawText("Nothing to show yet.", MARGIN, { color: MUTED_COLOR })
+        y -= ROW_HEIGHT
+      }
+
+      for (const row of rows) {
+        if (y < MARGIN + ROW_HEIGHT) {
+          addPage()
+          drawRow(headers, helveticaBold, true)
+        }
+        drawRow(row, helveticaFont, false)
+      }
+
+      y -= ROW_HEIGHT
+    },
+
+    // Number the pages, now the count is known, and serialize the PDFDocument to bytes
+    async save() {
+      const pages = pdfDoc.getPages()
+      pages.forEach((pdfPage, index) => {
+        pdfPage.drawText(`Events Hive - Page ${index + 1} of ${pages.length}`, {
+          x: MARGIN,
+          y: MARGIN / 2,
+          size: 8,
+          font: helveticaFont,
+          color: MUTED_COLOR,
+        })
+      })
+
+      const pdfBytes = await pdfDoc.save()
+      return Buffer.from(pdfBytes)
+    },
+  }
+}
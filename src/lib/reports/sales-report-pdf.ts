@@ -0,0 +1,68 @@
+import { format } from "date-fns"
+import { createReportPDF, formatPdfAmount } from "@/lib/reports/pdf-report"
+import type { SalesReport } from "@/lib/reports/sales-report"
+
+export async function generateSalesReportPDF(report: SalesReport): Promise<Buffer> {
+  const pdf = await createReportPDF("Sales Report")
+
+  pdf.drawHeading(report.event.name, [
+    `Date: ${format(report.event.startDate, "MMMM d, yyyy - h:mm a")}`,
+    `Location: ${report.event.location}`,
+    `Generated ${format(report.generatedAt, "MMMM d, yyyy - h:mm a")}`,
+  ])
+
+  pdf.drawSummary("Summary", [
+    ["Gross Revenue", formatPdfAmount(report.totals.grossRevenue)],
+    ["Refunds", formatPdfAmount(report.totals.refunds)],
+    ["Net Revenue", formatPdfAmount(report.totals.netRevenue)],
+    ["Promo Discounts", formatPdfAmount(report.totals.discounts)],
+    ["Bookings", String(report.totals.bookings)],
+    ["Tickets Sold", String(report.totals.ticketsSold)],
+    ["Complimentary", String(report.totals.ticketsComplimentary)],
+    ["Tickets Refunded", String(report.totals.ticketsRefunded)],
+  ])
+
+  pdf.drawTable(
+    "Tickets by Type",
+    [
+      { header: "Ticket Type", width: 115 },
+      { header: "Price", width: 80, align: "right" },
+      { header: "Capacity", width: 55, align: "right" },
+      { header: "Sold", width: 45, align: "right" },
+      { header: "Comp", width: 45, align: "right" },
+      { header: "Refunded", width: 60, align: "right" },
+      { header: "Face Value", width: 95, align: "right" },
+    ],
+    report.ticketTypes.map((ticketType) => [
+      ticketType.name,
+      formatPdfAmount(ticketType.price),
+      String(ticketType.capacity),
+      String(ticketType.sold),
+      String(ticketType.complimentary),
+      String(ticketType.refunded),
+      formatPdfAmount(ticketType.revenue),
+    ]),
+  )
+
+  pdf.drawTable(
+    "Bookings by Day",
+    [
+      { header: "Date", width: 90 },
+      { header: "Bookings", width: 60, align: "right" },
+      { header: "Tickets", width: 55, align: "right" },
+      { header: "Gross", width: 100, align: "right" },
+      { header: "Refunds", width: 90, align: "right" },
+      { header: "Net", width: 100, align: "right" },
+    ],
+    report.days.map((day) => [
+      format(new Date(`${day.date}T00:00:00`), "MMM d, yyyy"),
+      String(day.bookings),
+      String(day.tickets),
+      formatPdfAmount(day.grossRevenue),
+      formatPdfAmount(day.refunds),
+      formatPdfAmount(day.netRevenue),
+    ]),
+  )
+
+  return pdf.save()
+}
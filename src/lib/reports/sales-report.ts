@@ -0,0 +1,185 @@
+import { PrismaClient } from "@prisma/client"
+import { format } from "date-fns"
+import { PAID_STATUSES } from "@/lib/analytics/analytics-service"
+import { notRefunded } from "@/lib/bookings/refund-service"
+import { toCsv } from "@/lib/csv"
+import { toXlsx } from "@/lib/xlsx"
+
+const prisma = new PrismaClient()
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100
+
+// Revenue, refunds and tickets sold for one event, in total, by ticket type and by day.
+// Returns null when the event doesn't exist.
+export async function getSalesReport(eventId: string) {
+  const bookingsWhere = { eventId, status: { in: [...PAID_STATUSES] } }
+
+  const [event, bookings, issued, kept, complimentary] = await Promise.all([
+    prisma.event.findUnique({
+      where: { id: eventId },
+      select: {
+        id: true,
+        name: true,
+        startDate: true,
+        location: true,
+        ticketTypes: {
+          select: { id: true, name: true, price: true, quantity: true },
+          orderBy: { price: "asc" },
+        },
+      },
+    }),
+    prisma.booking.findMany({
+      where: bookingsWhere,
+      select: {
+        createdAt: true,
+        totalAmount: true,
+        refundedAmount: true,
+        discountAmount: true,
+        _count: { select: { tickets: { where: notRefunded } } },
+      },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.ticket.groupBy({
+      by: ["ticketTypeId"],
+      where: { booking: bookingsWhere },
+      _count: { _all: true },
+    }),
+    prisma.ticket.groupBy({
+      by: ["ticketTypeId"],
+      where: { ...notRefunded, booking: bookingsWhere },
+      _count: { _all: true },
+    }),
+    prisma.ticket.groupBy({
+      by: ["ticketTypeId"],
+      where: { ...notRefunded, booking: { ...bookingsWhere, issuedById: { not: null } } },
+      _count: { _all: true },
+    }),
+  ])
+
+  if (!event) {
+    return null
+  }
+
+  const issuedByTicketType = new Map(issued.map((group) => [group.ticketTypeId, group._count._all]))
+  const keptByTicketType = new Map(kept.map((group) => [group.ticketTypeId, group._count._all]))
+  const complimentaryByTicketType = new Map(complimentary.map((group) => [group.ticketTypeId, group._count._all]))
+
+  // Face value of the paid-for tickets still held. Promo discounts are taken off whole bookings, so
+  // they only show up in the totals.
+  const ticketTypes = event.ticketTypes.map((ticketType) => {
+    const sold = keptByTicketType.get(ticketType.id) ?? 0
+    const refunded = (issuedByTicketType.get(ticketType.id) ?? 0) - sold
+    const complimentary = complimentaryByTicketType.get(ticketType.id) ?? 0
+
+    return {
+      name: ticketType.name,
+      price: ticketType.price,
+      capacity: ticketType.quantity,
+      sold,
+      complimentary,
+      refunded,
+      revenue: roundAmount((sold - complimentary) * ticketType.price),
+    }
+  })
+
+  // Only days that had bookings, so long-running sales don't fill the report with zeros
+  const days = new Map<string, { bookings: number; tickets: number; grossRevenue: number; refunds: number }>()
+  for (const booking of bookings) {
+    const date = format(booking.createdAt, "yyyy-MM-dd")
+    const totals = days.get(date) ?? { bookings: 0, tickets: 0, grossRevenue: 0, refunds: 0 }
+    totals.bookings += 1
+    totals.tickets += booking._count.tickets
+    totals.grossRevenue += booking.totalAmount
+    totals.refunds += booking.refundedAmount ?? 0
+    days.set(date, totals)
+  }
+
+  const grossRevenue = bookings.reduce((total, booking) => total + booking.totalAmount, 0)
+  const refunds = bookings.reduce((total, booking) => total + (booking.refundedAmount ?? 0), 0)
+  const discounts = bookings.reduce((total, booking) => total + (booking.discountAmount ?? 0), 0)
+
+  return {
+    event: {
+      id: event.id,
+      name: event.name,
+      startDate: event.startDate,
+      location: event.location,
+    },
+    generatedAt: new Date(),
+    totals: {
+      grossRevenue: roundAmount(grossRevenue),
+      refunds: roundAmount(refunds),
+      netRevenue: roundAmount(grossRevenue - refunds),
+      discounts: roundAmount(discounts),
+      bookings: bookings.length,
+      ticketsSold: ticketTypes.reduce((total, ticketType) => total + ticketType.sold, 0),
+      ticketsComplimentary: ticketTypes.reduce((total, ticketType) => total + ticketType.complimentary, 0),
+      ticketsRefunded: ticketTypes.reduce((total, ticketType) => total + ticketType.refunded, 0),
+    },
+    ticketTypes,
+    days: [...days].map(([date, totals]) => ({
+      date,
+      bookings: totals.bookings,
+      tickets: totals.tickets,
+      grossRevenue: roundAmount(totals.grossRevenue),
+      refunds: roundAmount(totals.refunds),
+      netRevenue: roundAmount(totals.grossRevenue - totals.refunds),
+    })),
+  }
+}
+
+export type SalesReport = NonNullable<Awaited<ReturnType<typeof getSalesReport>>>
+
+// The report's three tables, shared by every export format
+export function getSalesReportTables(report: SalesReport) {
+  return [
+    {
+      name: "Summary",
+      headers: ["Figure", "Value"],
+      rows: [
+        ["Event", report.event.name],
+        ["Event Date", report.event.startDate],
+        ["Location", report.event.location],
+        ["Gross Revenue (Kshs)", report.totals.grossRevenue],
+        ["Refunds (Kshs)", report.totals.refunds],
+        ["Net Revenue (Kshs)", report.totals.netRevenue],
+        ["Promo Discounts (Kshs)", report.totals.discounts],
+        ["Bookings", report.totals.bookings],
+        ["Tickets Sold", report.totals.ticketsSold],
+        ["Complimentary Tickets", report.totals.ticketsComplimentary],
+        ["Tickets Refunded", report.totals.ticketsRefunded],
+        ["Generated At", report.generatedAt],
+      ],
+    },
+    {
+      name: "Tickets by Type",
+      headers: ["Ticket Type", "Price (Kshs)", "Capacity", "Sold", "Complimentary", "Refunded", "Face Value Revenue (Kshs)"],
+      rows: report.ticketTypes.map((ticketType) => [
+        ticketType.name,
+        ticketType.price,
+        ticketType.capacity,
+        ticketType.sold,
+        ticketType.complimentary,
+        ticketType.refunded,
+        ticketType.revenue,
+      ]),
+    },
+    {
+      name: "Bookings by Day",
+      headers: ["Date", "Bookings", "Tickets", "Gross Revenue (Kshs)", "Refunds (Kshs)", "Net Revenue (Kshs)"],
+      rows: report.days.map((day) => [day.date, day.bookings, day.tickets, day.grossRevenue, day.refunds, day.netRevenue]),
+    },
+  ]
+}
+
+// One CSV document with each table in turn, separated by a blank line
+export function salesReportToCsv(report: SalesReport) {
+  return getSalesReportTables(report)
+    .map((table) => toCsv([table.name], []) + "\r\n" + toCsv(table.headers, table.rows))
+    .join("\r\n\r\n")
+}
+
+// A workbook with a sheet for each table
+export function salesReportToXlsx(report: SalesReport) {
+  return toXlsx(getSalesReportTables(report))
+}
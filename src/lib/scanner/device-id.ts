@@ -0,0 +1,15 @@
+// Each browser that scans tickets keeps a random ID, recorded with its scans so disputes can be
+// traced back to the device at the door
+
+const STORAGE_KEY = "events-hive-scanner-device"
+
+export function getScannerDeviceId() {
+  let deviceId = localStorage.getItem(STORAGE_KEY)
+
+  if (!deviceId) {
+    deviceId = crypto.randomUUID()
+    localStorage.setItem(STORAGE_KEY, deviceId)
+  }
+
+  return deviceId
+}
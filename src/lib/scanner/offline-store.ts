@@ -0,0 +1,132 @@
+// Browser storage for the ticket scanner, so doors can stay open while the venue has no connection.
+// The downloaded ticket list lives in "manifests", one per event, and check-ins made offline wait
+// in "checkIns" until they can be sent to the server.
+
+const DB_NAME = "events-hive-scanner"
+const DB_VERSION = 1
+
+export interface ManifestTicket {
+  id: string
+  ticketNumber: string
+  ticketType: string
+  attendee: string
+  usedAt: string | null
+}
+
+export interface OfflineManifest {
+  eventId: string
+  generatedAt: string
+  tickets: ManifestTicket[]
+  lastSyncedAt: string
+}
+
+export interface QueuedCheckIn {
+  id?: number
+  eventId: string
+  ticketId: string
+  scannedAt: string
+  result?: "ALREADY_USED" // Turned away, queued only for the scan history
+}
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      db.createObjectStore("manifests", { keyPath: "eventId" })
+      const checkIns = db.createObjectStore("checkIns", { keyPath: "id", autoIncrement: true })
+      checkIns.createIndex("eventId", "eventId")
+    }
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Run some work in one transaction and resolve with its result once the transaction commits
+async function withTransaction<T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction, setResult: (result: T) => void) => void,
+) {
+  const db = await openDatabase()
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode)
+    let result: T
+
+    transaction.oncomplete = () => {
+      db.close()
+      resolve(result)
+    }
+    transaction.onerror = transaction.onabort = () => {
+      db.close()
+      reject(transaction.error ?? new Error("Scanner storage transaction was aborted"))
+    }
+
+    work(transaction, (value) => {
+      result = value
+    })
+  })
+}
+
+export function getManifest(eventId: string) {
+  return withTransaction<OfflineManifest | undefined>(["manifests"], "readonly", (transaction, setResult) => {
+    const request = transaction.objectStore("manifests").get(eventId)
+    request.onsuccess = () => setResult(request.result)
+  })
+}
+
+export function saveManifest(manifest: OfflineManifest) {
+  return withTransaction<void>(["manifests"], "readwrite", (transaction) => {
+    transaction.objectStore("manifests").put(manifest)
+  })
+}
+
+export function getQueuedCheckIns(eventId: string) {
+  return withTransaction<QueuedCheckIn[]>(["checkIns"], "readonly", (transaction, setResult) => {
+    const request = transaction.objectStore("checkIns").index("eventId").getAll(eventId)
+    request.onsuccess = () => setResult(request.result)
+  })
+}
+
+export function removeQueuedCheckIns(ids: number[]) {
+  return withTransaction<void>(["checkIns"], "readwrite", (transaction) => {
+    const store = transaction.objectStore("checkIns")
+    for (const id of ids) {
+      store.delete(id)
+    }
+  })
+}
+
+// Mark a ticket as used in the downloaded list and queue the check-in for the server, together,
+// so the same ticket can't get in twice on this device. Resolves false if it was already used,
+// queueing the attempt anyway so it shows up in the ticket's scan history.
+export function recordOfflineCheckIn(checkIn: Omit<QueuedCheckIn, "id">) {
+  return withTransaction<boolean>(["manifests", "checkIns"], "readwrite", (transaction, setResult) => {
+    const manifests = transaction.objectStore("manifests")
+    const request = manifests.get(checkIn.eventId)
+
+    request.onsuccess = () => {
+      const manifest: OfflineManifest | undefined = request.result
+      const ticket = manifest?.tickets.find((ticket) => ticket.id === checkIn.ticketId)
+
+      if (!manifest || !ticket) {
+        transaction.abort()
+        return
+      }
+
+      if (ticket.usedAt) {
+        transaction.objectStore("checkIns").add({ ...checkIn, result: "ALREADY_USED" })
+        setResult(false)
+        return
+      }
+
+      ticket.usedAt = checkIn.scannedAt
+      manifests.put(manifest)
+      transaction.objectStore("checkIns").add(checkIn)
+      setResult(true)
+    }
+  })
+}
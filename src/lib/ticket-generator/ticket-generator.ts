@@ -1,15 +1,18 @@
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib"
 import QRCode from "qrcode"
 import { format } from "date-fns"
+import type { EntryPolicy } from "@prisma/client"
+import { DEFAULT_ENTRY_POLICY, ENTRY_POLICY_NOTES } from "@/lib/bookings/entry-policy"
 
 interface TicketData {
-  bookingId: string
+  token: string
   eventName: string
   eventDate: Date
   eventLocation: string
   attendeeName: string
   ticketType: string
   ticketNumber: string
+  entryPolicy: EntryPolicy | null
 }
 
 export async function generateTicketPDF(ticketData: TicketData): Promise<Buffer> {
@@ -25,14 +28,8 @@ export async function generateTicketPDF(ticketData: TicketData): Promise<Buffer>
   const { width, height } = page.getSize()
   const margin = 50
 
-  // Generate QR code
-  const qrCodeData = JSON.stringify({
-    bookingId: ticketData.bookingId,
-    ticketNumber: ticketData.ticketNumber,
-    eventName: ticketData.eventName,
-  })
-
-  const qrCodeDataUrl = await QRCode.toDataURL(qrCodeData, {
+  // Generate QR code from the signed ticket code
+  const qrCodeDataUrl = await QRCode.toDataURL(ticketData.token, {
     errorCorrectionLevel: "H",
     margin: 1,
     width: 200,
@@ -120,7 +117,7 @@ export async function generateTicketPDF(ticketData: TicketData): Promise<Buffer>
   })
 
   // Add footer
-  page.drawText("This ticket is valid for one-time entry only. Please present this ticket at the event entrance.", {
+  page.drawText(ENTRY_POLICY_NOTES[ticketData.entryPolicy ?? DEFAULT_ENTRY_POLICY], {
     x: margin + 20,
     y: height - 320,
     size: 10,
@@ -128,6 +125,14 @@ export async function generateTicketPDF(ticketData: TicketData): Promise<Buffer>
     color: rgb(0.5, 0.5, 0.5),
   })
 
+  page.drawText("Please present this ticket at the event entrance.", {
+    x: margin + 20,
+    y: height - 334,
+    size: 10,
+    font: helveticaFont,
+    color: rgb(0.5, 0.5, 0.5),
+  })
+
   // Serialize the PDFDocument to bytes
   const pdfBytes = await pdfDoc.save()
   return Buffer.from(pdfBytes)
@@ -0,0 +1,110 @@
+import { beforeAll, describe, expect, it } from "vitest"
+import {
+  generateTicketSigningKeys,
+  parseTicketToken,
+  signTicketManifest,
+  signTicketToken,
+  verifyTicketManifest,
+  verifyTicketToken,
+} from "@/lib/ticket-generator/ticket-token"
+
+const ticketId = "65f0c0ffee0000000000a001"
+const eventId = "65f0c0ffee0000000000e001"
+
+let publicKey: string
+
+beforeAll(async () => {
+  const keys = await generateTicketSigningKeys()
+  process.env.TICKET_SIGNING_PRIVATE_KEY = keys.privateKey
+  publicKey = keys.publicKey
+})
+
+// Swap one character of the signature for another, keeping it valid base64url
+function tamper(token: string) {
+  const last = token.at(-2) === "A" ? "B" : "A"
+  return token.slice(0, -2) + last + token.slice(-1)
+}
+
+describe("signTicketToken and verifyTicketToken", () => {
+  it("reads back the ticket and event from a code it signed", async () => {
+    const token = await signTicketToken({ ticketId, eventId })
+
+    expect(token).toMatch(new RegExp(`^EH1\\.${ticketId}\\.${eventId}\\.[A-Za-z0-9_-]+$`))
+    expect(await verifyTicketToken(token, publicKey)).toEqual({ ticketId, eventId })
+  })
+
+  it("ignores whitespace a scanner adds around the code", async () => {
+    const token = await signTicketToken({ ticketId, eventId })
+
+    expect(await verifyTicketToken(` ${token}\n`, publicKey)).toEqual({ ticketId, eventId })
+  })
+
+  it("turns away a code whose signature was changed", async () => {
+    const token = await signTicketToken({ ticketId, eventId })
+
+    expect(await verifyTicketToken(tamper(token), publicKey)).toBeNull()
+  })
+
+  it("turns away a genuine signature moved onto another ticket", async () => {
+    const token = await signTicketToken({ ticketId, eventId })
+    const otherTicket = token.replace(ticketId, "65f0c0ffee0000000000a002")
+
+    expect(await verifyTicketToken(otherTicket, publicKey)).toBeNull()
+  })
+
+  it("turns away a code signed with another key", async () => {
+    const token = await signTicketToken({ ticketId, eventId })
+    const otherKeys = await generateTicketSigningKeys()
+
+    expect(await verifyTicketToken(token, otherKeys.publicKey)).toBeNull()
+  })
+
+  it("turns away a signature that isn't base64url", async () => {
+    expect(await verifyTicketToken(`EH1.${ticketId}.${eventId}.%%%`, publicKey)).toBeNull()
+  })
+
+  it("throws instead of answering when there's no public key to check with", async () => {
+    const token = await signTicketToken({ ticketId, eventId })
+
+    await expect(verifyTicketToken(token, "")).rejects.toThrow("NEXT_PUBLIC_TICKET_SIGNING_PUBLIC_KEY is not set")
+  })
+})
+
+describe("parseTicketToken", () => {
+  it("splits a code into its parts", () => {
+    expect(parseTicketToken(`EH1.${ticketId}.${eventId}.c2ln`)).toEqual({ ticketId, eventId, signature: "c2ln" })
+  })
+
+  it.each([
+    ["a ticket number", "TKT-AB12CD34"],
+    ["another version", `EH2.${ticketId}.${eventId}.c2ln`],
+    ["a malformed id", `EH1.not-an-id.${eventId}.c2ln`],
+    ["a missing signature", `EH1.${ticketId}.${eventId}.`],
+    ["extra parts", `EH1.${ticketId}.${eventId}.c2ln.extra`],
+  ])("returns null for %s", (_, token) => {
+    expect(parseTicketToken(token)).toBeNull()
+  })
+})
+
+describe("signTicketManifest and verifyTicketManifest", () => {
+  const manifest = JSON.stringify({ eventId, tickets: [{ id: ticketId, usedAt: null }] })
+
+  it("accepts the ticket list it signed", async () => {
+    const signature = await signTicketManifest(manifest)
+
+    expect(await verifyTicketManifest(manifest, signature, publicKey)).toBe(true)
+  })
+
+  it("rejects a ticket list changed after signing", async () => {
+    const signature = await signTicketManifest(manifest)
+    const changed = manifest.replace("null", JSON.stringify("2026-05-01T18:00:00.000Z"))
+
+    expect(await verifyTicketManifest(changed, signature, publicKey)).toBe(false)
+  })
+
+  it("doesn't take a ticket code's signature for the list's", async () => {
+    const token = await signTicketToken({ ticketId, eventId })
+
+    expect(await verifyTicketManifest(manifest, token.split(".")[3], publicKey)).toBe(false)
+  })
+})
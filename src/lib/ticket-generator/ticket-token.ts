@@ -0,0 +1,142 @@
+// Signed ticket codes, printed as the QR on every ticket:
+//
+//   EH1.<ticketId>.<eventId>.<signature>
+//
+// The signature is an Ed25519 signature over everything before it. Only the server holds the
+// private key, but anyone with the public key can tell a genuine code from a forged one, so the
+// scanner checks codes before it ever reaches the network. Works in Node and the browser.
+
+import { isObjectId } from "@/lib/object-id"
+
+const TOKEN_VERSION = "EH1"
+
+export interface TicketTokenPayload {
+  ticketId: string
+  eventId: string
+}
+
+function toBase64Url(bytes: ArrayBuffer) {
+  let binary = ""
+  for (const byte of new Uint8Array(bytes)) {
+    binary += String.fromCharCode(byte)
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+function getSignedPart({ ticketId, eventId }: TicketTokenPayload) {
+  return `${TOKEN_VERSION}.${ticketId}.${eventId}`
+}
+
+// Split a scanned code into its parts without checking the signature.
+// Returns null for anything that isn't a ticket code at all.
+export function parseTicketToken(token: string) {
+  const parts = token.trim().split(".")
+
+  if (
+    parts.length !== 4 ||
+    parts[0] !== TOKEN_VERSION ||
+    !isObjectId(parts[1]) ||
+    !isObjectId(parts[2]) ||
+    !parts[3]
+  ) {
+    return null
+  }
+
+  return { ticketId: parts[1], eventId: parts[2], signature: parts[3] }
+}
+
+let privateKey: Promise<CryptoKey> | undefined
+
+function getPrivateKey() {
+  const pkcs8 = process.env.TICKET_SIGNING_PRIVATE_KEY
+
+  if (!pkcs8) {
+    throw new Error("TICKET_SIGNING_PRIVATE_KEY is not set")
+  }
+
+  privateKey ??= crypto.subtle.importKey("pkcs8", fromBase64Url(pkcs8), { name: "Ed25519" }, false, ["sign"])
+  return privateKey
+}
+
+// Server only: produce the code printed on a ticket
+export async function signTicketToken(payload: TicketTokenPayload) {
+  const signedPart = getSignedPart(payload)
+  const signature = await crypto.subtle.sign("Ed25519", await getPrivateKey(), new TextEncoder().encode(signedPart))
+
+  return `${signedPart}.${toBase64Url(signature)}`
+}
+
+function importPublicKey(publicKey: string | undefined) {
+  if (!publicKey) {
+    throw new Error("NEXT_PUBLIC_TICKET_SIGNING_PUBLIC_KEY is not set")
+  }
+
+  return crypto.subtle.importKey("raw", fromBase64Url(publicKey), { name: "Ed25519" }, false, ["verify"])
+}
+
+async function verifySignature(key: CryptoKey, signature: string, data: string) {
+  let signatureBytes
+  try {
+    signatureBytes = fromBase64Url(signature)
+  } catch {
+    return false
+  }
+
+  return crypto.subtle.verify("Ed25519", key, signatureBytes, new TextEncoder().encode(data))
+}
+
+// Check a scanned code, returning what it names or null if it is forged or damaged.
+// Throws if the public key is missing or the runtime can't do Ed25519, so callers can
+// tell "not genuine" apart from "couldn't check".
+export async function verifyTicketToken(
+  token: string,
+  publicKey = process.env.NEXT_PUBLIC_TICKET_SIGNING_PUBLIC_KEY,
+): Promise<TicketTokenPayload | null> {
+  const key = await importPublicKey(publicKey)
+
+  const parsed = parseTicketToken(token)
+
+  if (!parsed) {
+    return null
+  }
+
+  const payload = { ticketId: parsed.ticketId, eventId: parsed.eventId }
+  const valid = await verifySignature(key, parsed.signature, getSignedPart(payload))
+
+  return valid ? payload : null
+}
+
+// Server only: sign the ticket list the scanner downloads for checking tickets offline
+export async function signTicketManifest(manifest: string) {
+  const signature = await crypto.subtle.sign("Ed25519", await getPrivateKey(), new TextEncoder().encode(manifest))
+
+  return toBase64Url(signature)
+}
+
+// Check a downloaded ticket list came from the server untouched. Throws like verifyTicketToken.
+export async function verifyTicketManifest(
+  manifest: string,
+  signature: string,
+  publicKey = process.env.NEXT_PUBLIC_TICKET_SIGNING_PUBLIC_KEY,
+) {
+  return verifySignature(await importPublicKey(publicKey), signature, manifest)
+}
+
+// Used by scripts/generate-ticket-keys.ts
+export async function generateTicketSigningKeys() {
+  const keyPair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"])) as CryptoKeyPair
+
+  return {
+    privateKey: toBase64Url(await crypto.subtle.exportKey("pkcs8", keyPair.privateKey)),
+    publicKey: toBase64Url(await crypto.subtle.exportKey("raw", keyPair.publicKey)),
+  }
+}
@@ -0,0 +1,92 @@
+import { inflateRawSync } from "zlib"
+import { describe, expect, it } from "vitest"
+import { toXlsx } from "@/lib/xlsx"
+
+// Read the files back out of the zip archive, by walking its local file headers
+function unzip(archive: Buffer) {
+  const files = new Map<string, string>()
+  let offset = 0
+
+  while (archive.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = archive.readUInt32LE(offset + 18)
+    const size = archive.readUInt32LE(offset + 22)
+    const nameLength = archive.readUInt16LE(offset + 26)
+    const name = archive.toString("utf8", offset + 30, offset + 30 + nameLength)
+    const dataStart = offset + 30 + nameLength
+    const content = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize))
+
+    expect(content.length).toBe(size)
+    files.set(name, content.toString("utf8"))
+    offset = dataStart + compressedSize
+  }
+
+  return files
+}
+
+describe("toXlsx", () => {
+  it("packs a workbook with one worksheet per sheet", () => {
+    const files = unzip(
+      toXlsx([
+        { name: "Summary", headers: ["Total"], rows: [[1]] },
+        { name: "Ticket types", headers: ["Name"], rows: [["Regular"]] },
+      ]),
+    )
+
+    expect([...files.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+    ])
+    expect(files.get("xl/workbook.xml")).toContain('<sheet name="Ticket types" sheetId="2" r:id="rId2"/>')
+    expect(files.get("[Content_Types].xml")).toContain('PartName="/xl/worksheets/sheet2.xml"')
+    expect(files.get("xl/_rels/workbook.xml.rels")).toContain('Id="rId3"')
+  })
+
+  it("writes numbers, booleans and dates as typed cells under a bold header", () => {
+    const sheet = unzip(
+      toXlsx([
+        {
+          name: "Sales",
+          headers: ["Paid", "Refunded", "Sold at"],
+          rows: [[1500.5, true, new Date(2026, 0, 1, 12, 0)]],
+        },
+      ]),
+    ).get("xl/worksheets/sheet1.xml")
+
+    expect(sheet).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Paid</t></is></c>')
+    expect(sheet).toContain('<c r="A2"><v>1500.5</v></c>')
+    expect(sheet).toContain('<c r="B2" t="b"><v>1</v></c>')
+    // Noon on 1 January 2026 in Excel's day count
+    expect(sheet).toContain('<c r="C2" s="2"><v>46023.5</v></c>')
+  })
+
+  it("escapes text and leaves empty values out", () => {
+    const sheet = unzip(
+      toXlsx([{ name: "Guests", headers: ["Name", "Notes"], rows: [['Tom & "Jerry" <VIP>\u0007', null]] }]),
+    ).get("xl/worksheets/sheet1.xml")
+
+    expect(sheet).toContain("Tom &amp; &quot;Jerry&quot; &lt;VIP&gt;</t>")
+    expect(sheet).not.toContain('r="B2"')
+  })
+
+  it("names columns past Z the way Excel does", () => {
+    const headers = Array.from({ length: 28 }, (_, index) => `Column ${index + 1}`)
+    const sheet = unzip(toXlsx([{ name: "Wide", headers, rows: [] }])).get("xl/worksheets/sheet1.xml")
+
+    expect(sheet).toContain('r="Z1"')
+    expect(sheet).toContain('r="AA1"')
+    expect(sheet).toContain('r="AB1"')
+  })
+
+  it("makes sheet names Excel accepts", () => {
+    const workbook = unzip(toXlsx([{ name: "Sales: 2026/05 [draft] and the rest of it", headers: [], rows: [] }])).get(
+      "xl/workbook.xml",
+    )
+
+    expect(workbook).toContain('<sheet name="Sales  2026 05  draft  and the "')
+  })
+})
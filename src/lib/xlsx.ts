@@ -0,0 +1,196 @@
+import { deflateRawSync } from "zlib"
+
+type XlsxValue = string | number | boolean | Date | null | undefined
+
+export interface XlsxSheet {
+  name: string
+  headers: string[]
+  rows: XlsxValue[][]
+}
+
+// Cell styles defined in styles.xml, by position
+const HEADER_STYLE = 1
+const DATE_STYLE = 2
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>{{sheets}}</Types>`
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="22" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs></styleSheet>`
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+function crc32(data: Buffer) {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// A zip archive of the given files, which is all an XLSX workbook is
+function zip(files: { name: string; content: string }[]) {
+  const entries: Buffer[] = []
+  const directory: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8")
+    const data = Buffer.from(file.content, "utf8")
+    const compressed = deflateRawSync(data)
+    const crc = crc32(data)
+
+    const header = Buffer.alloc(30)
+    header.writeUInt32LE(0x04034b50, 0)
+    header.writeUInt16LE(20, 4) // Version needed to extract
+    header.writeUInt16LE(0x0800, 6) // UTF-8 file names
+    header.writeUInt16LE(8, 8) // Deflate
+    header.writeUInt16LE(0x21, 12) // Modified 1980-01-01, file times don't matter here
+    header.writeUInt32LE(crc, 14)
+    header.writeUInt32LE(compressed.length, 18)
+    header.writeUInt32LE(data.length, 22)
+    header.writeUInt16LE(name.length, 26)
+    entries.push(header, name, compressed)
+
+    const record = Buffer.alloc(46)
+    record.writeUInt32LE(0x02014b50, 0)
+    record.writeUInt16LE(20, 4) // Version made by
+    record.writeUInt16LE(20, 6)
+    record.writeUInt16LE(0x0800, 8)
+    record.writeUInt16LE(8, 10)
+    record.writeUInt16LE(0x21, 14)
+    record.writeUInt32LE(crc, 16)
+    record.writeUInt32LE(compressed.length, 20)
+    record.writeUInt32LE(data.length, 24)
+    record.writeUInt16LE(name.length, 28)
+    record.writeUInt32LE(offset, 42)
+    directory.push(record, name)
+
+    offset += header.length + name.length + compressed.length
+  }
+
+  const directorySize = directory.reduce((total, part) => total + part.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(directorySize, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...entries, ...directory, end])
+}
+
+function escapeXml(text: string) {
+  return (
+    text
+      // Control characters aren't allowed in XML at all
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+  )
+}
+
+// Column letters as Excel names them: A to Z, then AA, AB and so on
+function columnName(index: number): string {
+  return (index >= 26 ? columnName(Math.floor(index / 26) - 1) : "") + String.fromCharCode(65 + (index % 26))
+}
+
+function toCell(value: XlsxValue, reference: string, style?: number) {
+  const styleAttribute = style ? ` s="${style}"` : ""
+
+  if (value === null || value === undefined || value === "") {
+    return ""
+  }
+
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${reference}"${styleAttribute}><v>${value}</v></c>` : ""
+  }
+
+  if (typeof value === "boolean") {
+    return `<c r="${reference}" t="b"${styleAttribute}><v>${value ? 1 : 0}</v></c>`
+  }
+
+  if (value instanceof Date) {
+    // Excel counts days from 1899-12-30, in the workbook's local time
+    const serial = (value.getTime() - value.getTimezoneOffset() * 60000) / 86400000 + 25569
+    return `<c r="${reference}" s="${DATE_STYLE}"><v>${serial}</v></c>`
+  }
+
+  return `<c r="${reference}" t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+}
+
+function toWorksheet(sheet: XlsxSheet) {
+  const rows = [sheet.headers, ...sheet.rows]
+
+  // Size columns to their longest value, within reason
+  const widths = sheet.headers.map((_, column) =>
+    Math.min(60, Math.max(10, ...rows.map((row) => (row[column] instanceof Date ? 18 : String(row[column] ?? "").length + 2)))),
+  )
+
+  const cols = widths
+    .map((width, column) => `<col min="${column + 1}" max="${column + 1}" width="${width}" customWidth="1"/>`)
+    .join("")
+  const sheetData = rows
+    .map((row, index) => {
+      const cells = row
+        .map((value, column) => toCell(value, `${columnName(column)}${index + 1}`, index === 0 ? HEADER_STYLE : undefined))
+        .join("")
+      return `<row r="${index + 1}">${cells}</row>`
+    })
+    .join("")
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><cols>${cols}</cols><sheetData>${sheetData}</sheetData></worksheet>`
+}
+
+// Sheet names are limited to 31 characters and can't contain some punctuation
+function toSheetName(name: string) {
+  return name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet"
+}
+
+// Build an XLSX workbook with one sheet per table, each starting with a bold, frozen header row
+export function toXlsx(sheets: XlsxSheet[]) {
+  const workbookSheets = sheets
+    .map((sheet, index) => `<sheet name="${escapeXml(toSheetName(sheet.name))}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+    .join("")
+  const workbookRels = sheets
+    .map(
+      (_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`,
+    )
+    .join("")
+  const sheetTypes = sheets
+    .map(
+      (_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+    )
+    .join("")
+
+  return zip([
+    { name: "[Content_Types].xml", content: CONTENT_TYPES.replace("{{sheets}}", sheetTypes) },
+    { name: "_rels/.rels", content: ROOT_RELS },
+    {
+      name: "xl/workbook.xml",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${workbookSheets}</sheets></workbook>`,
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${workbookRels}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    },
+    { name: "xl/styles.xml", content: STYLES },
+    ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, content: toWorksheet(sheet) })),
+  ])
+}
@@ -1,5 +1,7 @@
 // src/types/event.ts
 
+import type { EventCategory } from "@prisma/client"
+
 /**
  * Main Event interface defining the structure of event objects
  */
@@ -12,7 +14,8 @@ export interface Event {
     location: string;
     imageUrl: string;
     isPublished: boolean;
-    category: string;
+    category: EventCategory | null;
+    tags: string[];
     capacity: number;
     creator: {
       id: string;
@@ -38,6 +41,7 @@ export interface Event {
     eventId: string;
     availableUntil?: string;
     salesStartDate?: string;
+    rolloverToId?: string;
   }
   
   /**
@@ -51,7 +55,8 @@ export interface Event {
     location: string;
     imageUrl?: string;
     isPublished: boolean;
-    category: string;
+    category?: EventCategory;
+    tags?: string[];
     capacity: number;
     ticketTypes?: TicketTypeFormData[];
   }
@@ -67,13 +72,15 @@ export interface Event {
     description?: string;
     availableUntil?: string | Date;
     salesStartDate?: string | Date;
+    rolloverToId?: string;
   }
   
   /**
    * Type for event filtering options
    */
   export interface EventFilters {
-    category?: string;
+    category?: EventCategory;
+    tags?: string[];
     startDate?: string | Date;
     endDate?: string | Date;
     priceRange?: {